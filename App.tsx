@@ -3,26 +3,49 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef } from 'react';
-import { GeneratedImage, ComplexityLevel, VisualStyle, Language, SearchResultItem, AspectRatio, ImageGenerationModel, ImageSize, AnalysisResult } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GeneratedImage, ComplexityLevel, VisualStyle, Language, SearchResultItem, AspectRatio, ImageGenerationModel, ImageSize, AnalysisResult, ResearchRequest, ResearchResult, StylePreset, BrandKit, AudienceProfile, ProgressEvent, PriceTable, UsageBudget, UsageRecord, SourcePolicy } from './types';
 import { 
-  researchTopicForPrompt, 
-  generateInfographicImage, 
   editInfographicImage,
   analyzeImageWithGemini,
   transcribeAudio,
-  generateSpeech
+  generateSpeech,
+  getProviderName
 } from './services/geminiService';
+import { loadImageHistory, saveImage, clearImageHistory, loadStylePresets, saveStylePreset, deleteStylePreset, loadAudienceProfiles, saveAudienceProfile, deleteAudienceProfile, loadSetting, saveSetting, loadUsageRecords, saveUsageRecord, clearUsageRecords } from './services/storageService';
+import { STYLE_PRESET_PREFIX } from './services/stylePresetService';
+import { AUDIENCE_PROFILE_PREFIX } from './services/audienceProfileService';
+import { BRAND_KIT_SETTING, isBrandKitConfigured } from './services/brandService';
+import { createI18n, detectUiLanguage, isLanguage, LANGUAGES, NATIVE_LANGUAGE_NAMES, UI_LANGUAGE_SETTING } from './services/i18nService';
+import { buildPdfHandout, buildPptxDeck, downloadBlob } from './services/exportService';
+import { getErrorMessage, isCancelled, ServiceError } from './services/errors';
+import { MessageKey } from './locales/en';
+import { createImageId, renderPlan, renderPlanVariants, researchPlan, translateInfographic } from './services/infographicPipeline';
+import { createProgressTracker, ProgressTracker } from './services/progressService';
+import { CACHE_BYPASS_SETTING, setCacheBypass, trimCache } from './services/cacheService';
+import { DEFAULT_SOURCE_POLICY, isSourcePolicyActive, SOURCE_POLICY_SETTING } from './services/sourceService';
+import { DEFAULT_BUDGET, DEFAULT_PRICE_TABLE, estimateRunCost, getSessionCost, mergePriceTable, setPriceTable, subscribeToUsage, USAGE_BUDGET_SETTING, USAGE_PRICES_SETTING, wouldExceedBudget } from './services/usageService';
 import Infographic from './components/Infographic';
 import Loading from './components/Loading';
 import IntroScreen from './components/IntroScreen';
 import SearchResults from './components/SearchResults';
 import ChatBot from './components/ChatBot';
+import PlanReview from './components/PlanReview';
+import BatchPanel from './components/BatchPanel';
+import VariantPicker from './components/VariantPicker';
+import VersionTree from './components/VersionTree';
+import StylePresetManager from './components/StylePresetManager';
+import AudienceProfileManager from './components/AudienceProfileManager';
+import BrandKitPanel from './components/BrandKitPanel';
+import UsageDashboard from './components/UsageDashboard';
+import SourcePolicyPanel from './components/SourcePolicyPanel';
+import { I18nProvider } from './components/I18nProvider';
 import { 
   Search, AlertCircle, History, GraduationCap, Palette, Microscope, 
   Atom, Compass, Globe, Sun, Moon, Key, CreditCard, ExternalLink, 
   DollarSign, Layout, Cpu, Image as ImageIcon, X, Wand2, FileSearch, 
-  Layers, Mic, MicOff, Volume2 
+  Layers, Mic, MicOff, Volume2, Trash2, ClipboardCheck, ListChecks, Grid2x2, 
+  CheckSquare, FileText, Presentation, Loader2, SlidersHorizontal, Stamp, Languages, Coins, Database, ShieldCheck 
 } from 'lucide-react';
 
 const App: React.FC = () => {
@@ -35,14 +58,40 @@ const App: React.FC = () => {
   const [complexityLevel, setComplexityLevel] = useState<ComplexityLevel>('High School');
   const [visualStyle, setVisualStyle] = useState<VisualStyle>('Default');
   const [language, setLanguage] = useState<Language>('English');
+  const [uiLanguage, setUiLanguage] = useState<Language>(detectUiLanguage);
   
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [loadingStep, setLoadingStep] = useState<number>(0);
   const [loadingFacts, setLoadingFacts] = useState<string[]>([]);
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
   const [error, setError] = useState<string | null>(null);
   
   const [imageHistory, setImageHistory] = useState<GeneratedImage[]>([]);
+  const [reviewPlan, setReviewPlan] = useState(false);
+  const [cacheBypass, setCacheBypassState] = useState(false);
+  const [pendingPlan, setPendingPlan] = useState<{ request: ResearchRequest, research: ResearchResult } | null>(null);
+  const [showBatch, setShowBatch] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [pendingVariants, setPendingVariants] = useState<GeneratedImage[] | null>(null);
+  const [isSelectingHistory, setIsSelectingHistory] = useState(false);
+  const [selectedHistoryIds, setSelectedHistoryIds] = useState<string[]>([]);
+  const [deckExport, setDeckExport] = useState<'pdf' | 'pptx' | null>(null);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [selectedStylePresetId, setSelectedStylePresetId] = useState<string | null>(null);
+  const [showStylePresets, setShowStylePresets] = useState(false);
+  const [audienceProfiles, setAudienceProfiles] = useState<AudienceProfile[]>([]);
+  const [selectedAudienceProfileId, setSelectedAudienceProfileId] = useState<string | null>(null);
+  const [showAudienceProfiles, setShowAudienceProfiles] = useState(false);
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
+  const [applyBrand, setApplyBrand] = useState(true);
+  const [showBrandKit, setShowBrandKit] = useState(false);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [priceTable, setPriceTableState] = useState<PriceTable>(DEFAULT_PRICE_TABLE);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget>(DEFAULT_BUDGET);
+  const [showUsage, setShowUsage] = useState(false);
+  const [sourcePolicy, setSourcePolicy] = useState<SourcePolicy>(DEFAULT_SOURCE_POLICY);
+  const [showSourcePolicy, setShowSourcePolicy] = useState(false);
   const [currentSearchResults, setCurrentSearchResults] = useState<SearchResultItem[]>([]);
   const [isDarkMode, setIsDarkMode] = useState(true);
 
@@ -50,6 +99,7 @@ const App: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Vision State
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
@@ -60,6 +110,25 @@ const App: React.FC = () => {
   const [hasApiKey, setHasApiKey] = useState(false);
   const [checkingKey, setCheckingKey] = useState(true);
 
+  const selectedStylePreset = stylePresets.find(p => p.id === selectedStylePresetId);
+  const selectedAudienceProfile = audienceProfiles.find(p => p.id === selectedAudienceProfileId);
+  const activeBrandKit = applyBrand && isBrandKitConfigured(brandKit) ? brandKit : undefined;
+  const activeSourcePolicy = isSourcePolicyActive(sourcePolicy) ? sourcePolicy : undefined;
+  const i18n = useMemo(() => createI18n(uiLanguage), [uiLanguage]);
+  const { t, formatNumber, formatCurrency, formatDate } = i18n;
+
+  // Language versions are grouped under their source card, unless the source itself is not listed
+  const translationsBySource = useMemo(() => {
+    const map = new Map<string, GeneratedImage[]>();
+    imageHistory.forEach(img => {
+      if (img.translationOf) map.set(img.translationOf, [...(map.get(img.translationOf) || []), img]);
+    });
+    return map;
+  }, [imageHistory]);
+  const listedHistory = imageHistory.slice(analysisResult || isSelectingHistory ? 0 : 1);
+  const listedIds = new Set(listedHistory.map(img => img.id));
+  const historyCards = isSelectingHistory ? listedHistory : listedHistory.filter(img => !img.translationOf || !listedIds.has(img.translationOf));
+
   useEffect(() => {
     if (isDarkMode) {
       document.documentElement.classList.add('dark');
@@ -71,7 +140,9 @@ const App: React.FC = () => {
   useEffect(() => {
     const checkKey = async () => {
       try {
-        if (window.aistudio && window.aistudio.hasSelectedApiKey) {
+        if (getProviderName() === 'mock') {
+          setHasApiKey(true);
+        } else if (window.aistudio && window.aistudio.hasSelectedApiKey) {
           const hasKey = await window.aistudio.hasSelectedApiKey();
           setHasApiKey(hasKey);
         } else {
@@ -86,6 +157,69 @@ const App: React.FC = () => {
     checkKey();
   }, []);
 
+  useEffect(() => {
+    loadStylePresets()
+      .then(setStylePresets)
+      .catch(e => console.error("Failed to load style presets:", e));
+    loadAudienceProfiles()
+      .then(setAudienceProfiles)
+      .catch(e => console.error("Failed to load audience profiles:", e));
+    loadSetting<BrandKit>(BRAND_KIT_SETTING)
+      .then(kit => { if (kit) setBrandKit(kit); })
+      .catch(e => console.error("Failed to load brand kit:", e));
+    loadSetting<Language>(UI_LANGUAGE_SETTING)
+      .then(saved => { if (isLanguage(saved)) setUiLanguage(saved); })
+      .catch(e => console.error("Failed to load interface language:", e));
+    loadSetting<PriceTable>(USAGE_PRICES_SETTING)
+      .then(saved => {
+        const prices = mergePriceTable(saved);
+        setPriceTableState(prices);
+        setPriceTable(prices);
+      })
+      .catch(e => console.error("Failed to load prices:", e));
+    loadSetting<UsageBudget>(USAGE_BUDGET_SETTING)
+      .then(saved => { if (saved) setUsageBudget(saved); })
+      .catch(e => console.error("Failed to load usage budget:", e));
+    loadSetting<boolean>(CACHE_BYPASS_SETTING)
+      .then(saved => {
+        setCacheBypassState(!!saved);
+        setCacheBypass(!!saved);
+      })
+      .catch(e => console.error("Failed to load cache setting:", e));
+    loadSetting<SourcePolicy>(SOURCE_POLICY_SETTING)
+      .then(saved => { if (saved) setSourcePolicy(saved); })
+      .catch(e => console.error("Failed to load source lists:", e));
+  }, []);
+
+  // Providers report every billed call; records made before the stored ones finish loading are kept
+  useEffect(() => {
+    const unsubscribe = subscribeToUsage(record => {
+      setUsageRecords(prev => [...prev, record]);
+      saveUsageRecord(record).catch(e => console.error("Failed to save usage record:", e));
+    });
+    loadUsageRecords()
+      .then(stored => setUsageRecords(prev => [...stored.filter(r => !prev.some(p => p.id === r.id)), ...prev]))
+      .catch(e => console.error("Failed to load usage records:", e));
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    loadImageHistory()
+      .then(stored => {
+        if (stored.length === 0) return;
+        setImageHistory(prev => [...prev, ...stored.filter(img => !prev.some(p => p.id === img.id))]);
+        setCurrentSearchResults(prev => prev.length > 0 ? prev : stored[0].research?.searchResults || []);
+      })
+      .catch(e => console.error("Failed to load saved history:", e));
+  }, []);
+
+  const persistImage = (img: GeneratedImage) => {
+    saveImage(img, trimCache).catch(e => {
+      console.error("Failed to save image to history:", e);
+      setError(t('error.storageFull'));
+    });
+  };
+
   const handleSelectKey = async () => {
     if (window.aistudio && window.aistudio.openSelectKey) {
       try {
@@ -131,11 +265,11 @@ const App: React.FC = () => {
           const base64Audio = (reader.result as string).split(',')[1];
           try {
             setIsLoading(true);
-            setLoadingMessage('Transcribing audio...');
-            const text = await transcribeAudio(base64Audio, 'audio/webm');
+            setLoadingMessage(t('status.transcribing'));
+            const text = await transcribeAudio(base64Audio, 'audio/webm', startOperation());
             setTopic(text);
           } catch (err) {
-            setError('Transcription failed. Please try again.');
+            reportServiceError(err, 'error.transcription');
           } finally {
             setIsLoading(false);
           }
@@ -145,7 +279,7 @@ const App: React.FC = () => {
       mediaRecorder.start();
       setIsRecording(true);
     } catch (err) {
-      setError('Microphone access denied or not available.');
+      setError(t('error.microphone'));
     }
   };
 
@@ -183,14 +317,73 @@ const App: React.FC = () => {
     }
   };
 
+  // Only one operation runs at a time; the Cancel button on the loading screen aborts it
+  const startOperation = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    setProgressEvents([]);
+    return abortControllerRef.current.signal;
+  };
+
+  const handleCancel = () => abortControllerRef.current?.abort();
+
+  // True when the run may go ahead; a run that would take the session over budget is confirmed or refused first
+  const confirmWithinBudget = (estimate: number): boolean => {
+    const spent = getSessionCost(usageRecords);
+    if (!wouldExceedBudget(usageBudget, spent, estimate)) return true;
+    const params = { limit: formatCurrency(usageBudget.limit!), spent: formatCurrency(spent), estimate: formatCurrency(estimate) };
+    if (usageBudget.mode === 'block') {
+      setError(t('error.overBudget', params));
+      return false;
+    }
+    return window.confirm(t('usage.overBudgetConfirm', params));
+  };
+
+  const reportServiceError = (err: unknown, fallback: MessageKey) => {
+    if (isCancelled(err)) return;
+    console.error(err);
+    // The key picker reopens so a key with access can be chosen
+    if (err instanceof ServiceError && err.kind === 'auth') setHasApiKey(false);
+    setError(getErrorMessage(err, fallback, t));
+  };
+
+  const renderInfographic = async (request: ResearchRequest, plan: ResearchResult, signal: AbortSignal, progress: ProgressTracker) => {
+    setLoadingFacts(plan.facts);
+    setLoadingStep(2);
+    setLoadingMessage(variantCount > 1 ? t('status.designingVariants', { count: variantCount, size: imageSize }) : t('status.designing', { size: imageSize }));
+
+    const settings = { model: selectedModel, aspectRatio, size: imageSize };
+    if (variantCount > 1) {
+      // Nothing reaches history until the user picks in the variant grid
+      const variants = await renderPlanVariants(request, plan, settings, variantCount, signal, progress);
+      if (!signal.aborted) setPendingVariants(variants);
+      return;
+    }
+
+    const newImage = await renderPlan(request, plan, settings, signal, progress);
+    // A cancelled run keeps nothing, even if the render finished first
+    if (signal.aborted) return;
+    setImageHistory(prev => [newImage, ...prev]);
+    persistImage(newImage);
+  };
+
+  const handleConfirmVariant = (chosen: GeneratedImage, kept: GeneratedImage[]) => {
+    // Newest timestamp keeps the chosen variant first when history is reloaded
+    const main = { ...chosen, timestamp: Date.now() };
+    setPendingVariants(null);
+    setImageHistory(prev => [main, ...kept, ...prev]);
+    [main, ...kept].forEach(persistImage);
+  };
+
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isLoading) return;
 
     if (!topic.trim() && !selectedImage) {
-        setError("Please enter a topic or upload an image to analyze.");
+        setError(t('error.emptyTopic'));
         return;
     }
+    if (!selectedImage && !confirmWithinBudget(estimateRunCost(priceTable, selectedModel, imageSize, reviewPlan ? 0 : variantCount, 1))) return;
 
     setIsLoading(true);
     setError(null);
@@ -198,88 +391,146 @@ const App: React.FC = () => {
     setLoadingFacts([]);
     setCurrentSearchResults([]);
     setAnalysisResult(null);
+    setPendingPlan(null);
+    setPendingVariants(null);
 
+    const signal = startOperation();
+    // Research and render share one timeline, so the image keeps the timings of the whole run
+    const progress = createProgressTracker(setProgressEvents);
+    let researched: { request: ResearchRequest, research: ResearchResult } | null = null;
     try {
       if (selectedImage) {
-        setLoadingMessage(`Analyzing image content...`);
-        const analysis = await analyzeImageWithGemini(selectedImage, topic, analysisContext, language);
+        setLoadingMessage(t('status.analyzing'));
+        const analysis = await analyzeImageWithGemini(selectedImage, topic, analysisContext, language, signal);
         setAnalysisResult({
           text: analysis,
           imageUrl: selectedImage,
           timestamp: Date.now()
         });
       } else {
-        setLoadingMessage(`Researching topic with Search & Maps...`);
-        const researchResult = await researchTopicForPrompt(topic, complexityLevel, visualStyle, language);
+        setLoadingMessage(t('status.researching'));
+        const request: ResearchRequest = { topic, level: complexityLevel, style: visualStyle, language, stylePreset: selectedStylePreset, brandKit: activeBrandKit, audienceProfile: selectedAudienceProfile, sourcePolicy: activeSourcePolicy };
+        const researchResult = await researchPlan(request, signal, progress.report, preview => {
+          setLoadingFacts(preview.facts);
+          setCurrentSearchResults(preview.searchResults);
+        });
+        researched = { request, research: researchResult };
         
         setLoadingFacts(researchResult.facts);
         setCurrentSearchResults(researchResult.searchResults);
-        
-        setLoadingStep(2);
-        setLoadingMessage(`Designing Infographic (${imageSize})...`);
-        
-        let base64Data = await generateInfographicImage(researchResult.imagePrompt, selectedModel, aspectRatio, imageSize);
-        
-        const newImage: GeneratedImage = {
-          id: Date.now().toString(),
-          data: base64Data,
-          prompt: topic,
-          timestamp: Date.now(),
-          level: complexityLevel,
-          style: visualStyle,
-          language: language,
-          aspectRatio: aspectRatio,
-          model: selectedModel,
-          size: imageSize
-        };
 
-        setImageHistory([newImage, ...imageHistory]);
-      }
-    } catch (err: any) {
-      console.error(err);
-      if (err.message && (err.message.includes("Requested entity was not found") || err.message.includes("404") || err.message.includes("403"))) {
-          setError("Access denied. A paid Gemini API key is required for Pro features. Please re-select your key.");
-          setHasApiKey(false);
-      } else {
-          setError('The service is temporarily unavailable. Please try again.');
+        if (reviewPlan) {
+          // Pause here; rendering resumes from handleApprovePlan
+          setPendingPlan({ request, research: researchResult });
+        } else {
+          await renderInfographic(request, researchResult, signal, progress);
+        }
       }
+    } catch (err) {
+      // A cancelled render keeps its research, so it can be rendered again from the review screen
+      if (isCancelled(err) && researched) setPendingPlan(researched);
+      reportServiceError(err, 'error.unavailable');
+    } finally {
+      setIsLoading(false);
+      setLoadingStep(0);
+    }
+  };
+
+  const handleApprovePlan = async (plan: ResearchResult) => {
+    if (!pendingPlan || isLoading) return;
+    if (!confirmWithinBudget(estimateRunCost(priceTable, selectedModel, imageSize, variantCount))) return;
+    const { request } = pendingPlan;
+    setPendingPlan(null);
+    setIsLoading(true);
+    setError(null);
+    setCurrentSearchResults(plan.searchResults);
+
+    try {
+      const signal = startOperation();
+      await renderInfographic(request, plan, signal, createProgressTracker(setProgressEvents));
+    } catch (err) {
+      reportServiceError(err, 'error.unavailable');
+      // Keep the edits so the user can retry the render
+      setPendingPlan({ request, research: plan });
     } finally {
       setIsLoading(false);
       setLoadingStep(0);
     }
   };
 
-  const handleEdit = async (editPrompt: string) => {
+  // Edits branch from the image on screen; any version can be brought on screen from the version tree
+  const handleEdit = async (editPrompt: string, mask?: string) => {
     if (imageHistory.length === 0) return;
+    // Edits are not sent with a size, so they come back at the model's default resolution
+    if (!confirmWithinBudget(estimateRunCost(priceTable, selectedModel, '1K', 1))) return;
     const currentImage = imageHistory[0];
     setIsLoading(true);
     setError(null);
     setLoadingStep(2);
-    setLoadingMessage(`Processing Modification: "${editPrompt}"...`);
+    setLoadingMessage(t(mask ? 'status.editingRegion' : 'status.modifying', { instruction: editPrompt }));
 
     try {
-      const base64Data = await editInfographicImage(currentImage.data, editPrompt, selectedModel, aspectRatio);
+      const signal = startOperation();
+      const progress = createProgressTracker(setProgressEvents);
+      const base64Data = await editInfographicImage(currentImage.data, editPrompt, selectedModel, currentImage.aspectRatio || aspectRatio, mask, signal, progress.report);
       const newImage: GeneratedImage = {
-        id: Date.now().toString(),
+        id: createImageId(),
         data: base64Data,
-        prompt: editPrompt,
+        prompt: currentImage.prompt,
         timestamp: Date.now(),
         level: currentImage.level,
         style: currentImage.style,
+        stylePreset: currentImage.stylePreset,
+        audienceProfile: currentImage.audienceProfile,
+        brandLogo: currentImage.brandLogo,
         language: currentImage.language,
         aspectRatio: currentImage.aspectRatio,
-        model: selectedModel
+        model: selectedModel,
+        size: currentImage.size,
+        research: currentImage.research,
+        renderPrompt: currentImage.renderPrompt,
+        overlays: currentImage.overlays,
+        parentId: currentImage.id,
+        editInstruction: editPrompt,
+        timings: progress.events.slice()
       };
-      setImageHistory([newImage, ...imageHistory]);
-    } catch (err: any) {
-      console.error(err);
-      if (err.message && (err.message.includes("Requested entity was not found") || err.message.includes("404") || err.message.includes("403"))) {
-          setError("Access denied. Please select a valid API key with billing enabled.");
-          setHasApiKey(false);
-      } else {
-          setError('Modification failed. Try a different command.');
+      setImageHistory(prev => [newImage, ...prev]);
+      persistImage(newImage);
+    } catch (err) {
+      reportServiceError(err, 'error.editFailed');
+    } finally {
+      setIsLoading(false);
+      setLoadingStep(0);
+    }
+  };
+
+  // Language versions are always made from the original so each is a single edit away from it
+  const handleTranslate = async (languages: Language[]) => {
+    if (imageHistory.length === 0) return;
+    const currentImage = imageHistory[0];
+    const source = imageHistory.find(img => img.id === currentImage.translationOf) || currentImage;
+    const targets = languages.filter(lang => lang !== (source.language || 'English'));
+    if (targets.length === 0) return;
+    if (!confirmWithinBudget(estimateRunCost(priceTable, selectedModel, '1K', targets.length, targets.length))) return;
+    setIsLoading(true);
+    setError(null);
+    setLoadingStep(2);
+
+    const signal = startOperation();
+    const translated: GeneratedImage[] = [];
+    try {
+      for (const target of targets) {
+        setLoadingMessage(t('status.translating', { language: NATIVE_LANGUAGE_NAMES[target], current: translated.length + 1, total: targets.length }));
+        translated.push(await translateInfographic(source, target, selectedModel, aspectRatio, signal, createProgressTracker(setProgressEvents)));
       }
+    } catch (err) {
+      reportServiceError(err, 'error.translateFailed');
     } finally {
+      // Languages finished before a failure are kept; a cancelled run keeps none of them
+      if (translated.length > 0 && !signal.aborted) {
+        setImageHistory(prev => [...translated, ...prev]);
+        translated.forEach(persistImage);
+      }
       setIsLoading(false);
       setLoadingStep(0);
     }
@@ -288,6 +539,7 @@ const App: React.FC = () => {
   const restoreImage = (img: GeneratedImage) => {
      const newHistory = imageHistory.filter(i => i.id !== img.id);
      setImageHistory([img, ...newHistory]);
+     setCurrentSearchResults(img.research?.searchResults || []);
      setAnalysisResult(null);
      setSelectedImage(null);
      if (img.aspectRatio) setAspectRatio(img.aspectRatio);
@@ -295,6 +547,159 @@ const App: React.FC = () => {
      if (img.size) setImageSize(img.size);
   };
 
+  // Batch results queue up behind whatever is currently on screen
+  const handleBatchImage = (image: GeneratedImage) => {
+    setImageHistory(prev => prev.length === 0 ? [image] : [prev[0], image, ...prev.slice(1)]);
+    persistImage(image);
+  };
+
+  const toggleHistorySelection = (id: string) => {
+    setSelectedHistoryIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const stopSelectingHistory = () => {
+    setIsSelectingHistory(false);
+    setSelectedHistoryIds([]);
+  };
+
+  // Changes that belong to the image on screen itself, such as its overlay or logo toggle
+  const handleUpdateImage = (patch: Partial<GeneratedImage>) => {
+    const current = imageHistory[0];
+    if (!current) return;
+    const updated: GeneratedImage = { ...current, ...patch };
+    setImageHistory(prev => prev.map(img => img.id === updated.id ? updated : img));
+    persistImage(updated);
+  };
+
+  // Pages and slides follow the order in which items were selected
+  const handleExportDeck = async (format: 'pdf' | 'pptx') => {
+    const images = selectedHistoryIds
+      .map(id => imageHistory.find(img => img.id === id))
+      .filter((img): img is GeneratedImage => !!img);
+    if (images.length === 0) return;
+    setDeckExport(format);
+    try {
+      const blob = format === 'pdf' ? await buildPdfHandout(images, t) : await buildPptxDeck(images, t);
+      downloadBlob(blob, `infographics-${Date.now()}.${format}`);
+      stopSelectingHistory();
+    } catch (e) {
+      console.error(`Failed to export ${format}:`, e);
+      setError(t('error.deckExport', { format: format.toUpperCase() }));
+    } finally {
+      setDeckExport(null);
+    }
+  };
+
+  const handleSaveStylePresets = (presets: StylePreset[]) => {
+    setStylePresets(prev => [
+      ...prev.filter(p => !presets.some(saved => saved.id === p.id)),
+      ...presets
+    ].sort((a, b) => a.name.localeCompare(b.name)));
+    Promise.all(presets.map(saveStylePreset)).catch(e => {
+      console.error("Failed to save style presets:", e);
+      setError(t('error.saveStylePresets'));
+    });
+  };
+
+  const handleDeleteStylePreset = (id: string) => {
+    setStylePresets(prev => prev.filter(p => p.id !== id));
+    if (selectedStylePresetId === id) setSelectedStylePresetId(null);
+    deleteStylePreset(id).catch(e => console.error("Failed to delete style preset:", e));
+  };
+
+  const handleSaveAudienceProfile = (profile: AudienceProfile) => {
+    setAudienceProfiles(prev => [...prev.filter(p => p.id !== profile.id), profile].sort((a, b) => a.name.localeCompare(b.name)));
+    saveAudienceProfile(profile).catch(e => {
+      console.error("Failed to save audience profile:", e);
+      setError(t('error.saveAudienceProfile'));
+    });
+  };
+
+  const handleDeleteAudienceProfile = (id: string) => {
+    setAudienceProfiles(prev => prev.filter(p => p.id !== id));
+    if (selectedAudienceProfileId === id) setSelectedAudienceProfileId(null);
+    deleteAudienceProfile(id).catch(e => console.error("Failed to delete audience profile:", e));
+  };
+
+  const handleSaveBrandKit = (kit: BrandKit | null) => {
+    setBrandKit(kit);
+    saveSetting(BRAND_KIT_SETTING, kit).catch(e => {
+      console.error("Failed to save brand kit:", e);
+      setError(t('error.saveBrandKit'));
+    });
+  };
+
+  const handleSaveSourcePolicy = (policy: SourcePolicy) => {
+    setSourcePolicy(policy);
+    saveSetting(SOURCE_POLICY_SETTING, policy).catch(e => {
+      console.error("Failed to save source lists:", e);
+      setError(t('error.saveSourcePolicy'));
+    });
+  };
+
+  const handleSaveUsageSettings = (prices: PriceTable, budget: UsageBudget) => {
+    setPriceTableState(prices);
+    setPriceTable(prices);
+    setUsageBudget(budget);
+    Promise.all([saveSetting(USAGE_PRICES_SETTING, prices), saveSetting(USAGE_BUDGET_SETTING, budget)]).catch(e => {
+      console.error("Failed to save usage settings:", e);
+      setError(t('error.saveUsageSettings'));
+    });
+  };
+
+  const handleClearUsage = () => {
+    clearUsageRecords()
+      .then(() => setUsageRecords([]))
+      .catch(e => {
+        console.error("Failed to clear usage records:", e);
+        setError(t('error.clearUsage'));
+      });
+  };
+
+  const handleCacheBypassToggle = () => {
+    const bypass = !cacheBypass;
+    setCacheBypassState(bypass);
+    setCacheBypass(bypass);
+    saveSetting(CACHE_BYPASS_SETTING, bypass).catch(e => console.error("Failed to save cache setting:", e));
+  };
+
+  const handleUiLanguageChange = (value: Language) => {
+    setUiLanguage(value);
+    saveSetting(UI_LANGUAGE_SETTING, value).catch(e => console.error("Failed to save interface language:", e));
+  };
+
+  // Built-in styles and presets share one selector; preset options carry a prefixed id
+  const handleAestheticChange = (value: string) => {
+    if (value.startsWith(STYLE_PRESET_PREFIX)) {
+      setSelectedStylePresetId(value.slice(STYLE_PRESET_PREFIX.length));
+    } else {
+      setSelectedStylePresetId(null);
+      setVisualStyle(value as VisualStyle);
+    }
+  };
+
+  const handleAudienceChange = (value: string) => {
+    if (value.startsWith(AUDIENCE_PROFILE_PREFIX)) {
+      setSelectedAudienceProfileId(value.slice(AUDIENCE_PROFILE_PREFIX.length));
+    } else {
+      setSelectedAudienceProfileId(null);
+      setComplexityLevel(value as ComplexityLevel);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm(t('history.clearConfirm'))) return;
+    try {
+      await clearImageHistory();
+      setImageHistory([]);
+      setCurrentSearchResults([]);
+      stopSelectingHistory();
+    } catch (e) {
+      console.error("Failed to clear history:", e);
+      setError(t('error.clearHistory'));
+    }
+  };
+
   const KeySelectionModal = () => (
     <div className="fixed inset-0 z-[200] bg-slate-950/90 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
         <div className="bg-white dark:bg-slate-900 border-2 border-amber-500/50 rounded-2xl shadow-2xl max-w-md w-full p-6 md:p-8 relative overflow-hidden">
@@ -305,20 +710,20 @@ const App: React.FC = () => {
                     <div className="w-20 h-20 bg-amber-100 dark:bg-amber-900/30 rounded-full flex items-center justify-center text-amber-600 dark:text-amber-400 mb-2 border-4 border-white dark:border-slate-900 shadow-lg">
                         <CreditCard className="w-8 h-8" />
                     </div>
-                    <div className="absolute -bottom-1 -right-1 bg-red-500 text-white text-[10px] font-bold px-2 py-0.5 rounded-full shadow-sm border-2 border-white dark:border-slate-900 uppercase tracking-wide">
-                        Paid App
+                    <div className="absolute -bottom-1 -end-1 bg-red-500 text-white text-[10px] font-bold px-2 py-0.5 rounded-full shadow-sm border-2 border-white dark:border-slate-900 uppercase tracking-wide">
+                        {t('key.badge')}
                     </div>
                 </div>
                 
                 <div className="space-y-3">
                     <h2 className="text-2xl font-display font-bold text-slate-900 dark:text-white">
-                        Paid API Key Required
+                        {t('key.title')}
                     </h2>
                     <p className="text-slate-600 dark:text-slate-300 text-sm leading-relaxed font-medium">
-                        Advanced generation features require a paid Gemini API key.
+                        {t('key.body')}
                     </p>
                     <p className="text-slate-600 dark:text-slate-400 text-sm leading-relaxed">
-                        You must select a Google Cloud Project with <span className="font-bold text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-1 py-0.5 rounded">Billing Enabled</span> to proceed.
+                        {t('key.billing')}
                     </p>
                 </div>
 
@@ -327,7 +732,7 @@ const App: React.FC = () => {
                     className="w-full py-3.5 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white rounded-xl font-bold shadow-lg shadow-amber-500/20 transition-all transform hover:scale-[1.02] flex items-center justify-center gap-2"
                 >
                     <Key className="w-4 h-4" />
-                    <span>Select Paid API Key</span>
+                    <span>{t('key.select')}</span>
                 </button>
             </div>
         </div>
@@ -335,9 +740,56 @@ const App: React.FC = () => {
   );
 
   return (
-    <>
+    <I18nProvider value={i18n}>
     {!checkingKey && !hasApiKey && <KeySelectionModal />}
-    <ChatBot />
+    <ChatBot contextImage={!analysisResult ? imageHistory[0] : undefined} />
+    <BatchPanel
+      isOpen={showBatch}
+      onClose={() => setShowBatch(false)}
+      defaults={{ level: complexityLevel, style: visualStyle, stylePreset: selectedStylePreset, brandKit: activeBrandKit, audienceProfile: selectedAudienceProfile, sourcePolicy: activeSourcePolicy, language, aspectRatio, model: selectedModel, size: imageSize }}
+      onImageCreated={handleBatchImage}
+      confirmBudget={runs => confirmWithinBudget(estimateRunCost(priceTable, selectedModel, imageSize, runs, runs))}
+    />
+
+    <StylePresetManager
+      isOpen={showStylePresets}
+      presets={stylePresets}
+      onClose={() => setShowStylePresets(false)}
+      onSave={handleSaveStylePresets}
+      onDelete={handleDeleteStylePreset}
+    />
+
+    <AudienceProfileManager
+      isOpen={showAudienceProfiles}
+      profiles={audienceProfiles}
+      onClose={() => setShowAudienceProfiles(false)}
+      onSave={handleSaveAudienceProfile}
+      onDelete={handleDeleteAudienceProfile}
+    />
+
+    <BrandKitPanel
+      isOpen={showBrandKit}
+      brandKit={brandKit}
+      onClose={() => setShowBrandKit(false)}
+      onSave={handleSaveBrandKit}
+    />
+
+    <SourcePolicyPanel
+      isOpen={showSourcePolicy}
+      policy={sourcePolicy}
+      onClose={() => setShowSourcePolicy(false)}
+      onSave={handleSaveSourcePolicy}
+    />
+
+    <UsageDashboard
+      isOpen={showUsage}
+      records={usageRecords}
+      prices={priceTable}
+      budget={usageBudget}
+      onClose={() => setShowUsage(false)}
+      onSave={handleSaveUsageSettings}
+      onClear={handleClearUsage}
+    />
 
     {showIntro ? (
       <IntroScreen onComplete={() => setShowIntro(false)} />
@@ -359,14 +811,57 @@ const App: React.FC = () => {
                 <span className="font-display font-bold text-lg md:text-2xl tracking-tight text-slate-900 dark:text-white leading-none">
                 InfoGenius <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-600 to-indigo-600 dark:from-cyan-400 dark:to-amber-400">Vision</span>
                 </span>
-                <span className="text-[8px] md:text-[10px] uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 font-medium">Visual Knowledge Engine</span>
+                <span className="text-[8px] md:text-[10px] uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 font-medium">{t('header.tagline')}</span>
             </div>
           </div>
 
           <div className="flex items-center gap-2">
+              {getProviderName() === 'mock' && (
+                <span className="px-3 py-1 rounded-full bg-amber-100 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/30 text-amber-700 dark:text-amber-300 text-[10px] font-bold uppercase tracking-widest" title={t('header.mockTitle')}>
+                  {t('header.mock')}
+                </span>
+              )}
+              <label
+                className="flex items-center gap-1.5 ps-2.5 pe-1 py-1.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 border border-slate-200 dark:border-white/10 shadow-sm"
+                title={t('header.uiLanguage')}
+              >
+                <Languages className="w-4 h-4 shrink-0" />
+                <select value={uiLanguage} onChange={(e) => handleUiLanguageChange(e.target.value as Language)} aria-label={t('header.uiLanguage')} className="bg-transparent border-none text-xs font-bold text-slate-700 dark:text-slate-200 focus:ring-0 cursor-pointer p-0 pe-1">
+                  {LANGUAGES.map(lang => <option key={lang} value={lang}>{NATIVE_LANGUAGE_NAMES[lang]}</option>)}
+                </select>
+              </label>
+              <button
+                onClick={() => setShowBrandKit(true)}
+                className={`p-2 rounded-full bg-slate-100 dark:bg-slate-800 hover:text-cyan-600 dark:hover:text-cyan-300 transition-colors border border-slate-200 dark:border-white/10 shadow-sm ${isBrandKitConfigured(brandKit) ? 'text-cyan-600 dark:text-cyan-400' : 'text-slate-600 dark:text-slate-400'}`}
+                title={t('header.brandKit')}
+              >
+                <Stamp className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowSourcePolicy(true)}
+                className={`p-2 rounded-full bg-slate-100 dark:bg-slate-800 hover:text-cyan-600 dark:hover:text-cyan-300 transition-colors border border-slate-200 dark:border-white/10 shadow-sm ${activeSourcePolicy ? 'text-cyan-600 dark:text-cyan-400' : 'text-slate-600 dark:text-slate-400'}`}
+                title={t('header.sources')}
+              >
+                <ShieldCheck className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowUsage(true)}
+                className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-300 transition-colors border border-slate-200 dark:border-white/10 shadow-sm"
+                title={t('header.usage', { spent: formatCurrency(getSessionCost(usageRecords)) })}
+              >
+                <Coins className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowBatch(true)}
+                className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-300 transition-colors border border-slate-200 dark:border-white/10 shadow-sm"
+                title={t('header.batch')}
+              >
+                <ListChecks className="w-5 h-5" />
+              </button>
               <button 
                 onClick={() => setIsDarkMode(!isDarkMode)}
                 className="p-2 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-300 transition-colors border border-slate-200 dark:border-white/10 shadow-sm"
+                title={t('header.theme')}
               >
                 {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
               </button>
@@ -381,11 +876,11 @@ const App: React.FC = () => {
           {!imageHistory.length && !analysisResult && (
             <div className="text-center mb-6 md:mb-16 space-y-3 md:space-y-8 animate-in slide-in-from-bottom-8 duration-700 fade-in">
               <div className="inline-flex items-center justify-center gap-2 px-4 py-1.5 rounded-full bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 text-amber-600 dark:text-amber-300 text-[10px] md:text-xs font-bold tracking-widest uppercase shadow-sm backdrop-blur-sm">
-                <Compass className="w-3 h-3 md:w-4 md:h-4" /> Integrated Search, Maps, and Nano Banana Pro Synthesis
+                <Compass className="w-3 h-3 md:w-4 md:h-4" /> {t('hero.badge')}
               </div>
               <h1 className="text-3xl sm:text-5xl md:text-8xl font-display font-bold text-slate-900 dark:text-white tracking-tight leading-[0.95] md:leading-[0.9]">
-                Decode <br/>
-                <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-600 via-indigo-600 to-purple-600 dark:from-cyan-400 dark:via-indigo-400 dark:to-purple-400">Reality.</span>
+                {t('hero.titleTop')} <br/>
+                <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-600 via-indigo-600 to-purple-600 dark:from-cyan-400 dark:via-indigo-400 dark:to-purple-400">{t('hero.titleBottom')}</span>
               </h1>
             </div>
           )}
@@ -397,26 +892,26 @@ const App: React.FC = () => {
                     
                     <div className="flex flex-col">
                         <div className="relative flex items-center">
-                            <Search className="absolute left-4 md:left-6 w-5 h-5 md:w-6 md:h-6 text-slate-400 group-focus-within:text-cyan-500 transition-colors" />
+                            <Search className="absolute start-4 md:start-6 w-5 h-5 md:w-6 md:h-6 text-slate-400 group-focus-within:text-cyan-500 transition-colors" />
                             <input
                                 type="text"
                                 value={topic}
                                 onChange={(e) => setTopic(e.target.value)}
-                                placeholder={selectedImage ? "Targeted question about this image..." : "What do you want to visualize?"}
-                                className="w-full pl-12 md:pl-16 pr-24 md:pr-32 py-3 md:py-6 bg-transparent border-none outline-none text-base md:text-2xl placeholder:text-slate-400 font-medium text-slate-900 dark:text-white"
+                                placeholder={selectedImage ? t('form.questionPlaceholder') : t('form.topicPlaceholder')}
+                                className="w-full ps-12 md:ps-16 pe-24 md:pe-32 py-3 md:py-6 bg-transparent border-none outline-none text-base md:text-2xl placeholder:text-slate-400 font-medium text-slate-900 dark:text-white"
                             />
                             {/* Actions Group */}
-                            <div className="absolute right-4 md:right-6 flex items-center gap-2">
+                            <div className="absolute end-4 md:end-6 flex items-center gap-2">
                                 <button 
                                   type="button" 
                                   onClick={isRecording ? stopRecording : startRecording}
                                   className={`p-2 rounded-xl transition-all ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:bg-slate-200'}`}
-                                  title={isRecording ? "Stop Recording" : "Speak to Transcribe"}
+                                  title={isRecording ? t('form.stopRecording') : t('form.record')}
                                 >
                                     {isRecording ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
                                 </button>
                                 <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleImageUpload} />
-                                <button type="button" onClick={() => fileInputRef.current?.click()} className={`p-2 rounded-xl transition-all ${selectedImage ? 'bg-cyan-500 text-white shadow-lg' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:bg-slate-200'}`} title="Upload for Vision Analysis">
+                                <button type="button" onClick={() => fileInputRef.current?.click()} className={`p-2 rounded-xl transition-all ${selectedImage ? 'bg-cyan-500 text-white shadow-lg' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:bg-slate-200'}`} title={t('form.upload')}>
                                     <ImageIcon className="w-5 h-5" />
                                 </button>
                             </div>
@@ -426,15 +921,15 @@ const App: React.FC = () => {
                             <div className="px-4 pb-4 animate-in slide-in-from-top-2 duration-300 space-y-4">
                                 <div className="flex items-center gap-4">
                                     <div className="relative inline-block">
-                                        <img src={selectedImage} alt="Preview" className="h-20 w-32 object-cover rounded-xl border-2 border-cyan-500 shadow-md" />
-                                        <button type="button" onClick={() => setSelectedImage(null)} className="absolute -top-2 -right-2 p-1 bg-red-500 text-white rounded-full shadow-lg hover:bg-red-600 transition-colors"><X className="w-3 h-3" /></button>
+                                        <img src={selectedImage} alt={t('form.preview')} className="h-20 w-32 object-cover rounded-xl border-2 border-cyan-500 shadow-md" />
+                                        <button type="button" onClick={() => setSelectedImage(null)} title={t('form.removeImage')} className="absolute -top-2 -end-2 p-1 bg-red-500 text-white rounded-full shadow-lg hover:bg-red-600 transition-colors"><X className="w-3 h-3" /></button>
                                     </div>
                                     <div className="flex-1">
                                         <input 
                                           type="text" 
                                           value={analysisContext} 
                                           onChange={(e) => setAnalysisContext(e.target.value)}
-                                          placeholder="Additional context (e.g., 'Look for security flaws', 'Identify text')"
+                                          placeholder={t('form.contextPlaceholder')}
                                           className="w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white"
                                         />
                                     </div>
@@ -448,11 +943,11 @@ const App: React.FC = () => {
                         <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 hover:border-cyan-500/30 transition-colors relative overflow-hidden group/item">
                             <Cpu className="w-4 h-4 text-cyan-600" />
                             <div className="flex flex-col z-10 w-full overflow-hidden">
-                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Engine</label>
-                                <select value={selectedModel} onChange={(e) => setSelectedModel(e.target.value as ImageGenerationModel)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full truncate pr-4">
-                                    <option value="gemini-2.5-flash-image">Flash (Fast)</option>
-                                    <option value="gemini-3-pro-image-preview">Pro (Nano Banana Pro)</option>
-                                    <option value="imagen-4.0-generate-001">Imagen 4 (Creative)</option>
+                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.engine')}</label>
+                                <select value={selectedModel} onChange={(e) => setSelectedModel(e.target.value as ImageGenerationModel)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full truncate pe-4">
+                                    <option value="gemini-2.5-flash-image">{t('model.flash')}</option>
+                                    <option value="gemini-3-pro-image-preview">{t('model.pro')}</option>
+                                    <option value="imagen-4.0-generate-001">{t('model.imagen')}</option>
                                 </select>
                             </div>
                         </div>
@@ -462,11 +957,9 @@ const App: React.FC = () => {
                             <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 hover:border-indigo-500/30 transition-colors relative overflow-hidden animate-in zoom-in duration-300">
                                 <Layers className="w-4 h-4 text-indigo-600" />
                                 <div className="flex flex-col z-10 w-full overflow-hidden">
-                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Size</label>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.size')}</label>
                                     <select value={imageSize} onChange={(e) => setImageSize(e.target.value as ImageSize)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full">
-                                        <option value="1K">1K (Standard)</option>
-                                        <option value="2K">2K (High-Res)</option>
-                                        <option value="4K">4K (Ultra-Res)</option>
+                                        {(['1K', '2K', '4K'] as const).map(size => <option key={size} value={size}>{t(`size.${size}`)}</option>)}
                                     </select>
                                 </div>
                             </div>
@@ -476,11 +969,9 @@ const App: React.FC = () => {
                         <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 hover:border-amber-500/30 transition-colors relative overflow-hidden group/item">
                             <Layout className="w-4 h-4 text-amber-600" />
                             <div className="flex flex-col z-10 w-full overflow-hidden">
-                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Ratio</label>
+                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.ratio')}</label>
                                 <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value as AspectRatio)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full">
-                                    <option value="16:9">16:9 Wide</option>
-                                    <option value="1:1">1:1 Square</option>
-                                    <option value="9:16">9:16 Mobile</option>
+                                    {(['16:9', '1:1', '9:16'] as const).map(ratio => <option key={ratio} value={ratio}>{t(`ratio.${ratio}`)}</option>)}
                                 </select>
                             </div>
                         </div>
@@ -490,14 +981,21 @@ const App: React.FC = () => {
                           <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 hover:border-cyan-500/30 transition-colors group/item">
                               <GraduationCap className="w-4 h-4 text-cyan-600" />
                               <div className="flex flex-col w-full overflow-hidden">
-                                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Audience</label>
-                                  <select value={complexityLevel} onChange={(e) => setComplexityLevel(e.target.value as ComplexityLevel)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full truncate pr-4">
-                                      <option value="Elementary">Elementary</option>
-                                      <option value="High School">High School</option>
-                                      <option value="College">College</option>
-                                      <option value="Expert">Expert</option>
+                                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.audience')}</label>
+                                  <select value={selectedAudienceProfile ? `${AUDIENCE_PROFILE_PREFIX}${selectedAudienceProfile.id}` : complexityLevel} onChange={(e) => handleAudienceChange(e.target.value)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full truncate pe-4">
+                                    <optgroup label={t('common.builtIn')}>
+                                      {(['Elementary', 'High School', 'College', 'Expert'] as const).map(level => <option key={level} value={level}>{t(`level.${level}`)}</option>)}
+                                    </optgroup>
+                                    {audienceProfiles.length > 0 && (
+                                      <optgroup label={t('common.custom')}>
+                                        {audienceProfiles.map(profile => <option key={profile.id} value={`${AUDIENCE_PROFILE_PREFIX}${profile.id}`}>{profile.name}</option>)}
+                                      </optgroup>
+                                    )}
                                   </select>
                               </div>
+                              <button type="button" onClick={() => setShowAudienceProfiles(true)} className="p-1.5 rounded-lg text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 dark:hover:bg-cyan-500/10 transition-colors shrink-0" title={t('form.manageAudiences')}>
+                                  <SlidersHorizontal className="w-4 h-4" />
+                              </button>
                           </div>
                         )}
 
@@ -506,25 +1004,100 @@ const App: React.FC = () => {
                           <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 hover:border-purple-500/30 transition-colors group/item">
                               <Palette className="w-4 h-4 text-purple-600" />
                               <div className="flex flex-col w-full overflow-hidden">
-                                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Aesthetic</label>
-                                  <select value={visualStyle} onChange={(e) => setVisualStyle(e.target.value as VisualStyle)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full truncate pr-4">
-                                      <option value="Default">Standard</option>
-                                      <option value="Geometric Patterns">Geometric Patterns</option>
-                                      <option value="Minimalist">Minimalist</option>
-                                      <option value="Realistic">Realistic</option>
-                                      <option value="Cartoon">Graphic Novel</option>
-                                      <option value="Vintage">Vintage Litho</option>
-                                      <option value="Futuristic">Cyberpunk</option>
-                                      <option value="3D Render">3D Isometric</option>
-                                      <option value="Sketch">Blueprint</option>
+                                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.aesthetic')}</label>
+                                  <select value={selectedStylePreset ? `${STYLE_PRESET_PREFIX}${selectedStylePreset.id}` : visualStyle} onChange={(e) => handleAestheticChange(e.target.value)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full truncate pe-4">
+                                    <optgroup label={t('common.builtIn')}>
+                                      {(['Default', 'Geometric Patterns', 'Minimalist', 'Realistic', 'Cartoon', 'Vintage', 'Futuristic', '3D Render', 'Sketch'] as const).map(style => <option key={style} value={style}>{t(`style.${style}`)}</option>)}
+                                    </optgroup>
+                                    {stylePresets.length > 0 && (
+                                      <optgroup label={t('common.custom')}>
+                                        {stylePresets.map(preset => <option key={preset.id} value={`${STYLE_PRESET_PREFIX}${preset.id}`}>{preset.name}</option>)}
+                                      </optgroup>
+                                    )}
                                   </select>
                               </div>
+                              <button type="button" onClick={() => setShowStylePresets(true)} className="p-1.5 rounded-lg text-slate-400 hover:text-purple-600 hover:bg-purple-50 dark:hover:bg-purple-500/10 transition-colors shrink-0" title={t('form.manageStyles')}>
+                                  <SlidersHorizontal className="w-4 h-4" />
+                              </button>
                           </div>
                         )}
 
-                        <button type="submit" disabled={isLoading} className={`w-full md:w-auto h-full px-8 py-4 rounded-2xl font-bold font-display tracking-wide hover:brightness-110 transition-all shadow-[0_0_20px_rgba(6,182,212,0.3)] whitespace-nowrap flex items-center justify-center gap-2 ${selectedImage ? 'bg-gradient-to-r from-purple-600 to-indigo-600' : 'bg-gradient-to-r from-cyan-600 to-blue-600'} text-white`}>
+                        {/* Content Language Selector */}
+                        <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 hover:border-emerald-500/30 transition-colors group/item" title={t('form.languageTitle')}>
+                            <Globe className="w-4 h-4 text-emerald-600" />
+                            <div className="flex flex-col w-full overflow-hidden">
+                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.language')}</label>
+                                <select value={language} onChange={(e) => setLanguage(e.target.value as Language)} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full truncate pe-4">
+                                    {LANGUAGES.map(lang => <option key={lang} value={lang}>{NATIVE_LANGUAGE_NAMES[lang]}</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        {/* Variants Selector */}
+                        {!selectedImage && (
+                          <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 hover:border-cyan-500/30 transition-colors group/item">
+                              <Grid2x2 className="w-4 h-4 text-cyan-600" />
+                              <div className="flex flex-col w-full overflow-hidden">
+                                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.variants')}</label>
+                                  <select value={variantCount} onChange={(e) => setVariantCount(Number(e.target.value))} className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full">
+                                      <option value={1}>{t('form.variantsSingle')}</option>
+                                      {[2, 3, 4].map(count => <option key={count} value={count}>{t('form.variantsCount', { count })}</option>)}
+                                  </select>
+                              </div>
+                          </div>
+                        )}
+
+                        {/* Review Plan Toggle */}
+                        {!selectedImage && (
+                          <button
+                            type="button"
+                            onClick={() => setReviewPlan(!reviewPlan)}
+                            className={`flex-1 md:flex-none rounded-2xl border px-4 py-3 flex items-center gap-3 transition-colors ${reviewPlan ? 'bg-amber-50 dark:bg-amber-500/10 border-amber-500/50' : 'bg-slate-50 dark:bg-slate-950/50 border-slate-200 dark:border-white/5 hover:border-amber-500/30'}`}
+                            title={t('form.reviewTitle')}
+                          >
+                              <ClipboardCheck className="w-4 h-4 text-amber-600" />
+                              <div className="flex flex-col items-start">
+                                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.review')}</span>
+                                  <span className="text-sm font-bold text-slate-900 dark:text-slate-100">{reviewPlan ? t('common.on') : t('common.off')}</span>
+                              </div>
+                          </button>
+                        )}
+
+                        {/* Cache Toggle */}
+                        {!selectedImage && (
+                          <button
+                            type="button"
+                            onClick={handleCacheBypassToggle}
+                            className={`flex-1 md:flex-none rounded-2xl border px-4 py-3 flex items-center gap-3 transition-colors ${!cacheBypass ? 'bg-emerald-50 dark:bg-emerald-500/10 border-emerald-500/50' : 'bg-slate-50 dark:bg-slate-950/50 border-slate-200 dark:border-white/5 hover:border-emerald-500/30'}`}
+                            title={t('form.cacheTitle')}
+                          >
+                              <Database className="w-4 h-4 text-emerald-600" />
+                              <div className="flex flex-col items-start">
+                                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.cache')}</span>
+                                  <span className="text-sm font-bold text-slate-900 dark:text-slate-100">{cacheBypass ? t('common.off') : t('common.on')}</span>
+                              </div>
+                          </button>
+                        )}
+
+                        {/* Brand Kit Toggle */}
+                        {!selectedImage && (
+                          <button
+                            type="button"
+                            onClick={() => isBrandKitConfigured(brandKit) ? setApplyBrand(!applyBrand) : setShowBrandKit(true)}
+                            className={`flex-1 md:flex-none rounded-2xl border px-4 py-3 flex items-center gap-3 transition-colors ${activeBrandKit ? 'bg-cyan-50 dark:bg-cyan-500/10 border-cyan-500/50' : 'bg-slate-50 dark:bg-slate-950/50 border-slate-200 dark:border-white/5 hover:border-cyan-500/30'}`}
+                            title={isBrandKitConfigured(brandKit) ? t('form.brandApply') : t('form.brandSetUp')}
+                          >
+                              <Stamp className="w-4 h-4 text-cyan-600" />
+                              <div className="flex flex-col items-start">
+                                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('form.brand')}</span>
+                                  <span className="text-sm font-bold text-slate-900 dark:text-slate-100">{!isBrandKitConfigured(brandKit) ? t('form.brandSetUpShort') : applyBrand ? t('common.on') : t('common.off')}</span>
+                              </div>
+                          </button>
+                        )}
+
+                        <button type="submit" disabled={isLoading} className={`w-full md:w-auto h-full px-8 py-4 rounded-2xl font-bold font-display uppercase tracking-wide hover:brightness-110 transition-all shadow-[0_0_20px_rgba(6,182,212,0.3)] whitespace-nowrap flex items-center justify-center gap-2 ${selectedImage ? 'bg-gradient-to-r from-purple-600 to-indigo-600' : 'bg-gradient-to-r from-cyan-600 to-blue-600'} text-white`}>
                             {selectedImage ? <FileSearch className="w-5 h-5" /> : <Microscope className="w-5 h-5" />}
-                            <span>{selectedImage ? 'ANALYZE' : 'INITIATE'}</span>
+                            <span>{selectedImage ? t('form.analyze') : t('form.initiate')}</span>
                         </button>
                     </div>
                 </div>
@@ -532,7 +1105,7 @@ const App: React.FC = () => {
           </form>
         </div>
 
-        {isLoading && <Loading status={loadingMessage} step={loadingStep} facts={loadingFacts} />}
+        {isLoading && <Loading status={loadingMessage} step={loadingStep} facts={loadingFacts} sources={currentSearchResults} events={progressEvents} onCancel={handleCancel} />}
 
         {error && (
           <div className="max-w-2xl mx-auto mt-8 p-6 bg-red-100 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 rounded-2xl flex items-center gap-4 text-red-800 dark:text-red-200 animate-in fade-in">
@@ -541,69 +1114,144 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {pendingPlan && !isLoading && (
+            <PlanReview
+                key={pendingPlan.research.imagePrompt}
+                plan={pendingPlan.research}
+                topic={pendingPlan.request.topic}
+                renderLabel={selectedModel === 'gemini-3-pro-image-preview' ? t('plan.enginePro', { size: imageSize }) : selectedModel === 'imagen-4.0-generate-001' ? t('plan.engineImagen') : t('plan.engineFlash')}
+                onApprove={handleApprovePlan}
+                onDiscard={() => setPendingPlan(null)}
+            />
+        )}
+
+        {pendingVariants && !isLoading && (
+            <VariantPicker
+                variants={pendingVariants}
+                onConfirm={handleConfirmVariant}
+                onDiscardAll={() => setPendingVariants(null)}
+            />
+        )}
+
         {/* Vision Analysis Display */}
         {analysisResult && !isLoading && (
             <div className="max-w-6xl mx-auto mt-8 animate-in fade-in zoom-in duration-700">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
                     <div className="relative rounded-3xl overflow-hidden border border-slate-200 dark:border-white/10 shadow-2xl bg-white dark:bg-slate-900">
-                        <img src={analysisResult.imageUrl} alt="Analyzed" className="w-full h-auto max-h-[60vh] object-contain" />
-                        <div className="absolute bottom-4 left-4"><div className="px-3 py-1.5 rounded-full bg-black/60 backdrop-blur-md text-[10px] font-bold text-white uppercase tracking-widest border border-white/20">Source Image</div></div>
+                        <img src={analysisResult.imageUrl} alt={t('analysis.sourceImage')} className="w-full h-auto max-h-[60vh] object-contain" />
+                        <div className="absolute bottom-4 start-4"><div className="px-3 py-1.5 rounded-full bg-black/60 backdrop-blur-md text-[10px] font-bold text-white uppercase tracking-widest border border-white/20">{t('analysis.sourceImage')}</div></div>
                     </div>
                     <div className="bg-white/60 dark:bg-slate-900/40 backdrop-blur-xl rounded-[2.5rem] p-8 md:p-12 border border-slate-200 dark:border-white/10 shadow-xl relative overflow-hidden h-full flex flex-col">
                         <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-purple-500 to-indigo-500"></div>
                         <div className="flex items-center justify-between mb-8">
                             <div className="flex items-center gap-4">
                                 <div className="p-3 bg-purple-100 dark:bg-purple-900/30 rounded-2xl text-purple-600"><Wand2 className="w-6 h-6" /></div>
-                                <div><h2 className="text-2xl font-display font-bold text-slate-900 dark:text-white">Vision Intelligence</h2><p className="text-xs font-medium text-slate-500 uppercase tracking-widest">Neural Synthesis Report</p></div>
+                                <div><h2 className="text-2xl font-display font-bold text-slate-900 dark:text-white">{t('analysis.title')}</h2><p className="text-xs font-medium text-slate-500 uppercase tracking-widest">{t('analysis.subtitle')}</p></div>
                             </div>
                             <button 
                               onClick={() => playTTS(analysisResult.text)}
                               className="p-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-full hover:bg-cyan-500 hover:text-white transition-all shadow-sm"
-                              title="Listen to analysis"
+                              title={t('analysis.listen')}
                             >
                                 <Volume2 className="w-5 h-5" />
                             </button>
                         </div>
-                        <div className="prose prose-slate dark:prose-invert max-w-none flex-1 overflow-y-auto pr-2">
-                            <div className="text-slate-700 dark:text-slate-200 leading-relaxed font-medium whitespace-pre-wrap">
+                        <div className="prose prose-slate dark:prose-invert max-w-none flex-1 overflow-y-auto pe-2">
+                            <div dir="auto" className="text-slate-700 dark:text-slate-200 leading-relaxed font-medium whitespace-pre-wrap">
                                 {analysisResult.text}
                             </div>
                         </div>
                         <div className="mt-12 flex items-center justify-between">
-                            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em]">GEN AT {new Date(analysisResult.timestamp).toLocaleTimeString()}</div>
-                            <button onClick={() => { setTopic(`Explain visual findings: ${analysisResult.text.slice(0, 50)}...`); setSelectedImage(null); setAnalysisResult(null); }} className="px-6 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-full text-xs font-bold hover:opacity-80 transition-all flex items-center gap-2"><Atom className="w-3.5 h-3.5" /><span>Visualise This</span></button>
+                            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em]">{t('analysis.generatedAt', { time: formatDate(analysisResult.timestamp, { timeStyle: 'medium' }) })}</div>
+                            <button onClick={() => { setTopic(t('analysis.visualisePrompt', { excerpt: analysisResult.text.slice(0, 50) })); setSelectedImage(null); setAnalysisResult(null); }} className="px-6 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-full text-xs font-bold hover:opacity-80 transition-all flex items-center gap-2"><Atom className="w-3.5 h-3.5" /><span>{t('analysis.visualise')}</span></button>
                         </div>
                     </div>
                 </div>
             </div>
         )}
 
-        {imageHistory.length > 0 && !isLoading && !analysisResult && (
+        {imageHistory.length > 0 && !isLoading && !analysisResult && !pendingPlan && !pendingVariants && (
             <>
-                <Infographic image={imageHistory[0]} onEdit={handleEdit} isEditing={isLoading} onSpeak={() => playTTS(`Infographic generated for topic: ${imageHistory[0].prompt}. Analysis summary available.`)} />
+                <Infographic image={imageHistory[0]} history={imageHistory} onEdit={handleEdit} onTranslate={handleTranslate} onUpdateImage={handleUpdateImage} onError={setError} isEditing={isLoading} onSpeak={() => playTTS(t('speech.summary', { topic: imageHistory[0].prompt }))} />
+                <VersionTree images={imageHistory} currentId={imageHistory[0].id} onSelect={restoreImage} />
                 <SearchResults results={currentSearchResults} />
             </>
         )}
 
-        {(imageHistory.length > 1 || (imageHistory.length > 0 && analysisResult)) && (
+        {imageHistory.length > 0 && (
             <div className="max-w-7xl mx-auto mt-16 border-t border-slate-200 dark:border-white/10 pt-12">
-                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-[0.2em] mb-8 flex items-center gap-3"><History className="w-4 h-4" />Session Archives</h3>
+                <div className="flex items-center justify-between mb-8">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-[0.2em] flex items-center gap-3"><History className="w-4 h-4" />{t('history.title')}</h3>
+                    <div className="flex items-center gap-2">
+                        {isSelectingHistory ? (
+                            <>
+                                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('history.selected', { count: selectedHistoryIds.length })}</span>
+                                {(['pdf', 'pptx'] as const).map(format => (
+                                    <button key={format} onClick={() => handleExportDeck(format)} disabled={selectedHistoryIds.length === 0 || !!deckExport} className="px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest text-white bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 transition-colors flex items-center gap-2" title={format === 'pdf' ? t('history.pdfTitle') : t('history.pptxTitle')}>
+                                        {deckExport === format ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : format === 'pdf' ? <FileText className="w-3.5 h-3.5" /> : <Presentation className="w-3.5 h-3.5" />}
+                                        <span>{format}</span>
+                                    </button>
+                                ))}
+                                <button onClick={stopSelectingHistory} className="p-1.5 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('history.cancelSelection')}>
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            </>
+                        ) : (
+                            <>
+                                <button onClick={() => setIsSelectingHistory(true)} className="px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-cyan-50 dark:hover:bg-cyan-500/10 transition-colors flex items-center gap-2" title={t('history.selectTitle')}>
+                                    <CheckSquare className="w-3.5 h-3.5" />
+                                    <span>{t('history.select')}</span>
+                                </button>
+                                <button onClick={handleClearHistory} className="px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors flex items-center gap-2" title={t('history.clearTitle')}>
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                    <span>{t('history.clear')}</span>
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-6">
-                    {imageHistory.slice(analysisResult ? 0 : 1).map((img) => (
-                        <div key={img.id} onClick={() => restoreImage(img)} className="group relative cursor-pointer rounded-2xl overflow-hidden border border-slate-200 dark:border-white/10 hover:border-cyan-500/50 transition-all shadow-lg bg-white dark:bg-slate-900/50 backdrop-blur-sm">
+                    {/* The image on screen is only listed here while selecting, so it can be exported too */}
+                    {historyCards.map((img) => {
+                        const selectionIndex = selectedHistoryIds.indexOf(img.id);
+                        const translations = isSelectingHistory ? [] : translationsBySource.get(img.id) || [];
+                        return (
+                        <div key={img.id} onClick={() => isSelectingHistory ? toggleHistorySelection(img.id) : restoreImage(img)} className={`group relative cursor-pointer rounded-2xl overflow-hidden border transition-all shadow-lg bg-white dark:bg-slate-900/50 backdrop-blur-sm ${selectionIndex >= 0 ? 'border-cyan-500 ring-4 ring-cyan-500/20' : 'border-slate-200 dark:border-white/10 hover:border-cyan-500/50'}`}>
                             <img src={img.data} alt={img.prompt} className="w-full aspect-video object-cover opacity-90 group-hover:opacity-100 transition-opacity duration-500" />
+                            {translations.length > 0 && (
+                                <div className="absolute top-3 start-3 end-3 flex flex-wrap gap-1">
+                                    {translations.map(version => (
+                                        <button key={version.id} onClick={(e) => { e.stopPropagation(); restoreImage(version); }} className="px-2 py-0.5 rounded-full bg-black/60 backdrop-blur-md text-[10px] font-bold text-white border border-white/20 hover:bg-cyan-600 transition-colors" title={t('history.openTranslation', { language: NATIVE_LANGUAGE_NAMES[version.language || 'English'] })}>
+                                            {NATIVE_LANGUAGE_NAMES[version.language || 'English']}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {img.translationOf && img.language && !isSelectingHistory && (
+                                <div className="absolute top-3 start-3 px-2 py-0.5 rounded-full bg-cyan-600 text-[10px] font-bold text-white shadow-lg">
+                                    {NATIVE_LANGUAGE_NAMES[img.language]}
+                                </div>
+                            )}
+                            {isSelectingHistory && (
+                                <div className={`absolute top-3 end-3 w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold shadow-lg ${selectionIndex >= 0 ? 'bg-cyan-600 text-white' : 'bg-black/50 border border-white/60'}`}>
+                                    {selectionIndex >= 0 ? formatNumber(selectionIndex + 1) : ''}
+                                </div>
+                            )}
                             <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-4 pt-8 translate-y-4 group-hover:translate-y-0 transition-transform duration-300">
-                                <p className="text-xs text-white font-bold truncate font-display">{img.prompt}</p>
+                                <p dir="auto" className="text-xs text-white font-bold truncate font-display">{img.prompt}</p>
+                                <p className="text-[10px] text-slate-300">{formatDate(img.timestamp)}</p>
+                                {img.editInstruction && <p className="text-[10px] text-cyan-300 truncate">↳ {img.editInstruction}</p>}
                             </div>
                         </div>
-                    ))}
+                        );
+                    })}
                 </div>
             </div>
         )}
       </main>
     </div>
     )}
-    </>
+    </I18nProvider>
   );
 };
 
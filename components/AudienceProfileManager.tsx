@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { AudienceProfile } from '../types';
+import { clampWordsPerLabel, createAudienceProfile, duplicateAudienceProfile, MAX_WORDS_PER_LABEL, MIN_WORDS_PER_LABEL } from '../services/audienceProfileService';
+import { GraduationCap, X, Plus, Copy, Pencil, Trash2, Check } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface AudienceProfileManagerProps {
+  isOpen: boolean;
+  profiles: AudienceProfile[];
+  onClose: () => void;
+  onSave: (profile: AudienceProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+const AudienceProfileManager: React.FC<AudienceProfileManagerProps> = ({ isOpen, profiles, onClose, onSave, onDelete }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<AudienceProfile | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      readingLevel: draft.readingLevel.trim(),
+      maxWordsPerLabel: clampWordsPerLabel(draft.maxWordsPerLabel),
+      vocabulary: draft.vocabulary.trim(),
+      visualConventions: draft.visualConventions.trim(),
+      updatedAt: Date.now()
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = (profile: AudienceProfile) => {
+    if (!window.confirm(t('audience.deleteConfirm', { name: profile.name }))) return;
+    onDelete(profile.id);
+    if (draft?.id === profile.id) setDraft(null);
+  };
+
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-2.5 text-sm focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-950/80 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-200 dark:border-white/10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl text-cyan-600"><GraduationCap className="w-5 h-5" /></div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-slate-900 dark:text-white">{t('audience.title')}</h2>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('audience.count', { count: profiles.length })}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <button onClick={() => setDraft(createAudienceProfile())} className="px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-bold hover:opacity-80 transition-opacity flex items-center gap-2">
+            <Plus className="w-3.5 h-3.5" /> {t('audience.new')}
+          </button>
+
+          {/* Editor */}
+          {draft && (
+            <div className="p-4 rounded-2xl border border-cyan-500/30 bg-cyan-50/50 dark:bg-cyan-500/5 space-y-3">
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder={t('audience.namePlaceholder')} className={`${inputClass} font-bold`} />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                  <span className={labelClass}>{t('audience.readingLevel')}</span>
+                  <input value={draft.readingLevel} onChange={(e) => setDraft({ ...draft, readingLevel: e.target.value })} placeholder={t('audience.readingLevelPlaceholder')} className={inputClass} />
+                </label>
+                <label className="block space-y-1">
+                  <span className={labelClass}>{t('audience.maxWords')}</span>
+                  <input
+                    type="number"
+                    min={MIN_WORDS_PER_LABEL}
+                    max={MAX_WORDS_PER_LABEL}
+                    value={draft.maxWordsPerLabel}
+                    onChange={(e) => setDraft({ ...draft, maxWordsPerLabel: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              <label className="block space-y-1">
+                <span className={labelClass}>{t('audience.vocabulary')}</span>
+                <textarea value={draft.vocabulary} onChange={(e) => setDraft({ ...draft, vocabulary: e.target.value })} rows={2} placeholder={t('audience.vocabularyPlaceholder')} className={inputClass} />
+              </label>
+              <label className="block space-y-1">
+                <span className={labelClass}>{t('audience.visual')}</span>
+                <textarea value={draft.visualConventions} onChange={(e) => setDraft({ ...draft, visualConventions: e.target.value })} rows={2} placeholder={t('audience.visualPlaceholder')} className={inputClass} />
+              </label>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl text-slate-500 text-xs font-bold hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">{t('common.cancel')}</button>
+                <button onClick={handleSaveDraft} disabled={!draft.name.trim()} className="px-4 py-2 rounded-xl bg-cyan-600 text-white text-xs font-bold hover:bg-cyan-500 transition-colors flex items-center gap-2 disabled:opacity-40">
+                  <Check className="w-3.5 h-3.5" /> {t('audience.save')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* List */}
+          <div className="space-y-2">
+            {profiles.map(profile => (
+              <div key={profile.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 dark:border-white/5 bg-slate-50 dark:bg-slate-950/50">
+                <div className="w-10 h-10 rounded-md bg-cyan-100 dark:bg-cyan-900/30 text-cyan-500 flex items-center justify-center shrink-0"><GraduationCap className="w-4 h-4" /></div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-900 dark:text-slate-100 truncate">{profile.name}</p>
+                  <p className="text-xs text-slate-500 truncate">{[profile.readingLevel, t('audience.wordsPerLabel', { count: profile.maxWordsPerLabel })].filter(Boolean).join(' · ')}</p>
+                </div>
+                <button onClick={() => setDraft(profile)} className="p-1 text-slate-400 hover:text-cyan-600" title={t('common.edit')}><Pencil className="w-4 h-4" /></button>
+                <button onClick={() => onSave(duplicateAudienceProfile(profile, profiles))} className="p-1 text-slate-400 hover:text-cyan-600" title={t('common.duplicate')}><Copy className="w-4 h-4" /></button>
+                <button onClick={() => handleDelete(profile)} className="p-1 text-slate-400 hover:text-red-500" title={t('common.delete')}><Trash2 className="w-4 h-4" /></button>
+              </div>
+            ))}
+            {profiles.length === 0 && !draft && (
+              <p className="text-center text-xs text-slate-400 uppercase tracking-widest font-bold py-6">{t('audience.empty')}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudienceProfileManager;
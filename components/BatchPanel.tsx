@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchItem, BatchItemStatus, GeneratedImage, RenderSettings, ResearchRequest } from '../types';
+import { renderPlan, researchPlan } from '../services/infographicPipeline';
+import { createProgressTracker } from '../services/progressService';
+import { parseBatchCsv, parseBatchInput, parseBatchJson, runWithConcurrency, BatchParseError, BatchParseResult } from '../services/batchService';
+import { buildBatchArchive, downloadBlob } from '../services/exportService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { NATIVE_LANGUAGE_NAMES } from '../services/i18nService';
+import { useI18n } from './I18nProvider';
+import { ListChecks, X, Upload, Play, RotateCcw, Download, Trash2, Loader2, CheckCircle2, AlertCircle, Clock, Square } from 'lucide-react';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaults: RenderSettings & Omit<ResearchRequest, 'topic'>;
+  onImageCreated: (image: GeneratedImage) => void;
+  confirmBudget: (runs: number) => boolean; // Checked before a run starts, with the number of topics in it
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'text-slate-500 bg-slate-100 dark:bg-slate-800',
+  researching: 'text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-500/10',
+  rendering: 'text-cyan-700 dark:text-cyan-300 bg-cyan-100 dark:bg-cyan-500/10',
+  done: 'text-emerald-700 dark:text-emerald-300 bg-emerald-100 dark:bg-emerald-500/10',
+  failed: 'text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-500/10'
+};
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'done': return <CheckCircle2 className="w-3.5 h-3.5" />;
+    case 'failed': return <AlertCircle className="w-3.5 h-3.5" />;
+    case 'queued': return <Clock className="w-3.5 h-3.5" />;
+    default: return <Loader2 className="w-3.5 h-3.5 animate-spin" />;
+  }
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ isOpen, onClose, defaults, onImageCreated, confirmBudget }) => {
+  const { t } = useI18n();
+  const [input, setInput] = useState('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [parseErrors, setParseErrors] = useState<BatchParseError[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Nothing keeps spending once the panel is gone
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const enqueue = ({ rows, errors }: BatchParseResult) => {
+    setParseErrors(errors);
+    const stamp = Date.now();
+    setItems(prev => [...prev, ...rows.map((row, i): BatchItem => ({
+      id: `${stamp}-${i}`,
+      topic: row.topic,
+      level: row.level || defaults.level,
+      // Likewise a row naming a built-in level opts out of the selected audience profile
+      audienceProfile: row.level ? undefined : defaults.audienceProfile,
+      style: row.style || defaults.style,
+      // A row naming a built-in style opts out of the selected custom preset
+      stylePreset: row.style ? undefined : defaults.stylePreset,
+      brandKit: defaults.brandKit,
+      sourcePolicy: defaults.sourcePolicy,
+      language: row.language || defaults.language,
+      aspectRatio: row.aspectRatio || defaults.aspectRatio,
+      status: 'queued'
+    }))]);
+    return rows.length;
+  };
+
+  const formatParseError = ({ code, row, field, value, expected }: BatchParseError) =>
+    t(`batch.error.${code}`, { row: row ?? 0, field: field ?? '', value: value ?? '', expected: expected?.join(', ') ?? '' });
+
+  const handleAddFromText = () => {
+    if (enqueue(parseBatchInput(input)) > 0) setInput('');
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = reader.result as string;
+      enqueue(file.name.toLowerCase().endsWith('.json') ? parseBatchJson(text) : parseBatchCsv(text));
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const processItem = async (item: BatchItem, signal: AbortSignal) => {
+    updateItem(item.id, { status: 'researching', error: undefined });
+    // Not shown while the batch runs, but kept on the image like any other run
+    const progress = createProgressTracker();
+    try {
+      const research = await researchPlan(item, signal, progress.report);
+      updateItem(item.id, { status: 'rendering' });
+      const image = await renderPlan(item, research, { model: defaults.model, aspectRatio: item.aspectRatio, size: defaults.size }, signal, progress);
+      updateItem(item.id, { status: 'done', image });
+      onImageCreated(image);
+    } catch (err) {
+      // A cancelled topic goes back to the queue so the next run picks it up
+      if (isCancelled(err)) {
+        updateItem(item.id, { status: 'queued' });
+        return;
+      }
+      console.error(err);
+      updateItem(item.id, { status: 'failed', error: getErrorMessage(err, 'error.unavailable', t) });
+    }
+  };
+
+  const runItems = async (toRun: BatchItem[]) => {
+    if (isRunning || toRun.length === 0 || !confirmBudget(toRun.length)) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runWithConcurrency(toRun, concurrency, item => processItem(item, controller.signal), controller.signal);
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    const images = items.map(item => item.image).filter((image): image is GeneratedImage => !!image);
+    if (images.length === 0) return;
+    setIsZipping(true);
+    setArchiveError(null);
+    try {
+      downloadBlob(await buildBatchArchive(images), `infographics-batch-${Date.now()}.zip`);
+    } catch (err) {
+      console.error("Failed to build archive:", err);
+      setArchiveError(t('error.batchArchive'));
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const queued = items.filter(i => i.status === 'queued');
+  const failed = items.filter(i => i.status === 'failed');
+  const done = items.filter(i => i.status === 'done');
+
+  return (
+    <div className={`fixed inset-0 z-[150] bg-slate-950/80 backdrop-blur-md items-center justify-center p-4 ${isOpen ? 'flex animate-in fade-in duration-300' : 'hidden'}`}>
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-200 dark:border-white/10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl text-cyan-600"><ListChecks className="w-5 h-5" /></div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-slate-900 dark:text-white">{t('batch.title')}</h2>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('batch.summary', { done: done.length, total: items.length, model: defaults.model, size: defaults.size })}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t(isRunning ? 'batch.hide' : 'common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          {/* Input */}
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            rows={4}
+            placeholder={t('batch.placeholder')}
+            className="w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-3 text-sm font-mono focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={handleAddFromText} disabled={!input.trim()} className="px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-bold hover:opacity-80 transition-opacity disabled:opacity-40">
+              {t('batch.add')}
+            </button>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.json,.txt" onChange={handleFileUpload} />
+            <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2">
+              <Upload className="w-3.5 h-3.5" /> {t('batch.import')}
+            </button>
+            <div className="ms-auto flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              <span>{t('batch.parallel')}</span>
+              <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} disabled={isRunning} className="bg-slate-100 dark:bg-slate-800 border-none rounded-lg text-xs font-bold text-slate-900 dark:text-white py-1">
+                {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {parseErrors.length > 0 && (
+            <div className="p-3 rounded-xl bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 text-xs text-red-700 dark:text-red-300 space-y-1">
+              {parseErrors.map((err, i) => <p key={i}>{formatParseError(err)}</p>)}
+            </div>
+          )}
+
+          {archiveError && (
+            <div className="p-3 rounded-xl bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 text-xs text-red-700 dark:text-red-300">
+              {archiveError}
+            </div>
+          )}
+
+          {/* Queue */}
+          <div className="space-y-2">
+            {items.map(item => (
+              <div key={item.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 dark:border-white/5 bg-slate-50 dark:bg-slate-950/50">
+                {item.image ? (
+                  <img src={item.image.data} alt="" className="w-14 h-10 rounded-md object-cover shrink-0" />
+                ) : (
+                  <div className="w-14 h-10 rounded-md bg-slate-200 dark:bg-slate-800 shrink-0"></div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-900 dark:text-slate-100 truncate">{item.topic}</p>
+                  <p className="text-[10px] text-slate-500 uppercase tracking-wider truncate">
+                    {item.error ? <span className="text-red-500 normal-case tracking-normal">{item.error}</span> : `${item.audienceProfile?.name || t(`level.${item.level}`)} · ${item.stylePreset?.name || t(`style.${item.style}`)} · ${NATIVE_LANGUAGE_NAMES[item.language]} · ${item.aspectRatio}`}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider flex items-center gap-1 ${STATUS_STYLES[item.status]}`}>
+                  <StatusIcon status={item.status} /> {t(`batch.status.${item.status}`)}
+                </span>
+                {item.status === 'failed' && !isRunning && (
+                  <button onClick={() => runItems([item])} className="p-1 text-slate-400 hover:text-cyan-600" title={t('batch.retry')}><RotateCcw className="w-4 h-4" /></button>
+                )}
+                {(item.status === 'queued' || item.status === 'failed' || item.status === 'done') && !isRunning && (
+                  <button onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))} className="p-1 text-slate-400 hover:text-red-500" title={t('batch.remove')}><Trash2 className="w-4 h-4" /></button>
+                )}
+              </div>
+            ))}
+            {items.length === 0 && (
+              <p className="text-center text-xs text-slate-400 uppercase tracking-widest font-bold py-6">{t('batch.empty')}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="p-5 border-t border-slate-200 dark:border-white/10 flex flex-wrap justify-end gap-2">
+          {failed.length > 0 && (
+            <button onClick={() => runItems(failed)} disabled={isRunning} className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-sm font-bold flex items-center gap-2 disabled:opacity-40">
+              <RotateCcw className="w-4 h-4" /> {t('batch.retryFailed', { count: failed.length })}
+            </button>
+          )}
+          <button onClick={handleDownloadAll} disabled={done.length === 0 || isZipping} className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-sm font-bold flex items-center gap-2 disabled:opacity-40">
+            {isZipping ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} {t('batch.downloadAll', { count: done.length })}
+          </button>
+          {isRunning && (
+            <button onClick={() => abortRef.current?.abort()} className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-sm font-bold flex items-center gap-2 hover:text-red-600 transition-colors">
+              <Square className="w-4 h-4" /> {t('loading.cancel')}
+            </button>
+          )}
+          <button onClick={() => runItems(queued)} disabled={isRunning || queued.length === 0} className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-cyan-600 to-blue-600 text-white text-sm font-bold flex items-center gap-2 disabled:opacity-40">
+            {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />} {isRunning ? t('batch.running') : t('batch.start', { count: queued.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { BrandKit, LogoCorner } from '../types';
+import { createBrandKit, MAX_PALETTE_COLORS, normalizeHex, prepareLogo } from '../services/brandService';
+import { Stamp, X, Plus, ImagePlus, Check, RotateCcw } from 'lucide-react';
+import { MessageKey } from '../locales/en';
+import { useI18n } from './I18nProvider';
+
+interface BrandKitPanelProps {
+  isOpen: boolean;
+  brandKit: BrandKit | null;
+  onClose: () => void;
+  onSave: (kit: BrandKit | null) => void;
+}
+
+const CORNERS: { value: LogoCorner, label: MessageKey }[] = [
+  { value: 'top-left', label: 'brand.cornerTopLeft' },
+  { value: 'top-right', label: 'brand.cornerTopRight' },
+  { value: 'bottom-left', label: 'brand.cornerBottomLeft' },
+  { value: 'bottom-right', label: 'brand.cornerBottomRight' }
+];
+
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ isOpen, brandKit, onClose, onSave }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<BrandKit>(brandKit || createBrandKit());
+  const [hexInput, setHexInput] = useState('');
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  // Start from the saved kit every time the panel opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(brandKit || createBrandKit());
+      setHexInput('');
+      setLogoError(null);
+    }
+  }, [isOpen, brandKit]);
+
+  if (!isOpen) return null;
+
+  const addColor = (value: string) => {
+    const hex = normalizeHex(value);
+    if (!hex || draft.palette.includes(hex) || draft.palette.length >= MAX_PALETTE_COLORS) return;
+    setDraft({ ...draft, palette: [...draft.palette, hex] });
+    setHexInput('');
+  };
+
+  const updateColor = (index: number, value: string) => {
+    setDraft({ ...draft, palette: draft.palette.map((c, i) => i === index ? value : c) });
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDraft({ ...draft, logo: await prepareLogo(file) });
+      setLogoError(null);
+    } catch (err: any) {
+      setLogoError(err.message);
+    }
+  };
+
+  const handleSave = () => {
+    onSave({ ...draft, name: draft.name.trim(), typography: draft.typography.trim(), tone: draft.tone.trim() });
+    onClose();
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(t('brand.removeConfirm'))) return;
+    onSave(null);
+    onClose();
+  };
+
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-2.5 text-sm focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-950/80 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-200 dark:border-white/10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl text-cyan-600"><Stamp className="w-5 h-5" /></div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-slate-900 dark:text-white">{t('brand.title')}</h2>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('brand.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5 overflow-y-auto">
+          <label className="block space-y-1">
+            <span className={labelClass}>{t('brand.name')}</span>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder={t('brand.namePlaceholder')} className={inputClass} />
+          </label>
+
+          <div className="space-y-2">
+            <span className={labelClass}>{t('brand.palette', { count: draft.palette.length, max: MAX_PALETTE_COLORS })}</span>
+            <div className="flex flex-wrap items-center gap-2">
+              {draft.palette.map((color, i) => (
+                <div key={i} className="flex items-center gap-1.5 ps-1 pe-2 py-1 rounded-xl bg-slate-100 dark:bg-slate-800">
+                  <input type="color" value={color} onChange={(e) => updateColor(i, e.target.value)} className="w-7 h-7 rounded-lg cursor-pointer bg-transparent" />
+                  <span className="text-xs font-mono text-slate-700 dark:text-slate-300">{color}</span>
+                  <button onClick={() => setDraft({ ...draft, palette: draft.palette.filter((_, j) => j !== i) })} className="text-slate-400 hover:text-red-500" title={t('brand.removeColor')}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {draft.palette.length < MAX_PALETTE_COLORS && (
+                <form onSubmit={(e) => { e.preventDefault(); addColor(hexInput); }} className="flex items-center gap-1">
+                  <input value={hexInput} onChange={(e) => setHexInput(e.target.value)} placeholder="#1e40af" className="w-24 bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-3 py-2 text-xs font-mono focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white" />
+                  <button type="submit" disabled={!normalizeHex(hexInput)} className="p-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-cyan-600 disabled:opacity-40" title={t('brand.addColor')}>
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                </form>
+              )}
+            </div>
+          </div>
+
+          <label className="block space-y-1">
+            <span className={labelClass}>{t('brand.typography')}</span>
+            <input value={draft.typography} onChange={(e) => setDraft({ ...draft, typography: e.target.value })} placeholder={t('brand.typographyPlaceholder')} className={inputClass} />
+          </label>
+
+          <label className="block space-y-1">
+            <span className={labelClass}>{t('brand.tone')}</span>
+            <textarea value={draft.tone} onChange={(e) => setDraft({ ...draft, tone: e.target.value })} rows={2} placeholder={t('brand.tonePlaceholder')} className={inputClass} />
+          </label>
+
+          <div className="space-y-2">
+            <span className={labelClass}>{t('brand.logo')}</span>
+            <div className="flex flex-wrap items-center gap-4">
+              <input type="file" ref={logoInputRef} className="hidden" accept="image/*" onChange={handleLogoUpload} />
+              {draft.logo ? (
+                <div className="relative p-2 rounded-xl bg-checkered border border-slate-200 dark:border-white/10">
+                  <img src={draft.logo} alt={t('brand.logoAlt')} className="h-12 max-w-[140px] object-contain" />
+                  <button onClick={() => setDraft({ ...draft, logo: undefined })} className="absolute -top-2 -end-2 p-0.5 bg-slate-900 text-white rounded-full" title={t('brand.removeLogo')}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ) : (
+                <button onClick={() => logoInputRef.current?.click()} className="px-3 py-2 rounded-xl border border-dashed border-slate-300 dark:border-white/20 text-slate-500 text-xs font-bold hover:text-cyan-600 transition-colors flex items-center gap-2">
+                  <ImagePlus className="w-3.5 h-3.5" /> {t('brand.uploadLogo')}
+                </button>
+              )}
+              {draft.logo && (
+                // Picks a corner of the image, so the grid keeps its physical layout in right-to-left interfaces
+                <div dir="ltr" className="grid grid-cols-2 gap-1 p-1 rounded-xl bg-slate-100 dark:bg-slate-800" title={t('brand.cornerTitle')}>
+                  {CORNERS.map(({ value, label }) => (
+                    <button key={value} onClick={() => setDraft({ ...draft, logoCorner: value })} className={`w-8 h-6 rounded-md transition-colors ${draft.logoCorner === value ? 'bg-cyan-600' : 'bg-white dark:bg-slate-900 hover:bg-cyan-100 dark:hover:bg-cyan-900/40'}`} title={t(label)} />
+                  ))}
+                </div>
+              )}
+            </div>
+            {logoError && <p className="text-xs text-red-500">{logoError}</p>}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="p-5 border-t border-slate-200 dark:border-white/10 flex justify-between gap-2">
+          <button onClick={handleReset} disabled={!brandKit} className="px-4 py-2.5 rounded-xl text-slate-500 text-sm font-bold hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors flex items-center gap-2 disabled:opacity-40">
+            <RotateCcw className="w-4 h-4" /> {t('brand.remove')}
+          </button>
+          <button onClick={handleSave} className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-cyan-600 to-blue-600 text-white text-sm font-bold flex items-center gap-2">
+            <Check className="w-4 h-4" /> {t('brand.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitPanel;
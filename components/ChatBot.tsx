@@ -1,21 +1,58 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageSquare, Send, X, Bot, User, Loader2, Minimize2 } from 'lucide-react';
-import { chatWithGemini } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { MessageSquare, Send, X, Bot, User, Loader2, Minimize2, Plus, History, Download, Trash2, Image as ImageIcon } from 'lucide-react';
+import { createChatSession } from '../services/geminiService';
+import { loadConversations, saveConversation, deleteConversation } from '../services/storageService';
+import { downloadBlob } from '../services/exportService';
+import { I18n } from '../services/i18nService';
+import { ChatConversation, ChatMessage, ChatSession, GeneratedImage, SearchResultItem } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface ChatBotProps {
+  contextImage?: GeneratedImage;
+}
+
+// Greets in the UI language at the time the conversation starts
+const createGreeting = (i18n: I18n): ChatMessage => ({ role: 'model', text: i18n.t('chat.greeting') });
+
+// Failed turns are shown to the user but must not be replayed into a new session
+const getReplayableHistory = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.filter((msg, i) => !msg.isError && !messages[i + 1]?.isError);
+
+const buildTranscript = (conversation: ChatConversation, i18n: I18n): string => {
+  const lines = [`# ${conversation.title}`, '', `_${i18n.t('chat.exported', { date: i18n.formatDate(Date.now()) })}_`, ''];
+  conversation.messages.forEach(msg => {
+    lines.push(`**${msg.role === 'user' ? i18n.t('chat.you') : 'InfoGenius'}:** ${msg.text}`, '');
+  });
+  return lines.join('\n');
+};
+
+// Turns [n] citations into links to the matching research source
+const renderWithCitations = (text: string, sources: SearchResultItem[]): React.ReactNode =>
+  text.split(/(\[\d+\])/g).map((part, i) => {
+    const source = sources[Number(part.match(/^\[(\d+)\]$/)?.[1]) - 1];
+    return source ? (
+      <a key={i} href={source.url} target="_blank" rel="noopener noreferrer" title={source.title} className="font-bold text-cyan-600 dark:text-cyan-400 hover:underline">{part}</a>
+    ) : part;
+  });
 
-const ChatBot: React.FC = () => {
+const ChatBot: React.FC<ChatBotProps> = ({ contextImage }) => {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
   const [isOpen, setIsOpen] = useState(false);
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'model', text: 'Hi! I am InfoGenius. How can I help you with your research or visuals today?' }
-  ]);
+  const [conversationId, setConversationId] = useState(() => Date.now().toString());
+  const [createdAt, setCreatedAt] = useState(() => Date.now());
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [createGreeting(i18n)]);
   const [isTyping, setIsTyping] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [useImageContext, setUseImageContext] = useState(true);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const sessionRef = useRef<ChatSession | null>(null);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -23,83 +60,206 @@ const ChatBot: React.FC = () => {
     }
   }, [messages]);
 
+  const activeContext = useImageContext ? contextImage : undefined;
+  const contextSources = activeContext?.research?.searchResults || [];
+
+  // A different infographic on screen means a differently grounded session
+  useEffect(() => {
+    sessionRef.current = null;
+  }, [activeContext?.id]);
+
+  useEffect(() => {
+    if (showArchive) {
+      loadConversations().then(setConversations).catch(e => console.error("Failed to load conversations:", e));
+    }
+  }, [showArchive]);
+
+  const toConversation = (msgs: ChatMessage[]): ChatConversation => {
+    const firstQuestion = msgs.find(m => m.role === 'user')?.text || t('chat.newConversation');
+    return {
+      id: conversationId,
+      title: firstQuestion.length > 60 ? `${firstQuestion.slice(0, 60)}...` : firstQuestion,
+      messages: msgs,
+      createdAt,
+      updatedAt: Date.now()
+    };
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isTyping) return;
 
     const userMessage = input.trim();
+    const withUserMessage: ChatMessage[] = [...messages, { role: 'user', text: userMessage }];
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMessage }]);
+    setMessages(withUserMessage);
     setIsTyping(true);
 
+    let updated: ChatMessage[];
+    try {
+      if (!sessionRef.current) {
+        sessionRef.current = createChatSession(getReplayableHistory(messages), activeContext);
+      }
+      const response = await sessionRef.current.sendMessage(userMessage);
+      updated = [...withUserMessage, { role: 'model', text: response || t('chat.noResponse'), sources: contextSources.length > 0 ? contextSources : undefined }];
+    } catch (error) {
+      updated = [...withUserMessage, { role: 'model', text: t('chat.error'), isError: true }];
+    }
+
+    setMessages(updated);
+    setIsTyping(false);
+    saveConversation(toConversation(updated)).catch(e => console.error("Failed to save conversation:", e));
+  };
+
+  const handleNewConversation = () => {
+    if (isTyping) return;
+    sessionRef.current = null;
+    setConversationId(Date.now().toString());
+    setCreatedAt(Date.now());
+    setMessages([createGreeting(i18n)]);
+    setShowArchive(false);
+  };
+
+  const handleOpenConversation = (conversation: ChatConversation) => {
+    if (isTyping) return;
+    // The session is rebuilt from these messages on the next send
+    sessionRef.current = null;
+    setConversationId(conversation.id);
+    setCreatedAt(conversation.createdAt);
+    setMessages(conversation.messages);
+    setShowArchive(false);
+  };
+
+  const handleDeleteConversation = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
     try {
-      const response = await chatWithGemini(userMessage);
-      setMessages(prev => [...prev, { role: 'model', text: response || "I couldn't generate a response." }]);
+      await deleteConversation(id);
+      setConversations(prev => prev.filter(c => c.id !== id));
+      if (id === conversationId) handleNewConversation();
     } catch (error) {
-      setMessages(prev => [...prev, { role: 'model', text: "Sorry, I encountered an error. Please try again." }]);
-    } finally {
-      setIsTyping(false);
+      console.error("Failed to delete conversation:", error);
     }
   };
 
+  const handleExport = () => {
+    const transcript = buildTranscript(toConversation(messages), i18n);
+    downloadBlob(new Blob([transcript], { type: 'text/markdown' }), `infogenius-chat-${conversationId}.md`);
+  };
+
   return (
-    <div className="fixed bottom-6 right-6 z-[100]">
+    <div className="fixed bottom-6 end-6 z-[100]">
       {isOpen ? (
         <div className="w-80 sm:w-96 h-[500px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-3xl shadow-2xl flex flex-col overflow-hidden animate-in slide-in-from-bottom-10 duration-300">
           {/* Header */}
           <div className="p-4 bg-gradient-to-r from-cyan-600 to-indigo-600 text-white flex justify-between items-center">
             <div className="flex items-center gap-2">
               <Bot className="w-5 h-5" />
-              <span className="font-bold text-sm tracking-tight">InfoGenius Chat</span>
+              <span className="font-bold text-sm tracking-tight">{t('chat.title')}</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <button onClick={handleNewConversation} className="hover:bg-white/20 p-1 rounded-lg transition-colors" title={t('chat.newConversation')}>
+                <Plus className="w-4 h-4" />
+              </button>
+              <button onClick={() => setShowArchive(!showArchive)} className={`p-1 rounded-lg transition-colors ${showArchive ? 'bg-white/20' : 'hover:bg-white/20'}`} title={t('chat.savedConversations')}>
+                <History className="w-4 h-4" />
+              </button>
+              <button onClick={handleExport} disabled={messages.length < 2} className="hover:bg-white/20 p-1 rounded-lg transition-colors disabled:opacity-40" title={t('chat.exportTranscript')}>
+                <Download className="w-4 h-4" />
+              </button>
+              <button onClick={() => setIsOpen(false)} className="hover:bg-white/20 p-1 rounded-lg transition-colors" title={t('chat.minimize')}>
+                <Minimize2 className="w-4 h-4" />
+              </button>
             </div>
-            <button onClick={() => setIsOpen(false)} className="hover:bg-white/20 p-1 rounded-lg transition-colors">
-              <Minimize2 className="w-4 h-4" />
-            </button>
           </div>
 
-          {/* Messages */}
-          <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50 dark:bg-slate-950/50">
-            {messages.map((msg, i) => (
-              <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div className={`max-w-[85%] p-3 rounded-2xl text-sm ${
-                  msg.role === 'user' 
-                  ? 'bg-cyan-600 text-white rounded-tr-none' 
-                  : 'bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 border border-slate-200 dark:border-white/5 rounded-tl-none shadow-sm'
-                }`}>
-                  {msg.text}
-                </div>
+          {contextImage && !showArchive && (
+            <div className="px-3 py-2 bg-cyan-50 dark:bg-cyan-500/10 border-b border-cyan-100 dark:border-cyan-500/20 flex items-center gap-2">
+              <img src={contextImage.data} alt="" className="w-8 h-8 rounded-md object-cover border border-cyan-500/30 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-[10px] font-bold text-cyan-700 dark:text-cyan-300 uppercase tracking-widest">{useImageContext ? t('chat.grounded') : t('chat.contextOff')}</p>
+                <p className="text-xs text-slate-600 dark:text-slate-300 truncate">{contextImage.prompt} · {t('chat.contextSummary', { facts: contextImage.research?.facts.length || 0, sources: contextImage.research?.searchResults.length || 0 })}</p>
               </div>
-            ))}
-            {isTyping && (
-              <div className="flex justify-start">
-                <div className="bg-white dark:bg-slate-800 p-3 rounded-2xl rounded-tl-none border border-slate-200 dark:border-white/5 shadow-sm">
-                  <Loader2 className="w-4 h-4 animate-spin text-cyan-500" />
+              <button onClick={() => setUseImageContext(!useImageContext)} className="p-1 rounded-lg text-cyan-700 dark:text-cyan-300 hover:bg-cyan-100 dark:hover:bg-cyan-500/20 transition-colors" title={useImageContext ? t('chat.stopContext') : t('chat.useContext')}>
+                {useImageContext ? <X className="w-3.5 h-3.5" /> : <ImageIcon className="w-3.5 h-3.5" />}
+              </button>
+            </div>
+          )}
+
+          {showArchive ? (
+            /* Saved Conversations */
+            <div className="flex-1 overflow-y-auto p-3 space-y-2 bg-slate-50 dark:bg-slate-950/50">
+              {conversations.length === 0 ? (
+                <p className="text-center text-xs text-slate-400 uppercase tracking-widest font-bold mt-8">{t('chat.noConversations')}</p>
+              ) : conversations.map(conversation => (
+                <div
+                  key={conversation.id}
+                  onClick={() => handleOpenConversation(conversation)}
+                  className={`group p-3 rounded-xl border cursor-pointer flex items-start justify-between gap-2 transition-colors ${
+                    conversation.id === conversationId
+                    ? 'border-cyan-500/50 bg-cyan-50 dark:bg-cyan-500/10'
+                    : 'border-slate-200 dark:border-white/5 bg-white dark:bg-slate-800 hover:border-cyan-500/30'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-900 dark:text-slate-100 truncate">{conversation.title}</p>
+                    <p className="text-[10px] text-slate-500 uppercase tracking-wider">{formatDate(conversation.updatedAt)} · {t('chat.messageCount', { count: conversation.messages.length })}</p>
+                  </div>
+                  <button onClick={(e) => handleDeleteConversation(e, conversation.id)} className="p-1 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity" title={t('chat.deleteConversation')}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
                 </div>
-              </div>
-            )}
-          </div>
+              ))}
+            </div>
+          ) : (
+            /* Messages */
+            <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50 dark:bg-slate-950/50">
+              {messages.map((msg, i) => (
+                <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div dir="auto" className={`max-w-[85%] p-3 rounded-2xl text-sm ${
+                    msg.role === 'user'
+                    ? 'bg-cyan-600 text-white rounded-se-none'
+                    : msg.isError
+                    ? 'bg-red-50 dark:bg-red-500/10 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-500/30 rounded-ss-none'
+                    : 'bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 border border-slate-200 dark:border-white/5 rounded-ss-none shadow-sm'
+                  }`}>
+                    {msg.role === 'model' ? renderWithCitations(msg.text, msg.sources || []) : msg.text}
+                  </div>
+                </div>
+              ))}
+              {isTyping && (
+                <div className="flex justify-start">
+                  <div className="bg-white dark:bg-slate-800 p-3 rounded-2xl rounded-ss-none border border-slate-200 dark:border-white/5 shadow-sm">
+                    <Loader2 className="w-4 h-4 animate-spin text-cyan-500" />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Input */}
           <form onSubmit={handleSend} className="p-3 bg-white dark:bg-slate-900 border-t border-slate-200 dark:border-white/10 flex gap-2">
-            <input 
-              type="text" 
+            <input
+              type="text"
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              placeholder="Ask me anything..."
+              onFocus={() => setShowArchive(false)}
+              placeholder={activeContext ? t('chat.askInfographic') : t('chat.askAnything')}
               className="flex-1 bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white"
             />
-            <button 
-              type="submit" 
+            <button
+              type="submit"
               disabled={!input.trim() || isTyping}
               className="p-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-xl transition-colors disabled:opacity-50"
+              title={t('chat.send')}
             >
-              <Send className="w-4 h-4" />
+              <Send className="w-4 h-4 rtl:-scale-x-100" />
             </button>
           </form>
         </div>
       ) : (
-        <button 
+        <button
           onClick={() => setIsOpen(true)}
+          title={t('chat.open')}
           className="w-14 h-14 bg-gradient-to-r from-cyan-600 to-indigo-600 text-white rounded-full shadow-2xl flex items-center justify-center hover:scale-110 active:scale-95 transition-all shadow-cyan-500/20 group relative"
         >
           <div className="absolute -inset-1 bg-cyan-500 blur-lg opacity-40 group-hover:opacity-70 transition-opacity"></div>
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { createContext, useContext, useEffect } from 'react';
+import { createI18n, I18n } from '../services/i18nService';
+
+const I18nContext = createContext<I18n>(createI18n('English'));
+
+interface I18nProviderProps {
+  value: I18n;
+  children: React.ReactNode;
+}
+
+// Supplies translations to the tree and mirrors the UI language onto <html> so the whole page flips for RTL
+export const I18nProvider: React.FC<I18nProviderProps> = ({ value, children }) => {
+  useEffect(() => {
+    document.documentElement.lang = value.locale;
+    document.documentElement.dir = value.dir;
+  }, [value.locale, value.dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -3,21 +3,49 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import { GeneratedImage } from '../types';
-import { Download, Sparkles, Edit3, Maximize2, X, ZoomIn, ZoomOut, Volume2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage, Language, OverlayElement } from '../types';
+import { buildInfographicPackage, dataUrlToBlob, downloadBlob, getExportImageData, getImageExtension, slugify } from '../services/exportService';
+import { LOGO_MARGIN_RATIO, LOGO_WIDTH_RATIO } from '../services/overlayService';
+import { LANGUAGES, NATIVE_LANGUAGE_NAMES } from '../services/i18nService';
+import { useI18n } from './I18nProvider';
+import OverlayLayer from './OverlayLayer';
+import OverlayEditor from './OverlayEditor';
+import MaskEditor from './MaskEditor';
+import { Download, Sparkles, Edit3, Maximize2, X, ZoomIn, ZoomOut, Volume2, Package, Loader2, Type, Brush, Stamp, Languages } from 'lucide-react';
 
 interface InfographicProps {
   image: GeneratedImage;
-  onEdit: (prompt: string) => void;
+  onEdit: (prompt: string, mask?: string) => void;
+  onTranslate?: (languages: Language[]) => void;
   isEditing: boolean;
   onSpeak?: () => void;
+  history?: GeneratedImage[]; // Used to resolve edit lineage in exported packages
+  onUpdateImage?: (patch: Partial<GeneratedImage>) => void;
+  onError?: (message: string) => void;
 }
 
-const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, onSpeak }) => {
+const Infographic: React.FC<InfographicProps> = ({ image, onEdit, onTranslate, isEditing, onSpeak, history = [], onUpdateImage, onError }) => {
+  const { t } = useI18n();
   const [editPrompt, setEditPrompt] = useState('');
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isMasking, setIsMasking] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+  const [imageRatio, setImageRatio] = useState<number | null>(null);
+  const [draftOverlays, setDraftOverlays] = useState<OverlayElement[] | null>(null);
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  const [translateTargets, setTranslateTargets] = useState<Language[] | null>(null);
+
+  // A different image on screen discards any unsaved overlay draft
+  useEffect(() => {
+    setDraftOverlays(null);
+    setSelectedOverlayId(null);
+    setTranslateTargets(null);
+  }, [image.id]);
+
+  const overlays = draftOverlays ?? image.overlays ?? [];
+  const isOverlayEditing = draftOverlays !== null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,15 +54,67 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, onS
     setEditPrompt('');
   };
 
+  const handleDownload = async () => {
+    try {
+      const data = await getExportImageData(image);
+      downloadBlob(dataUrlToBlob(data), `infographic-${image.id}.${getImageExtension(data)}`);
+    } catch (err) {
+      console.error("Failed to download image:", err);
+      onError?.(t('error.imageDownload'));
+    }
+  };
+
+  const updateOverlay = (id: string, patch: Partial<OverlayElement>) => {
+    setDraftOverlays(prev => prev && prev.map(o => o.id === id ? { ...o, ...patch } : o));
+  };
+
+  const closeOverlayEditor = () => {
+    setDraftOverlays(null);
+    setSelectedOverlayId(null);
+  };
+
+  const handleSaveOverlays = () => {
+    if (draftOverlays) onUpdateImage?.({ overlays: draftOverlays });
+    closeOverlayEditor();
+  };
+
+  const handleExportPackage = async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await buildInfographicPackage(image, history), `${slugify(image.research?.title || image.prompt)}-package.zip`);
+    } catch (err) {
+      console.error("Failed to build package:", err);
+      onError?.(t('error.packageExport'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const toggleTranslateTarget = (language: Language) => {
+    setTranslateTargets(prev => prev && (prev.includes(language) ? prev.filter(l => l !== language) : [...prev, language]));
+  };
+
+  const handleTranslate = () => {
+    if (!translateTargets || translateTargets.length === 0) return;
+    onTranslate?.(translateTargets);
+    setTranslateTargets(null);
+  };
+
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.5, 4));
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.5, 0.5));
   const handleResetZoom = () => setZoomLevel(1);
 
   const handleCloseFullscreen = () => {
     setIsFullscreen(false);
+    setIsMasking(false);
     setZoomLevel(1);
   }
 
+  const handleMaskedEdit = (instruction: string, mask: string) => {
+    handleCloseFullscreen();
+    onEdit(instruction, mask);
+  };
+
   return (
     <div className="flex flex-col items-center w-full max-w-6xl mx-auto animate-in fade-in zoom-in duration-700 mt-8">
       
@@ -46,44 +126,148 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, onS
         <div className="absolute bottom-0 left-0 w-16 h-16 border-b-2 border-l-2 border-cyan-500/30 rounded-bl-2xl z-20 pointer-events-none"></div>
         <div className="absolute bottom-0 right-0 w-16 h-16 border-b-2 border-r-2 border-cyan-500/30 rounded-br-2xl z-20 pointer-events-none"></div>
 
-        <img 
-          src={image.data} 
-          alt={image.prompt} 
-          onClick={() => setIsFullscreen(true)}
-          className="w-full h-auto object-contain max-h-[80vh] bg-checkered relative z-10 cursor-zoom-in"
-        />
+        {/* Sized to the image itself so overlay coordinates line up with its pixels */}
+        <div className="bg-checkered relative z-10">
+          <div
+            className="relative mx-auto"
+            style={imageRatio ? { width: '100%', maxWidth: `min(100%, calc(80vh * ${imageRatio}))`, aspectRatio: imageRatio } : undefined}
+          >
+            <img 
+              src={image.data} 
+              alt={image.prompt} 
+              onLoad={(e) => setImageRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+              onClick={() => !isOverlayEditing && setIsFullscreen(true)}
+              className={`w-full h-auto object-contain max-h-[80vh] block ${isOverlayEditing ? '' : 'cursor-zoom-in'}`}
+            />
+            {/* Preview of where the logo lands on export */}
+            {image.brandLogo?.enabled && (
+              <img
+                src={image.brandLogo.data}
+                alt=""
+                className="absolute pointer-events-none"
+                style={{
+                  width: `${LOGO_WIDTH_RATIO * 100}%`,
+                  // Percentage margins resolve against the width on every side, matching the export inset
+                  margin: `${LOGO_MARGIN_RATIO * 100}%`,
+                  [image.brandLogo.corner.startsWith('top') ? 'top' : 'bottom']: 0,
+                  [image.brandLogo.corner.endsWith('left') ? 'left' : 'right']: 0
+                }}
+              />
+            )}
+            <OverlayLayer
+              overlays={overlays}
+              selectedId={selectedOverlayId}
+              onSelect={setSelectedOverlayId}
+              onChange={isOverlayEditing ? updateOverlay : undefined}
+            />
+          </div>
+        </div>
         
         {/* Hover Overlay for Quick Actions */}
-        <div className="absolute top-6 right-6 flex gap-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity z-30">
+        {!isOverlayEditing && (
+        <div className="absolute top-6 end-6 flex gap-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity z-30">
           <button 
             onClick={onSpeak}
             className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
-            title="Read Summary"
+            title={t('infographic.readSummary')}
           >
             <Volume2 className="w-5 h-5" />
           </button>
           <button 
             onClick={() => setIsFullscreen(true)}
             className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
-            title="Fullscreen View"
+            title={t('infographic.fullscreen')}
           >
             <Maximize2 className="w-5 h-5" />
           </button>
-          <a 
-            href={image.data} 
-            download={`infographic-${image.id}.png`}
+          {onUpdateImage && image.brandLogo && (
+            <button 
+              onClick={() => onUpdateImage({ brandLogo: { ...image.brandLogo!, enabled: !image.brandLogo!.enabled } })}
+              className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block ${image.brandLogo.enabled ? 'bg-cyan-600/80' : 'bg-black/60'}`}
+              title={t('infographic.logoOnExport', { state: t(image.brandLogo.enabled ? 'common.on' : 'common.off') })}
+            >
+              <Stamp className="w-5 h-5" />
+            </button>
+          )}
+          {onTranslate && (
+            <button 
+              onClick={() => setTranslateTargets(translateTargets ? null : [])}
+              className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block ${translateTargets ? 'bg-cyan-600/80' : 'bg-black/60'}`}
+              title={t('infographic.translate')}
+            >
+              <Languages className="w-5 h-5" />
+            </button>
+          )}
+          {onUpdateImage && (
+            <button 
+              onClick={() => setDraftOverlays(image.overlays || [])}
+              className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
+              title={t('infographic.editOverlay')}
+            >
+              <Type className="w-5 h-5" />
+            </button>
+          )}
+          <button 
+            onClick={handleDownload}
             className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
-            title="Download Image"
+            title={t('infographic.download')}
           >
             <Download className="w-5 h-5" />
-          </a>
+          </button>
+          <button 
+            onClick={handleExportPackage}
+            disabled={isExporting}
+            className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block disabled:opacity-60"
+            title={t('infographic.exportPackage')}
+          >
+            {isExporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Package className="w-5 h-5" />}
+          </button>
         </div>
+        )}
+
+        {/* Each language is rendered by editing the original, so the layout carries over */}
+        {translateTargets && !isOverlayEditing && (
+          <div className="absolute top-24 end-6 z-30 w-72 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 p-4 animate-in fade-in duration-200">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">{t('infographic.translateInto')}</p>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              {LANGUAGES.filter(lang => lang !== (image.language || 'English')).map(lang => (
+                <label key={lang} className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={translateTargets.includes(lang)}
+                    onChange={() => toggleTranslateTarget(lang)}
+                    className="accent-cyan-600"
+                  />
+                  {NATIVE_LANGUAGE_NAMES[lang]}
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleTranslate}
+              disabled={isEditing || translateTargets.length === 0}
+              className="w-full px-4 py-2 rounded-xl bg-cyan-600 text-white text-sm font-bold hover:bg-cyan-500 disabled:opacity-40 transition-colors"
+            >
+              {translateTargets.length > 1 ? t('infographic.translateIntoCount', { count: translateTargets.length }) : t('infographic.translate')}
+            </button>
+          </div>
+        )}
       </div>
 
-      {/* Edit Bar */}
+      {isOverlayEditing ? (
+        <OverlayEditor
+          overlays={overlays}
+          selectedId={selectedOverlayId}
+          facts={image.research?.facts || []}
+          onChange={setDraftOverlays}
+          onSelect={setSelectedOverlayId}
+          onSave={handleSaveOverlays}
+          onCancel={closeOverlayEditor}
+        />
+      ) : (
+      /* Edit Bar */
       <div className="w-full max-w-3xl -mt-6 sm:-mt-8 relative z-40 px-4">
-        <div className="bg-white/90 dark:bg-slate-800/80 backdrop-blur-xl p-3 sm:p-2 sm:pr-3 rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex flex-col sm:flex-row gap-2 items-center ring-1 ring-black/5 dark:ring-white/5">
-            <div className="pl-4 text-cyan-600 dark:text-cyan-400 hidden sm:block">
+        <div className="bg-white/90 dark:bg-slate-800/80 backdrop-blur-xl p-3 sm:p-2 sm:pe-3 rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex flex-col sm:flex-row gap-2 items-center ring-1 ring-black/5 dark:ring-white/5">
+            <div className="ps-4 text-cyan-600 dark:text-cyan-400 hidden sm:block">
                 <Edit3 className="w-5 h-5" />
             </div>
             <form onSubmit={handleSubmit} className="flex-1 w-full flex flex-col sm:flex-row gap-2">
@@ -91,11 +275,11 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, onS
                     type="text"
                     value={editPrompt}
                     onChange={(e) => setEditPrompt(e.target.value)}
-                    placeholder="Refine the visual (e.g., 'Make the background stars')..."
+                    placeholder={t('infographic.editPlaceholder')}
                     className="flex-1 bg-slate-50 dark:bg-slate-950/50 sm:bg-transparent border border-slate-200 dark:border-white/5 sm:border-none rounded-xl sm:rounded-none focus:ring-0 text-slate-900 dark:text-white placeholder:text-slate-400 px-4 py-3 sm:px-2 sm:py-2 font-medium text-base"
                     disabled={isEditing}
                 />
-                <div className="w-full sm:w-auto" title={!editPrompt.trim() ? "Please enter a prompt to enhance" : "Enhance image"}>
+                <div className="w-full sm:w-auto" title={t(!editPrompt.trim() ? 'infographic.enhanceEmpty' : 'infographic.enhanceTitle')}>
                     <button
                         type="submit"
                         disabled={isEditing || !editPrompt.trim()}
@@ -109,7 +293,7 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, onS
                             <span className="animate-spin w-5 h-5 block border-2 border-white/30 border-t-white rounded-full"></span>
                         ) : (
                             <>
-                                <span>Enhance</span>
+                                <span>{t('infographic.enhance')}</span>
                                 <Sparkles className="w-4 h-4" />
                             </>
                         )}
@@ -118,11 +302,30 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, onS
             </form>
         </div>
       </div>
+      )}
       
       <div className="mt-8 text-center space-y-2 px-4">
+        {image.research?.title && (
+            <h2 className="text-lg md:text-xl font-display font-bold text-slate-900 dark:text-white">{image.research.title}</h2>
+        )}
         <p className="text-xs text-slate-500 dark:text-slate-500 font-mono max-w-xl mx-auto truncate opacity-60">
-            PROMPT: {image.prompt}
+            {t('infographic.promptCaption', { prompt: image.prompt })}
         </p>
+        {image.editInstruction && (
+            <p className="text-xs text-cyan-600 dark:text-cyan-400 font-mono max-w-xl mx-auto truncate opacity-80">
+                {t('infographic.editCaption', { instruction: image.editInstruction })}
+            </p>
+        )}
+        {image.translationOf && image.language && (
+            <p className="text-xs text-cyan-600 dark:text-cyan-400 font-mono max-w-xl mx-auto truncate opacity-80">
+                {t('infographic.translationCaption', { language: NATIVE_LANGUAGE_NAMES[image.language] })}
+            </p>
+        )}
+        {image.fromCache && (
+            <p className="text-xs text-emerald-600 dark:text-emerald-400 font-mono max-w-xl mx-auto truncate opacity-80">
+                {t(image.fromCache.research && image.fromCache.image ? 'infographic.fromCacheBoth' : image.fromCache.research ? 'infographic.fromCacheResearch' : 'infographic.fromCacheImage')}
+            </p>
+        )}
       </div>
 
       {/* Fullscreen Modal */}
@@ -131,36 +334,54 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, onS
             {/* Toolbar */}
             <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center z-50 pointer-events-none">
                 <div className="flex gap-2 pointer-events-auto bg-white/10 backdrop-blur-md p-1 rounded-lg border border-black/5 dark:border-white/10">
-                    <button onClick={handleZoomOut} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Zoom Out">
+                    <button onClick={handleZoomOut} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title={t('infographic.zoomOut')}>
                         <ZoomOut className="w-5 h-5" />
                     </button>
-                    <button onClick={handleResetZoom} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Reset Zoom">
+                    <button onClick={handleResetZoom} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title={t('infographic.resetZoom')}>
                         <span className="text-xs font-bold">{Math.round(zoomLevel * 100)}%</span>
                     </button>
-                    <button onClick={handleZoomIn} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Zoom In">
+                    <button onClick={handleZoomIn} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title={t('infographic.zoomIn')}>
                         <ZoomIn className="w-5 h-5" />
                     </button>
+                    <button 
+                        onClick={() => setIsMasking(prev => !prev)} 
+                        disabled={isEditing}
+                        className={`p-2 rounded-md transition-colors disabled:opacity-40 ${isMasking ? 'bg-cyan-600 text-white' : 'hover:bg-black/10 dark:hover:bg-white/10 text-slate-800 dark:text-slate-200'}`} 
+                        title={t('infographic.editRegion')}
+                    >
+                        <Brush className="w-5 h-5" />
+                    </button>
                 </div>
 
                 <button 
                     onClick={handleCloseFullscreen}
+                    title={t('infographic.closeFullscreen')}
                     className="pointer-events-auto p-3 bg-slate-200 dark:bg-slate-800 text-slate-900 dark:text-white rounded-full hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors shadow-lg"
                 >
                     <X className="w-6 h-6" />
                 </button>
             </div>
 
+            {isMasking ? (
+                <MaskEditor image={image} zoomLevel={zoomLevel} onApply={handleMaskedEdit} onCancel={() => setIsMasking(false)} />
+            ) : (
             <div className="flex-1 overflow-auto flex items-center justify-center p-4 sm:p-8">
-                <img 
-                    src={image.data} 
-                    alt={image.prompt}
+                <div 
+                    className="relative shadow-2xl rounded-lg overflow-hidden origin-center"
                     style={{ 
                         transform: `scale(${zoomLevel})`,
                         transition: 'transform 0.2s ease-out'
                     }}
-                    className="max-w-full max-h-full object-contain shadow-2xl rounded-lg origin-center"
-                />
+                >
+                    <img 
+                        src={image.data} 
+                        alt={image.prompt}
+                        className="block max-w-[calc(100vw-4rem)] max-h-[calc(100vh-4rem)] object-contain"
+                    />
+                    <OverlayLayer overlays={overlays} />
+                </div>
             </div>
+            )}
         </div>
       )}
     </div>
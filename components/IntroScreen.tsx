@@ -4,12 +4,14 @@
 */
 import React, { useState, useEffect } from 'react';
 import { Play, FileBarChart, Globe } from 'lucide-react';
+import { useI18n } from './I18nProvider';
 
 interface IntroScreenProps {
   onComplete: () => void;
 }
 
 const IntroScreen: React.FC<IntroScreenProps> = ({ onComplete }) => {
+  const { t } = useI18n();
   const [phase, setPhase] = useState(0); 
   // 0: Spinning Globe
   // 1: Data Extraction (Strands pulling out)
@@ -180,12 +182,12 @@ const IntroScreen: React.FC<IntroScreenProps> = ({ onComplete }) => {
          </h1>
          
          <div className="flex flex-col items-center gap-3 mb-8 text-center">
-            <p className="text-slate-400 text-xs md:text-sm uppercase tracking-[0.3em]">Knowledge. Visualized.</p>
+            <p className="text-slate-400 text-xs md:text-sm uppercase tracking-[0.3em]">{t('intro.tagline')}</p>
             
             {/* Google Search Grounding Badge */}
             <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-cyan-950/40 border border-cyan-500/30 backdrop-blur-md animate-in fade-in zoom-in duration-1000 delay-500 shadow-[0_0_15px_rgba(6,182,212,0.2)]">
                 <Globe className="w-3 h-3 text-cyan-400" />
-                <span className="text-[9px] md:text-[10px] font-bold text-cyan-100 uppercase tracking-wider">Now with Google Search Grounding</span>
+                <span className="text-[9px] md:text-[10px] font-bold text-cyan-100 uppercase tracking-wider">{t('intro.groundingBadge')}</span>
             </div>
          </div>
          
@@ -197,8 +199,8 @@ const IntroScreen: React.FC<IntroScreenProps> = ({ onComplete }) => {
             <div className="absolute inset-0 border border-cyan-500/50 rounded-full group-hover:border-cyan-400 transition-colors"></div>
             
             <div className="relative flex items-center gap-3">
-                <span className="text-cyan-300 group-hover:text-white font-bold tracking-widest text-sm transition-colors">INITIALIZE SYSTEM</span>
-                <Play className="w-4 h-4 text-cyan-300 group-hover:text-white fill-current transition-colors" />
+                <span className="text-cyan-300 group-hover:text-white font-bold uppercase tracking-widest text-sm transition-colors">{t('intro.enter')}</span>
+                <Play className="w-4 h-4 rtl:-scale-x-100 text-cyan-300 group-hover:text-white fill-current transition-colors" />
             </div>
          </button>
       </div>
@@ -206,9 +208,9 @@ const IntroScreen: React.FC<IntroScreenProps> = ({ onComplete }) => {
       {/* Skip Button (Visible always for UX) */}
       <button 
         onClick={onComplete}
-        className="absolute top-6 right-6 md:top-8 md:right-8 text-[10px] md:text-xs text-slate-600 hover:text-white transition-colors uppercase tracking-widest border border-transparent hover:border-white/10 px-3 py-1 rounded-full"
+        className="absolute top-6 end-6 md:top-8 md:end-8 text-[10px] md:text-xs text-slate-600 hover:text-white transition-colors uppercase tracking-widest border border-transparent hover:border-white/10 px-3 py-1 rounded-full"
       >
-        Skip Intro
+        {t('intro.skip')}
       </button>
 
     </div>
@@ -7,33 +7,39 @@ import React, { useEffect, useState, useRef } from 'react';
 import { 
   Loader2, BrainCircuit, BookOpen, Atom, Lightbulb, 
   ScrollText, Database, Dna, Microscope, Globe, 
-  Compass, Search, Sparkles, Terminal, Activity
+  Compass, Search, Sparkles, Terminal, Activity, X
 } from 'lucide-react';
+import { MessageKey } from '../locales/en';
+import { ProgressEvent, ProgressStage, SearchResultItem } from '../types';
+import { getProgressPercent } from '../services/progressService';
+import { useI18n } from './I18nProvider';
 
 interface LoadingProps {
   status: string;
   step: number;
   facts?: string[];
+  sources?: SearchResultItem[];
+  events?: ProgressEvent[];
+  onCancel?: () => void;
 }
 
-const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
+const STAGE_MESSAGES: Record<ProgressStage, MessageKey> = {
+  location: 'progress.location',
+  researchSent: 'progress.researchSent',
+  groundingReceived: 'progress.groundingReceived',
+  factsParsed: 'progress.factsParsed',
+  imageSent: 'progress.imageSent',
+  imageDecoded: 'progress.imageDecoded'
+};
+
+const MAX_SOURCE_CHIPS = 6;
+
+const Loading: React.FC<LoadingProps> = ({ status, step, facts = [], sources = [], events = [], onCancel }) => {
+  const { t, formatNumber } = useI18n();
   const [currentFactIndex, setCurrentFactIndex] = useState(0);
-  const [smoothProgress, setSmoothProgress] = useState(0);
-  const [logs, setLogs] = useState<string[]>([]);
   const logContainerRef = useRef<HTMLDivElement>(null);
-
-  // Smooth Progress Logic
-  useEffect(() => {
-    const targetProgress = step === 1 ? 45 : step === 2 ? 90 : 10;
-    const interval = setInterval(() => {
-      setSmoothProgress(prev => {
-        if (prev < targetProgress) return prev + 0.5;
-        if (prev >= 90 && step === 2) return prev + 0.05; // Very slow crawl near end
-        return prev;
-      });
-    }, 50);
-    return () => clearInterval(interval);
-  }, [step]);
+  const progress = getProgressPercent(events);
+  const logs = events.slice(-5);
 
   // Fact Cycling
   useEffect(() => {
@@ -45,39 +51,16 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
     }
   }, [facts]);
 
-  // System Log Mock Feedback
+  // A fact that has just streamed in is shown right away
   useEffect(() => {
-    const messages = [
-      "INITIALIZING_NEURAL_CORE...",
-      "CONNECTING_TO_SEARCH_GROUNDING...",
-      "PARSING_USER_QUERY_INTENT...",
-      "FETCHING_REAL_TIME_DATA_STREAMS...",
-      "VERIFYING_SOURCE_CREDIBILITY...",
-      "EXTRACTING_KEY_FACTUAL_VECTORS...",
-      "MAPPING_VISUAL_RELATIONSHIPS...",
-      "SYNTHESIZING_AESTHETIC_PARAMETERS...",
-      "GENERATING_LATENT_SPACE_COORDINATES...",
-      "RENDERING_HIGH_FIDELITY_LAYERS...",
-      "FINALIZING_COMPOSITION_VECTORS...",
-      "POLISHING_VISUAL_CLARITY..."
-    ];
-
-    let msgIndex = 0;
-    const logInterval = setInterval(() => {
-      if (msgIndex < messages.length) {
-        setLogs(prev => [...prev, messages[msgIndex]].slice(-5));
-        msgIndex++;
-      }
-    }, 2000);
-
-    return () => clearInterval(logInterval);
-  }, []);
+    if (facts.length > 0) setCurrentFactIndex(facts.length - 1);
+  }, [facts.length]);
 
   useEffect(() => {
     if (logContainerRef.current) {
       logContainerRef.current.scrollTop = logContainerRef.current.scrollHeight;
     }
-  }, [logs]);
+  }, [events]);
 
   return (
     <div className="relative flex flex-col items-center justify-center w-full max-w-5xl mx-auto mt-8 min-h-[450px] md:min-h-[600px] overflow-hidden rounded-[2.5rem] bg-white/40 dark:bg-slate-900/60 border border-slate-200 dark:border-white/10 shadow-2xl backdrop-blur-2xl transition-all duration-700">
@@ -156,7 +139,7 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
               </div>
 
               {/* Liquid Wave Effect */}
-              <div className={`absolute bottom-0 left-0 right-0 transition-all duration-1000 ${step === 1 ? 'bg-amber-500/10' : 'bg-cyan-500/10'}`} style={{ height: `${smoothProgress}%` }}>
+              <div className={`absolute bottom-0 left-0 right-0 transition-all duration-1000 ${step === 1 ? 'bg-amber-500/10' : 'bg-cyan-500/10'}`} style={{ height: `${progress}%` }}>
                 <div className="absolute top-0 left-0 right-0 h-[2px] bg-white/50 blur-[1px] animate-pulse"></div>
               </div>
             </div>
@@ -184,12 +167,13 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
         {/* Holographic Log */}
         <div 
           ref={logContainerRef}
-          className="w-full h-16 mb-4 overflow-hidden border-l-2 border-cyan-500/30 pl-4 font-mono text-[9px] md:text-[10px] uppercase tracking-widest text-slate-400 dark:text-slate-500 space-y-1 select-none"
+          className="w-full h-16 mb-4 overflow-hidden border-s-2 border-cyan-500/30 ps-4 font-mono text-[9px] md:text-[10px] uppercase tracking-widest text-slate-400 dark:text-slate-500 space-y-1 select-none"
         >
-          {logs.map((log, i) => (
-            <div key={i} className="flex items-center gap-2 animate-in fade-in slide-in-from-left-2 duration-300">
-              <span className="text-cyan-600 dark:text-cyan-400">>></span>
-              <span>{log}</span>
+          {logs.map((event, i) => (
+            <div key={events.length - logs.length + i} className="flex items-center gap-2 animate-in fade-in slide-in-from-left-2 duration-300">
+              <span className="text-cyan-600 dark:text-cyan-400">{'>>'}</span>
+              <span>{t(STAGE_MESSAGES[event.stage], { count: event.count ?? 0 })}</span>
+              <span className="text-slate-300 dark:text-slate-600">+{formatNumber(Math.round(event.elapsedMs / 100) / 10)}s</span>
               {i === logs.length - 1 && <span className="w-1.5 h-3 bg-cyan-500 animate-pulse"></span>}
             </div>
           ))}
@@ -202,9 +186,9 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
           </h3>
           <div className="flex items-center gap-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">
             <Activity className="w-3 h-3 text-cyan-500 animate-pulse" />
-            <span>Neural Link Active</span>
+            <span>{t('loading.linkActive')}</span>
             <span className="mx-1 opacity-30">•</span>
-            <span className="text-cyan-600 dark:text-cyan-400">{Math.round(smoothProgress)}% Complete</span>
+            <span className="text-cyan-600 dark:text-cyan-400">{t('loading.complete', { percent: progress })}</span>
           </div>
         </div>
 
@@ -212,7 +196,7 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
         <div className="w-full h-2 bg-slate-200/50 dark:bg-slate-800/50 rounded-full overflow-hidden border border-slate-200 dark:border-white/5 backdrop-blur-sm p-0.5 mb-8">
           <div 
             className="h-full rounded-full bg-gradient-to-r from-amber-500 via-cyan-500 to-indigo-600 transition-all duration-500 ease-out relative shadow-[0_0_15px_rgba(6,182,212,0.5)]"
-            style={{ width: `${smoothProgress}%` }}
+            style={{ width: `${progress}%` }}
           >
             <div className="absolute inset-0 bg-[linear-gradient(90deg,transparent_0%,rgba(255,255,255,0.4)_50%,transparent_100%)] animate-[shimmer_1.5s_infinite]"></div>
           </div>
@@ -230,34 +214,69 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
             <div className="flex-1 min-h-[80px] flex items-center">
                {facts.length > 0 ? (
                 <div key={currentFactIndex} className="animate-in fade-in slide-in-from-bottom-2 duration-700">
-                   <p className="text-sm md:text-lg text-slate-700 dark:text-slate-200 font-serif-display leading-relaxed italic">
+                   <p dir="auto" className="text-sm md:text-lg text-slate-700 dark:text-slate-200 font-serif-display leading-relaxed italic">
                      "{facts[currentFactIndex]}"
                    </p>
                 </div>
                ) : (
                 <div className="flex items-center gap-2 text-slate-400 animate-pulse text-sm uppercase tracking-widest font-bold">
-                  <span>Synthesizing Insight...</span>
+                  <span>{t('loading.synthesizing')}</span>
                 </div>
                )}
             </div>
           </div>
         </div>
 
+        {/* Grounding Sources */}
+        {sources.length > 0 && (
+          <div className="w-full mt-4 flex flex-wrap items-center gap-2">
+            <span className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              <BookOpen className="w-3 h-3 text-cyan-500" />
+              {t('loading.sources', { count: sources.length })}
+            </span>
+            {sources.slice(0, MAX_SOURCE_CHIPS).map(source => (
+              <a
+                key={source.url}
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                dir="auto"
+                className="max-w-[14rem] truncate px-2.5 py-1 rounded-full text-[10px] font-medium text-slate-600 dark:text-slate-300 bg-white/60 dark:bg-slate-900/60 border border-slate-200 dark:border-white/10 hover:text-cyan-600 dark:hover:text-cyan-400 transition-colors animate-in fade-in duration-500"
+              >
+                {source.title}
+              </a>
+            ))}
+            {sources.length > MAX_SOURCE_CHIPS && (
+              <span className="text-[10px] font-bold text-slate-400">+{formatNumber(sources.length - MAX_SOURCE_CHIPS)}</span>
+            )}
+          </div>
+        )}
+
         {/* Phase Indicator */}
         <div className="mt-8 flex gap-8">
            <div className={`flex flex-col items-center transition-opacity duration-500 ${step === 1 ? 'opacity-100' : 'opacity-30'}`}>
               <div className="w-1.5 h-1.5 rounded-full bg-amber-500 mb-2"></div>
-              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Research</span>
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('loading.phaseResearch')}</span>
            </div>
            <div className={`flex flex-col items-center transition-opacity duration-500 ${step === 2 ? 'opacity-100' : 'opacity-30'}`}>
               <div className="w-1.5 h-1.5 rounded-full bg-cyan-500 mb-2"></div>
-              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Synthesis</span>
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('loading.phaseSynthesis')}</span>
            </div>
            <div className={`flex flex-col items-center transition-opacity duration-500 ${step === 3 ? 'opacity-100' : 'opacity-30'}`}>
               <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 mb-2"></div>
-              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Render</span>
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('loading.phaseRender')}</span>
            </div>
         </div>
+
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-8 px-5 py-2 rounded-full text-xs font-bold uppercase tracking-widest text-slate-500 dark:text-slate-400 border border-slate-200 dark:border-white/10 hover:text-red-600 dark:hover:text-red-400 hover:border-red-500/40 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors flex items-center gap-2"
+          >
+            <X className="w-3.5 h-3.5" />
+            <span>{t('loading.cancel')}</span>
+          </button>
+        )}
       </div>
 
       <style>{`
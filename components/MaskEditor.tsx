@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { isMaskEmpty } from '../services/maskService';
+import { Brush, Square, Eraser, RotateCcw, Sparkles, X } from 'lucide-react';
+import { MessageKey } from '../locales/en';
+import { useI18n } from './I18nProvider';
+
+interface MaskEditorProps {
+  image: GeneratedImage;
+  zoomLevel: number;
+  onApply: (instruction: string, mask: string) => void;
+  onCancel: () => void;
+}
+
+type MaskTool = 'brush' | 'rect' | 'eraser';
+
+const TOOLS: { value: MaskTool, label: MessageKey, icon: React.ElementType }[] = [
+  { value: 'brush', label: 'mask.brush', icon: Brush },
+  { value: 'rect', label: 'mask.rect', icon: Square },
+  { value: 'eraser', label: 'mask.eraser', icon: Eraser }
+];
+
+const MASK_COLOR = 'rgb(6, 182, 212)';
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, zoomLevel, onApply, onCancel }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokeRef = useRef<{ startX: number, startY: number, snapshot: ImageData | null } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(0.04); // Fraction of the image width
+  const [hasMask, setHasMask] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  // The mask is drawn at the image's full resolution so it lines up pixel for pixel when composited
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasMask(false);
+  };
+
+  // Maps pointer coordinates through any zoom transform into canvas pixels
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height
+    };
+  };
+
+  const getContext = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !canvasRef.current) return null;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * canvasRef.current.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    return ctx;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getContext();
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toCanvasPoint(e);
+    if (tool === 'rect') {
+      strokeRef.current = { startX: x, startY: y, snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) };
+      return;
+    }
+    strokeRef.current = { startX: x, startY: y, snapshot: null };
+    ctx.beginPath();
+    ctx.arc(x, y, ctx.lineWidth / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    const ctx = stroke && getContext();
+    if (!stroke || !ctx) return;
+    const { x, y } = toCanvasPoint(e);
+    if (stroke.snapshot) {
+      ctx.putImageData(stroke.snapshot, 0, 0);
+      ctx.fillRect(Math.min(stroke.startX, x), Math.min(stroke.startY, y), Math.abs(x - stroke.startX), Math.abs(y - stroke.startY));
+    } else {
+      ctx.lineTo(x, y);
+      ctx.stroke();
+    }
+  };
+
+  const handlePointerUp = () => {
+    strokeRef.current = null;
+    if (canvasRef.current) setHasMask(!isMaskEmpty(canvasRef.current));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canvasRef.current || !hasMask || !instruction.trim()) return;
+    onApply(instruction.trim(), canvasRef.current.toDataURL('image/png'));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 overflow-auto flex items-center justify-center p-4 sm:p-8">
+        <div
+          className="relative shadow-2xl rounded-lg overflow-hidden origin-center"
+          style={{ transform: `scale(${zoomLevel})`, transition: 'transform 0.2s ease-out' }}
+        >
+          <img src={image.data} alt={image.prompt} onLoad={handleImageLoad} className="block max-w-[calc(100vw-4rem)] max-h-[calc(100vh-12rem)] object-contain select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+          />
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="m-4 mt-0 p-3 bg-white/90 dark:bg-slate-800/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex flex-wrap items-center gap-3">
+        <div className="flex bg-slate-100 dark:bg-slate-900 rounded-xl p-1">
+          {TOOLS.map(({ value, label, icon: Icon }) => (
+            <button key={value} type="button" onClick={() => setTool(value)} className={`p-2 rounded-lg transition-colors ${tool === value ? 'bg-cyan-600 text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`} title={t(label)}>
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+        {tool !== 'rect' && (
+          <input type="range" min={0.01} max={0.15} step={0.01} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-24 accent-cyan-600" title={t('mask.brushSize')} />
+        )}
+        <button type="button" onClick={handleClear} disabled={!hasMask} className="p-2 rounded-lg text-slate-500 hover:text-slate-900 dark:hover:text-white disabled:opacity-40 transition-colors" title={t('mask.clear')}>
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder={t(hasMask ? 'mask.describe' : 'mask.paintFirst')}
+          className="flex-1 min-w-[200px] bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/5 rounded-xl focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white placeholder:text-slate-400 px-4 py-2 text-sm font-medium"
+        />
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl text-slate-500 text-sm font-bold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center gap-2">
+          <X className="w-4 h-4" /> {t('common.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={!hasMask || !instruction.trim()}
+          className="px-5 py-2 rounded-xl font-bold flex items-center gap-2 transition-all bg-cyan-600 text-white hover:bg-cyan-500 shadow-lg shadow-cyan-500/20 disabled:bg-slate-200 dark:disabled:bg-slate-700/50 disabled:text-slate-400 disabled:shadow-none disabled:cursor-not-allowed"
+        >
+          <span>{t('mask.apply')}</span>
+          <Sparkles className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { OverlayAlign, OverlayElement, OverlayFont, OverlayKind } from '../types';
+import { createFactOverlays, createOverlay } from '../services/overlayService';
+import { Type, MessageSquare, ArrowUpRight, ListPlus, Trash2, AlignLeft, AlignCenter, AlignRight, Check, X } from 'lucide-react';
+import { MessageKey } from '../locales/en';
+import { useI18n } from './I18nProvider';
+
+interface OverlayEditorProps {
+  overlays: OverlayElement[];
+  selectedId: string | null;
+  facts: string[];
+  onChange: (overlays: OverlayElement[]) => void;
+  onSelect: (id: string | null) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const FONTS: { value: OverlayFont, label: string }[] = [
+  { value: 'sans', label: 'Inter' },
+  { value: 'display', label: 'Space Grotesk' },
+  { value: 'serif', label: 'Cinzel' },
+  { value: 'mono', label: 'Monospace' }
+];
+
+const ALIGNMENTS: { value: OverlayAlign, label: MessageKey, icon: React.ElementType }[] = [
+  { value: 'left', label: 'overlay.alignLeft', icon: AlignLeft },
+  { value: 'center', label: 'overlay.alignCenter', icon: AlignCenter },
+  { value: 'right', label: 'overlay.alignRight', icon: AlignRight }
+];
+
+const ADD_ACTIONS: { kind: OverlayKind, label: MessageKey, defaultText?: MessageKey, icon: React.ElementType }[] = [
+  { kind: 'text', label: 'overlay.text', defaultText: 'overlay.defaultText', icon: Type },
+  { kind: 'callout', label: 'overlay.callout', defaultText: 'overlay.defaultCallout', icon: MessageSquare },
+  { kind: 'arrow', label: 'overlay.arrow', icon: ArrowUpRight }
+];
+
+const OverlayEditor: React.FC<OverlayEditorProps> = ({ overlays, selectedId, facts, onChange, onSelect, onSave, onCancel }) => {
+  const { t } = useI18n();
+  const selected = overlays.find(o => o.id === selectedId);
+
+  const add = (added: OverlayElement[]) => {
+    onChange([...overlays, ...added]);
+    onSelect(added[added.length - 1]?.id ?? null);
+  };
+
+  const update = (patch: Partial<OverlayElement>) => {
+    if (!selected) return;
+    onChange(overlays.map(o => o.id === selected.id ? { ...o, ...patch } : o));
+  };
+
+  const remove = () => {
+    if (!selected) return;
+    onChange(overlays.filter(o => o.id !== selected.id));
+    onSelect(null);
+  };
+
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+  const inputClass = "bg-slate-100 dark:bg-slate-800 border-none rounded-lg text-xs font-bold text-slate-900 dark:text-white py-1.5 focus:ring-2 focus:ring-cyan-500 outline-none";
+
+  return (
+    <div className="w-full max-w-4xl mt-6 px-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="bg-white/90 dark:bg-slate-800/80 backdrop-blur-xl p-4 rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {ADD_ACTIONS.map(({ kind, label, defaultText, icon: Icon }) => (
+            <button key={kind} onClick={() => add([createOverlay(kind, defaultText && { text: t(defaultText) })])} className="px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-900 text-slate-700 dark:text-slate-200 text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2">
+              <Icon className="w-3.5 h-3.5" /> {t(label)}
+            </button>
+          ))}
+          <button
+            onClick={() => add(createFactOverlays(facts))}
+            disabled={facts.length === 0}
+            className="px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-900 text-slate-700 dark:text-slate-200 text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2 disabled:opacity-40"
+            title={t('overlay.fromFactsTitle')}
+          >
+            <ListPlus className="w-3.5 h-3.5" /> {t('overlay.fromFacts', { count: facts.length })}
+          </button>
+          <div className="ms-auto flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 rounded-xl text-slate-500 text-xs font-bold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center gap-2">
+              <X className="w-3.5 h-3.5" /> {t('common.cancel')}
+            </button>
+            <button onClick={onSave} className="px-4 py-2 rounded-xl bg-cyan-600 text-white text-xs font-bold hover:bg-cyan-500 transition-colors flex items-center gap-2 shadow-lg shadow-cyan-500/20">
+              <Check className="w-3.5 h-3.5" /> {t('overlay.save')}
+            </button>
+          </div>
+        </div>
+
+        {selected ? (
+          <div className="flex flex-wrap items-end gap-4 pt-4 border-t border-slate-200 dark:border-white/10">
+            {selected.kind !== 'arrow' && (
+              <label className="flex-1 min-w-[200px] space-y-1">
+                <span className={labelClass}>{t('overlay.text')}</span>
+                <textarea value={selected.text || ''} onChange={(e) => update({ text: e.target.value })} rows={2} className={`${inputClass} w-full px-3 font-medium resize-none`} />
+              </label>
+            )}
+            {selected.kind !== 'arrow' && (
+              <label className="space-y-1">
+                <span className={`${labelClass} block`}>{t('overlay.font')}</span>
+                <select value={selected.font} onChange={(e) => update({ font: e.target.value as OverlayFont })} className={inputClass}>
+                  {FONTS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="space-y-1">
+              <span className={`${labelClass} block`}>{t(selected.kind === 'arrow' ? 'overlay.weight' : 'overlay.size')}</span>
+              <input type="range" min={0.015} max={0.1} step={0.005} value={selected.fontSize} onChange={(e) => update({ fontSize: Number(e.target.value) })} className="w-28 accent-cyan-600" />
+            </label>
+            <label className="space-y-1">
+              <span className={`${labelClass} block`}>{t('overlay.color')}</span>
+              <input type="color" value={selected.color} onChange={(e) => update({ color: e.target.value })} className="w-10 h-8 rounded-lg cursor-pointer bg-transparent" />
+            </label>
+            {selected.kind === 'callout' && (
+              <label className="space-y-1">
+                <span className={`${labelClass} block`}>{t('overlay.fill')}</span>
+                <input type="color" value={selected.background || '#ffffff'} onChange={(e) => update({ background: e.target.value })} className="w-10 h-8 rounded-lg cursor-pointer bg-transparent" />
+              </label>
+            )}
+            {selected.kind !== 'arrow' && (
+              <div className="space-y-1">
+                <span className={`${labelClass} block`}>{t('overlay.align')}</span>
+                <div className="flex bg-slate-100 dark:bg-slate-900 rounded-lg p-0.5">
+                  {ALIGNMENTS.map(({ value, label, icon: Icon }) => (
+                    <button key={value} onClick={() => update({ align: value })} className={`p-1.5 rounded-md transition-colors ${selected.align === value ? 'bg-cyan-600 text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`} title={t(label)}>
+                      <Icon className="w-3.5 h-3.5" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <button onClick={remove} className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors" title={t('overlay.delete')}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500 pt-4 border-t border-slate-200 dark:border-white/10">
+            {t('overlay.hint')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OverlayEditor;
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { OverlayElement } from '../types';
+import { CALLOUT_PADDING, OVERLAY_FONT_FAMILIES, OVERLAY_LINE_HEIGHT, getArrowHead, getArrowStroke } from '../services/overlayService';
+import { useI18n } from './I18nProvider';
+
+interface OverlayLayerProps {
+  overlays: OverlayElement[];
+  // Editing is enabled when onChange is given
+  selectedId?: string | null;
+  onSelect?: (id: string | null) => void;
+  onChange?: (id: string, patch: Partial<OverlayElement>) => void;
+}
+
+type DragMode = 'move' | 'resize' | 'head' | 'tail';
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const OverlayLayer: React.FC<OverlayLayerProps> = ({ overlays, selectedId, onSelect, onChange }) => {
+  const { t } = useI18n();
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const dragRef = useRef<{ id: string, mode: DragMode, startX: number, startY: number, origin: OverlayElement } | null>(null);
+  const isEditable = !!onChange;
+
+  // Font sizes are relative to the image height, so track the rendered size
+  useEffect(() => {
+    const el = layerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setSize({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const startDrag = (e: React.PointerEvent, overlay: OverlayElement, mode: DragMode) => {
+    if (!isEditable) return;
+    e.stopPropagation();
+    e.preventDefault();
+    onSelect?.(overlay.id);
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { id: overlay.id, mode, startX: e.clientX, startY: e.clientY, origin: overlay };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !onChange || size.width === 0) return;
+    const dx = (e.clientX - drag.startX) / size.width;
+    const dy = (e.clientY - drag.startY) / size.height;
+    const { origin } = drag;
+
+    switch (drag.mode) {
+      case 'move':
+        onChange(drag.id, origin.kind === 'arrow'
+          ? { x: clamp(origin.x + dx), y: clamp(origin.y + dy), x2: clamp((origin.x2 ?? origin.x) + dx), y2: clamp((origin.y2 ?? origin.y) + dy) }
+          : { x: clamp(origin.x + dx), y: clamp(origin.y + dy) });
+        break;
+      case 'resize':
+        onChange(drag.id, { width: Math.max(0.05, Math.min(1 - origin.x, origin.width + dx)) });
+        break;
+      case 'tail':
+        onChange(drag.id, { x: clamp(origin.x + dx), y: clamp(origin.y + dy) });
+        break;
+      case 'head':
+        onChange(drag.id, { x2: clamp((origin.x2 ?? origin.x) + dx), y2: clamp((origin.y2 ?? origin.y) + dy) });
+        break;
+    }
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  const arrows = overlays.filter(o => o.kind === 'arrow');
+  const boxes = overlays.filter(o => o.kind !== 'arrow');
+
+  return (
+    <div
+      ref={layerRef}
+      className={`absolute inset-0 overflow-hidden ${isEditable ? '' : 'pointer-events-none'}`}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+      onPointerDown={() => onSelect?.(null)}
+    >
+      {size.width > 0 && (
+        <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 ${size.width} ${size.height}`}>
+          {arrows.map(arrow => {
+            const x1 = arrow.x * size.width;
+            const y1 = arrow.y * size.height;
+            const x2 = (arrow.x2 ?? arrow.x) * size.width;
+            const y2 = (arrow.y2 ?? arrow.y) * size.height;
+            const stroke = getArrowStroke(arrow, size.height);
+            const isSelected = arrow.id === selectedId;
+            return (
+              <g key={arrow.id} className={isEditable ? 'cursor-move' : ''}>
+                {/* Wide transparent hit area so thin arrows are easy to grab */}
+                <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={Math.max(stroke * 4, 16)} onPointerDown={(e) => startDrag(e, arrow, 'move')} />
+                <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={arrow.color} strokeWidth={stroke} strokeLinecap="round" pointerEvents="none" />
+                <polygon points={getArrowHead(x1, y1, x2, y2, stroke * 4).map(p => p.join(',')).join(' ')} fill={arrow.color} pointerEvents="none" />
+                {isSelected && (
+                  <>
+                    <circle cx={x1} cy={y1} r={7} className="fill-white stroke-cyan-500 cursor-crosshair" strokeWidth={2} onPointerDown={(e) => startDrag(e, arrow, 'tail')} />
+                    <circle cx={x2} cy={y2} r={7} className="fill-white stroke-cyan-500 cursor-crosshair" strokeWidth={2} onPointerDown={(e) => startDrag(e, arrow, 'head')} />
+                  </>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      {size.height > 0 && boxes.map(box => {
+        const fontPx = box.fontSize * size.height;
+        const isSelected = box.id === selectedId;
+        return (
+          <div
+            key={box.id}
+            onPointerDown={(e) => startDrag(e, box, 'move')}
+            className={`absolute select-none ${isEditable ? 'cursor-move' : ''} ${isSelected ? 'outline outline-2 outline-cyan-500 outline-offset-2' : isEditable ? 'hover:outline hover:outline-1 hover:outline-cyan-500/50' : ''}`}
+            style={{
+              left: `${box.x * 100}%`,
+              top: `${box.y * 100}%`,
+              width: `${box.width * 100}%`,
+              fontFamily: OVERLAY_FONT_FAMILIES[box.font],
+              fontWeight: 600,
+              fontSize: fontPx,
+              lineHeight: OVERLAY_LINE_HEIGHT,
+              color: box.color,
+              textAlign: box.align,
+              background: box.kind === 'callout' ? box.background : undefined,
+              padding: box.kind === 'callout' ? fontPx * CALLOUT_PADDING : 0,
+              borderRadius: box.kind === 'callout' ? fontPx * 0.3 : 0,
+              whiteSpace: 'pre-wrap',
+              overflowWrap: 'break-word'
+            }}
+          >
+            {box.text}
+            {isSelected && (
+              <span
+                onPointerDown={(e) => startDrag(e, box, 'resize')}
+                className="absolute top-1/2 -right-3 -translate-y-1/2 w-2.5 h-6 rounded-full bg-white border-2 border-cyan-500 cursor-ew-resize"
+                title={t('overlay.resize')}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OverlayLayer;
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ResearchResult, SearchResultItem } from '../types';
+import { ClipboardCheck, ArrowUp, ArrowDown, Trash2, Plus, X, Sparkles, ExternalLink } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface PlanReviewProps {
+  plan: ResearchResult;
+  topic: string;
+  renderLabel: string;
+  onApprove: (plan: ResearchResult) => void;
+  onDiscard: () => void;
+}
+
+interface EditableFact {
+  text: string;
+  confidence?: number;
+}
+
+// Facts the user adds by hand are taken as confirmed
+const USER_FACT_CONFIDENCE = 1;
+
+const PlanReview: React.FC<PlanReviewProps> = ({ plan, topic, renderLabel, onApprove, onDiscard }) => {
+  const { t } = useI18n();
+  const [title, setTitle] = useState(plan.title || '');
+  const [facts, setFacts] = useState<EditableFact[]>(
+    plan.facts.map((text, i) => ({ text, confidence: plan.factConfidence?.[i] }))
+  );
+  const [imagePrompt, setImagePrompt] = useState(plan.imagePrompt);
+  const [sources, setSources] = useState<SearchResultItem[]>(plan.searchResults);
+
+  const updateFact = (index: number, text: string) => {
+    setFacts(prev => prev.map((f, i) => i === index ? { ...f, text } : f));
+  };
+
+  const moveFact = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= facts.length) return;
+    const next = [...facts];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFacts(next);
+  };
+
+  const removeFact = (index: number) => setFacts(prev => prev.filter((_, i) => i !== index));
+
+  const addFact = () => setFacts(prev => [...prev, { text: '', confidence: USER_FACT_CONFIDENCE }]);
+
+  const handleApprove = () => {
+    const keptFacts = facts.filter(f => f.text.trim());
+    onApprove({
+      ...plan,
+      title: title.trim() || plan.title,
+      facts: keptFacts.map(f => f.text.trim()),
+      factConfidence: keptFacts.map(f => f.confidence ?? USER_FACT_CONFIDENCE),
+      imagePrompt: imagePrompt.trim() || plan.imagePrompt,
+      searchResults: sources,
+      reviewed: true
+    });
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto mt-8 animate-in fade-in zoom-in duration-500">
+      <div className="bg-white/60 dark:bg-slate-900/40 backdrop-blur-xl rounded-[2.5rem] p-6 md:p-10 border border-slate-200 dark:border-white/10 shadow-xl relative overflow-hidden">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-amber-500 to-cyan-500"></div>
+
+        <div className="flex items-center justify-between mb-8 gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-amber-100 dark:bg-amber-900/30 rounded-2xl text-amber-600"><ClipboardCheck className="w-6 h-6" /></div>
+            <div>
+              <h2 className="text-2xl font-display font-bold text-slate-900 dark:text-white">{t('plan.title')}</h2>
+              <p className="text-xs font-medium text-slate-500 uppercase tracking-widest truncate">{topic}</p>
+            </div>
+          </div>
+          <button onClick={onDiscard} className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors" title={t('plan.discardTitle')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-8">
+          {/* Title */}
+          <div>
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('plan.titleLabel')}</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-2 w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-3 text-sm font-bold focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white"
+            />
+          </div>
+
+          {/* Facts */}
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('plan.facts', { count: facts.length })}</label>
+              <button onClick={addFact} className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest text-cyan-600 dark:text-cyan-400 hover:bg-cyan-50 dark:hover:bg-cyan-500/10 transition-colors flex items-center gap-1">
+                <Plus className="w-3 h-3" /> {t('plan.addFact')}
+              </button>
+            </div>
+            <div className="mt-2 space-y-2">
+              {facts.map((fact, i) => (
+                <div key={i} className="flex items-start gap-2">
+                  <span className="mt-3 text-[10px] font-mono font-bold text-slate-400 w-5 text-end">{i + 1}</span>
+                  <textarea
+                    value={fact.text}
+                    onChange={(e) => updateFact(i, e.target.value)}
+                    rows={2}
+                    placeholder={t('plan.factPlaceholder')}
+                    className="flex-1 bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white resize-none"
+                  />
+                  {fact.confidence !== undefined && (
+                    <span
+                      className={`mt-2.5 px-2 py-0.5 rounded-full text-[10px] font-bold ${fact.confidence >= 0.8 ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-300' : fact.confidence >= 0.5 ? 'bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-300' : 'bg-red-100 text-red-700 dark:bg-red-500/10 dark:text-red-300'}`}
+                      title={t('plan.confidence')}
+                    >
+                      {Math.round(fact.confidence * 100)}%
+                    </span>
+                  )}
+                  <div className="flex flex-col">
+                    <button onClick={() => moveFact(i, -1)} disabled={i === 0} className="p-1 text-slate-400 hover:text-cyan-600 disabled:opacity-30" title={t('plan.moveUp')}><ArrowUp className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => moveFact(i, 1)} disabled={i === facts.length - 1} className="p-1 text-slate-400 hover:text-cyan-600 disabled:opacity-30" title={t('plan.moveDown')}><ArrowDown className="w-3.5 h-3.5" /></button>
+                  </div>
+                  <button onClick={() => removeFact(i)} className="mt-2 p-1 text-slate-400 hover:text-red-500" title={t('plan.removeFact')}><Trash2 className="w-4 h-4" /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Image Prompt */}
+          <div>
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('plan.imagePrompt')}</label>
+            <textarea
+              value={imagePrompt}
+              onChange={(e) => setImagePrompt(e.target.value)}
+              rows={6}
+              className="mt-2 w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-3 text-sm font-mono focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white"
+            />
+          </div>
+
+          {/* Sources */}
+          {sources.length > 0 && (
+            <div>
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t('plan.sources', { count: sources.length })}</label>
+              <div className="mt-2 space-y-1">
+                {sources.map(source => (
+                  <div key={source.url} className="flex items-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-800 rounded-xl text-sm">
+                    <a href={source.url} target="_blank" rel="noopener noreferrer" className="flex-1 truncate text-slate-700 dark:text-slate-200 hover:text-cyan-600 flex items-center gap-2">
+                      <ExternalLink className="w-3 h-3 shrink-0" />
+                      <span className="truncate">{source.title}</span>
+                    </a>
+                    <button onClick={() => setSources(prev => prev.filter(s => s.url !== source.url))} className="p-1 text-slate-400 hover:text-red-500" title={t('plan.removeSource')}><X className="w-3.5 h-3.5" /></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-10 flex flex-col sm:flex-row justify-end gap-3">
+          <button onClick={onDiscard} className="px-6 py-3 rounded-2xl font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+            {t('plan.discard')}
+          </button>
+          <button
+            onClick={handleApprove}
+            disabled={!imagePrompt.trim()}
+            className="px-8 py-3 rounded-2xl font-bold font-display tracking-wide text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:brightness-110 transition-all shadow-[0_0_20px_rgba(6,182,212,0.3)] flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Sparkles className="w-4 h-4" />
+            <span>{t('plan.approve', { engine: renderLabel })}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanReview;
@@ -2,28 +2,87 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { SearchResultItem } from '../types';
-import { ExternalLink, BookOpen, Link as LinkIcon } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { SearchResultItem, SourceTier, SourceType } from '../types';
+import { getSourceDomain, getSourceTier, getSourceType, SOURCE_TIERS } from '../services/sourceService';
+import { ExternalLink, BookOpen, Link as LinkIcon, MapPin } from 'lucide-react';
+import { MessageKey } from '../locales/en';
+import { useI18n } from './I18nProvider';
 
 interface SearchResultsProps {
   results: SearchResultItem[];
 }
 
+type SortOrder = 'relevance' | 'credibility';
+
+const TIER_BADGES: Record<SourceTier, { label: MessageKey, className: string }> = {
+  academic: { label: 'sources.tier.academic', className: 'bg-violet-100 dark:bg-violet-500/10 text-violet-700 dark:text-violet-300' },
+  government: { label: 'sources.tier.government', className: 'bg-blue-100 dark:bg-blue-500/10 text-blue-700 dark:text-blue-300' },
+  encyclopedic: { label: 'sources.tier.encyclopedic', className: 'bg-emerald-100 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-300' },
+  news: { label: 'sources.tier.news', className: 'bg-amber-100 dark:bg-amber-500/10 text-amber-700 dark:text-amber-300' },
+  other: { label: 'sources.tier.other', className: 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400' }
+};
+
+const TYPE_LABELS: Record<SourceType, MessageKey> = { web: 'sources.type.web', maps: 'sources.type.maps' };
+
 const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
+  const { t } = useI18n();
+  const [tierFilter, setTierFilter] = useState<SourceTier | null>(null);
+  const [typeFilter, setTypeFilter] = useState<SourceType | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('relevance');
+
+  // A filter picked for the previous infographic may match none of the new sources
+  useEffect(() => {
+    setTierFilter(null);
+    setTypeFilter(null);
+  }, [results]);
+
   if (!results || results.length === 0) return null;
 
+  // Grounding order is the model's relevance order, so it is kept as the tie-breaker
+  const sources = results.map((result, index) => ({ result, index, tier: getSourceTier(result), type: getSourceType(result), domain: getSourceDomain(result) }));
+  const tiers = SOURCE_TIERS.filter(tier => sources.some(source => source.tier === tier));
+  const types = (Object.keys(TYPE_LABELS) as SourceType[]).filter(type => sources.some(source => source.type === type));
+  const visible = sources
+    .filter(source => (!tierFilter || source.tier === tierFilter) && (!typeFilter || source.type === typeFilter))
+    .sort((a, b) => sortOrder === 'credibility' ? SOURCE_TIERS.indexOf(a.tier) - SOURCE_TIERS.indexOf(b.tier) || a.index - b.index : a.index - b.index);
+
+  const chipClass = (active: boolean) => `px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors border ${active ? 'bg-cyan-600 border-cyan-600 text-white' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-white/10 text-slate-500 hover:text-cyan-600 dark:hover:text-cyan-400'}`;
+
   return (
     <div className="w-full max-w-6xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-8 duration-1000">
       <div className="flex items-center gap-3 mb-6 border-t border-slate-200 dark:border-white/10 pt-8 transition-colors">
         <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-cyan-600 dark:text-cyan-400 shadow-sm">
             <BookOpen className="w-5 h-5" />
         </div>
-        <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">Research Sources</h3>
+        <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">{t('sources.title')}</h3>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <button onClick={() => setTierFilter(null)} className={chipClass(!tierFilter)}>{t('sources.all', { count: sources.length })}</button>
+        {tiers.map(tier => (
+          <button key={tier} onClick={() => setTierFilter(tierFilter === tier ? null : tier)} className={chipClass(tierFilter === tier)}>
+            {t('sources.filterCount', { label: t(TIER_BADGES[tier].label), count: sources.filter(source => source.tier === tier).length })}
+          </button>
+        ))}
+        {types.length > 1 && (
+          <>
+            <span className="w-px h-5 bg-slate-200 dark:bg-white/10 mx-1"></span>
+            {types.map(type => (
+              <button key={type} onClick={() => setTypeFilter(typeFilter === type ? null : type)} className={chipClass(typeFilter === type)}>
+                {t(TYPE_LABELS[type])}
+              </button>
+            ))}
+          </>
+        )}
+        <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as SortOrder)} aria-label={t('sources.sortLabel')} className="ms-auto bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-full px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-slate-500 focus:ring-2 focus:ring-cyan-500 cursor-pointer">
+          <option value="relevance">{t('sources.sortRelevance')}</option>
+          <option value="credibility">{t('sources.sortCredibility')}</option>
+        </select>
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {results.map((result, index) => (
+        {visible.map(({ result, index, tier, type, domain }) => (
           <a 
             key={index} 
             href={result.url} 
@@ -31,7 +90,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
             rel="noopener noreferrer"
             className="group relative flex flex-col p-5 bg-white dark:bg-slate-900/60 border border-slate-200 dark:border-white/5 rounded-xl hover:border-cyan-500/30 hover:bg-slate-50 dark:hover:bg-slate-800/80 transition-all duration-300 overflow-hidden shadow-sm hover:shadow-md"
           >
-            <div className="absolute top-0 left-0 w-1 h-full bg-cyan-500/0 group-hover:bg-cyan-500/50 transition-all duration-300"></div>
+            <div className="absolute top-0 start-0 w-1 h-full bg-cyan-500/0 group-hover:bg-cyan-500/50 transition-all duration-300"></div>
             
             <div className="flex items-start justify-between gap-3 mb-3">
                <h4 className="font-display font-bold text-slate-800 dark:text-slate-200 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 transition-colors line-clamp-2 leading-tight text-sm">
@@ -41,15 +100,12 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
             </div>
             
             <div className="mt-auto flex items-center gap-2 text-[10px] text-slate-500 font-mono">
-              <LinkIcon className="w-3 h-3" />
+              {type === 'maps' ? <MapPin className="w-3 h-3 flex-shrink-0" /> : <LinkIcon className="w-3 h-3 flex-shrink-0" />}
               <span className="truncate max-w-full opacity-70 group-hover:opacity-100 transition-opacity uppercase tracking-wider">
-                {(() => {
-                  try {
-                    return new URL(result.url).hostname.replace('www.', '');
-                  } catch {
-                    return 'External Source';
-                  }
-                })()}
+                {type === 'maps' ? t('sources.maps') : domain || t('sources.external')}
+              </span>
+              <span className={`ms-auto flex-shrink-0 px-2 py-0.5 rounded-full font-sans font-bold uppercase tracking-wider ${TIER_BADGES[tier].className}`}>
+                {t(TIER_BADGES[tier].label)}
               </span>
             </div>
           </a>
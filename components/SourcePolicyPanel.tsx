@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { SourcePolicy } from '../types';
+import { DEFAULT_SOURCE_POLICY, isSourcePolicyActive, parseDomainList } from '../services/sourceService';
+import { ShieldCheck, X, Check, RotateCcw } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface SourcePolicyPanelProps {
+  isOpen: boolean;
+  policy: SourcePolicy;
+  onClose: () => void;
+  onSave: (policy: SourcePolicy) => void;
+}
+
+const SourcePolicyPanel: React.FC<SourcePolicyPanelProps> = ({ isOpen, policy, onClose, onSave }) => {
+  const { t } = useI18n();
+  const [allowText, setAllowText] = useState('');
+  const [denyText, setDenyText] = useState('');
+
+  // Start from the saved lists every time the panel opens
+  useEffect(() => {
+    if (isOpen) {
+      setAllowText(policy.allowDomains.join('\n'));
+      setDenyText(policy.denyDomains.join('\n'));
+    }
+  }, [isOpen, policy]);
+
+  if (!isOpen) return null;
+
+  const allowDomains = parseDomainList(allowText);
+  const denyDomains = parseDomainList(denyText);
+
+  const handleSave = () => {
+    onSave({ allowDomains, denyDomains });
+    onClose();
+  };
+
+  const handleReset = () => {
+    onSave(DEFAULT_SOURCE_POLICY);
+    onClose();
+  };
+
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-2.5 text-sm font-mono focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-950/80 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-200 dark:border-white/10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl text-cyan-600"><ShieldCheck className="w-5 h-5" /></div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-slate-900 dark:text-white">{t('policy.title')}</h2>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('policy.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5 overflow-y-auto">
+          <p className="text-xs text-slate-500">
+            {t('policy.help')}
+          </p>
+
+          <label className="block space-y-1">
+            <span className={labelClass}>{t('policy.allow', { count: allowDomains.length })}</span>
+            <textarea value={allowText} onChange={(e) => setAllowText(e.target.value)} rows={5} placeholder={t('policy.allowPlaceholder')} className={inputClass} />
+          </label>
+
+          <label className="block space-y-1">
+            <span className={labelClass}>{t('policy.deny', { count: denyDomains.length })}</span>
+            <textarea value={denyText} onChange={(e) => setDenyText(e.target.value)} rows={5} placeholder={t('policy.denyPlaceholder')} className={inputClass} />
+          </label>
+        </div>
+
+        {/* Actions */}
+        <div className="p-5 border-t border-slate-200 dark:border-white/10 flex justify-between gap-2">
+          <button onClick={handleReset} disabled={!isSourcePolicyActive(policy)} className="px-4 py-2.5 rounded-xl text-slate-500 text-sm font-bold hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors flex items-center gap-2 disabled:opacity-40">
+            <RotateCcw className="w-4 h-4" /> {t('policy.clear')}
+          </button>
+          <button onClick={handleSave} className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-cyan-600 to-blue-600 text-white text-sm font-bold flex items-center gap-2">
+            <Check className="w-4 h-4" /> {t('policy.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourcePolicyPanel;
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { StylePreset } from '../types';
+import { createStylePreset, duplicateStylePreset, parseStylePresets, prepareReferenceImage, serializeStylePresets } from '../services/stylePresetService';
+import { downloadBlob } from '../services/exportService';
+import { Palette, X, Plus, Copy, Pencil, Trash2, Upload, Download, ImagePlus, Check } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface StylePresetManagerProps {
+  isOpen: boolean;
+  presets: StylePreset[];
+  onClose: () => void;
+  onSave: (presets: StylePreset[]) => void;
+  onDelete: (id: string) => void;
+}
+
+const StylePresetManager: React.FC<StylePresetManagerProps> = ({ isOpen, presets, onClose, onSave, onDelete }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+  const [messages, setMessages] = useState<string[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.instruction.trim()) return;
+    onSave([{ ...draft, name: draft.name.trim(), instruction: draft.instruction.trim(), updatedAt: Date.now() }]);
+    setDraft(null);
+  };
+
+  const handleDelete = (preset: StylePreset) => {
+    if (!window.confirm(t('styles.deleteConfirm', { name: preset.name }))) return;
+    onDelete(preset.id);
+    if (draft?.id === preset.id) setDraft(null);
+  };
+
+  const handleReferenceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !draft) return;
+    try {
+      const referenceImage = await prepareReferenceImage(file);
+      setDraft(prev => prev && { ...prev, referenceImage });
+    } catch (err: any) {
+      setMessages([err.message]);
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const { presets: imported, errors } = parseStylePresets(reader.result as string);
+      if (imported.length > 0) onSave(imported);
+      setMessages([...(imported.length > 0 ? [t('styles.imported', { count: imported.length })] : []), ...errors]);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeStylePresets(presets)], { type: 'application/json' }), `style-presets-${Date.now()}.json`);
+  };
+
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-2.5 text-sm focus:ring-2 focus:ring-purple-500 outline-none text-slate-900 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-950/80 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-200 dark:border-white/10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-100 dark:bg-purple-900/30 rounded-xl text-purple-600"><Palette className="w-5 h-5" /></div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-slate-900 dark:text-white">{t('styles.title')}</h2>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('styles.count', { count: presets.length })}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setDraft(createStylePreset('', ''))} className="px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-bold hover:opacity-80 transition-opacity flex items-center gap-2">
+              <Plus className="w-3.5 h-3.5" /> {t('styles.new')}
+            </button>
+            <input type="file" ref={importInputRef} className="hidden" accept=".json,application/json" onChange={handleImport} />
+            <button onClick={() => importInputRef.current?.click()} className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2">
+              <Upload className="w-3.5 h-3.5" /> {t('common.importJson')}
+            </button>
+            <button onClick={handleExport} disabled={presets.length === 0} className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2 disabled:opacity-40">
+              <Download className="w-3.5 h-3.5" /> {t('common.exportJson')}
+            </button>
+          </div>
+
+          {messages.length > 0 && (
+            <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800/60 border border-slate-200 dark:border-white/10 text-xs text-slate-600 dark:text-slate-300 space-y-1">
+              {messages.map((message, i) => <p key={i}>{message}</p>)}
+            </div>
+          )}
+
+          {/* Editor */}
+          {draft && (
+            <div className="p-4 rounded-2xl border border-purple-500/30 bg-purple-50/50 dark:bg-purple-500/5 space-y-3">
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder={t('styles.namePlaceholder')} className={`${inputClass} font-bold`} />
+              <textarea
+                value={draft.instruction}
+                onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+                rows={4}
+                placeholder={t('styles.instructionPlaceholder')}
+                className={inputClass}
+              />
+              <div className="flex items-center gap-3">
+                <input type="file" ref={referenceInputRef} className="hidden" accept="image/*" onChange={handleReferenceUpload} />
+                {draft.referenceImage ? (
+                  <div className="relative">
+                    <img src={draft.referenceImage} alt={t('styles.referenceAlt')} className="w-20 h-14 rounded-lg object-cover border border-slate-200 dark:border-white/10" />
+                    <button onClick={() => setDraft({ ...draft, referenceImage: undefined })} className="absolute -top-2 -end-2 p-0.5 bg-slate-900 text-white rounded-full" title={t('styles.removeReference')}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <button onClick={() => referenceInputRef.current?.click()} className="px-3 py-2 rounded-xl bg-white dark:bg-slate-800 border border-dashed border-slate-300 dark:border-white/20 text-slate-500 text-xs font-bold hover:text-purple-600 transition-colors flex items-center gap-2">
+                    <ImagePlus className="w-3.5 h-3.5" /> {t('styles.addReference')}
+                  </button>
+                )}
+                <div className="ms-auto flex gap-2">
+                  <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl text-slate-500 text-xs font-bold hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">{t('common.cancel')}</button>
+                  <button onClick={handleSaveDraft} disabled={!draft.name.trim() || !draft.instruction.trim()} className="px-4 py-2 rounded-xl bg-purple-600 text-white text-xs font-bold hover:bg-purple-500 transition-colors flex items-center gap-2 disabled:opacity-40">
+                    <Check className="w-3.5 h-3.5" /> {t('styles.save')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* List */}
+          <div className="space-y-2">
+            {presets.map(preset => (
+              <div key={preset.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 dark:border-white/5 bg-slate-50 dark:bg-slate-950/50">
+                {preset.referenceImage ? (
+                  <img src={preset.referenceImage} alt="" className="w-14 h-10 rounded-md object-cover shrink-0" />
+                ) : (
+                  <div className="w-14 h-10 rounded-md bg-purple-100 dark:bg-purple-900/30 text-purple-500 flex items-center justify-center shrink-0"><Palette className="w-4 h-4" /></div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-900 dark:text-slate-100 truncate">{preset.name}</p>
+                  <p className="text-xs text-slate-500 truncate">{preset.instruction}</p>
+                </div>
+                <button onClick={() => setDraft(preset)} className="p-1 text-slate-400 hover:text-purple-600" title={t('common.edit')}><Pencil className="w-4 h-4" /></button>
+                <button onClick={() => onSave([duplicateStylePreset(preset, presets)])} className="p-1 text-slate-400 hover:text-purple-600" title={t('common.duplicate')}><Copy className="w-4 h-4" /></button>
+                <button onClick={() => handleDelete(preset)} className="p-1 text-slate-400 hover:text-red-500" title={t('common.delete')}><Trash2 className="w-4 h-4" /></button>
+              </div>
+            ))}
+            {presets.length === 0 && !draft && (
+              <p className="text-center text-xs text-slate-400 uppercase tracking-widest font-bold py-6">{t('styles.empty')}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StylePresetManager;
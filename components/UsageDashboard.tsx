@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { BudgetMode, ModelPrice, PriceTable, UsageBudget, UsageOperation, UsageRecord } from '../types';
+import { DEFAULT_PRICE_TABLE, getDayKey, getSessionCost, summarizeUsage } from '../services/usageService';
+import { useI18n } from './I18nProvider';
+import { MessageKey } from '../locales/en';
+import { Coins, X, Check, RotateCcw, Trash2 } from 'lucide-react';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  records: UsageRecord[];
+  prices: PriceTable;
+  budget: UsageBudget;
+  onClose: () => void;
+  onSave: (prices: PriceTable, budget: UsageBudget) => void;
+  onClear: () => void;
+}
+
+type GroupBy = 'day' | 'model' | 'operation';
+
+const GROUP_LABELS: Record<GroupBy, { tab: MessageKey, column: MessageKey }> = {
+  day: { tab: 'usage.byDay', column: 'usage.day' },
+  model: { tab: 'usage.byModel', column: 'usage.model' },
+  operation: { tab: 'usage.byOperation', column: 'usage.operation' }
+};
+
+const PRICE_FIELDS: { field: keyof ModelPrice, label: MessageKey }[] = [
+  { field: 'inputPerMillion', label: 'usage.priceInput' },
+  { field: 'outputPerMillion', label: 'usage.priceOutput' },
+  { field: 'perImage', label: 'usage.priceImage' }
+];
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, records, prices, budget, onClose, onSave, onClear }) => {
+  const { t, formatNumber, formatCurrency, formatDate } = useI18n();
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+  const [draftPrices, setDraftPrices] = useState<PriceTable>(prices);
+  const [limitInput, setLimitInput] = useState('');
+  const [mode, setMode] = useState<BudgetMode>(budget.mode);
+
+  // Start from the saved prices and budget every time the dashboard opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraftPrices(prices);
+      setLimitInput(budget.limit === null ? '' : String(budget.limit));
+      setMode(budget.mode);
+    }
+  }, [isOpen, prices, budget]);
+
+  if (!isOpen) return null;
+
+  const sessionCost = getSessionCost(records);
+  const today = getDayKey(Date.now());
+  const todayCost = records.filter(r => getDayKey(r.timestamp) === today).reduce((sum, r) => sum + r.cost, 0);
+  const totalCost = records.reduce((sum, r) => sum + r.cost, 0);
+  const summaries = summarizeUsage(records, groupBy);
+  const parsedLimit = parseFloat(limitInput);
+  const limit = limitInput.trim() && parsedLimit >= 0 ? parsedLimit : null;
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    setDraftPrices({ ...draftPrices, [model]: { ...draftPrices[model], [field]: Math.max(0, parseFloat(value) || 0) } });
+  };
+
+  const handleSave = () => {
+    onSave(draftPrices, { limit, mode });
+    onClose();
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(t('usage.clearConfirm'))) return;
+    onClear();
+  };
+
+  const formatKey = (key: string) => {
+    if (groupBy === 'day') return formatDate(new Date(`${key}T00:00:00`).getTime(), { dateStyle: 'medium' });
+    if (groupBy === 'operation') return t(`usage.op.${key as UsageOperation}`);
+    return key;
+  };
+
+  const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-2.5 text-sm focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white";
+  const cellClass = "px-3 py-2 text-end tabular-nums";
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-950/80 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-5 border-b border-slate-200 dark:border-white/10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl text-cyan-600"><Coins className="w-5 h-5" /></div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-slate-900 dark:text-white">{t('usage.title')}</h2>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('usage.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: 'usage.session' as const, value: sessionCost },
+              { label: 'usage.today' as const, value: todayCost },
+              { label: 'usage.allTime' as const, value: totalCost }
+            ].map(({ label, value }) => (
+              <div key={label} className="p-4 rounded-2xl bg-slate-100 dark:bg-slate-800">
+                <div className={labelClass}>{t(label)}</div>
+                <div className="mt-1 text-xl font-display font-bold text-slate-900 dark:text-white tabular-nums">{formatCurrency(value)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>{t('usage.budget')}</span>
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={limitInput}
+                onChange={(e) => setLimitInput(e.target.value)}
+                placeholder={t('usage.noLimit')}
+                className={`${inputClass} max-w-[12rem]`}
+              />
+              <select value={mode} onChange={(e) => setMode(e.target.value as BudgetMode)} className="bg-slate-100 dark:bg-slate-800 border-none rounded-xl px-4 py-2.5 text-sm font-bold text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-cyan-500 cursor-pointer">
+                <option value="warn">{t('usage.modeWarn')}</option>
+                <option value="block">{t('usage.modeBlock')}</option>
+              </select>
+            </div>
+            {limit !== null && (
+              <div className="space-y-1">
+                <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${sessionCost > limit ? 'bg-red-500' : sessionCost > limit * 0.8 ? 'bg-amber-500' : 'bg-cyan-500'}`}
+                    style={{ width: `${limit > 0 ? Math.min(100, sessionCost / limit * 100) : 100}%` }}
+                  />
+                </div>
+                <p className="text-xs text-slate-500">{t('usage.spentOf', { spent: formatCurrency(sessionCost), limit: formatCurrency(limit) })}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-1 p-1 rounded-xl bg-slate-100 dark:bg-slate-800 w-fit">
+              {(Object.keys(GROUP_LABELS) as GroupBy[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setGroupBy(key)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${groupBy === key ? 'bg-white dark:bg-slate-900 text-cyan-600 dark:text-cyan-400 shadow-sm' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                >
+                  {t(GROUP_LABELS[key].tab)}
+                </button>
+              ))}
+            </div>
+            {summaries.length === 0 ? (
+              <p className="text-sm text-slate-500 py-6 text-center">{t('usage.empty')}</p>
+            ) : (
+              <div className="overflow-x-auto rounded-2xl border border-slate-200 dark:border-white/10">
+                <table className="w-full text-xs text-slate-700 dark:text-slate-300">
+                  <thead className="bg-slate-50 dark:bg-slate-800/60 text-[10px] uppercase tracking-wider text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-start">{t(GROUP_LABELS[groupBy].column)}</th>
+                      <th className={cellClass}>{t('usage.calls')}</th>
+                      <th className={cellClass}>{t('usage.inputTokens')}</th>
+                      <th className={cellClass}>{t('usage.outputTokens')}</th>
+                      <th className={cellClass}>{t('usage.images')}</th>
+                      <th className={cellClass}>{t('usage.cost')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summaries.map(summary => (
+                      <tr key={summary.key} className="border-t border-slate-100 dark:border-white/5">
+                        <td className="px-3 py-2 font-medium">{formatKey(summary.key)}</td>
+                        <td className={cellClass}>{formatNumber(summary.calls)}</td>
+                        <td className={cellClass}>{formatNumber(summary.inputTokens)}</td>
+                        <td className={cellClass}>{formatNumber(summary.outputTokens)}</td>
+                        <td className={cellClass}>{formatNumber(summary.images)}</td>
+                        <td className={`${cellClass} font-bold`}>{formatCurrency(summary.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>{t('usage.prices')}</span>
+              <button onClick={() => setDraftPrices(DEFAULT_PRICE_TABLE)} className="text-[10px] font-bold text-slate-500 hover:text-cyan-600 uppercase tracking-wider flex items-center gap-1">
+                <RotateCcw className="w-3 h-3" /> {t('usage.resetPrices')}
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">{t('usage.pricesHelp')}</p>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_repeat(3,6rem)] gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                <span>{t('usage.model')}</span>
+                {PRICE_FIELDS.map(({ field, label }) => <span key={field}>{t(label)}</span>)}
+              </div>
+              {Object.entries(draftPrices).map(([model, price]) => (
+                <div key={model} className="grid grid-cols-[1fr_repeat(3,6rem)] items-center gap-2">
+                  <span className="text-xs font-mono text-slate-700 dark:text-slate-300 truncate" title={model}>{model}</span>
+                  {PRICE_FIELDS.map(({ field, label }) => (
+                    <input
+                      key={field}
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={price[field]}
+                      onChange={(e) => updatePrice(model, field, e.target.value)}
+                      title={t(label)}
+                      aria-label={`${model} ${t(label)}`}
+                      className="w-full bg-slate-100 dark:bg-slate-800 border-none rounded-lg px-2 py-1.5 text-xs tabular-nums focus:ring-2 focus:ring-cyan-500 outline-none text-slate-900 dark:text-white"
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="p-5 border-t border-slate-200 dark:border-white/10 flex justify-between gap-2">
+          <button onClick={handleClear} disabled={records.length === 0} className="px-4 py-2.5 rounded-xl text-slate-500 text-sm font-bold hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors flex items-center gap-2 disabled:opacity-40">
+            <Trash2 className="w-4 h-4" /> {t('usage.clear')}
+          </button>
+          <button onClick={handleSave} className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-cyan-600 to-blue-600 text-white text-sm font-bold flex items-center gap-2">
+            <Check className="w-4 h-4" /> {t('usage.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
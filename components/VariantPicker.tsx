@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { Grid2x2, Check, Archive, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface VariantPickerProps {
+  variants: GeneratedImage[];
+  onConfirm: (chosen: GeneratedImage, kept: GeneratedImage[]) => void;
+  onDiscardAll: () => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ variants, onConfirm, onDiscardAll }) => {
+  const { t } = useI18n();
+  const [chosenId, setChosenId] = useState(variants[0]?.id);
+  const [keptIds, setKeptIds] = useState<string[]>([]);
+
+  const toggleKeep = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    setKeptIds(prev => prev.includes(id) ? prev.filter(k => k !== id) : [...prev, id]);
+  };
+
+  const extraKept = keptIds.filter(id => id !== chosenId).length;
+
+  const handleConfirm = () => {
+    const chosen = variants.find(v => v.id === chosenId);
+    if (!chosen) return;
+    onConfirm(chosen, variants.filter(v => v.id !== chosenId && keptIds.includes(v.id)));
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto mt-8 animate-in fade-in zoom-in duration-500">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-cyan-600 dark:text-cyan-400 shadow-sm">
+            <Grid2x2 className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">{t('variants.title')}</h3>
+            <p className="text-xs text-slate-500 truncate">{variants[0]?.prompt}</p>
+          </div>
+        </div>
+        <button onClick={onDiscardAll} className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors" title={t('variants.discardAll')}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className={`grid gap-4 ${variants.length > 2 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1 md:grid-cols-2'}`}>
+        {variants.map((variant, i) => {
+          const isChosen = variant.id === chosenId;
+          const isKept = keptIds.includes(variant.id);
+          return (
+            <div
+              key={variant.id}
+              onClick={() => setChosenId(variant.id)}
+              className={`relative cursor-pointer rounded-2xl overflow-hidden border-2 transition-all shadow-lg bg-slate-100 dark:bg-slate-900 ${isChosen ? 'border-cyan-500 ring-4 ring-cyan-500/20' : 'border-transparent hover:border-cyan-500/40'}`}
+            >
+              <img src={variant.data} alt={t('variants.label', { number: i + 1 })} className="w-full h-auto object-contain max-h-[50vh] bg-checkered" />
+              <div className="absolute top-3 start-3 px-3 py-1 rounded-full bg-black/60 backdrop-blur-md text-[10px] font-bold text-white uppercase tracking-widest">
+                {t('variants.label', { number: i + 1 })}
+              </div>
+              {isChosen ? (
+                <div className="absolute top-3 end-3 px-3 py-1.5 rounded-full bg-cyan-600 text-white text-[10px] font-bold uppercase tracking-widest flex items-center gap-1 shadow-lg">
+                  <Check className="w-3 h-3" /> {t('variants.main')}
+                </div>
+              ) : (
+                <button
+                  onClick={(e) => toggleKeep(e, variant.id)}
+                  className={`absolute top-3 end-3 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest flex items-center gap-1 shadow-lg transition-colors ${isKept ? 'bg-amber-500 text-white' : 'bg-black/60 text-white hover:bg-black/80'}`}
+                  title={t('variants.keepTitle')}
+                >
+                  <Archive className="w-3 h-3" /> {t(isKept ? 'variants.keeping' : 'variants.keep')}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 flex justify-end">
+        <button
+          onClick={handleConfirm}
+          className="px-8 py-3 rounded-2xl font-bold font-display tracking-wide text-white bg-gradient-to-r from-cyan-600 to-blue-600 hover:brightness-110 transition-all shadow-[0_0_20px_rgba(6,182,212,0.3)] flex items-center gap-2"
+        >
+          <Check className="w-4 h-4" />
+          <span>{extraKept > 0 ? t('variants.useSelectedKeep', { count: extraKept }) : t('variants.useSelected')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { GitBranch, Columns2, X, Edit3 } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface VersionTreeProps {
+  images: GeneratedImage[];
+  currentId: string;
+  onSelect: (image: GeneratedImage) => void;
+}
+
+const VersionTree: React.FC<VersionTreeProps> = ({ images, currentId, onSelect }) => {
+  const { t, formatDate } = useI18n();
+  const [comparing, setComparing] = useState<{ parent: GeneratedImage, child: GeneratedImage } | null>(null);
+
+  const byId = useMemo(() => new Map(images.map(img => [img.id, img])), [images]);
+
+  const children = useMemo(() => {
+    const map = new Map<string, GeneratedImage[]>();
+    images.forEach(img => {
+      if (img.parentId && byId.has(img.parentId)) {
+        map.set(img.parentId, [...(map.get(img.parentId) || []), img]);
+      }
+    });
+    map.forEach(list => list.sort((a, b) => a.timestamp - b.timestamp));
+    return map;
+  }, [images, byId]);
+
+  // Walk up to the original; parents evicted from storage make their child the root
+  const root = useMemo(() => {
+    let node = byId.get(currentId);
+    while (node?.parentId && byId.has(node.parentId)) {
+      node = byId.get(node.parentId);
+    }
+    return node;
+  }, [byId, currentId]);
+
+  if (!root || !children.has(root.id)) return null;
+
+  const renderNode = (node: GeneratedImage, depth: number): React.ReactNode => {
+    const isCurrent = node.id === currentId;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    return (
+      <div key={node.id}>
+        <div className="flex items-center gap-2" style={{ paddingInlineStart: depth * 24 }}>
+          {depth > 0 && <span className="text-slate-300 dark:text-slate-600 font-mono text-xs inline-block rtl:-scale-x-100">└</span>}
+          <div
+            onClick={() => onSelect(node)}
+            className={`group flex-1 flex items-center gap-3 p-2 rounded-xl border cursor-pointer transition-colors ${isCurrent ? 'border-cyan-500/60 bg-cyan-50 dark:bg-cyan-500/10' : 'border-slate-200 dark:border-white/5 bg-white dark:bg-slate-900/60 hover:border-cyan-500/30'}`}
+            title={t(isCurrent ? 'versions.current' : 'versions.show')}
+          >
+            <img src={node.data} alt="" className="w-16 h-10 rounded-md object-cover shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{node.editInstruction || t('versions.original')}</p>
+              <p className="text-[10px] text-slate-500 uppercase tracking-wider">{formatDate(node.timestamp, { timeStyle: 'medium' })}{node.model ? ` · ${node.model}` : ''}</p>
+            </div>
+            {isCurrent && (
+              <span className="px-2 py-1 rounded-full bg-cyan-600 text-white text-[10px] font-bold uppercase tracking-widest flex items-center gap-1">
+                <Edit3 className="w-3 h-3" /> {t('versions.editing')}
+              </span>
+            )}
+            {parent && (
+              <button
+                onClick={(e) => { e.stopPropagation(); setComparing({ parent, child: node }); }}
+                className="p-2 rounded-lg text-slate-400 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                title={t('versions.compare')}
+              >
+                <Columns2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+        {(children.get(node.id) || []).map(child => (
+          <div key={child.id} className="mt-2">{renderNode(child, depth + 1)}</div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto mt-12 animate-in fade-in duration-700">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-cyan-600 dark:text-cyan-400 shadow-sm">
+          <GitBranch className="w-5 h-5" />
+        </div>
+        <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">{t('versions.title')}</h3>
+      </div>
+      <div className="space-y-2">{renderNode(root, 0)}</div>
+
+      {comparing && (
+        <div className="fixed inset-0 z-[100] bg-slate-100/95 dark:bg-slate-950/95 backdrop-blur-xl flex flex-col animate-in fade-in duration-300">
+          <div className="p-4 flex justify-between items-center">
+            <p className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">
+              <span className="text-cyan-600 dark:text-cyan-400">{t('versions.editLabel')}</span> {comparing.child.editInstruction}
+            </p>
+            <button onClick={() => setComparing(null)} title={t('versions.close')} className="p-3 bg-slate-200 dark:bg-slate-800 text-slate-900 dark:text-white rounded-full hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors shadow-lg">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+          <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 p-4 overflow-auto">
+            {[{ label: t('versions.before'), image: comparing.parent }, { label: t('versions.after'), image: comparing.child }].map(({ label, image }) => (
+              <div key={label} className="flex flex-col items-center gap-2 min-h-0">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em]">{label}</span>
+                <img src={image.data} alt={label} className="max-w-full max-h-[75vh] object-contain rounded-lg shadow-2xl" />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionTree;
@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const ar: Messages = {
+  'common.on': 'تشغيل',
+  'common.off': 'إيقاف',
+  'common.builtIn': 'مدمجة',
+  'common.custom': 'مخصصة',
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.edit': 'تعديل',
+  'common.duplicate': 'تكرار',
+  'common.delete': 'حذف',
+  'common.importJson': 'استيراد JSON',
+  'common.exportJson': 'تصدير JSON',
+
+  'intro.tagline': 'المعرفة. مرئية.',
+  'intro.groundingBadge': 'الآن مع التحقق عبر بحث Google',
+  'intro.enter': 'تشغيل النظام',
+  'intro.skip': 'تخطي المقدمة',
+
+  'header.tagline': 'محرك المعرفة المرئية',
+  'header.mock': 'محاكاة دون اتصال',
+  'header.mockTitle': 'AI_PROVIDER=mock: الردود نماذج جاهزة',
+  'header.brandKit': 'هوية العلامة',
+  'header.sources': 'قوائم مصادر البحث',
+  'header.batch': 'إنشاء دفعة',
+  'header.usage': 'الاستخدام والتكلفة ({spent} في هذه الجلسة)',
+  'header.theme': 'التبديل بين الوضع الفاتح والداكن',
+  'header.uiLanguage': 'لغة الواجهة',
+
+  'key.badge': 'تطبيق مدفوع',
+  'key.title': 'يلزم مفتاح API مدفوع',
+  'key.body': 'تتطلب ميزات الإنشاء المتقدمة مفتاح Gemini API مدفوعًا.',
+  'key.billing': 'للمتابعة، اختر مشروع Google Cloud مفعّلًا فيه الفوترة.',
+  'key.select': 'اختيار مفتاح API مدفوع',
+
+  'hero.badge': 'بحث وخرائط وتركيب Nano Banana Pro في مكان واحد',
+  'hero.titleTop': 'افهم',
+  'hero.titleBottom': 'الواقع.',
+
+  'form.topicPlaceholder': 'ما الذي تريد تصويره؟',
+  'form.questionPlaceholder': 'سؤال محدد عن هذه الصورة...',
+  'form.contextPlaceholder': "سياق إضافي (مثل 'ابحث عن الثغرات الأمنية'، 'تعرّف على النص')",
+  'form.record': 'تحدث لتحويل الكلام إلى نص',
+  'form.stopRecording': 'إيقاف التسجيل',
+  'form.upload': 'رفع صورة لتحليلها',
+  'form.removeImage': 'إزالة الصورة',
+  'form.preview': 'الصورة المراد تحليلها',
+  'form.engine': 'المحرك',
+  'form.size': 'الحجم',
+  'form.ratio': 'النسبة',
+  'form.audience': 'الجمهور',
+  'form.manageAudiences': 'إدارة ملفات الجمهور',
+  'form.aesthetic': 'النمط',
+  'form.manageStyles': 'إدارة الأنماط المحفوظة',
+  'form.language': 'اللغة',
+  'form.languageTitle': 'لغة الحقائق المبحوثة وتسميات الإنفوجرافيك',
+  'form.variants': 'النسخ',
+  'form.variantsSingle': 'نسخة واحدة',
+  'form.variantsCount': 'عدد النسخ: {count}',
+  'form.review': 'المراجعة',
+  'form.reviewTitle': 'التوقف بعد البحث لتعديل الحقائق ووصف الصورة قبل الإنشاء',
+  'form.cache': 'التخزين المؤقت',
+  'form.cacheTitle': 'إعادة استخدام البحث والصور من الطلبات المطابقة الأخيرة. أوقفه لاستدعاء النموذج دائمًا؛ تظل النتائج الجديدة تحدّث التخزين المؤقت',
+  'form.brand': 'العلامة',
+  'form.brandApply': 'تطبيق هوية العلامة على هذا الإنشاء',
+  'form.brandSetUp': 'إعداد هوية العلامة',
+  'form.brandSetUpShort': 'إعداد',
+  'form.analyze': 'تحليل',
+  'form.initiate': 'ابدأ',
+
+  'model.flash': 'Flash (سريع)',
+  'model.pro': 'Pro (Nano Banana Pro)',
+  'model.imagen': 'Imagen 4 (إبداعي)',
+  'size.1K': '1K (قياسي)',
+  'size.2K': '2K (دقة عالية)',
+  'size.4K': '4K (دقة فائقة)',
+  'ratio.16:9': '16:9 عريض',
+  'ratio.1:1': '1:1 مربع',
+  'ratio.9:16': '9:16 للجوال',
+  'level.Elementary': 'المرحلة الابتدائية',
+  'level.High School': 'المرحلة الثانوية',
+  'level.College': 'الجامعة',
+  'level.Expert': 'الخبراء',
+  'style.Default': 'قياسي',
+  'style.Geometric Patterns': 'زخارف هندسية',
+  'style.Minimalist': 'بسيط',
+  'style.Realistic': 'واقعي',
+  'style.Cartoon': 'رواية مصورة',
+  'style.Vintage': 'طباعة حجرية قديمة',
+  'style.Futuristic': 'سايبربانك',
+  'style.3D Render': 'ثلاثي الأبعاد متساوي القياس',
+  'style.Sketch': 'مخطط هندسي',
+
+  'status.transcribing': 'جارٍ تحويل الصوت إلى نص...',
+  'status.analyzing': 'جارٍ تحليل محتوى الصورة...',
+  'status.researching': 'جارٍ البحث في الموضوع عبر البحث والخرائط...',
+  'status.designing': 'جارٍ تصميم الإنفوجرافيك ({size})...',
+  'status.designingVariants': 'جارٍ تصميم {count} نسخ ({size})...',
+  'status.editingRegion': 'جارٍ تعديل المنطقة المحددة: "{instruction}"...',
+  'status.modifying': 'جارٍ تطبيق التعديل: "{instruction}"...',
+  'status.translating': 'جارٍ الترجمة إلى {language} ({current} من {total})...',
+
+  'error.emptyTopic': 'يرجى إدخال موضوع أو رفع صورة لتحليلها.',
+  'error.storageFull': 'مساحة تخزين المتصفح ممتلئة. لن يُحفظ هذا الإنفوجرافيك بعد إعادة التحميل.',
+  'error.transcription': 'تعذّر تحويل الصوت إلى نص. يرجى المحاولة مرة أخرى.',
+  'error.microphone': 'تم رفض الوصول إلى الميكروفون أو أنه غير متاح.',
+  'error.accessDenied': 'تم رفض الوصول. تتطلب ميزات Pro مفتاح Gemini API مدفوعًا. يرجى إعادة اختيار المفتاح.',
+  'error.invalidPlan': 'أعاد البحث خطة غير صالحة ({issue}). يرجى المحاولة مرة أخرى.',
+  'error.unavailable': 'الخدمة غير متاحة مؤقتًا. يرجى المحاولة مرة أخرى.',
+  'error.quota': 'تم بلوغ حد الطلبات أو الحصة. انتظر دقيقة ثم أعد المحاولة، أو تحقق من حصة مشروع مفتاح API.',
+  'error.safety': 'حظرت عوامل التصفية الأمنية هذا الطلب. أعد صياغة الموضوع أو التعليمات ثم حاول مرة أخرى.',
+  'error.badRequest': 'رُفض الطلب لأنه غير صالح. جرّب نموذجًا أو حجمًا آخر، أو اختصر الوصف.',
+  'error.emptyOutput': 'لم يُرجع النموذج أي نتيجة. حاول مرة أخرى أو أعد صياغة الطلب.',
+  'error.editFailed': 'تعذّر التعديل. جرّب تعليمات مختلفة.',
+  'error.translateFailed': 'تعذّرت الترجمة. يرجى المحاولة مرة أخرى.',
+  'error.deckExport': 'تعذّر إنشاء ملف {format}. يرجى المحاولة مرة أخرى.',
+  'error.imageDownload': 'تعذّر تجهيز الصورة للتنزيل. يُرجى المحاولة مرة أخرى.',
+  'error.packageExport': 'تعذّر إنشاء حزمة التصدير. يُرجى المحاولة مرة أخرى.',
+  'error.batchArchive': 'تعذّر إنشاء أرشيف الإنفوجرافيك المكتمل. يُرجى المحاولة مرة أخرى.',
+  'error.saveStylePresets': 'تعذّر حفظ الأنماط. ستُفقد بعد إعادة التحميل.',
+  'error.saveAudienceProfile': 'تعذّر حفظ ملف الجمهور. سيُفقد بعد إعادة التحميل.',
+  'error.saveBrandKit': 'تعذّر حفظ هوية العلامة. ستُفقد بعد إعادة التحميل.',
+  'error.saveSourcePolicy': 'تعذّر حفظ قوائم المصادر. ستُفقد بعد إعادة التحميل.',
+  'error.saveUsageSettings': 'تعذّر حفظ إعدادات الاستخدام. ستُفقد بعد إعادة التحميل.',
+  'error.clearHistory': 'تعذّر مسح السجل المحفوظ. يرجى المحاولة مرة أخرى.',
+  'error.clearUsage': 'تعذّر مسح الاستخدام المسجّل. يرجى المحاولة مرة أخرى.',
+  'error.overBudget': 'تم الحظر: سيؤدي ذلك إلى تجاوز ميزانية الجلسة البالغة {limit} (المنفق {spent}، ونحو {estimate} إضافية). ارفع الحد من الاستخدام والتكلفة للمتابعة.',
+
+  'loading.linkActive': 'الاتصال العصبي نشط',
+  'loading.complete': 'اكتمل {percent}%',
+  'loading.synthesizing': 'جارٍ استخلاص الأفكار...',
+  'loading.phaseResearch': 'البحث',
+  'loading.phaseSynthesis': 'التركيب',
+  'loading.phaseRender': 'الإنشاء',
+  'loading.sources': 'المصادر: {count}',
+  'loading.cancel': 'إلغاء',
+
+  'progress.location': 'جارٍ تحديد موقعك لمصادر الخرائط...',
+  'progress.researchSent': 'تم إرسال طلب البحث...',
+  'progress.groundingReceived': 'تم استلام مصادر التحقق: {count}',
+  'progress.factsParsed': 'تم تحليل الحقائق: {count}',
+  'progress.imageSent': 'تم إرسال طلب الصورة...',
+  'progress.imageDecoded': 'تم فك ترميز الصورة',
+
+  'analysis.sourceImage': 'الصورة الأصلية',
+  'analysis.title': 'الذكاء البصري',
+  'analysis.subtitle': 'تقرير التركيب العصبي',
+  'analysis.listen': 'الاستماع إلى التحليل',
+  'analysis.generatedAt': 'أُنشئ في {time}',
+  'analysis.visualise': 'حوّله إلى إنفوجرافيك',
+  'analysis.visualisePrompt': 'اشرح النتائج البصرية: {excerpt}...',
+  'speech.summary': 'تم إنشاء إنفوجرافيك حول الموضوع: {topic}. ملخص التحليل متاح.',
+
+  'infographic.readSummary': 'قراءة الملخص',
+  'infographic.fullscreen': 'عرض ملء الشاشة',
+  'infographic.logoOnExport': 'الشعار عند التصدير: {state}',
+  'infographic.editOverlay': 'تحرير النص المتراكب',
+  'infographic.download': 'تنزيل الصورة',
+  'infographic.exportPackage': 'تصدير الحزمة (الصورة، البيانات الوصفية، الحقائق، المصادر)',
+  'infographic.editPlaceholder': 'حسّن الصورة (مثلًا: «اجعل الخلفية نجومًا»)...',
+  'infographic.enhanceEmpty': 'يرجى إدخال تعليمات للتحسين',
+  'infographic.enhanceTitle': 'تحسين الصورة',
+  'infographic.enhance': 'تحسين',
+  'infographic.promptCaption': 'الموجّه: {prompt}',
+  'infographic.editCaption': 'تعديل: {instruction}',
+  'infographic.translationCaption': 'ترجمة: {language}',
+  'infographic.zoomOut': 'تصغير',
+  'infographic.resetZoom': 'إعادة ضبط التكبير',
+  'infographic.zoomIn': 'تكبير',
+  'infographic.editRegion': 'تعديل منطقة',
+  'infographic.closeFullscreen': 'إغلاق ملء الشاشة',
+  'infographic.fromCacheBoth': 'من التخزين المؤقت: البحث والصورة',
+  'infographic.fromCacheResearch': 'من التخزين المؤقت: البحث',
+  'infographic.fromCacheImage': 'من التخزين المؤقت: الصورة',
+  'infographic.translate': 'ترجمة',
+  'infographic.translateInto': 'ترجمة إلى',
+  'infographic.translateIntoCount': 'ترجمة إلى {count} لغات',
+
+  'plan.title': 'مراجعة خطة البحث',
+  'plan.discardTitle': 'تجاهل الخطة',
+  'plan.titleLabel': 'العنوان',
+  'plan.facts': 'الحقائق ({count})',
+  'plan.addFact': 'إضافة حقيقة',
+  'plan.factPlaceholder': 'أدخل حقيقة...',
+  'plan.confidence': 'مستوى الثقة الذي أفاد به نموذج البحث',
+  'plan.moveUp': 'نقل لأعلى',
+  'plan.moveDown': 'نقل لأسفل',
+  'plan.removeFact': 'إزالة الحقيقة',
+  'plan.imagePrompt': 'موجّه الصورة',
+  'plan.sources': 'المصادر ({count})',
+  'plan.removeSource': 'إزالة المصدر',
+  'plan.discard': 'تجاهل',
+  'plan.approve': 'اعتماد وإنشاء ({engine})',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'شجرة الإصدارات',
+  'versions.current': 'الإصدار الحالي: تتفرع التعديلات من هنا',
+  'versions.show': 'عرض هذا الإصدار والتعديل انطلاقًا منه',
+  'versions.original': 'الأصل',
+  'versions.editing': 'قيد التعديل',
+  'versions.compare': 'مقارنة بالإصدار الأصل',
+  'versions.editLabel': 'تعديل:',
+  'versions.before': 'قبل',
+  'versions.after': 'بعد',
+  'versions.close': 'إغلاق المقارنة',
+
+  'sources.title': 'مصادر البحث',
+  'sources.maps': 'خرائط Google',
+  'sources.external': 'مصدر خارجي',
+  'sources.tier.academic': 'أكاديمي',
+  'sources.tier.government': 'حكومي',
+  'sources.tier.encyclopedic': 'موسوعي',
+  'sources.tier.news': 'أخبار',
+  'sources.tier.other': 'أخرى',
+  'sources.type.web': 'الويب',
+  'sources.type.maps': 'الخرائط',
+  'sources.all': 'الكل ({count})',
+  'sources.filterCount': '{label} ({count})',
+  'sources.sortLabel': 'ترتيب المصادر',
+  'sources.sortRelevance': 'الترتيب: الصلة',
+  'sources.sortCredibility': 'الترتيب: المصداقية',
+
+  'policy.title': 'مصادر البحث',
+  'policy.subtitle': 'النطاقات التي يجوز للبحث الاعتماد عليها وتلك التي لا يجوز',
+  'policy.help': 'نطاق واحد في كل سطر، وتُشمل النطاقات الفرعية. تُرسل القوائم إلى نموذج البحث وتُزال مصادر الويب الواقعة خارجها من النتائج. تُحفظ أماكن الخرائط دائمًا.',
+  'policy.allow': 'النطاقات المسموح بها ({count})',
+  'policy.allowPlaceholder': 'اتركه فارغًا للسماح بكل النطاقات\nمثل nature.com\nwho.int',
+  'policy.deny': 'النطاقات المحظورة ({count})',
+  'policy.denyPlaceholder': 'مثل example-content-farm.com',
+  'policy.clear': 'مسح القوائم',
+  'policy.save': 'حفظ القوائم',
+
+  'variants.title': 'اختر نسخة',
+  'variants.discardAll': 'تجاهل كل النسخ',
+  'variants.label': 'النسخة {number}',
+  'variants.main': 'الرئيسية',
+  'variants.keepTitle': 'الاحتفاظ بهذه النسخة في السجل أيضًا',
+  'variants.keep': 'احتفاظ',
+  'variants.keeping': 'سيُحتفظ بها',
+  'variants.useSelected': 'استخدام المحددة',
+  'variants.useSelectedKeep': 'استخدام المحددة والاحتفاظ بـ {count}',
+
+  'mask.brush': 'فرشاة',
+  'mask.rect': 'مستطيل',
+  'mask.eraser': 'ممحاة',
+  'mask.brushSize': 'حجم الفرشاة',
+  'mask.clear': 'مسح القناع',
+  'mask.describe': 'صف التغيير المطلوب للمنطقة المحددة...',
+  'mask.paintFirst': 'لوّن المنطقة المراد تغييرها أو ارسم مستطيلًا فوقها',
+  'mask.apply': 'تعديل المنطقة',
+
+  'overlay.text': 'نص',
+  'overlay.callout': 'تعليق',
+  'overlay.arrow': 'سهم',
+  'overlay.defaultText': 'تسمية',
+  'overlay.defaultCallout': 'ملاحظة',
+  'overlay.fromFactsTitle': 'إضافة مربع نص لكل حقيقة مبحوثة',
+  'overlay.fromFacts': 'من الحقائق ({count})',
+  'overlay.save': 'حفظ الطبقة',
+  'overlay.font': 'الخط',
+  'overlay.weight': 'السماكة',
+  'overlay.size': 'الحجم',
+  'overlay.color': 'اللون',
+  'overlay.fill': 'التعبئة',
+  'overlay.align': 'المحاذاة',
+  'overlay.alignLeft': 'محاذاة لليسار',
+  'overlay.alignCenter': 'توسيط',
+  'overlay.alignRight': 'محاذاة لليمين',
+  'overlay.delete': 'حذف العنصر',
+  'overlay.resize': 'اسحب لتغيير الحجم',
+
+  'styles.title': 'أنماط محفوظة',
+  'styles.count': 'أنماط مخصصة: {count}',
+  'styles.new': 'نمط جديد',
+  'styles.imported': 'الأنماط المستوردة: {count}.',
+  'styles.deleteConfirm': 'حذف النمط «{name}»؟',
+  'styles.namePlaceholder': 'اسم النمط، مثل: أسلوبنا الخاص',
+  'styles.instructionPlaceholder': 'صف الأسلوب: الألوان، تقنية الرسم، الخطوط، الأجواء...',
+  'styles.referenceAlt': 'مرجع النمط',
+  'styles.removeReference': 'إزالة الصورة المرجعية',
+  'styles.addReference': 'صورة مرجعية (اختيارية)',
+  'styles.save': 'حفظ النمط',
+  'styles.empty': 'لا توجد أنماط مخصصة بعد',
+
+  'brand.title': 'هوية العلامة',
+  'brand.subtitle': 'تُطبَّق على البحث وموجّهات الصور والتصدير',
+  'brand.name': 'اسم العلامة',
+  'brand.namePlaceholder': 'مثل: Northwind Learning',
+  'brand.palette': 'لوحة الألوان ({count}/{max})',
+  'brand.removeColor': 'إزالة اللون',
+  'brand.addColor': 'إضافة لون',
+  'brand.typography': 'الخطوط',
+  'brand.typographyPlaceholder': 'مثل: عناوين هندسية عريضة بلا زوائد ونص أساسي خفيف',
+  'brand.tone': 'نبرة الخطاب',
+  'brand.tonePlaceholder': 'مثل: ودود وواضح ومشجع، دون مصطلحات معقدة',
+  'brand.logo': 'الشعار',
+  'brand.logoAlt': 'شعار العلامة',
+  'brand.removeLogo': 'إزالة الشعار',
+  'brand.uploadLogo': 'رفع الشعار (يُفضَّل PNG بخلفية شفافة)',
+  'brand.cornerTitle': 'الزاوية التي يوضع فيها الشعار عند التصدير',
+  'brand.cornerTopLeft': 'أعلى اليسار',
+  'brand.cornerTopRight': 'أعلى اليمين',
+  'brand.cornerBottomLeft': 'أسفل اليسار',
+  'brand.cornerBottomRight': 'أسفل اليمين',
+  'brand.removeConfirm': 'إزالة هوية العلامة؟ تحتفظ الإنفوجرافيكات الحالية بشعارها.',
+  'brand.remove': 'إزالة الهوية',
+  'brand.save': 'حفظ هوية العلامة',
+
+  'audience.title': 'ملفات الجمهور',
+  'audience.count': 'جماهير مخصصة: {count}',
+  'audience.new': 'جمهور جديد',
+  'audience.deleteConfirm': 'حذف الجمهور «{name}»؟',
+  'audience.namePlaceholder': 'اسم الجمهور، مثل: مرضى المستشفى',
+  'audience.readingLevel': 'مستوى القراءة',
+  'audience.readingLevelPlaceholder': 'مثل: الصف السادس، CEFR B1',
+  'audience.maxWords': 'الحد الأقصى للكلمات في كل تسمية',
+  'audience.wordsPerLabel': '≤ {count} كلمات لكل تسمية',
+  'audience.vocabulary': 'المفردات',
+  'audience.vocabularyPlaceholder': 'مثل: كلمات يومية، وشرح أي مصطلح طبي بين قوسين، ودون اختصارات',
+  'audience.visual': 'الأعراف البصرية',
+  'audience.visualPlaceholder': 'مثل: خطوات مرقمة، ورموز كبيرة، والأحمر للتحذيرات فقط',
+  'audience.save': 'حفظ الجمهور',
+  'audience.empty': 'لا توجد جماهير مخصصة بعد',
+
+  'batch.title': 'الإنشاء المجمّع',
+  'batch.summary': 'اكتمل {done}/{total} · {model} · {size}',
+  'batch.hide': 'إخفاء (تستمر قائمة الانتظار في العمل)',
+  'batch.placeholder': 'موضوع واحد في كل سطر، أو صفوف CSV: topic,level,style,language,aspectRatio\nضع المواضيع التي تحتوي على فواصل بين علامتي اقتباس. تُقبل مصفوفات JSON أيضًا.',
+  'batch.add': 'إضافة إلى قائمة الانتظار',
+  'batch.import': 'استيراد CSV / JSON',
+  'batch.parallel': 'بالتوازي',
+  'batch.error.missingTopic': 'الصف {row}: الموضوع مفقود',
+  'batch.error.unknownValue': 'الصف {row}: قيمة {field} غير معروفة "{value}" (المتوقع إحدى القيم: {expected})',
+  'batch.error.invalidJson': 'JSON غير صالح: {value}',
+  'batch.error.notArray': 'يجب أن يكون JSON مصفوفة من المواضيع أو كائنًا يحتوي على مصفوفة "topics"',
+  'batch.status.queued': 'في الانتظار',
+  'batch.status.researching': 'جارٍ البحث',
+  'batch.status.rendering': 'جارٍ الإنشاء',
+  'batch.status.done': 'تم',
+  'batch.status.failed': 'فشل',
+  'batch.retry': 'إعادة المحاولة',
+  'batch.remove': 'إزالة',
+  'batch.empty': 'قائمة الانتظار فارغة',
+  'batch.retryFailed': 'إعادة محاولة الفاشلة ({count})',
+  'batch.downloadAll': 'تنزيل الكل ({count})',
+  'batch.running': 'قيد التشغيل...',
+  'batch.start': 'بدء ({count})',
+  'overlay.hint': 'حدد عنصرًا في الصورة لتنسيقه. اسحبه لتحريكه، واستخدم المقابض لتغيير حجم مربعات النص أو تحريك أطراف الأسهم.',
+
+  'history.title': 'أرشيف الجلسة',
+  'history.selected': 'المحدد: {count}',
+  'history.pdfTitle': 'تنزيل نشرة PDF',
+  'history.pptxTitle': 'تنزيل عرض PowerPoint',
+  'history.cancelSelection': 'إلغاء التحديد',
+  'history.select': 'تحديد',
+  'history.selectTitle': 'حدد إنفوجرافيك لتصديرها كنشرة PDF أو عرض شرائح',
+  'history.clear': 'مسح الكل',
+  'history.clearTitle': 'حذف جميع الإنفوجرافيك المحفوظة',
+  'history.clearConfirm': 'هل تريد حذف جميع الإنفوجرافيك المحفوظة؟ لا يمكن التراجع عن ذلك.',
+  'history.openTranslation': 'فتح النسخة {language}',
+
+  'export.sources': 'المصادر',
+  'export.sourcesContinued': 'المصادر (تابع)',
+  'export.topic': 'الموضوع: {topic}',
+
+  'usage.overBudgetConfirm': 'سيؤدي ذلك إلى تجاوز ميزانية الجلسة البالغة {limit}: أُنفق {spent} حتى الآن ونحو {estimate} إضافية لهذا التشغيل. هل تريد المتابعة رغم ذلك؟',
+  'usage.title': 'الاستخدام والتكاليف',
+  'usage.subtitle': 'كل استدعاء للنموذج، مسعّر وفق الجدول أدناه',
+  'usage.session': 'هذه الجلسة',
+  'usage.today': 'اليوم',
+  'usage.allTime': 'الإجمالي',
+  'usage.budget': 'ميزانية الجلسة',
+  'usage.noLimit': 'بلا حد (دولار أمريكي)',
+  'usage.modeWarn': 'التنبيه قبل التجاوز',
+  'usage.modeBlock': 'حظر عمليات الإنشاء التي تتجاوزها',
+  'usage.spentOf': 'أُنفق {spent} من {limit} في هذه الجلسة',
+  'usage.byDay': 'حسب اليوم',
+  'usage.byModel': 'حسب النموذج',
+  'usage.byOperation': 'حسب العملية',
+  'usage.day': 'اليوم',
+  'usage.model': 'النموذج',
+  'usage.operation': 'العملية',
+  'usage.empty': 'لم يُسجَّل أي استخدام بعد.',
+  'usage.calls': 'الاستدعاءات',
+  'usage.inputTokens': 'رموز الإدخال',
+  'usage.outputTokens': 'رموز الإخراج',
+  'usage.images': 'الصور',
+  'usage.cost': 'التكلفة',
+  'usage.prices': 'الأسعار (دولار أمريكي)',
+  'usage.resetPrices': 'إعادة القيم الافتراضية',
+  'usage.pricesHelp': 'تنطبق الأسعار الجديدة على الاستدعاءات من الآن فصاعدًا، وتبقى التكاليف المسجلة كما هي.',
+  'usage.priceInput': 'الإدخال / مليون',
+  'usage.priceOutput': 'الإخراج / مليون',
+  'usage.priceImage': 'لكل صورة',
+  'usage.clear': 'مسح الاستخدام',
+  'usage.clearConfirm': 'حذف كل الاستخدام المسجَّل؟ لا يؤثر ذلك في التكاليف المتكبَّدة.',
+  'usage.save': 'حفظ الإعدادات',
+  'usage.op.research': 'البحث',
+  'usage.op.image': 'صورة',
+  'usage.op.edit': 'تعديل',
+  'usage.op.translate': 'ترجمة',
+  'usage.op.chat': 'الدردشة',
+  'usage.op.analysis': 'التحليل',
+  'usage.op.transcription': 'النسخ',
+  'usage.op.speech': 'الكلام',
+
+  'chat.title': 'دردشة InfoGenius',
+  'chat.greeting': 'مرحبًا! أنا InfoGenius. كيف يمكنني مساعدتك اليوم في بحثك أو تصاميمك؟',
+  'chat.you': 'أنت',
+  'chat.exported': 'صُدّر في {date}',
+  'chat.open': 'فتح الدردشة',
+  'chat.minimize': 'تصغير الدردشة',
+  'chat.newConversation': 'محادثة جديدة',
+  'chat.savedConversations': 'المحادثات المحفوظة',
+  'chat.exportTranscript': 'تصدير المحادثة',
+  'chat.grounded': 'مستند إلى الإنفوجرافيك',
+  'chat.contextOff': 'السياق متوقف',
+  'chat.contextSummary': 'الحقائق: {facts} · المصادر: {sources}',
+  'chat.stopContext': 'التوقف عن استخدام هذا الإنفوجرافيك كسياق',
+  'chat.useContext': 'استخدام هذا الإنفوجرافيك كسياق',
+  'chat.noConversations': 'لا توجد محادثات محفوظة',
+  'chat.messageCount': 'الرسائل: {count}',
+  'chat.deleteConversation': 'حذف المحادثة',
+  'chat.noResponse': 'تعذّر علي إنشاء رد.',
+  'chat.error': 'عذرًا، حدث خطأ. يرجى المحاولة مرة أخرى.',
+  'chat.askInfographic': 'اسأل عن هذا الإنفوجرافيك...',
+  'chat.askAnything': 'اسألني عن أي شيء...',
+  'chat.send': 'إرسال'
+};
@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const de: Messages = {
+  'common.on': 'An',
+  'common.off': 'Aus',
+  'common.builtIn': 'Integriert',
+  'common.custom': 'Eigene',
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.edit': 'Bearbeiten',
+  'common.duplicate': 'Duplizieren',
+  'common.delete': 'Löschen',
+  'common.importJson': 'JSON importieren',
+  'common.exportJson': 'JSON exportieren',
+
+  'intro.tagline': 'Wissen. Visualisiert.',
+  'intro.groundingBadge': 'Jetzt mit Google-Suche als Faktengrundlage',
+  'intro.enter': 'System starten',
+  'intro.skip': 'Intro überspringen',
+
+  'header.tagline': 'Visuelle Wissensmaschine',
+  'header.mock': 'Offline-Simulation',
+  'header.mockTitle': 'AI_PROVIDER=mock: Antworten sind vorgefertigte Platzhalter',
+  'header.brandKit': 'Markenkit',
+  'header.sources': 'Quellenlisten für die Recherche',
+  'header.batch': 'Stapelgenerierung',
+  'header.usage': 'Nutzung und Kosten ({spent} in dieser Sitzung)',
+  'header.theme': 'Zwischen hellem und dunklem Modus wechseln',
+  'header.uiLanguage': 'Sprache der Oberfläche',
+
+  'key.badge': 'Kostenpflichtig',
+  'key.title': 'Kostenpflichtiger API-Schlüssel erforderlich',
+  'key.body': 'Erweiterte Generierungsfunktionen erfordern einen kostenpflichtigen Gemini-API-Schlüssel.',
+  'key.billing': 'Wähle zum Fortfahren ein Google-Cloud-Projekt mit aktivierter Abrechnung aus.',
+  'key.select': 'Kostenpflichtigen API-Schlüssel auswählen',
+
+  'hero.badge': 'Integrierte Suche, Maps und Nano-Banana-Pro-Synthese',
+  'hero.titleTop': 'Entschlüssle',
+  'hero.titleBottom': 'die Welt.',
+
+  'form.topicPlaceholder': 'Was möchtest du visualisieren?',
+  'form.questionPlaceholder': 'Gezielte Frage zu diesem Bild...',
+  'form.contextPlaceholder': "Zusätzlicher Kontext (z. B. 'Nach Sicherheitslücken suchen', 'Text erkennen')",
+  'form.record': 'Sprechen zum Transkribieren',
+  'form.stopRecording': 'Aufnahme beenden',
+  'form.upload': 'Für Bildanalyse hochladen',
+  'form.removeImage': 'Bild entfernen',
+  'form.preview': 'Zu analysierendes Bild',
+  'form.engine': 'Modell',
+  'form.size': 'Größe',
+  'form.ratio': 'Format',
+  'form.audience': 'Zielgruppe',
+  'form.manageAudiences': 'Zielgruppenprofile verwalten',
+  'form.aesthetic': 'Stil',
+  'form.manageStyles': 'Stilvorlagen verwalten',
+  'form.language': 'Sprache',
+  'form.languageTitle': 'Sprache der recherchierten Fakten und der Beschriftungen',
+  'form.variants': 'Varianten',
+  'form.variantsSingle': 'Einzeln',
+  'form.variantsCount': '{count} Varianten',
+  'form.review': 'Prüfung',
+  'form.reviewTitle': 'Nach der Recherche anhalten, um Fakten und Bild-Prompt vor dem Rendern zu bearbeiten',
+  'form.cache': 'Cache',
+  'form.cacheTitle': 'Recherche und Bilder identischer kürzlicher Anfragen wiederverwenden. Ausschalten, um immer das Modell aufzurufen; neue Ergebnisse aktualisieren den Cache trotzdem',
+  'form.brand': 'Marke',
+  'form.brandApply': 'Markenkit auf diese Generierung anwenden',
+  'form.brandSetUp': 'Markenkit einrichten',
+  'form.brandSetUpShort': 'Einrichten',
+  'form.analyze': 'Analysieren',
+  'form.initiate': 'Starten',
+
+  'model.flash': 'Flash (schnell)',
+  'model.pro': 'Pro (Nano Banana Pro)',
+  'model.imagen': 'Imagen 4 (kreativ)',
+  'size.1K': '1K (Standard)',
+  'size.2K': '2K (hochauflösend)',
+  'size.4K': '4K (ultrahochauflösend)',
+  'ratio.16:9': '16:9 Breit',
+  'ratio.1:1': '1:1 Quadrat',
+  'ratio.9:16': '9:16 Mobil',
+  'level.Elementary': 'Grundschule',
+  'level.High School': 'Oberstufe',
+  'level.College': 'Hochschule',
+  'level.Expert': 'Fachleute',
+  'style.Default': 'Standard',
+  'style.Geometric Patterns': 'Geometrische Muster',
+  'style.Minimalist': 'Minimalistisch',
+  'style.Realistic': 'Realistisch',
+  'style.Cartoon': 'Graphic Novel',
+  'style.Vintage': 'Historische Lithografie',
+  'style.Futuristic': 'Cyberpunk',
+  'style.3D Render': '3D-Isometrie',
+  'style.Sketch': 'Bauplan',
+
+  'status.transcribing': 'Audio wird transkribiert...',
+  'status.analyzing': 'Bildinhalt wird analysiert...',
+  'status.researching': 'Thema wird mit Suche und Maps recherchiert...',
+  'status.designing': 'Infografik wird gestaltet ({size})...',
+  'status.designingVariants': '{count} Varianten werden gestaltet ({size})...',
+  'status.editingRegion': 'Markierter Bereich wird bearbeitet: „{instruction}“...',
+  'status.modifying': 'Änderung wird angewendet: „{instruction}“...',
+  'status.translating': 'Übersetzung: {language} ({current} von {total})...',
+
+  'error.emptyTopic': 'Bitte gib ein Thema ein oder lade ein Bild zur Analyse hoch.',
+  'error.storageFull': 'Der Browserspeicher ist voll. Diese Infografik bleibt nach dem Neuladen nicht erhalten.',
+  'error.transcription': 'Die Transkription ist fehlgeschlagen. Bitte versuche es erneut.',
+  'error.microphone': 'Mikrofonzugriff verweigert oder nicht verfügbar.',
+  'error.accessDenied': 'Zugriff verweigert. Pro-Funktionen erfordern einen kostenpflichtigen Gemini-API-Schlüssel. Bitte wähle deinen Schlüssel erneut aus.',
+  'error.invalidPlan': 'Die Recherche hat einen unbrauchbaren Plan geliefert ({issue}). Bitte versuche es erneut.',
+  'error.unavailable': 'Der Dienst ist vorübergehend nicht verfügbar. Bitte versuche es erneut.',
+  'error.quota': 'Anfragelimit oder Kontingent erreicht. Warte eine Minute und versuche es erneut, oder prüfe das Kontingent des Projekts deines API-Schlüssels.',
+  'error.safety': 'Die Anfrage wurde von Sicherheitsfiltern blockiert. Formuliere das Thema oder die Anweisung um und versuche es erneut.',
+  'error.badRequest': 'Die Anfrage wurde als ungültig abgelehnt. Versuche ein anderes Modell oder eine andere Größe, oder kürze den Prompt.',
+  'error.emptyOutput': 'Das Modell hat kein Ergebnis geliefert. Versuche es erneut oder formuliere die Anfrage um.',
+  'error.editFailed': 'Die Änderung ist fehlgeschlagen. Versuche eine andere Anweisung.',
+  'error.translateFailed': 'Die Übersetzung ist fehlgeschlagen. Bitte versuche es erneut.',
+  'error.deckExport': 'Der {format}-Export konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'error.imageDownload': 'Das Bild konnte nicht für den Download vorbereitet werden. Bitte versuche es erneut.',
+  'error.packageExport': 'Das Exportpaket konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'error.batchArchive': 'Das Archiv der fertigen Infografiken konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'error.saveStylePresets': 'Die Stilvorlagen konnten nicht gespeichert werden. Sie gehen nach dem Neuladen verloren.',
+  'error.saveAudienceProfile': 'Das Zielgruppenprofil konnte nicht gespeichert werden. Es geht nach dem Neuladen verloren.',
+  'error.saveBrandKit': 'Das Markenkit konnte nicht gespeichert werden. Es geht nach dem Neuladen verloren.',
+  'error.saveSourcePolicy': 'Die Quellenlisten konnten nicht gespeichert werden. Sie gehen beim Neuladen verloren.',
+  'error.saveUsageSettings': 'Nutzungseinstellungen konnten nicht gespeichert werden. Sie gehen beim Neuladen verloren.',
+  'error.clearHistory': 'Der gespeicherte Verlauf konnte nicht gelöscht werden. Bitte versuche es erneut.',
+  'error.clearUsage': 'Die erfasste Nutzung konnte nicht gelöscht werden. Bitte versuche es erneut.',
+  'error.overBudget': 'Blockiert: Damit würde das Sitzungsbudget von {limit} überschritten ({spent} ausgegeben, etwa {estimate} mehr). Erhöhe das Limit unter Nutzung und Kosten, um fortzufahren.',
+
+  'loading.linkActive': 'Neuronale Verbindung aktiv',
+  'loading.complete': '{percent} % abgeschlossen',
+  'loading.synthesizing': 'Erkenntnisse werden zusammengeführt...',
+  'loading.phaseResearch': 'Recherche',
+  'loading.phaseSynthesis': 'Synthese',
+  'loading.phaseRender': 'Rendern',
+  'loading.sources': '{count} Quellen',
+  'loading.cancel': 'Abbrechen',
+
+  'progress.location': 'Standort für Maps-Fundierung wird ermittelt...',
+  'progress.researchSent': 'Rechercheanfrage gesendet...',
+  'progress.groundingReceived': '{count} Fundierungsquellen empfangen',
+  'progress.factsParsed': '{count} Fakten ausgewertet',
+  'progress.imageSent': 'Bildanfrage gesendet...',
+  'progress.imageDecoded': 'Bild dekodiert',
+
+  'analysis.sourceImage': 'Ausgangsbild',
+  'analysis.title': 'Bildanalyse',
+  'analysis.subtitle': 'Neuronaler Synthesebericht',
+  'analysis.listen': 'Analyse anhören',
+  'analysis.generatedAt': 'Erstellt um {time}',
+  'analysis.visualise': 'Visualisieren',
+  'analysis.visualisePrompt': 'Erkläre die visuellen Befunde: {excerpt}...',
+  'speech.summary': 'Infografik zum Thema {topic} erstellt. Eine Zusammenfassung der Analyse ist verfügbar.',
+
+  'infographic.readSummary': 'Zusammenfassung vorlesen',
+  'infographic.fullscreen': 'Vollbildansicht',
+  'infographic.logoOnExport': 'Logo beim Export: {state}',
+  'infographic.editOverlay': 'Textebene bearbeiten',
+  'infographic.download': 'Bild herunterladen',
+  'infographic.exportPackage': 'Paket exportieren (Bild, Metadaten, Fakten, Quellen)',
+  'infographic.editPlaceholder': 'Bild verfeinern (z. B. „Sterne im Hintergrund“)...',
+  'infographic.enhanceEmpty': 'Bitte eine Anweisung zum Verbessern eingeben',
+  'infographic.enhanceTitle': 'Bild verbessern',
+  'infographic.enhance': 'Verbessern',
+  'infographic.promptCaption': 'PROMPT: {prompt}',
+  'infographic.editCaption': 'BEARBEITUNG: {instruction}',
+  'infographic.translationCaption': 'ÜBERSETZUNG: {language}',
+  'infographic.zoomOut': 'Verkleinern',
+  'infographic.resetZoom': 'Zoom zurücksetzen',
+  'infographic.zoomIn': 'Vergrößern',
+  'infographic.editRegion': 'Bereich bearbeiten',
+  'infographic.closeFullscreen': 'Vollbild schließen',
+  'infographic.fromCacheBoth': 'Aus dem Cache: Recherche und Bild',
+  'infographic.fromCacheResearch': 'Aus dem Cache: Recherche',
+  'infographic.fromCacheImage': 'Aus dem Cache: Bild',
+  'infographic.translate': 'Übersetzen',
+  'infographic.translateInto': 'Übersetzen in',
+  'infographic.translateIntoCount': 'In {count} Sprachen übersetzen',
+
+  'plan.title': 'Rechercheplan prüfen',
+  'plan.discardTitle': 'Plan verwerfen',
+  'plan.titleLabel': 'Titel',
+  'plan.facts': 'Fakten ({count})',
+  'plan.addFact': 'Fakt hinzufügen',
+  'plan.factPlaceholder': 'Fakt eingeben...',
+  'plan.confidence': 'Vom Recherchemodell angegebene Sicherheit',
+  'plan.moveUp': 'Nach oben',
+  'plan.moveDown': 'Nach unten',
+  'plan.removeFact': 'Fakt entfernen',
+  'plan.imagePrompt': 'Bild-Prompt',
+  'plan.sources': 'Quellen ({count})',
+  'plan.removeSource': 'Quelle entfernen',
+  'plan.discard': 'Verwerfen',
+  'plan.approve': 'Freigeben & rendern ({engine})',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'Versionsbaum',
+  'versions.current': 'Aktuelle Version: Bearbeitungen verzweigen von hier',
+  'versions.show': 'Diese Version anzeigen und davon ausgehend bearbeiten',
+  'versions.original': 'Original',
+  'versions.editing': 'In Bearbeitung',
+  'versions.compare': 'Mit Vorgänger vergleichen',
+  'versions.editLabel': 'BEARBEITUNG:',
+  'versions.before': 'Vorher',
+  'versions.after': 'Nachher',
+  'versions.close': 'Vergleich schließen',
+
+  'sources.title': 'Recherchequellen',
+  'sources.maps': 'Google Maps',
+  'sources.external': 'Externe Quelle',
+  'sources.tier.academic': 'Wissenschaft',
+  'sources.tier.government': 'Behörde',
+  'sources.tier.encyclopedic': 'Enzyklopädie',
+  'sources.tier.news': 'Nachrichten',
+  'sources.tier.other': 'Sonstige',
+  'sources.type.web': 'Web',
+  'sources.type.maps': 'Karten',
+  'sources.all': 'Alle ({count})',
+  'sources.filterCount': '{label} ({count})',
+  'sources.sortLabel': 'Quellen sortieren',
+  'sources.sortRelevance': 'Sortierung: Relevanz',
+  'sources.sortCredibility': 'Sortierung: Glaubwürdigkeit',
+
+  'policy.title': 'Recherchequellen',
+  'policy.subtitle': 'Domains, auf die sich die Recherche stützen darf und nicht darf',
+  'policy.help': 'Ein Domain pro Zeile; Subdomains sind eingeschlossen. Die Listen gehen an das Recherchemodell, und Webquellen außerhalb davon werden aus den Ergebnissen entfernt. Orte aus Maps bleiben immer erhalten.',
+  'policy.allow': 'Erlaubte Domains ({count})',
+  'policy.allowPlaceholder': 'Leer lassen, um alle Domains zu erlauben\nz. B. nature.com\nwho.int',
+  'policy.deny': 'Blockierte Domains ({count})',
+  'policy.denyPlaceholder': 'z. B. example-content-farm.com',
+  'policy.clear': 'Listen leeren',
+  'policy.save': 'Listen speichern',
+
+  'variants.title': 'Variante wählen',
+  'variants.discardAll': 'Alle Varianten verwerfen',
+  'variants.label': 'Variante {number}',
+  'variants.main': 'Haupt',
+  'variants.keepTitle': 'Diese Variante ebenfalls im Verlauf behalten',
+  'variants.keep': 'Behalten',
+  'variants.keeping': 'Wird behalten',
+  'variants.useSelected': 'Auswahl verwenden',
+  'variants.useSelectedKeep': 'Auswahl verwenden & {count} behalten',
+
+  'mask.brush': 'Pinsel',
+  'mask.rect': 'Rechteck',
+  'mask.eraser': 'Radierer',
+  'mask.brushSize': 'Pinselgröße',
+  'mask.clear': 'Maske löschen',
+  'mask.describe': 'Änderung für den markierten Bereich beschreiben...',
+  'mask.paintFirst': 'Den zu ändernden Bereich übermalen oder ein Rechteck ziehen',
+  'mask.apply': 'Bereich bearbeiten',
+
+  'overlay.text': 'Text',
+  'overlay.callout': 'Sprechblase',
+  'overlay.arrow': 'Pfeil',
+  'overlay.defaultText': 'Beschriftung',
+  'overlay.defaultCallout': 'Hinweis',
+  'overlay.fromFactsTitle': 'Für jeden recherchierten Fakt ein Textfeld hinzufügen',
+  'overlay.fromFacts': 'Aus Fakten ({count})',
+  'overlay.save': 'Ebene speichern',
+  'overlay.font': 'Schrift',
+  'overlay.weight': 'Stärke',
+  'overlay.size': 'Größe',
+  'overlay.color': 'Farbe',
+  'overlay.fill': 'Füllung',
+  'overlay.align': 'Ausrichtung',
+  'overlay.alignLeft': 'Linksbündig',
+  'overlay.alignCenter': 'Zentriert',
+  'overlay.alignRight': 'Rechtsbündig',
+  'overlay.delete': 'Element löschen',
+  'overlay.resize': 'Zum Skalieren ziehen',
+
+  'styles.title': 'Stilvorlagen',
+  'styles.count': 'Eigene Stile: {count}',
+  'styles.new': 'Neuer Stil',
+  'styles.imported': 'Importierte Stile: {count}.',
+  'styles.deleteConfirm': 'Stil „{name}“ löschen?',
+  'styles.namePlaceholder': 'Stilname, z. B. Unser Hausstil',
+  'styles.instructionPlaceholder': 'Beschreibe den Stil: Farbpalette, Technik, Typografie, Stimmung...',
+  'styles.referenceAlt': 'Stilreferenz',
+  'styles.removeReference': 'Referenzbild entfernen',
+  'styles.addReference': 'Referenzbild (optional)',
+  'styles.save': 'Stil speichern',
+  'styles.empty': 'Noch keine eigenen Stile',
+
+  'brand.title': 'Markenkit',
+  'brand.subtitle': 'Gilt für Recherche, Bild-Prompts und Exporte',
+  'brand.name': 'Markenname',
+  'brand.namePlaceholder': 'z. B. Northwind Learning',
+  'brand.palette': 'Palette ({count}/{max})',
+  'brand.removeColor': 'Farbe entfernen',
+  'brand.addColor': 'Farbe hinzufügen',
+  'brand.typography': 'Typografie',
+  'brand.typographyPlaceholder': 'z. B. Fette geometrische Grotesk-Überschriften, leichte humanistische Fließtexte',
+  'brand.tone': 'Tonalität',
+  'brand.tonePlaceholder': 'z. B. Warm, klar und ermutigend; kein Fachjargon',
+  'brand.logo': 'Logo',
+  'brand.logoAlt': 'Markenlogo',
+  'brand.removeLogo': 'Logo entfernen',
+  'brand.uploadLogo': 'Logo hochladen (am besten PNG mit Transparenz)',
+  'brand.cornerTitle': 'Ecke, in der das Logo beim Export platziert wird',
+  'brand.cornerTopLeft': 'Oben links',
+  'brand.cornerTopRight': 'Oben rechts',
+  'brand.cornerBottomLeft': 'Unten links',
+  'brand.cornerBottomRight': 'Unten rechts',
+  'brand.removeConfirm': 'Markenkit entfernen? Bestehende Infografiken behalten ihr Logo.',
+  'brand.remove': 'Kit entfernen',
+  'brand.save': 'Markenkit speichern',
+
+  'audience.title': 'Zielgruppenprofile',
+  'audience.count': 'Eigene Zielgruppen: {count}',
+  'audience.new': 'Neue Zielgruppe',
+  'audience.deleteConfirm': 'Zielgruppe „{name}“ löschen?',
+  'audience.namePlaceholder': 'Name der Zielgruppe, z. B. Krankenhauspatienten',
+  'audience.readingLevel': 'Lesestufe',
+  'audience.readingLevelPlaceholder': 'z. B. 6. Klasse, GER B1',
+  'audience.maxWords': 'Max. Wörter pro Beschriftung',
+  'audience.wordsPerLabel': '≤ {count} Wörter pro Beschriftung',
+  'audience.vocabulary': 'Wortschatz',
+  'audience.vocabularyPlaceholder': 'z. B. Alltagswörter; Fachbegriffe in Klammern erklären; keine Abkürzungen',
+  'audience.visual': 'Visuelle Konventionen',
+  'audience.visualPlaceholder': 'z. B. Nummerierte Schritte, große Piktogramme, Rot nur für Warnungen',
+  'audience.save': 'Zielgruppe speichern',
+  'audience.empty': 'Noch keine eigenen Zielgruppen',
+
+  'batch.title': 'Stapelerstellung',
+  'batch.summary': '{done}/{total} fertig · {model} · {size}',
+  'batch.hide': 'Ausblenden (die Warteschlange läuft weiter)',
+  'batch.placeholder': 'Ein Thema pro Zeile oder CSV-Zeilen: topic,level,style,language,aspectRatio\nThemen mit Kommas in Anführungszeichen setzen. JSON-Arrays werden ebenfalls akzeptiert.',
+  'batch.add': 'Zur Warteschlange hinzufügen',
+  'batch.import': 'CSV / JSON importieren',
+  'batch.parallel': 'Parallel',
+  'batch.error.missingTopic': 'Zeile {row}: Thema fehlt',
+  'batch.error.unknownValue': 'Zeile {row}: unbekannter Wert „{value}“ für {field} (erwartet: {expected})',
+  'batch.error.invalidJson': 'Ungültiges JSON: {value}',
+  'batch.error.notArray': 'Das JSON muss ein Array von Themen oder ein Objekt mit einem „topics“-Array sein',
+  'batch.status.queued': 'Wartend',
+  'batch.status.researching': 'Recherche',
+  'batch.status.rendering': 'Rendern',
+  'batch.status.done': 'Fertig',
+  'batch.status.failed': 'Fehlgeschlagen',
+  'batch.retry': 'Erneut versuchen',
+  'batch.remove': 'Entfernen',
+  'batch.empty': 'Warteschlange ist leer',
+  'batch.retryFailed': 'Fehlgeschlagene wiederholen ({count})',
+  'batch.downloadAll': 'Alle herunterladen ({count})',
+  'batch.running': 'Läuft...',
+  'batch.start': 'Starten ({count})',
+  'overlay.hint': 'Wähle ein Element im Bild, um es zu gestalten. Ziehen zum Verschieben; mit den Griffen Textfelder skalieren oder Pfeilenden versetzen.',
+
+  'history.title': 'Sitzungsarchiv',
+  'history.selected': '{count} ausgewählt',
+  'history.pdfTitle': 'PDF-Handout herunterladen',
+  'history.pptxTitle': 'PowerPoint-Präsentation herunterladen',
+  'history.cancelSelection': 'Auswahl abbrechen',
+  'history.select': 'Auswählen',
+  'history.selectTitle': 'Infografiken für den Export als PDF-Handout oder Foliensatz auswählen',
+  'history.clear': 'Alle löschen',
+  'history.clearTitle': 'Alle gespeicherten Infografiken löschen',
+  'history.clearConfirm': 'Alle gespeicherten Infografiken löschen? Dies kann nicht rückgängig gemacht werden.',
+  'history.openTranslation': 'Version auf {language} öffnen',
+
+  'export.sources': 'Quellen',
+  'export.sourcesContinued': 'Quellen (Fortsetzung)',
+  'export.topic': 'Thema: {topic}',
+
+  'usage.overBudgetConfirm': 'Damit wird das Sitzungsbudget von {limit} überschritten: bisher {spent} ausgegeben und etwa {estimate} mehr für diesen Lauf. Trotzdem fortfahren?',
+  'usage.title': 'Nutzung & Kosten',
+  'usage.subtitle': 'Jeder Modellaufruf, bepreist mit der Tabelle unten',
+  'usage.session': 'Diese Sitzung',
+  'usage.today': 'Heute',
+  'usage.allTime': 'Gesamt',
+  'usage.budget': 'Sitzungsbudget',
+  'usage.noLimit': 'Kein Limit (USD)',
+  'usage.modeWarn': 'Vor dem Überschreiten warnen',
+  'usage.modeBlock': 'Erstellungen blockieren, die es überschreiten würden',
+  'usage.spentOf': '{spent} von {limit} in dieser Sitzung ausgegeben',
+  'usage.byDay': 'Nach Tag',
+  'usage.byModel': 'Nach Modell',
+  'usage.byOperation': 'Nach Vorgang',
+  'usage.day': 'Tag',
+  'usage.model': 'Modell',
+  'usage.operation': 'Vorgang',
+  'usage.empty': 'Noch keine Nutzung erfasst.',
+  'usage.calls': 'Aufrufe',
+  'usage.inputTokens': 'Eingabe-Tokens',
+  'usage.outputTokens': 'Ausgabe-Tokens',
+  'usage.images': 'Bilder',
+  'usage.cost': 'Kosten',
+  'usage.prices': 'Preise (USD)',
+  'usage.resetPrices': 'Auf Standard zurücksetzen',
+  'usage.pricesHelp': 'Neue Preise gelten für künftige Aufrufe; erfasste Kosten bleiben unverändert.',
+  'usage.priceInput': 'Eingabe / 1M',
+  'usage.priceOutput': 'Ausgabe / 1M',
+  'usage.priceImage': 'Pro Bild',
+  'usage.clear': 'Nutzung löschen',
+  'usage.clearConfirm': 'Alle erfasste Nutzung löschen? Bereits entstandene Kosten sind davon nicht betroffen.',
+  'usage.save': 'Einstellungen speichern',
+  'usage.op.research': 'Recherche',
+  'usage.op.image': 'Bild',
+  'usage.op.edit': 'Bearbeitung',
+  'usage.op.translate': 'Übersetzung',
+  'usage.op.chat': 'Chat',
+  'usage.op.analysis': 'Analyse',
+  'usage.op.transcription': 'Transkription',
+  'usage.op.speech': 'Sprachausgabe',
+
+  'chat.title': 'InfoGenius-Chat',
+  'chat.greeting': 'Hallo! Ich bin InfoGenius. Wie kann ich dir heute bei deiner Recherche oder deinen Grafiken helfen?',
+  'chat.you': 'Du',
+  'chat.exported': 'Exportiert am {date}',
+  'chat.open': 'Chat öffnen',
+  'chat.minimize': 'Chat minimieren',
+  'chat.newConversation': 'Neue Unterhaltung',
+  'chat.savedConversations': 'Gespeicherte Unterhaltungen',
+  'chat.exportTranscript': 'Verlauf exportieren',
+  'chat.grounded': 'Basiert auf der Infografik',
+  'chat.contextOff': 'Kontext aus',
+  'chat.contextSummary': '{facts} Fakten · {sources} Quellen',
+  'chat.stopContext': 'Diese Infografik nicht mehr als Kontext verwenden',
+  'chat.useContext': 'Diese Infografik als Kontext verwenden',
+  'chat.noConversations': 'Keine gespeicherten Unterhaltungen',
+  'chat.messageCount': '{count} Nachrichten',
+  'chat.deleteConversation': 'Unterhaltung löschen',
+  'chat.noResponse': 'Ich konnte keine Antwort erzeugen.',
+  'chat.error': 'Entschuldigung, es ist ein Fehler aufgetreten. Bitte versuche es erneut.',
+  'chat.askInfographic': 'Frag etwas zu dieser Infografik...',
+  'chat.askAnything': 'Frag mich, was du willst...',
+  'chat.send': 'Senden'
+};
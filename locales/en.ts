@@ -0,0 +1,440 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Source catalog; every other locale must provide the same keys. {name} marks an interpolated value.
+export const en = {
+  'common.on': 'On',
+  'common.off': 'Off',
+  'common.builtIn': 'Built-in',
+  'common.custom': 'Custom',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.edit': 'Edit',
+  'common.duplicate': 'Duplicate',
+  'common.delete': 'Delete',
+  'common.importJson': 'Import JSON',
+  'common.exportJson': 'Export JSON',
+
+  'intro.tagline': 'Knowledge. Visualized.',
+  'intro.groundingBadge': 'Now with Google Search Grounding',
+  'intro.enter': 'Initialize System',
+  'intro.skip': 'Skip Intro',
+
+  'header.tagline': 'Visual Knowledge Engine',
+  'header.mock': 'Offline Mock',
+  'header.mockTitle': 'AI_PROVIDER=mock: responses are canned placeholders',
+  'header.brandKit': 'Brand kit',
+  'header.sources': 'Research source lists',
+  'header.batch': 'Batch generation',
+  'header.usage': 'Usage and costs ({spent} this session)',
+  'header.theme': 'Toggle light and dark mode',
+  'header.uiLanguage': 'Interface language',
+
+  'key.badge': 'Paid App',
+  'key.title': 'Paid API Key Required',
+  'key.body': 'Advanced generation features require a paid Gemini API key.',
+  'key.billing': 'You must select a Google Cloud Project with billing enabled to proceed.',
+  'key.select': 'Select Paid API Key',
+
+  'hero.badge': 'Integrated Search, Maps, and Nano Banana Pro Synthesis',
+  'hero.titleTop': 'Decode',
+  'hero.titleBottom': 'Reality.',
+
+  'form.topicPlaceholder': 'What do you want to visualize?',
+  'form.questionPlaceholder': 'Targeted question about this image...',
+  'form.contextPlaceholder': "Additional context (e.g., 'Look for security flaws', 'Identify text')",
+  'form.record': 'Speak to Transcribe',
+  'form.stopRecording': 'Stop Recording',
+  'form.upload': 'Upload for Vision Analysis',
+  'form.removeImage': 'Remove image',
+  'form.preview': 'Image to analyze',
+  'form.engine': 'Engine',
+  'form.size': 'Size',
+  'form.ratio': 'Ratio',
+  'form.audience': 'Audience',
+  'form.manageAudiences': 'Manage audience profiles',
+  'form.aesthetic': 'Aesthetic',
+  'form.manageStyles': 'Manage style presets',
+  'form.language': 'Language',
+  'form.languageTitle': 'Language of the researched facts and infographic labels',
+  'form.variants': 'Variants',
+  'form.variantsSingle': 'Single',
+  'form.variantsCount': '{count} Variants',
+  'form.review': 'Review',
+  'form.reviewTitle': 'Pause after research to edit the facts and image prompt before rendering',
+  'form.cache': 'Cache',
+  'form.cacheTitle': 'Reuse research and images from identical recent requests. Turn off to always call the model; fresh results still refresh the cache',
+  'form.brand': 'Brand',
+  'form.brandApply': 'Apply the brand kit to this generation',
+  'form.brandSetUp': 'Set up a brand kit',
+  'form.brandSetUpShort': 'Set Up',
+  'form.analyze': 'Analyze',
+  'form.initiate': 'Initiate',
+
+  'model.flash': 'Flash (Fast)',
+  'model.pro': 'Pro (Nano Banana Pro)',
+  'model.imagen': 'Imagen 4 (Creative)',
+  'size.1K': '1K (Standard)',
+  'size.2K': '2K (High-Res)',
+  'size.4K': '4K (Ultra-Res)',
+  'ratio.16:9': '16:9 Wide',
+  'ratio.1:1': '1:1 Square',
+  'ratio.9:16': '9:16 Mobile',
+  'level.Elementary': 'Elementary',
+  'level.High School': 'High School',
+  'level.College': 'College',
+  'level.Expert': 'Expert',
+  'style.Default': 'Standard',
+  'style.Geometric Patterns': 'Geometric Patterns',
+  'style.Minimalist': 'Minimalist',
+  'style.Realistic': 'Realistic',
+  'style.Cartoon': 'Graphic Novel',
+  'style.Vintage': 'Vintage Litho',
+  'style.Futuristic': 'Cyberpunk',
+  'style.3D Render': '3D Isometric',
+  'style.Sketch': 'Blueprint',
+
+  'status.transcribing': 'Transcribing audio...',
+  'status.analyzing': 'Analyzing image content...',
+  'status.researching': 'Researching topic with Search & Maps...',
+  'status.designing': 'Designing Infographic ({size})...',
+  'status.designingVariants': 'Designing {count} Variants ({size})...',
+  'status.editingRegion': 'Editing Marked Region: "{instruction}"...',
+  'status.modifying': 'Processing Modification: "{instruction}"...',
+  'status.translating': 'Translating into {language} ({current} of {total})...',
+
+  'error.emptyTopic': 'Please enter a topic or upload an image to analyze.',
+  'error.storageFull': 'Browser storage is full. This infographic will not be kept after a reload.',
+  'error.transcription': 'Transcription failed. Please try again.',
+  'error.microphone': 'Microphone access denied or not available.',
+  'error.accessDenied': 'Access denied. A paid Gemini API key is required for Pro features. Please re-select your key.',
+  'error.invalidPlan': 'Research returned an unusable plan ({issue}). Please try again.',
+  'error.unavailable': 'The service is temporarily unavailable. Please try again.',
+  'error.quota': 'Rate limit or quota reached. Wait a minute and try again, or check the quota of your API key\'s project.',
+  'error.safety': 'The request was blocked by safety filters. Rephrase the topic or instruction and try again.',
+  'error.badRequest': 'The request was rejected as invalid. Try another model or size, or shorten the prompt.',
+  'error.emptyOutput': 'The model returned no result. Try again or rephrase the request.',
+  'error.editFailed': 'Modification failed. Try a different command.',
+  'error.translateFailed': 'Translation failed. Please try again.',
+  'error.deckExport': 'Could not build the {format} export. Please try again.',
+  'error.imageDownload': 'Could not prepare the image for download. Please try again.',
+  'error.packageExport': 'Could not build the export package. Please try again.',
+  'error.batchArchive': 'Could not build the archive of finished infographics. Please try again.',
+  'error.saveStylePresets': 'Could not save style presets. They will be lost after a reload.',
+  'error.saveAudienceProfile': 'Could not save the audience profile. It will be lost after a reload.',
+  'error.saveBrandKit': 'Could not save the brand kit. It will be lost after a reload.',
+  'error.saveSourcePolicy': 'Could not save the source lists. They will be lost on reload.',
+  'error.saveUsageSettings': 'Could not save usage settings. They will be lost after a reload.',
+  'error.clearHistory': 'Could not clear saved history. Please try again.',
+  'error.clearUsage': 'Could not clear recorded usage. Please try again.',
+  'error.overBudget': 'Blocked: this would take the session past its {limit} budget ({spent} spent, about {estimate} more). Raise the limit under Usage and costs to continue.',
+
+  'loading.linkActive': 'Neural Link Active',
+  'loading.complete': '{percent}% Complete',
+  'loading.synthesizing': 'Synthesizing Insight...',
+  'loading.phaseResearch': 'Research',
+  'loading.phaseSynthesis': 'Synthesis',
+  'loading.phaseRender': 'Render',
+  'loading.sources': '{count} sources',
+  'loading.cancel': 'Cancel',
+
+  'progress.location': 'Locating you for Maps grounding...',
+  'progress.researchSent': 'Research request sent...',
+  'progress.groundingReceived': '{count} grounding sources received',
+  'progress.factsParsed': '{count} facts parsed',
+  'progress.imageSent': 'Image request sent...',
+  'progress.imageDecoded': 'Image decoded',
+
+  'analysis.sourceImage': 'Source Image',
+  'analysis.title': 'Vision Intelligence',
+  'analysis.subtitle': 'Neural Synthesis Report',
+  'analysis.listen': 'Listen to analysis',
+  'analysis.generatedAt': 'Generated at {time}',
+  'analysis.visualise': 'Visualise This',
+  'analysis.visualisePrompt': 'Explain visual findings: {excerpt}...',
+  'speech.summary': 'Infographic generated for topic: {topic}. Analysis summary available.',
+
+  'infographic.readSummary': 'Read Summary',
+  'infographic.fullscreen': 'Fullscreen View',
+  'infographic.logoOnExport': 'Logo on export: {state}',
+  'infographic.editOverlay': 'Edit Text Overlay',
+  'infographic.download': 'Download Image',
+  'infographic.exportPackage': 'Export Package (image, metadata, facts, sources)',
+  'infographic.editPlaceholder': "Refine the visual (e.g., 'Make the background stars')...",
+  'infographic.enhanceEmpty': 'Please enter a prompt to enhance',
+  'infographic.enhanceTitle': 'Enhance image',
+  'infographic.enhance': 'Enhance',
+  'infographic.promptCaption': 'PROMPT: {prompt}',
+  'infographic.editCaption': 'EDIT: {instruction}',
+  'infographic.translationCaption': 'TRANSLATION: {language}',
+  'infographic.zoomOut': 'Zoom Out',
+  'infographic.resetZoom': 'Reset Zoom',
+  'infographic.zoomIn': 'Zoom In',
+  'infographic.editRegion': 'Edit a Region',
+  'infographic.closeFullscreen': 'Close fullscreen',
+  'infographic.fromCacheBoth': 'Served from cache: research and image',
+  'infographic.fromCacheResearch': 'Served from cache: research',
+  'infographic.fromCacheImage': 'Served from cache: image',
+  'infographic.translate': 'Translate',
+  'infographic.translateInto': 'Translate into',
+  'infographic.translateIntoCount': 'Translate into {count} languages',
+
+  'plan.title': 'Review Research Plan',
+  'plan.discardTitle': 'Discard plan',
+  'plan.titleLabel': 'Title',
+  'plan.facts': 'Facts ({count})',
+  'plan.addFact': 'Add Fact',
+  'plan.factPlaceholder': 'Enter a fact...',
+  'plan.confidence': 'Confidence reported by the research model',
+  'plan.moveUp': 'Move up',
+  'plan.moveDown': 'Move down',
+  'plan.removeFact': 'Remove fact',
+  'plan.imagePrompt': 'Image Prompt',
+  'plan.sources': 'Sources ({count})',
+  'plan.removeSource': 'Remove source',
+  'plan.discard': 'Discard',
+  'plan.approve': 'Approve & Render ({engine})',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'Version Tree',
+  'versions.current': 'Current version: edits branch from here',
+  'versions.show': 'Show this version and edit from it',
+  'versions.original': 'Original',
+  'versions.editing': 'Editing',
+  'versions.compare': 'Compare with parent',
+  'versions.editLabel': 'EDIT:',
+  'versions.before': 'Before',
+  'versions.after': 'After',
+  'versions.close': 'Close comparison',
+
+  'sources.title': 'Research Sources',
+  'sources.maps': 'Google Maps',
+  'sources.external': 'External Source',
+  'sources.tier.academic': 'Academic',
+  'sources.tier.government': 'Government',
+  'sources.tier.encyclopedic': 'Encyclopedic',
+  'sources.tier.news': 'News',
+  'sources.tier.other': 'Other',
+  'sources.type.web': 'Web',
+  'sources.type.maps': 'Maps',
+  'sources.all': 'All ({count})',
+  'sources.filterCount': '{label} ({count})',
+  'sources.sortLabel': 'Sort sources',
+  'sources.sortRelevance': 'Sort: Relevance',
+  'sources.sortCredibility': 'Sort: Credibility',
+
+  'policy.title': 'Research Sources',
+  'policy.subtitle': 'Domains the research may and may not rely on',
+  'policy.help': 'One domain per line; subdomains are included. The lists are passed to the research model and web sources outside them are removed from the results. Maps places are always kept.',
+  'policy.allow': 'Allowed Domains ({count})',
+  'policy.allowPlaceholder': 'Leave empty to allow every domain\ne.g. nature.com\nwho.int',
+  'policy.deny': 'Blocked Domains ({count})',
+  'policy.denyPlaceholder': 'e.g. example-content-farm.com',
+  'policy.clear': 'Clear Lists',
+  'policy.save': 'Save Lists',
+
+  'variants.title': 'Pick a Variant',
+  'variants.discardAll': 'Discard all variants',
+  'variants.label': 'Variant {number}',
+  'variants.main': 'Main',
+  'variants.keepTitle': 'Keep this variant in history as well',
+  'variants.keep': 'Keep',
+  'variants.keeping': 'Keeping',
+  'variants.useSelected': 'Use Selected',
+  'variants.useSelectedKeep': 'Use Selected & Keep {count}',
+
+  'mask.brush': 'Brush',
+  'mask.rect': 'Rectangle',
+  'mask.eraser': 'Eraser',
+  'mask.brushSize': 'Brush size',
+  'mask.clear': 'Clear mask',
+  'mask.describe': 'Describe the change for the marked region...',
+  'mask.paintFirst': 'Paint or draw a rectangle over the region to change',
+  'mask.apply': 'Edit Region',
+
+  'overlay.text': 'Text',
+  'overlay.callout': 'Callout',
+  'overlay.arrow': 'Arrow',
+  'overlay.defaultText': 'Label',
+  'overlay.defaultCallout': 'Callout',
+  'overlay.fromFactsTitle': 'Add a text box for each researched fact',
+  'overlay.fromFacts': 'From Facts ({count})',
+  'overlay.save': 'Save Overlay',
+  'overlay.font': 'Font',
+  'overlay.weight': 'Weight',
+  'overlay.size': 'Size',
+  'overlay.color': 'Color',
+  'overlay.fill': 'Fill',
+  'overlay.align': 'Align',
+  'overlay.alignLeft': 'Align left',
+  'overlay.alignCenter': 'Align center',
+  'overlay.alignRight': 'Align right',
+  'overlay.delete': 'Delete element',
+  'overlay.resize': 'Drag to resize',
+
+  'styles.title': 'Style Presets',
+  'styles.count': 'Custom aesthetics: {count}',
+  'styles.new': 'New Style',
+  'styles.imported': 'Imported styles: {count}.',
+  'styles.deleteConfirm': 'Delete the style "{name}"?',
+  'styles.namePlaceholder': 'Style name, e.g. Our House Style',
+  'styles.instructionPlaceholder': 'Describe the aesthetic: palette, rendering technique, typography, mood...',
+  'styles.referenceAlt': 'Style reference',
+  'styles.removeReference': 'Remove reference image',
+  'styles.addReference': 'Reference Image (optional)',
+  'styles.save': 'Save Style',
+  'styles.empty': 'No custom styles yet',
+
+  'brand.title': 'Brand Kit',
+  'brand.subtitle': 'Applied to research, image prompts and exports',
+  'brand.name': 'Brand Name',
+  'brand.namePlaceholder': 'e.g. Northwind Learning',
+  'brand.palette': 'Palette ({count}/{max})',
+  'brand.removeColor': 'Remove colour',
+  'brand.addColor': 'Add colour',
+  'brand.typography': 'Typography',
+  'brand.typographyPlaceholder': 'e.g. Bold geometric sans-serif headings, light humanist body text',
+  'brand.tone': 'Tone of Voice',
+  'brand.tonePlaceholder': 'e.g. Warm, plain-spoken and encouraging; no jargon',
+  'brand.logo': 'Logo',
+  'brand.logoAlt': 'Brand logo',
+  'brand.removeLogo': 'Remove logo',
+  'brand.uploadLogo': 'Upload Logo (PNG with transparency works best)',
+  'brand.cornerTitle': 'Corner the logo is placed in on export',
+  'brand.cornerTopLeft': 'Top left',
+  'brand.cornerTopRight': 'Top right',
+  'brand.cornerBottomLeft': 'Bottom left',
+  'brand.cornerBottomRight': 'Bottom right',
+  'brand.removeConfirm': 'Remove the brand kit? Existing infographics keep their logo.',
+  'brand.remove': 'Remove Kit',
+  'brand.save': 'Save Brand Kit',
+
+  'audience.title': 'Audience Profiles',
+  'audience.count': 'Custom audiences: {count}',
+  'audience.new': 'New Audience',
+  'audience.deleteConfirm': 'Delete the audience "{name}"?',
+  'audience.namePlaceholder': 'Audience name, e.g. Hospital Patients',
+  'audience.readingLevel': 'Reading Level',
+  'audience.readingLevelPlaceholder': 'e.g. Grade 6, CEFR B1',
+  'audience.maxWords': 'Max Words per Label',
+  'audience.wordsPerLabel': '≤ {count} words per label',
+  'audience.vocabulary': 'Vocabulary',
+  'audience.vocabularyPlaceholder': 'e.g. Everyday words; define any medical term in brackets; never use abbreviations',
+  'audience.visual': 'Visual Conventions',
+  'audience.visualPlaceholder': 'e.g. Numbered steps, large pictograms, red only for warnings',
+  'audience.save': 'Save Audience',
+  'audience.empty': 'No custom audiences yet',
+
+  'batch.title': 'Batch Generation',
+  'batch.summary': '{done}/{total} complete · {model} · {size}',
+  'batch.hide': 'Hide (the queue keeps running)',
+  'batch.placeholder': 'One topic per line, or CSV rows: topic,level,style,language,aspectRatio\nQuote topics that contain commas. JSON arrays are accepted too.',
+  'batch.add': 'Add to Queue',
+  'batch.import': 'Import CSV / JSON',
+  'batch.parallel': 'Parallel',
+  'batch.error.missingTopic': 'Row {row}: missing topic',
+  'batch.error.unknownValue': 'Row {row}: unknown {field} "{value}" (expected one of {expected})',
+  'batch.error.invalidJson': 'Invalid JSON: {value}',
+  'batch.error.notArray': 'JSON must be an array of topics or an object with a "topics" array',
+  'batch.status.queued': 'Queued',
+  'batch.status.researching': 'Researching',
+  'batch.status.rendering': 'Rendering',
+  'batch.status.done': 'Done',
+  'batch.status.failed': 'Failed',
+  'batch.retry': 'Retry',
+  'batch.remove': 'Remove',
+  'batch.empty': 'Queue is empty',
+  'batch.retryFailed': 'Retry Failed ({count})',
+  'batch.downloadAll': 'Download All ({count})',
+  'batch.running': 'Running...',
+  'batch.start': 'Start ({count})',
+  'overlay.hint': 'Select an element on the image to style it. Drag to move; use the handles to resize text boxes or reposition arrow ends.',
+
+  'history.title': 'Session Archives',
+  'history.selected': '{count} selected',
+  'history.pdfTitle': 'Download a PDF handout',
+  'history.pptxTitle': 'Download a PowerPoint deck',
+  'history.cancelSelection': 'Cancel selection',
+  'history.select': 'Select',
+  'history.selectTitle': 'Select infographics to export as a PDF handout or slide deck',
+  'history.clear': 'Clear All',
+  'history.clearTitle': 'Delete all saved infographics',
+  'history.clearConfirm': 'Delete all saved infographics? This cannot be undone.',
+  'history.openTranslation': 'Open the {language} version',
+
+  'export.sources': 'Sources',
+  'export.sourcesContinued': 'Sources (continued)',
+  'export.topic': 'Topic: {topic}',
+
+  'usage.overBudgetConfirm': 'This will take the session past its {limit} budget: {spent} spent so far and about {estimate} more for this run. Continue anyway?',
+  'usage.title': 'Usage & Costs',
+  'usage.subtitle': 'Every model call, priced with the table below',
+  'usage.session': 'This Session',
+  'usage.today': 'Today',
+  'usage.allTime': 'All Time',
+  'usage.budget': 'Session Budget',
+  'usage.noLimit': 'No limit (USD)',
+  'usage.modeWarn': 'Warn before going over',
+  'usage.modeBlock': 'Block generations that would go over',
+  'usage.spentOf': '{spent} of {limit} spent this session',
+  'usage.byDay': 'By Day',
+  'usage.byModel': 'By Model',
+  'usage.byOperation': 'By Operation',
+  'usage.day': 'Day',
+  'usage.model': 'Model',
+  'usage.operation': 'Operation',
+  'usage.empty': 'No usage recorded yet.',
+  'usage.calls': 'Calls',
+  'usage.inputTokens': 'Input Tokens',
+  'usage.outputTokens': 'Output Tokens',
+  'usage.images': 'Images',
+  'usage.cost': 'Cost',
+  'usage.prices': 'Prices (USD)',
+  'usage.resetPrices': 'Reset to Defaults',
+  'usage.pricesHelp': 'New prices apply to calls made from now on; recorded costs are kept as they were.',
+  'usage.priceInput': 'Input / 1M',
+  'usage.priceOutput': 'Output / 1M',
+  'usage.priceImage': 'Per Image',
+  'usage.clear': 'Clear Usage',
+  'usage.clearConfirm': 'Delete all recorded usage? Costs already incurred are not affected.',
+  'usage.save': 'Save Settings',
+  'usage.op.research': 'Research',
+  'usage.op.image': 'Image',
+  'usage.op.edit': 'Edit',
+  'usage.op.translate': 'Translation',
+  'usage.op.chat': 'Chat',
+  'usage.op.analysis': 'Analysis',
+  'usage.op.transcription': 'Transcription',
+  'usage.op.speech': 'Speech',
+
+  'chat.title': 'InfoGenius Chat',
+  'chat.greeting': 'Hi! I am InfoGenius. How can I help you with your research or visuals today?',
+  'chat.you': 'You',
+  'chat.exported': 'Exported {date}',
+  'chat.open': 'Open chat',
+  'chat.minimize': 'Minimize chat',
+  'chat.newConversation': 'New conversation',
+  'chat.savedConversations': 'Saved conversations',
+  'chat.exportTranscript': 'Export transcript',
+  'chat.grounded': 'Grounded in infographic',
+  'chat.contextOff': 'Context off',
+  'chat.contextSummary': '{facts} facts · {sources} sources',
+  'chat.stopContext': 'Stop using this infographic as context',
+  'chat.useContext': 'Use this infographic as context',
+  'chat.noConversations': 'No saved conversations',
+  'chat.messageCount': '{count} messages',
+  'chat.deleteConversation': 'Delete conversation',
+  'chat.noResponse': "I couldn't generate a response.",
+  'chat.error': 'Sorry, I encountered an error. Please try again.',
+  'chat.askInfographic': 'Ask about this infographic...',
+  'chat.askAnything': 'Ask me anything...',
+  'chat.send': 'Send'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const es: Messages = {
+  'common.on': 'Sí',
+  'common.off': 'No',
+  'common.builtIn': 'Integrados',
+  'common.custom': 'Personalizados',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.edit': 'Editar',
+  'common.duplicate': 'Duplicar',
+  'common.delete': 'Eliminar',
+  'common.importJson': 'Importar JSON',
+  'common.exportJson': 'Exportar JSON',
+
+  'intro.tagline': 'Conocimiento. Visualizado.',
+  'intro.groundingBadge': 'Ahora con verificación en la Búsqueda de Google',
+  'intro.enter': 'Iniciar sistema',
+  'intro.skip': 'Saltar intro',
+
+  'header.tagline': 'Motor de conocimiento visual',
+  'header.mock': 'Simulación sin conexión',
+  'header.mockTitle': 'AI_PROVIDER=mock: las respuestas son marcadores de ejemplo',
+  'header.brandKit': 'Kit de marca',
+  'header.sources': 'Listas de fuentes de investigación',
+  'header.batch': 'Generación por lotes',
+  'header.usage': 'Uso y costes ({spent} en esta sesión)',
+  'header.theme': 'Cambiar entre modo claro y oscuro',
+  'header.uiLanguage': 'Idioma de la interfaz',
+
+  'key.badge': 'App de pago',
+  'key.title': 'Se requiere una clave de API de pago',
+  'key.body': 'Las funciones avanzadas de generación requieren una clave de API de Gemini de pago.',
+  'key.billing': 'Para continuar, selecciona un proyecto de Google Cloud con la facturación habilitada.',
+  'key.select': 'Seleccionar clave de API de pago',
+
+  'hero.badge': 'Búsqueda, Mapas y síntesis con Nano Banana Pro integrados',
+  'hero.titleTop': 'Descifra',
+  'hero.titleBottom': 'la realidad.',
+
+  'form.topicPlaceholder': '¿Qué quieres visualizar?',
+  'form.questionPlaceholder': 'Pregunta concreta sobre esta imagen...',
+  'form.contextPlaceholder': "Contexto adicional (p. ej., 'Busca fallos de seguridad', 'Identifica el texto')",
+  'form.record': 'Habla para transcribir',
+  'form.stopRecording': 'Detener grabación',
+  'form.upload': 'Subir para análisis visual',
+  'form.removeImage': 'Quitar imagen',
+  'form.preview': 'Imagen para analizar',
+  'form.engine': 'Motor',
+  'form.size': 'Tamaño',
+  'form.ratio': 'Proporción',
+  'form.audience': 'Público',
+  'form.manageAudiences': 'Gestionar perfiles de público',
+  'form.aesthetic': 'Estética',
+  'form.manageStyles': 'Gestionar estilos predefinidos',
+  'form.language': 'Idioma',
+  'form.languageTitle': 'Idioma de los datos investigados y de las etiquetas de la infografía',
+  'form.variants': 'Variantes',
+  'form.variantsSingle': 'Una',
+  'form.variantsCount': '{count} variantes',
+  'form.review': 'Revisión',
+  'form.reviewTitle': 'Pausar tras la investigación para editar los datos y el prompt de imagen antes de renderizar',
+  'form.cache': 'Caché',
+  'form.cacheTitle': 'Reutilizar la investigación y las imágenes de solicitudes idénticas recientes. Desactívala para llamar siempre al modelo; los resultados nuevos siguen actualizando la caché',
+  'form.brand': 'Marca',
+  'form.brandApply': 'Aplicar el kit de marca a esta generación',
+  'form.brandSetUp': 'Configurar un kit de marca',
+  'form.brandSetUpShort': 'Configurar',
+  'form.analyze': 'Analizar',
+  'form.initiate': 'Iniciar',
+
+  'model.flash': 'Flash (rápido)',
+  'model.pro': 'Pro (Nano Banana Pro)',
+  'model.imagen': 'Imagen 4 (creativo)',
+  'size.1K': '1K (estándar)',
+  'size.2K': '2K (alta resolución)',
+  'size.4K': '4K (ultra resolución)',
+  'ratio.16:9': '16:9 Panorámico',
+  'ratio.1:1': '1:1 Cuadrado',
+  'ratio.9:16': '9:16 Móvil',
+  'level.Elementary': 'Primaria',
+  'level.High School': 'Secundaria',
+  'level.College': 'Universidad',
+  'level.Expert': 'Experto',
+  'style.Default': 'Estándar',
+  'style.Geometric Patterns': 'Patrones geométricos',
+  'style.Minimalist': 'Minimalista',
+  'style.Realistic': 'Realista',
+  'style.Cartoon': 'Novela gráfica',
+  'style.Vintage': 'Litografía antigua',
+  'style.Futuristic': 'Ciberpunk',
+  'style.3D Render': 'Isométrico 3D',
+  'style.Sketch': 'Plano técnico',
+
+  'status.transcribing': 'Transcribiendo audio...',
+  'status.analyzing': 'Analizando el contenido de la imagen...',
+  'status.researching': 'Investigando el tema con Búsqueda y Mapas...',
+  'status.designing': 'Diseñando la infografía ({size})...',
+  'status.designingVariants': 'Diseñando {count} variantes ({size})...',
+  'status.editingRegion': 'Editando la zona marcada: "{instruction}"...',
+  'status.modifying': 'Aplicando la modificación: "{instruction}"...',
+  'status.translating': 'Traduciendo a {language} ({current} de {total})...',
+
+  'error.emptyTopic': 'Escribe un tema o sube una imagen para analizarla.',
+  'error.storageFull': 'El almacenamiento del navegador está lleno. Esta infografía no se conservará al recargar.',
+  'error.transcription': 'La transcripción ha fallado. Inténtalo de nuevo.',
+  'error.microphone': 'Acceso al micrófono denegado o no disponible.',
+  'error.accessDenied': 'Acceso denegado. Las funciones Pro requieren una clave de API de Gemini de pago. Vuelve a seleccionar tu clave.',
+  'error.invalidPlan': 'La investigación devolvió un plan inutilizable ({issue}). Inténtalo de nuevo.',
+  'error.unavailable': 'El servicio no está disponible temporalmente. Inténtalo de nuevo.',
+  'error.quota': 'Se alcanzó el límite de solicitudes o la cuota. Espera un minuto y vuelve a intentarlo, o revisa la cuota del proyecto de tu clave de API.',
+  'error.safety': 'Los filtros de seguridad bloquearon la solicitud. Reformula el tema o la instrucción e inténtalo de nuevo.',
+  'error.badRequest': 'La solicitud se rechazó por no ser válida. Prueba con otro modelo o tamaño, o acorta el prompt.',
+  'error.emptyOutput': 'El modelo no devolvió ningún resultado. Inténtalo de nuevo o reformula la solicitud.',
+  'error.editFailed': 'La modificación ha fallado. Prueba con otra instrucción.',
+  'error.translateFailed': 'La traducción falló. Inténtalo de nuevo.',
+  'error.deckExport': 'No se pudo generar la exportación {format}. Inténtalo de nuevo.',
+  'error.imageDownload': 'No se pudo preparar la imagen para descargarla. Inténtalo de nuevo.',
+  'error.packageExport': 'No se pudo crear el paquete de exportación. Inténtalo de nuevo.',
+  'error.batchArchive': 'No se pudo crear el archivo con las infografías terminadas. Inténtalo de nuevo.',
+  'error.saveStylePresets': 'No se pudieron guardar los estilos. Se perderán al recargar.',
+  'error.saveAudienceProfile': 'No se pudo guardar el perfil de público. Se perderá al recargar.',
+  'error.saveBrandKit': 'No se pudo guardar el kit de marca. Se perderá al recargar.',
+  'error.saveSourcePolicy': 'No se pudieron guardar las listas de fuentes. Se perderán al recargar.',
+  'error.saveUsageSettings': 'No se pudo guardar la configuración de uso. Se perderá al recargar.',
+  'error.clearHistory': 'No se pudo borrar el historial guardado. Inténtalo de nuevo.',
+  'error.clearUsage': 'No se pudo borrar el uso registrado. Inténtalo de nuevo.',
+  'error.overBudget': 'Bloqueado: esto superaría el presupuesto de {limit} de la sesión ({spent} gastados, unos {estimate} más). Aumenta el límite en Uso y costes para continuar.',
+
+  'loading.linkActive': 'Enlace neuronal activo',
+  'loading.complete': '{percent} % completado',
+  'loading.synthesizing': 'Sintetizando ideas...',
+  'loading.phaseResearch': 'Investigación',
+  'loading.phaseSynthesis': 'Síntesis',
+  'loading.phaseRender': 'Render',
+  'loading.sources': '{count} fuentes',
+  'loading.cancel': 'Cancelar',
+
+  'progress.location': 'Obteniendo tu ubicación para Maps...',
+  'progress.researchSent': 'Solicitud de investigación enviada...',
+  'progress.groundingReceived': '{count} fuentes de referencia recibidas',
+  'progress.factsParsed': '{count} datos analizados',
+  'progress.imageSent': 'Solicitud de imagen enviada...',
+  'progress.imageDecoded': 'Imagen decodificada',
+
+  'analysis.sourceImage': 'Imagen de origen',
+  'analysis.title': 'Inteligencia visual',
+  'analysis.subtitle': 'Informe de síntesis neuronal',
+  'analysis.listen': 'Escuchar el análisis',
+  'analysis.generatedAt': 'Generado a las {time}',
+  'analysis.visualise': 'Visualizar esto',
+  'analysis.visualisePrompt': 'Explica los hallazgos visuales: {excerpt}...',
+  'speech.summary': 'Infografía generada sobre el tema: {topic}. Resumen del análisis disponible.',
+
+  'infographic.readSummary': 'Leer resumen',
+  'infographic.fullscreen': 'Pantalla completa',
+  'infographic.logoOnExport': 'Logotipo al exportar: {state}',
+  'infographic.editOverlay': 'Editar texto superpuesto',
+  'infographic.download': 'Descargar imagen',
+  'infographic.exportPackage': 'Exportar paquete (imagen, metadatos, datos, fuentes)',
+  'infographic.editPlaceholder': "Ajusta el visual (p. ej., 'Pon estrellas en el fondo')...",
+  'infographic.enhanceEmpty': 'Escribe una instrucción para mejorar',
+  'infographic.enhanceTitle': 'Mejorar imagen',
+  'infographic.enhance': 'Mejorar',
+  'infographic.promptCaption': 'INSTRUCCIÓN: {prompt}',
+  'infographic.editCaption': 'EDICIÓN: {instruction}',
+  'infographic.translationCaption': 'TRADUCCIÓN: {language}',
+  'infographic.zoomOut': 'Alejar',
+  'infographic.resetZoom': 'Restablecer zoom',
+  'infographic.zoomIn': 'Acercar',
+  'infographic.editRegion': 'Editar una zona',
+  'infographic.closeFullscreen': 'Cerrar pantalla completa',
+  'infographic.fromCacheBoth': 'Servido desde la caché: investigación e imagen',
+  'infographic.fromCacheResearch': 'Servido desde la caché: investigación',
+  'infographic.fromCacheImage': 'Servido desde la caché: imagen',
+  'infographic.translate': 'Traducir',
+  'infographic.translateInto': 'Traducir a',
+  'infographic.translateIntoCount': 'Traducir a {count} idiomas',
+
+  'plan.title': 'Revisar el plan de investigación',
+  'plan.discardTitle': 'Descartar plan',
+  'plan.titleLabel': 'Título',
+  'plan.facts': 'Datos ({count})',
+  'plan.addFact': 'Añadir dato',
+  'plan.factPlaceholder': 'Escribe un dato...',
+  'plan.confidence': 'Confianza indicada por el modelo de investigación',
+  'plan.moveUp': 'Subir',
+  'plan.moveDown': 'Bajar',
+  'plan.removeFact': 'Quitar dato',
+  'plan.imagePrompt': 'Instrucción de imagen',
+  'plan.sources': 'Fuentes ({count})',
+  'plan.removeSource': 'Quitar fuente',
+  'plan.discard': 'Descartar',
+  'plan.approve': 'Aprobar y generar ({engine})',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'Árbol de versiones',
+  'versions.current': 'Versión actual: las ediciones parten de aquí',
+  'versions.show': 'Mostrar esta versión y editar a partir de ella',
+  'versions.original': 'Original',
+  'versions.editing': 'Editando',
+  'versions.compare': 'Comparar con la versión anterior',
+  'versions.editLabel': 'EDICIÓN:',
+  'versions.before': 'Antes',
+  'versions.after': 'Después',
+  'versions.close': 'Cerrar comparación',
+
+  'sources.title': 'Fuentes de la investigación',
+  'sources.maps': 'Google Maps',
+  'sources.external': 'Fuente externa',
+  'sources.tier.academic': 'Académica',
+  'sources.tier.government': 'Gobierno',
+  'sources.tier.encyclopedic': 'Enciclopedia',
+  'sources.tier.news': 'Noticias',
+  'sources.tier.other': 'Otras',
+  'sources.type.web': 'Web',
+  'sources.type.maps': 'Mapas',
+  'sources.all': 'Todas ({count})',
+  'sources.filterCount': '{label} ({count})',
+  'sources.sortLabel': 'Ordenar fuentes',
+  'sources.sortRelevance': 'Orden: relevancia',
+  'sources.sortCredibility': 'Orden: credibilidad',
+
+  'policy.title': 'Fuentes de investigación',
+  'policy.subtitle': 'Dominios en los que la investigación puede o no apoyarse',
+  'policy.help': 'Un dominio por línea; se incluyen los subdominios. Las listas se envían al modelo de investigación y las fuentes web que quedan fuera se eliminan de los resultados. Los lugares de Maps siempre se conservan.',
+  'policy.allow': 'Dominios permitidos ({count})',
+  'policy.allowPlaceholder': 'Déjalo vacío para permitir todos los dominios\np. ej. nature.com\nwho.int',
+  'policy.deny': 'Dominios bloqueados ({count})',
+  'policy.denyPlaceholder': 'p. ej. example-content-farm.com',
+  'policy.clear': 'Vaciar listas',
+  'policy.save': 'Guardar listas',
+
+  'variants.title': 'Elige una variante',
+  'variants.discardAll': 'Descartar todas las variantes',
+  'variants.label': 'Variante {number}',
+  'variants.main': 'Principal',
+  'variants.keepTitle': 'Guardar también esta variante en el historial',
+  'variants.keep': 'Guardar',
+  'variants.keeping': 'Se guardará',
+  'variants.useSelected': 'Usar la seleccionada',
+  'variants.useSelectedKeep': 'Usar la seleccionada y guardar {count}',
+
+  'mask.brush': 'Pincel',
+  'mask.rect': 'Rectángulo',
+  'mask.eraser': 'Borrador',
+  'mask.brushSize': 'Tamaño del pincel',
+  'mask.clear': 'Borrar máscara',
+  'mask.describe': 'Describe el cambio para la zona marcada...',
+  'mask.paintFirst': 'Pinta o dibuja un rectángulo sobre la zona que quieres cambiar',
+  'mask.apply': 'Editar zona',
+
+  'overlay.text': 'Texto',
+  'overlay.callout': 'Globo',
+  'overlay.arrow': 'Flecha',
+  'overlay.defaultText': 'Etiqueta',
+  'overlay.defaultCallout': 'Nota',
+  'overlay.fromFactsTitle': 'Añadir un cuadro de texto por cada dato investigado',
+  'overlay.fromFacts': 'Desde los datos ({count})',
+  'overlay.save': 'Guardar superposición',
+  'overlay.font': 'Fuente',
+  'overlay.weight': 'Grosor',
+  'overlay.size': 'Tamaño',
+  'overlay.color': 'Color',
+  'overlay.fill': 'Relleno',
+  'overlay.align': 'Alinear',
+  'overlay.alignLeft': 'Alinear a la izquierda',
+  'overlay.alignCenter': 'Centrar',
+  'overlay.alignRight': 'Alinear a la derecha',
+  'overlay.delete': 'Eliminar elemento',
+  'overlay.resize': 'Arrastra para cambiar el tamaño',
+
+  'styles.title': 'Estilos predefinidos',
+  'styles.count': 'Estéticas personalizadas: {count}',
+  'styles.new': 'Nuevo estilo',
+  'styles.imported': 'Estilos importados: {count}.',
+  'styles.deleteConfirm': '¿Eliminar el estilo «{name}»?',
+  'styles.namePlaceholder': 'Nombre del estilo, p. ej. Estilo de la casa',
+  'styles.instructionPlaceholder': 'Describe la estética: paleta, técnica, tipografía, ambiente...',
+  'styles.referenceAlt': 'Referencia de estilo',
+  'styles.removeReference': 'Quitar imagen de referencia',
+  'styles.addReference': 'Imagen de referencia (opcional)',
+  'styles.save': 'Guardar estilo',
+  'styles.empty': 'Aún no hay estilos personalizados',
+
+  'brand.title': 'Kit de marca',
+  'brand.subtitle': 'Se aplica a la investigación, las instrucciones de imagen y las exportaciones',
+  'brand.name': 'Nombre de la marca',
+  'brand.namePlaceholder': 'p. ej. Northwind Learning',
+  'brand.palette': 'Paleta ({count}/{max})',
+  'brand.removeColor': 'Quitar color',
+  'brand.addColor': 'Añadir color',
+  'brand.typography': 'Tipografía',
+  'brand.typographyPlaceholder': 'p. ej. Titulares sans serif geométricos en negrita, texto humanista ligero',
+  'brand.tone': 'Tono de voz',
+  'brand.tonePlaceholder': 'p. ej. Cercano, claro y motivador; sin jerga',
+  'brand.logo': 'Logotipo',
+  'brand.logoAlt': 'Logotipo de la marca',
+  'brand.removeLogo': 'Quitar logotipo',
+  'brand.uploadLogo': 'Subir logotipo (mejor PNG con transparencia)',
+  'brand.cornerTitle': 'Esquina donde se coloca el logotipo al exportar',
+  'brand.cornerTopLeft': 'Arriba a la izquierda',
+  'brand.cornerTopRight': 'Arriba a la derecha',
+  'brand.cornerBottomLeft': 'Abajo a la izquierda',
+  'brand.cornerBottomRight': 'Abajo a la derecha',
+  'brand.removeConfirm': '¿Quitar el kit de marca? Las infografías existentes conservan su logotipo.',
+  'brand.remove': 'Quitar kit',
+  'brand.save': 'Guardar kit de marca',
+
+  'audience.title': 'Perfiles de público',
+  'audience.count': 'Públicos personalizados: {count}',
+  'audience.new': 'Nuevo público',
+  'audience.deleteConfirm': '¿Eliminar el público «{name}»?',
+  'audience.namePlaceholder': 'Nombre del público, p. ej. Pacientes del hospital',
+  'audience.readingLevel': 'Nivel de lectura',
+  'audience.readingLevelPlaceholder': 'p. ej. 6.º de primaria, MCER B1',
+  'audience.maxWords': 'Máx. palabras por etiqueta',
+  'audience.wordsPerLabel': '≤ {count} palabras por etiqueta',
+  'audience.vocabulary': 'Vocabulario',
+  'audience.vocabularyPlaceholder': 'p. ej. Palabras cotidianas; define los términos médicos entre paréntesis; sin abreviaturas',
+  'audience.visual': 'Convenciones visuales',
+  'audience.visualPlaceholder': 'p. ej. Pasos numerados, pictogramas grandes, rojo solo para advertencias',
+  'audience.save': 'Guardar público',
+  'audience.empty': 'Aún no hay públicos personalizados',
+
+  'batch.title': 'Generación por lotes',
+  'batch.summary': '{done}/{total} completadas · {model} · {size}',
+  'batch.hide': 'Ocultar (la cola sigue en marcha)',
+  'batch.placeholder': 'Un tema por línea, o filas CSV: topic,level,style,language,aspectRatio\nPon entre comillas los temas con comas. También se aceptan arrays JSON.',
+  'batch.add': 'Añadir a la cola',
+  'batch.import': 'Importar CSV / JSON',
+  'batch.parallel': 'En paralelo',
+  'batch.error.missingTopic': 'Fila {row}: falta el tema',
+  'batch.error.unknownValue': 'Fila {row}: {field} desconocido "{value}" (se esperaba uno de {expected})',
+  'batch.error.invalidJson': 'JSON no válido: {value}',
+  'batch.error.notArray': 'El JSON debe ser una lista de temas o un objeto con una lista "topics"',
+  'batch.status.queued': 'En cola',
+  'batch.status.researching': 'Investigando',
+  'batch.status.rendering': 'Generando',
+  'batch.status.done': 'Hecho',
+  'batch.status.failed': 'Error',
+  'batch.retry': 'Reintentar',
+  'batch.remove': 'Quitar',
+  'batch.empty': 'La cola está vacía',
+  'batch.retryFailed': 'Reintentar fallidas ({count})',
+  'batch.downloadAll': 'Descargar todo ({count})',
+  'batch.running': 'En curso...',
+  'batch.start': 'Iniciar ({count})',
+  'overlay.hint': 'Selecciona un elemento de la imagen para darle estilo. Arrástralo para moverlo; usa los tiradores para redimensionar cuadros de texto o mover los extremos de las flechas.',
+
+  'history.title': 'Archivo de la sesión',
+  'history.selected': '{count} seleccionadas',
+  'history.pdfTitle': 'Descargar un folleto en PDF',
+  'history.pptxTitle': 'Descargar una presentación de PowerPoint',
+  'history.cancelSelection': 'Cancelar selección',
+  'history.select': 'Seleccionar',
+  'history.selectTitle': 'Selecciona infografías para exportarlas como folleto PDF o presentación',
+  'history.clear': 'Borrar todo',
+  'history.clearTitle': 'Eliminar todas las infografías guardadas',
+  'history.clearConfirm': '¿Eliminar todas las infografías guardadas? No se puede deshacer.',
+  'history.openTranslation': 'Abrir la versión en {language}',
+
+  'export.sources': 'Fuentes',
+  'export.sourcesContinued': 'Fuentes (continuación)',
+  'export.topic': 'Tema: {topic}',
+
+  'usage.overBudgetConfirm': 'Esto superará el presupuesto de {limit} de la sesión: {spent} gastados hasta ahora y unos {estimate} más en esta ejecución. ¿Continuar de todos modos?',
+  'usage.title': 'Uso y costes',
+  'usage.subtitle': 'Cada llamada al modelo, con el precio de la tabla de abajo',
+  'usage.session': 'Esta sesión',
+  'usage.today': 'Hoy',
+  'usage.allTime': 'Total',
+  'usage.budget': 'Presupuesto de la sesión',
+  'usage.noLimit': 'Sin límite (USD)',
+  'usage.modeWarn': 'Avisar antes de superarlo',
+  'usage.modeBlock': 'Bloquear las generaciones que lo superen',
+  'usage.spentOf': '{spent} de {limit} gastados en esta sesión',
+  'usage.byDay': 'Por día',
+  'usage.byModel': 'Por modelo',
+  'usage.byOperation': 'Por operación',
+  'usage.day': 'Día',
+  'usage.model': 'Modelo',
+  'usage.operation': 'Operación',
+  'usage.empty': 'Aún no hay uso registrado.',
+  'usage.calls': 'Llamadas',
+  'usage.inputTokens': 'Tokens de entrada',
+  'usage.outputTokens': 'Tokens de salida',
+  'usage.images': 'Imágenes',
+  'usage.cost': 'Coste',
+  'usage.prices': 'Precios (USD)',
+  'usage.resetPrices': 'Restablecer valores predeterminados',
+  'usage.pricesHelp': 'Los nuevos precios se aplican a las llamadas a partir de ahora; los costes registrados no cambian.',
+  'usage.priceInput': 'Entrada / 1M',
+  'usage.priceOutput': 'Salida / 1M',
+  'usage.priceImage': 'Por imagen',
+  'usage.clear': 'Borrar uso',
+  'usage.clearConfirm': '¿Eliminar todo el uso registrado? Los costes ya generados no se ven afectados.',
+  'usage.save': 'Guardar ajustes',
+  'usage.op.research': 'Investigación',
+  'usage.op.image': 'Imagen',
+  'usage.op.edit': 'Edición',
+  'usage.op.translate': 'Traducción',
+  'usage.op.chat': 'Chat',
+  'usage.op.analysis': 'Análisis',
+  'usage.op.transcription': 'Transcripción',
+  'usage.op.speech': 'Voz',
+
+  'chat.title': 'Chat de InfoGenius',
+  'chat.greeting': '¡Hola! Soy InfoGenius. ¿En qué puedo ayudarte hoy con tu investigación o tus visuales?',
+  'chat.you': 'Tú',
+  'chat.exported': 'Exportado el {date}',
+  'chat.open': 'Abrir chat',
+  'chat.minimize': 'Minimizar chat',
+  'chat.newConversation': 'Nueva conversación',
+  'chat.savedConversations': 'Conversaciones guardadas',
+  'chat.exportTranscript': 'Exportar transcripción',
+  'chat.grounded': 'Basado en la infografía',
+  'chat.contextOff': 'Contexto desactivado',
+  'chat.contextSummary': '{facts} datos · {sources} fuentes',
+  'chat.stopContext': 'Dejar de usar esta infografía como contexto',
+  'chat.useContext': 'Usar esta infografía como contexto',
+  'chat.noConversations': 'No hay conversaciones guardadas',
+  'chat.messageCount': '{count} mensajes',
+  'chat.deleteConversation': 'Eliminar conversación',
+  'chat.noResponse': 'No he podido generar una respuesta.',
+  'chat.error': 'Lo siento, se ha producido un error. Inténtalo de nuevo.',
+  'chat.askInfographic': 'Pregunta sobre esta infografía...',
+  'chat.askAnything': 'Pregúntame lo que quieras...',
+  'chat.send': 'Enviar'
+};
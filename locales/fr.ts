@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'common.on': 'Oui',
+  'common.off': 'Non',
+  'common.builtIn': 'Intégrés',
+  'common.custom': 'Personnalisés',
+  'common.cancel': 'Annuler',
+  'common.close': 'Fermer',
+  'common.edit': 'Modifier',
+  'common.duplicate': 'Dupliquer',
+  'common.delete': 'Supprimer',
+  'common.importJson': 'Importer JSON',
+  'common.exportJson': 'Exporter JSON',
+
+  'intro.tagline': 'Le savoir. En images.',
+  'intro.groundingBadge': 'Désormais ancré dans la recherche Google',
+  'intro.enter': 'Lancer le système',
+  'intro.skip': "Passer l'intro",
+
+  'header.tagline': 'Moteur de connaissance visuelle',
+  'header.mock': 'Simulation hors ligne',
+  'header.mockTitle': 'AI_PROVIDER=mock : les réponses sont des exemples prédéfinis',
+  'header.brandKit': 'Charte de marque',
+  'header.sources': 'Listes de sources de recherche',
+  'header.batch': 'Génération par lots',
+  'header.usage': 'Utilisation et coûts ({spent} cette session)',
+  'header.theme': 'Basculer entre mode clair et sombre',
+  'header.uiLanguage': "Langue de l'interface",
+
+  'key.badge': 'App payante',
+  'key.title': "Clé d'API payante requise",
+  'key.body': "Les fonctions de génération avancées nécessitent une clé d'API Gemini payante.",
+  'key.billing': 'Pour continuer, sélectionnez un projet Google Cloud dont la facturation est activée.',
+  'key.select': "Sélectionner une clé d'API payante",
+
+  'hero.badge': 'Recherche, Maps et synthèse Nano Banana Pro intégrées',
+  'hero.titleTop': 'Décoder',
+  'hero.titleBottom': 'le réel.',
+
+  'form.topicPlaceholder': 'Que voulez-vous visualiser ?',
+  'form.questionPlaceholder': 'Question précise sur cette image...',
+  'form.contextPlaceholder': "Contexte supplémentaire (ex. : 'Repérer les failles de sécurité', 'Identifier le texte')",
+  'form.record': 'Parler pour transcrire',
+  'form.stopRecording': "Arrêter l'enregistrement",
+  'form.upload': "Importer pour l'analyse visuelle",
+  'form.removeImage': "Retirer l'image",
+  'form.preview': 'Image à analyser',
+  'form.engine': 'Moteur',
+  'form.size': 'Taille',
+  'form.ratio': 'Format',
+  'form.audience': 'Public',
+  'form.manageAudiences': 'Gérer les profils de public',
+  'form.aesthetic': 'Esthétique',
+  'form.manageStyles': 'Gérer les styles prédéfinis',
+  'form.language': 'Langue',
+  'form.languageTitle': "Langue des faits recherchés et des légendes de l'infographie",
+  'form.variants': 'Variantes',
+  'form.variantsSingle': 'Unique',
+  'form.variantsCount': '{count} variantes',
+  'form.review': 'Relecture',
+  'form.reviewTitle': "Marquer une pause après la recherche pour modifier les faits et le prompt d'image avant le rendu",
+  'form.cache': 'Cache',
+  'form.cacheTitle': 'Réutiliser les recherches et images de requêtes identiques récentes. Désactivez-le pour toujours appeler le modèle ; les nouveaux résultats mettent quand même le cache à jour',
+  'form.brand': 'Marque',
+  'form.brandApply': 'Appliquer la charte de marque à cette génération',
+  'form.brandSetUp': 'Configurer une charte de marque',
+  'form.brandSetUpShort': 'Configurer',
+  'form.analyze': 'Analyser',
+  'form.initiate': 'Lancer',
+
+  'model.flash': 'Flash (rapide)',
+  'model.pro': 'Pro (Nano Banana Pro)',
+  'model.imagen': 'Imagen 4 (créatif)',
+  'size.1K': '1K (standard)',
+  'size.2K': '2K (haute résolution)',
+  'size.4K': '4K (ultra haute résolution)',
+  'ratio.16:9': '16:9 Large',
+  'ratio.1:1': '1:1 Carré',
+  'ratio.9:16': '9:16 Mobile',
+  'level.Elementary': 'Primaire',
+  'level.High School': 'Lycée',
+  'level.College': 'Université',
+  'level.Expert': 'Expert',
+  'style.Default': 'Standard',
+  'style.Geometric Patterns': 'Motifs géométriques',
+  'style.Minimalist': 'Minimaliste',
+  'style.Realistic': 'Réaliste',
+  'style.Cartoon': 'Roman graphique',
+  'style.Vintage': 'Lithographie ancienne',
+  'style.Futuristic': 'Cyberpunk',
+  'style.3D Render': 'Isométrique 3D',
+  'style.Sketch': 'Plan technique',
+
+  'status.transcribing': "Transcription de l'audio...",
+  'status.analyzing': "Analyse du contenu de l'image...",
+  'status.researching': 'Recherche du sujet avec Search et Maps...',
+  'status.designing': "Conception de l'infographie ({size})...",
+  'status.designingVariants': 'Conception de {count} variantes ({size})...',
+  'status.editingRegion': 'Modification de la zone marquée : « {instruction} »...',
+  'status.modifying': 'Application de la modification : « {instruction} »...',
+  'status.translating': 'Traduction en {language} ({current} sur {total})...',
+
+  'error.emptyTopic': 'Saisissez un sujet ou importez une image à analyser.',
+  'error.storageFull': "Le stockage du navigateur est plein. Cette infographie ne sera pas conservée après un rechargement.",
+  'error.transcription': 'La transcription a échoué. Veuillez réessayer.',
+  'error.microphone': 'Accès au micro refusé ou indisponible.',
+  'error.accessDenied': "Accès refusé. Les fonctions Pro nécessitent une clé d'API Gemini payante. Veuillez sélectionner à nouveau votre clé.",
+  'error.invalidPlan': 'La recherche a renvoyé un plan inutilisable ({issue}). Veuillez réessayer.',
+  'error.unavailable': 'Le service est temporairement indisponible. Veuillez réessayer.',
+  'error.quota': 'Limite de requêtes ou quota atteint. Patientez une minute puis réessayez, ou vérifiez le quota du projet de votre clé API.',
+  'error.safety': 'La demande a été bloquée par les filtres de sécurité. Reformulez le sujet ou l\'instruction puis réessayez.',
+  'error.badRequest': 'La demande a été rejetée car invalide. Essayez un autre modèle ou une autre taille, ou raccourcissez le prompt.',
+  'error.emptyOutput': 'Le modèle n\'a renvoyé aucun résultat. Réessayez ou reformulez la demande.',
+  'error.editFailed': 'La modification a échoué. Essayez une autre instruction.',
+  'error.translateFailed': 'La traduction a échoué. Veuillez réessayer.',
+  'error.deckExport': "Impossible de créer l'export {format}. Veuillez réessayer.",
+  'error.imageDownload': 'Impossible de préparer l’image pour le téléchargement. Veuillez réessayer.',
+  'error.packageExport': 'Impossible de créer le paquet d’export. Veuillez réessayer.',
+  'error.batchArchive': 'Impossible de créer l’archive des infographies terminées. Veuillez réessayer.',
+  'error.saveStylePresets': "Impossible d'enregistrer les styles. Ils seront perdus après un rechargement.",
+  'error.saveAudienceProfile': "Impossible d'enregistrer le profil de public. Il sera perdu après un rechargement.",
+  'error.saveBrandKit': "Impossible d'enregistrer la charte de marque. Elle sera perdue après un rechargement.",
+  'error.saveSourcePolicy': "Impossible d'enregistrer les listes de sources. Elles seront perdues au rechargement.",
+  'error.saveUsageSettings': "Impossible d'enregistrer les réglages d'utilisation. Ils seront perdus au rechargement.",
+  'error.clearHistory': "Impossible d'effacer l'historique enregistré. Veuillez réessayer.",
+  'error.clearUsage': "Impossible d'effacer l'utilisation enregistrée. Veuillez réessayer.",
+  'error.overBudget': 'Bloqué : cela dépasserait le budget de {limit} de la session ({spent} dépensés, environ {estimate} de plus). Augmentez la limite dans Utilisation et coûts pour continuer.',
+
+  'loading.linkActive': 'Liaison neuronale active',
+  'loading.complete': '{percent} % terminé',
+  'loading.synthesizing': 'Synthèse en cours...',
+  'loading.phaseResearch': 'Recherche',
+  'loading.phaseSynthesis': 'Synthèse',
+  'loading.phaseRender': 'Rendu',
+  'loading.sources': '{count} sources',
+  'loading.cancel': 'Annuler',
+
+  'progress.location': "Localisation pour l'ancrage Maps...",
+  'progress.researchSent': 'Requête de recherche envoyée...',
+  'progress.groundingReceived': "{count} sources d'ancrage reçues",
+  'progress.factsParsed': '{count} faits analysés',
+  'progress.imageSent': "Requête d'image envoyée...",
+  'progress.imageDecoded': 'Image décodée',
+
+  'analysis.sourceImage': 'Image source',
+  'analysis.title': 'Intelligence visuelle',
+  'analysis.subtitle': 'Rapport de synthèse neuronale',
+  'analysis.listen': "Écouter l'analyse",
+  'analysis.generatedAt': 'Généré à {time}',
+  'analysis.visualise': 'Visualiser ceci',
+  'analysis.visualisePrompt': 'Expliquer les observations visuelles : {excerpt}...',
+  'speech.summary': "Infographie générée sur le sujet : {topic}. Le résumé de l'analyse est disponible.",
+
+  'infographic.readSummary': 'Lire le résumé',
+  'infographic.fullscreen': 'Plein écran',
+  'infographic.logoOnExport': 'Logo à l’export : {state}',
+  'infographic.editOverlay': 'Modifier le texte superposé',
+  'infographic.download': 'Télécharger l’image',
+  'infographic.exportPackage': 'Exporter le paquet (image, métadonnées, faits, sources)',
+  'infographic.editPlaceholder': 'Affinez le visuel (p. ex. « Mettre des étoiles en arrière-plan »)...',
+  'infographic.enhanceEmpty': 'Saisissez une instruction pour améliorer',
+  'infographic.enhanceTitle': 'Améliorer l’image',
+  'infographic.enhance': 'Améliorer',
+  'infographic.promptCaption': 'INSTRUCTION : {prompt}',
+  'infographic.editCaption': 'MODIFICATION : {instruction}',
+  'infographic.translationCaption': 'TRADUCTION : {language}',
+  'infographic.zoomOut': 'Zoom arrière',
+  'infographic.resetZoom': 'Réinitialiser le zoom',
+  'infographic.zoomIn': 'Zoom avant',
+  'infographic.editRegion': 'Modifier une zone',
+  'infographic.closeFullscreen': 'Quitter le plein écran',
+  'infographic.fromCacheBoth': 'Servi depuis le cache : recherche et image',
+  'infographic.fromCacheResearch': 'Servi depuis le cache : recherche',
+  'infographic.fromCacheImage': 'Servi depuis le cache : image',
+  'infographic.translate': 'Traduire',
+  'infographic.translateInto': 'Traduire en',
+  'infographic.translateIntoCount': 'Traduire en {count} langues',
+
+  'plan.title': 'Vérifier le plan de recherche',
+  'plan.discardTitle': 'Abandonner le plan',
+  'plan.titleLabel': 'Titre',
+  'plan.facts': 'Faits ({count})',
+  'plan.addFact': 'Ajouter un fait',
+  'plan.factPlaceholder': 'Saisissez un fait...',
+  'plan.confidence': 'Confiance indiquée par le modèle de recherche',
+  'plan.moveUp': 'Monter',
+  'plan.moveDown': 'Descendre',
+  'plan.removeFact': 'Supprimer le fait',
+  'plan.imagePrompt': 'Instruction d’image',
+  'plan.sources': 'Sources ({count})',
+  'plan.removeSource': 'Supprimer la source',
+  'plan.discard': 'Abandonner',
+  'plan.approve': 'Approuver et générer ({engine})',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'Arbre des versions',
+  'versions.current': 'Version actuelle : les modifications partent d’ici',
+  'versions.show': 'Afficher cette version et la modifier',
+  'versions.original': 'Original',
+  'versions.editing': 'En cours',
+  'versions.compare': 'Comparer avec la version parente',
+  'versions.editLabel': 'MODIFICATION :',
+  'versions.before': 'Avant',
+  'versions.after': 'Après',
+  'versions.close': 'Fermer la comparaison',
+
+  'sources.title': 'Sources de la recherche',
+  'sources.maps': 'Google Maps',
+  'sources.external': 'Source externe',
+  'sources.tier.academic': 'Académique',
+  'sources.tier.government': 'Gouvernement',
+  'sources.tier.encyclopedic': 'Encyclopédie',
+  'sources.tier.news': 'Presse',
+  'sources.tier.other': 'Autre',
+  'sources.type.web': 'Web',
+  'sources.type.maps': 'Cartes',
+  'sources.all': 'Toutes ({count})',
+  'sources.filterCount': '{label} ({count})',
+  'sources.sortLabel': 'Trier les sources',
+  'sources.sortRelevance': 'Tri : pertinence',
+  'sources.sortCredibility': 'Tri : crédibilité',
+
+  'policy.title': 'Sources de recherche',
+  'policy.subtitle': 'Domaines sur lesquels la recherche peut ou non s’appuyer',
+  'policy.help': 'Un domaine par ligne ; les sous-domaines sont inclus. Les listes sont transmises au modèle de recherche et les sources web hors liste sont retirées des résultats. Les lieux Maps sont toujours conservés.',
+  'policy.allow': 'Domaines autorisés ({count})',
+  'policy.allowPlaceholder': 'Laissez vide pour autoriser tous les domaines\np. ex. nature.com\nwho.int',
+  'policy.deny': 'Domaines bloqués ({count})',
+  'policy.denyPlaceholder': 'p. ex. example-content-farm.com',
+  'policy.clear': 'Vider les listes',
+  'policy.save': 'Enregistrer les listes',
+
+  'variants.title': 'Choisissez une variante',
+  'variants.discardAll': 'Abandonner toutes les variantes',
+  'variants.label': 'Variante {number}',
+  'variants.main': 'Principale',
+  'variants.keepTitle': 'Conserver aussi cette variante dans l’historique',
+  'variants.keep': 'Conserver',
+  'variants.keeping': 'Conservée',
+  'variants.useSelected': 'Utiliser la sélection',
+  'variants.useSelectedKeep': 'Utiliser la sélection et conserver {count}',
+
+  'mask.brush': 'Pinceau',
+  'mask.rect': 'Rectangle',
+  'mask.eraser': 'Gomme',
+  'mask.brushSize': 'Taille du pinceau',
+  'mask.clear': 'Effacer le masque',
+  'mask.describe': 'Décrivez la modification de la zone marquée...',
+  'mask.paintFirst': 'Peignez ou tracez un rectangle sur la zone à modifier',
+  'mask.apply': 'Modifier la zone',
+
+  'overlay.text': 'Texte',
+  'overlay.callout': 'Bulle',
+  'overlay.arrow': 'Flèche',
+  'overlay.defaultText': 'Étiquette',
+  'overlay.defaultCallout': 'Encadré',
+  'overlay.fromFactsTitle': 'Ajouter une zone de texte pour chaque fait recherché',
+  'overlay.fromFacts': 'À partir des faits ({count})',
+  'overlay.save': 'Enregistrer la superposition',
+  'overlay.font': 'Police',
+  'overlay.weight': 'Épaisseur',
+  'overlay.size': 'Taille',
+  'overlay.color': 'Couleur',
+  'overlay.fill': 'Remplissage',
+  'overlay.align': 'Alignement',
+  'overlay.alignLeft': 'Aligner à gauche',
+  'overlay.alignCenter': 'Centrer',
+  'overlay.alignRight': 'Aligner à droite',
+  'overlay.delete': 'Supprimer l’élément',
+  'overlay.resize': 'Faites glisser pour redimensionner',
+
+  'styles.title': 'Styles prédéfinis',
+  'styles.count': 'Esthétiques personnalisées : {count}',
+  'styles.new': 'Nouveau style',
+  'styles.imported': 'Styles importés : {count}.',
+  'styles.deleteConfirm': 'Supprimer le style « {name} » ?',
+  'styles.namePlaceholder': 'Nom du style, p. ex. Notre charte maison',
+  'styles.instructionPlaceholder': 'Décrivez l’esthétique : palette, technique de rendu, typographie, ambiance...',
+  'styles.referenceAlt': 'Référence de style',
+  'styles.removeReference': 'Supprimer l’image de référence',
+  'styles.addReference': 'Image de référence (facultative)',
+  'styles.save': 'Enregistrer le style',
+  'styles.empty': 'Aucun style personnalisé',
+
+  'brand.title': 'Kit de marque',
+  'brand.subtitle': 'Appliqué à la recherche, aux instructions d’image et aux exports',
+  'brand.name': 'Nom de la marque',
+  'brand.namePlaceholder': 'p. ex. Northwind Learning',
+  'brand.palette': 'Palette ({count}/{max})',
+  'brand.removeColor': 'Supprimer la couleur',
+  'brand.addColor': 'Ajouter une couleur',
+  'brand.typography': 'Typographie',
+  'brand.typographyPlaceholder': 'p. ex. Titres sans empattement géométriques en gras, texte humaniste léger',
+  'brand.tone': 'Ton',
+  'brand.tonePlaceholder': 'p. ex. Chaleureux, simple et encourageant ; sans jargon',
+  'brand.logo': 'Logo',
+  'brand.logoAlt': 'Logo de la marque',
+  'brand.removeLogo': 'Supprimer le logo',
+  'brand.uploadLogo': 'Importer le logo (idéalement un PNG transparent)',
+  'brand.cornerTitle': 'Coin où le logo est placé à l’export',
+  'brand.cornerTopLeft': 'En haut à gauche',
+  'brand.cornerTopRight': 'En haut à droite',
+  'brand.cornerBottomLeft': 'En bas à gauche',
+  'brand.cornerBottomRight': 'En bas à droite',
+  'brand.removeConfirm': 'Supprimer le kit de marque ? Les infographies existantes gardent leur logo.',
+  'brand.remove': 'Supprimer le kit',
+  'brand.save': 'Enregistrer le kit de marque',
+
+  'audience.title': 'Profils d’audience',
+  'audience.count': 'Audiences personnalisées : {count}',
+  'audience.new': 'Nouvelle audience',
+  'audience.deleteConfirm': 'Supprimer l’audience « {name} » ?',
+  'audience.namePlaceholder': 'Nom de l’audience, p. ex. Patients hospitalisés',
+  'audience.readingLevel': 'Niveau de lecture',
+  'audience.readingLevelPlaceholder': 'p. ex. 6e, CECRL B1',
+  'audience.maxWords': 'Mots max. par étiquette',
+  'audience.wordsPerLabel': '≤ {count} mots par étiquette',
+  'audience.vocabulary': 'Vocabulaire',
+  'audience.vocabularyPlaceholder': 'p. ex. Mots du quotidien ; définir les termes médicaux entre parenthèses ; pas d’abréviations',
+  'audience.visual': 'Conventions visuelles',
+  'audience.visualPlaceholder': 'p. ex. Étapes numérotées, grands pictogrammes, rouge réservé aux alertes',
+  'audience.save': 'Enregistrer l’audience',
+  'audience.empty': 'Aucune audience personnalisée',
+
+  'batch.title': 'Génération par lots',
+  'batch.summary': '{done}/{total} terminées · {model} · {size}',
+  'batch.hide': 'Masquer (la file continue)',
+  'batch.placeholder': 'Un sujet par ligne, ou des lignes CSV : topic,level,style,language,aspectRatio\nMettez entre guillemets les sujets contenant des virgules. Les tableaux JSON sont aussi acceptés.',
+  'batch.add': 'Ajouter à la file',
+  'batch.import': 'Importer CSV / JSON',
+  'batch.parallel': 'En parallèle',
+  'batch.error.missingTopic': 'Ligne {row} : sujet manquant',
+  'batch.error.unknownValue': 'Ligne {row} : {field} inconnu « {value} » (valeurs attendues : {expected})',
+  'batch.error.invalidJson': 'JSON non valide : {value}',
+  'batch.error.notArray': 'Le JSON doit être un tableau de sujets ou un objet avec un tableau « topics »',
+  'batch.status.queued': 'En attente',
+  'batch.status.researching': 'Recherche',
+  'batch.status.rendering': 'Rendu',
+  'batch.status.done': 'Terminé',
+  'batch.status.failed': 'Échec',
+  'batch.retry': 'Réessayer',
+  'batch.remove': 'Retirer',
+  'batch.empty': 'La file est vide',
+  'batch.retryFailed': 'Réessayer les échecs ({count})',
+  'batch.downloadAll': 'Tout télécharger ({count})',
+  'batch.running': 'En cours...',
+  'batch.start': 'Lancer ({count})',
+  'overlay.hint': 'Sélectionnez un élément de l’image pour le styliser. Faites-le glisser pour le déplacer ; utilisez les poignées pour redimensionner les zones de texte ou déplacer les extrémités des flèches.',
+
+  'history.title': 'Archives de la session',
+  'history.selected': '{count} sélectionnée(s)',
+  'history.pdfTitle': 'Télécharger un document PDF',
+  'history.pptxTitle': 'Télécharger une présentation PowerPoint',
+  'history.cancelSelection': 'Annuler la sélection',
+  'history.select': 'Sélectionner',
+  'history.selectTitle': 'Sélectionner des infographies à exporter en PDF ou en présentation',
+  'history.clear': 'Tout effacer',
+  'history.clearTitle': 'Supprimer toutes les infographies enregistrées',
+  'history.clearConfirm': 'Supprimer toutes les infographies enregistrées ? Cette action est irréversible.',
+  'history.openTranslation': 'Ouvrir la version {language}',
+
+  'export.sources': 'Sources',
+  'export.sourcesContinued': 'Sources (suite)',
+  'export.topic': 'Sujet : {topic}',
+
+  'usage.overBudgetConfirm': "Cela dépassera le budget de {limit} de la session : {spent} dépensés jusqu'ici et environ {estimate} de plus pour cette exécution. Continuer quand même ?",
+  'usage.title': 'Utilisation et coûts',
+  'usage.subtitle': 'Chaque appel au modèle, tarifé selon le tableau ci-dessous',
+  'usage.session': 'Cette session',
+  'usage.today': 'Aujourd’hui',
+  'usage.allTime': 'Depuis le début',
+  'usage.budget': 'Budget de la session',
+  'usage.noLimit': 'Aucune limite (USD)',
+  'usage.modeWarn': 'Prévenir avant de dépasser',
+  'usage.modeBlock': 'Bloquer les générations qui le dépasseraient',
+  'usage.spentOf': '{spent} sur {limit} dépensés pendant cette session',
+  'usage.byDay': 'Par jour',
+  'usage.byModel': 'Par modèle',
+  'usage.byOperation': 'Par opération',
+  'usage.day': 'Jour',
+  'usage.model': 'Modèle',
+  'usage.operation': 'Opération',
+  'usage.empty': 'Aucune utilisation enregistrée.',
+  'usage.calls': 'Appels',
+  'usage.inputTokens': 'Jetons d’entrée',
+  'usage.outputTokens': 'Jetons de sortie',
+  'usage.images': 'Images',
+  'usage.cost': 'Coût',
+  'usage.prices': 'Tarifs (USD)',
+  'usage.resetPrices': 'Rétablir les valeurs par défaut',
+  'usage.pricesHelp': 'Les nouveaux tarifs s’appliquent aux appels à venir ; les coûts enregistrés restent inchangés.',
+  'usage.priceInput': 'Entrée / 1M',
+  'usage.priceOutput': 'Sortie / 1M',
+  'usage.priceImage': 'Par image',
+  'usage.clear': 'Effacer l’utilisation',
+  'usage.clearConfirm': 'Supprimer toute l’utilisation enregistrée ? Les coûts déjà engagés ne sont pas concernés.',
+  'usage.save': 'Enregistrer les réglages',
+  'usage.op.research': 'Recherche',
+  'usage.op.image': 'Image',
+  'usage.op.edit': 'Modification',
+  'usage.op.translate': 'Traduction',
+  'usage.op.chat': 'Discussion',
+  'usage.op.analysis': 'Analyse',
+  'usage.op.transcription': 'Transcription',
+  'usage.op.speech': 'Synthèse vocale',
+
+  'chat.title': 'Chat InfoGenius',
+  'chat.greeting': "Bonjour ! Je suis InfoGenius. Comment puis-je vous aider dans vos recherches ou vos visuels aujourd'hui ?",
+  'chat.you': 'Vous',
+  'chat.exported': 'Exporté le {date}',
+  'chat.open': 'Ouvrir le chat',
+  'chat.minimize': 'Réduire le chat',
+  'chat.newConversation': 'Nouvelle conversation',
+  'chat.savedConversations': 'Conversations enregistrées',
+  'chat.exportTranscript': 'Exporter la transcription',
+  'chat.grounded': "Ancré dans l'infographie",
+  'chat.contextOff': 'Contexte désactivé',
+  'chat.contextSummary': '{facts} faits · {sources} sources',
+  'chat.stopContext': 'Ne plus utiliser cette infographie comme contexte',
+  'chat.useContext': 'Utiliser cette infographie comme contexte',
+  'chat.noConversations': 'Aucune conversation enregistrée',
+  'chat.messageCount': '{count} messages',
+  'chat.deleteConversation': 'Supprimer la conversation',
+  'chat.noResponse': "Je n'ai pas pu générer de réponse.",
+  'chat.error': "Désolé, une erreur s'est produite. Veuillez réessayer.",
+  'chat.askInfographic': 'Posez une question sur cette infographie...',
+  'chat.askAnything': "Demandez-moi ce que vous voulez...",
+  'chat.send': 'Envoyer'
+};
@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const hi: Messages = {
+  'common.on': 'चालू',
+  'common.off': 'बंद',
+  'common.builtIn': 'अंतर्निहित',
+  'common.custom': 'कस्टम',
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+  'common.edit': 'संपादित करें',
+  'common.duplicate': 'डुप्लिकेट करें',
+  'common.delete': 'हटाएँ',
+  'common.importJson': 'JSON आयात करें',
+  'common.exportJson': 'JSON निर्यात करें',
+
+  'intro.tagline': 'ज्ञान, दृश्य रूप में।',
+  'intro.groundingBadge': 'अब Google सर्च ग्राउंडिंग के साथ',
+  'intro.enter': 'सिस्टम शुरू करें',
+  'intro.skip': 'परिचय छोड़ें',
+
+  'header.tagline': 'दृश्य ज्ञान इंजन',
+  'header.mock': 'ऑफ़लाइन मॉक',
+  'header.mockTitle': 'AI_PROVIDER=mock: जवाब पहले से तय नमूने हैं',
+  'header.brandKit': 'ब्रांड किट',
+  'header.sources': 'शोध स्रोत सूचियाँ',
+  'header.batch': 'बैच जनरेशन',
+  'header.usage': 'उपयोग और लागत (इस सत्र में {spent})',
+  'header.theme': 'लाइट और डार्क मोड बदलें',
+  'header.uiLanguage': 'इंटरफ़ेस की भाषा',
+
+  'key.badge': 'सशुल्क ऐप',
+  'key.title': 'सशुल्क API कुंजी आवश्यक',
+  'key.body': 'उन्नत जनरेशन सुविधाओं के लिए सशुल्क Gemini API कुंजी आवश्यक है।',
+  'key.billing': 'आगे बढ़ने के लिए बिलिंग सक्षम Google Cloud प्रोजेक्ट चुनें।',
+  'key.select': 'सशुल्क API कुंजी चुनें',
+
+  'hero.badge': 'सर्च, मैप्स और Nano Banana Pro संश्लेषण एक साथ',
+  'hero.titleTop': 'वास्तविकता को',
+  'hero.titleBottom': 'समझें।',
+
+  'form.topicPlaceholder': 'आप क्या दृश्य रूप में देखना चाहते हैं?',
+  'form.questionPlaceholder': 'इस छवि के बारे में कोई विशेष प्रश्न...',
+  'form.contextPlaceholder': "अतिरिक्त संदर्भ (जैसे 'सुरक्षा खामियाँ खोजें', 'टेक्स्ट पहचानें')",
+  'form.record': 'बोलकर लिखवाएँ',
+  'form.stopRecording': 'रिकॉर्डिंग रोकें',
+  'form.upload': 'दृश्य विश्लेषण के लिए अपलोड करें',
+  'form.removeImage': 'छवि हटाएँ',
+  'form.preview': 'विश्लेषण के लिए चित्र',
+  'form.engine': 'इंजन',
+  'form.size': 'आकार',
+  'form.ratio': 'अनुपात',
+  'form.audience': 'दर्शक',
+  'form.manageAudiences': 'दर्शक प्रोफ़ाइल प्रबंधित करें',
+  'form.aesthetic': 'शैली',
+  'form.manageStyles': 'शैली प्रीसेट प्रबंधित करें',
+  'form.language': 'भाषा',
+  'form.languageTitle': 'शोध किए गए तथ्यों और इन्फ़ोग्राफ़िक लेबल की भाषा',
+  'form.variants': 'वेरिएंट',
+  'form.variantsSingle': 'एक',
+  'form.variantsCount': '{count} वेरिएंट',
+  'form.review': 'समीक्षा',
+  'form.reviewTitle': 'शोध के बाद रुकें ताकि रेंडर से पहले तथ्य और इमेज प्रॉम्प्ट बदले जा सकें',
+  'form.cache': 'कैश',
+  'form.cacheTitle': 'हाल के समान अनुरोधों के शोध और चित्र दोबारा उपयोग करें। हमेशा मॉडल को कॉल करने के लिए बंद करें; नए परिणाम फिर भी कैश को ताज़ा करते हैं',
+  'form.brand': 'ब्रांड',
+  'form.brandApply': 'इस जनरेशन पर ब्रांड किट लागू करें',
+  'form.brandSetUp': 'ब्रांड किट सेट करें',
+  'form.brandSetUpShort': 'सेट करें',
+  'form.analyze': 'विश्लेषण करें',
+  'form.initiate': 'शुरू करें',
+
+  'model.flash': 'Flash (तेज़)',
+  'model.pro': 'Pro (Nano Banana Pro)',
+  'model.imagen': 'Imagen 4 (रचनात्मक)',
+  'size.1K': '1K (मानक)',
+  'size.2K': '2K (हाई-रेज़)',
+  'size.4K': '4K (अल्ट्रा-रेज़)',
+  'ratio.16:9': '16:9 चौड़ा',
+  'ratio.1:1': '1:1 वर्गाकार',
+  'ratio.9:16': '9:16 मोबाइल',
+  'level.Elementary': 'प्राथमिक',
+  'level.High School': 'हाई स्कूल',
+  'level.College': 'कॉलेज',
+  'level.Expert': 'विशेषज्ञ',
+  'style.Default': 'मानक',
+  'style.Geometric Patterns': 'ज्यामितीय पैटर्न',
+  'style.Minimalist': 'न्यूनतम',
+  'style.Realistic': 'यथार्थवादी',
+  'style.Cartoon': 'ग्राफ़िक नॉवेल',
+  'style.Vintage': 'पुराना लिथोग्राफ़',
+  'style.Futuristic': 'साइबरपंक',
+  'style.3D Render': '3D आइसोमेट्रिक',
+  'style.Sketch': 'ब्लूप्रिंट',
+
+  'status.transcribing': 'ऑडियो को लिखा जा रहा है...',
+  'status.analyzing': 'छवि की सामग्री का विश्लेषण हो रहा है...',
+  'status.researching': 'सर्च और मैप्स से विषय पर शोध हो रहा है...',
+  'status.designing': 'इन्फ़ोग्राफ़िक डिज़ाइन हो रहा है ({size})...',
+  'status.designingVariants': '{count} वेरिएंट डिज़ाइन हो रहे हैं ({size})...',
+  'status.editingRegion': 'चिह्नित क्षेत्र संपादित हो रहा है: "{instruction}"...',
+  'status.modifying': 'बदलाव लागू हो रहा है: "{instruction}"...',
+  'status.translating': '{language} में अनुवाद हो रहा है ({total} में से {current})...',
+
+  'error.emptyTopic': 'कृपया कोई विषय लिखें या विश्लेषण के लिए छवि अपलोड करें।',
+  'error.storageFull': 'ब्राउज़र स्टोरेज भर गया है। रीलोड के बाद यह इन्फ़ोग्राफ़िक नहीं रहेगा।',
+  'error.transcription': 'ट्रांसक्रिप्शन विफल रहा। कृपया फिर से कोशिश करें।',
+  'error.microphone': 'माइक्रोफ़ोन की अनुमति नहीं मिली या वह उपलब्ध नहीं है।',
+  'error.accessDenied': 'पहुँच अस्वीकृत। Pro सुविधाओं के लिए सशुल्क Gemini API कुंजी चाहिए। कृपया अपनी कुंजी फिर से चुनें।',
+  'error.invalidPlan': 'शोध से अनुपयोगी योजना मिली ({issue})। कृपया फिर से कोशिश करें।',
+  'error.unavailable': 'सेवा अभी उपलब्ध नहीं है। कृपया फिर से कोशिश करें।',
+  'error.quota': 'अनुरोध सीमा या कोटा पूरा हो गया। एक मिनट रुककर फिर से कोशिश करें, या अपनी API कुंजी के प्रोजेक्ट का कोटा जाँचें।',
+  'error.safety': 'सुरक्षा फ़िल्टर ने अनुरोध रोक दिया। विषय या निर्देश को दूसरे शब्दों में लिखकर फिर से कोशिश करें।',
+  'error.badRequest': 'अनुरोध अमान्य मानकर अस्वीकार किया गया। कोई दूसरा मॉडल या आकार आज़माएँ, या प्रॉम्प्ट छोटा करें।',
+  'error.emptyOutput': 'मॉडल ने कोई परिणाम नहीं दिया। फिर से कोशिश करें या अनुरोध को दूसरे शब्दों में लिखें।',
+  'error.editFailed': 'बदलाव विफल रहा। कोई दूसरा निर्देश आज़माएँ।',
+  'error.translateFailed': 'अनुवाद विफल रहा। कृपया फिर से कोशिश करें।',
+  'error.deckExport': '{format} एक्सपोर्ट नहीं बन सका। कृपया फिर से कोशिश करें।',
+  'error.imageDownload': 'चित्र को डाउनलोड के लिए तैयार नहीं किया जा सका। कृपया फिर से प्रयास करें।',
+  'error.packageExport': 'निर्यात पैकेज नहीं बनाया जा सका। कृपया फिर से प्रयास करें।',
+  'error.batchArchive': 'पूर्ण इन्फोग्राफ़िक का संग्रह नहीं बनाया जा सका। कृपया फिर से प्रयास करें।',
+  'error.saveStylePresets': 'शैली प्रीसेट सहेजे नहीं जा सके। रीलोड के बाद वे खो जाएँगे।',
+  'error.saveAudienceProfile': 'दर्शक प्रोफ़ाइल सहेजी नहीं जा सकी। रीलोड के बाद वह खो जाएगी।',
+  'error.saveBrandKit': 'ब्रांड किट सहेजी नहीं जा सकी। रीलोड के बाद वह खो जाएगी।',
+  'error.saveSourcePolicy': 'स्रोत सूचियाँ सहेजी नहीं जा सकीं। रीलोड करने पर वे खो जाएँगी।',
+  'error.saveUsageSettings': 'उपयोग सेटिंग्स सहेजी नहीं जा सकीं। रीलोड करने पर वे खो जाएँगी।',
+  'error.clearHistory': 'सहेजा गया इतिहास साफ़ नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'error.clearUsage': 'दर्ज उपयोग साफ़ नहीं किया जा सका। कृपया फिर से प्रयास करें।',
+  'error.overBudget': 'रोका गया: इससे सत्र का {limit} बजट पार हो जाएगा ({spent} खर्च, लगभग {estimate} और)। जारी रखने के लिए उपयोग और लागत में सीमा बढ़ाएँ।',
+
+  'loading.linkActive': 'न्यूरल लिंक सक्रिय',
+  'loading.complete': '{percent}% पूर्ण',
+  'loading.synthesizing': 'निष्कर्ष तैयार हो रहे हैं...',
+  'loading.phaseResearch': 'शोध',
+  'loading.phaseSynthesis': 'संश्लेषण',
+  'loading.phaseRender': 'रेंडर',
+  'loading.sources': '{count} स्रोत',
+  'loading.cancel': 'रद्द करें',
+
+  'progress.location': 'मैप्स ग्राउंडिंग के लिए आपकी लोकेशन ली जा रही है...',
+  'progress.researchSent': 'शोध अनुरोध भेजा गया...',
+  'progress.groundingReceived': '{count} ग्राउंडिंग स्रोत प्राप्त हुए',
+  'progress.factsParsed': '{count} तथ्य पार्स किए गए',
+  'progress.imageSent': 'इमेज अनुरोध भेजा गया...',
+  'progress.imageDecoded': 'इमेज डिकोड हुई',
+
+  'analysis.sourceImage': 'मूल छवि',
+  'analysis.title': 'दृश्य विश्लेषण',
+  'analysis.subtitle': 'न्यूरल संश्लेषण रिपोर्ट',
+  'analysis.listen': 'विश्लेषण सुनें',
+  'analysis.generatedAt': '{time} पर बनाया गया',
+  'analysis.visualise': 'इसे दृश्य बनाएँ',
+  'analysis.visualisePrompt': 'दृश्य निष्कर्ष समझाएँ: {excerpt}...',
+  'speech.summary': 'विषय {topic} के लिए इन्फ़ोग्राफ़िक बन गया है। विश्लेषण का सारांश उपलब्ध है।',
+
+  'infographic.readSummary': 'सारांश सुनें',
+  'infographic.fullscreen': 'पूर्ण स्क्रीन दृश्य',
+  'infographic.logoOnExport': 'निर्यात पर लोगो: {state}',
+  'infographic.editOverlay': 'टेक्स्ट ओवरले संपादित करें',
+  'infographic.download': 'चित्र डाउनलोड करें',
+  'infographic.exportPackage': 'पैकेज निर्यात करें (चित्र, मेटाडेटा, तथ्य, स्रोत)',
+  'infographic.editPlaceholder': "दृश्य को निखारें (जैसे, 'पृष्ठभूमि में तारे बनाएँ')...",
+  'infographic.enhanceEmpty': 'सुधार के लिए निर्देश लिखें',
+  'infographic.enhanceTitle': 'चित्र सुधारें',
+  'infographic.enhance': 'सुधारें',
+  'infographic.promptCaption': 'प्रॉम्प्ट: {prompt}',
+  'infographic.editCaption': 'संपादन: {instruction}',
+  'infographic.translationCaption': 'अनुवाद: {language}',
+  'infographic.zoomOut': 'ज़ूम आउट',
+  'infographic.resetZoom': 'ज़ूम रीसेट करें',
+  'infographic.zoomIn': 'ज़ूम इन',
+  'infographic.editRegion': 'एक क्षेत्र संपादित करें',
+  'infographic.closeFullscreen': 'पूर्ण स्क्रीन बंद करें',
+  'infographic.fromCacheBoth': 'कैश से: शोध और चित्र',
+  'infographic.fromCacheResearch': 'कैश से: शोध',
+  'infographic.fromCacheImage': 'कैश से: चित्र',
+  'infographic.translate': 'अनुवाद करें',
+  'infographic.translateInto': 'इनमें अनुवाद करें',
+  'infographic.translateIntoCount': '{count} भाषाओं में अनुवाद करें',
+
+  'plan.title': 'शोध योजना की समीक्षा करें',
+  'plan.discardTitle': 'योजना रद्द करें',
+  'plan.titleLabel': 'शीर्षक',
+  'plan.facts': 'तथ्य ({count})',
+  'plan.addFact': 'तथ्य जोड़ें',
+  'plan.factPlaceholder': 'एक तथ्य लिखें...',
+  'plan.confidence': 'शोध मॉडल द्वारा बताया गया विश्वास स्तर',
+  'plan.moveUp': 'ऊपर ले जाएँ',
+  'plan.moveDown': 'नीचे ले जाएँ',
+  'plan.removeFact': 'तथ्य हटाएँ',
+  'plan.imagePrompt': 'चित्र प्रॉम्प्ट',
+  'plan.sources': 'स्रोत ({count})',
+  'plan.removeSource': 'स्रोत हटाएँ',
+  'plan.discard': 'रद्द करें',
+  'plan.approve': 'स्वीकृत करें और बनाएँ ({engine})',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'संस्करण वृक्ष',
+  'versions.current': 'वर्तमान संस्करण: संपादन यहीं से शाखा बनाते हैं',
+  'versions.show': 'यह संस्करण दिखाएँ और इससे संपादित करें',
+  'versions.original': 'मूल',
+  'versions.editing': 'संपादन जारी',
+  'versions.compare': 'मूल संस्करण से तुलना करें',
+  'versions.editLabel': 'संपादन:',
+  'versions.before': 'पहले',
+  'versions.after': 'बाद में',
+  'versions.close': 'तुलना बंद करें',
+
+  'sources.title': 'शोध स्रोत',
+  'sources.maps': 'Google मैप्स',
+  'sources.external': 'बाहरी स्रोत',
+  'sources.tier.academic': 'शैक्षणिक',
+  'sources.tier.government': 'सरकारी',
+  'sources.tier.encyclopedic': 'विश्वकोश',
+  'sources.tier.news': 'समाचार',
+  'sources.tier.other': 'अन्य',
+  'sources.type.web': 'वेब',
+  'sources.type.maps': 'मानचित्र',
+  'sources.all': 'सभी ({count})',
+  'sources.filterCount': '{label} ({count})',
+  'sources.sortLabel': 'स्रोत क्रमबद्ध करें',
+  'sources.sortRelevance': 'क्रम: प्रासंगिकता',
+  'sources.sortCredibility': 'क्रम: विश्वसनीयता',
+
+  'policy.title': 'शोध स्रोत',
+  'policy.subtitle': 'वे डोमेन जिन पर शोध निर्भर कर सकता है और नहीं कर सकता',
+  'policy.help': 'हर पंक्ति में एक डोमेन; सबडोमेन शामिल हैं। सूचियाँ शोध मॉडल को भेजी जाती हैं और उनसे बाहर के वेब स्रोत परिणामों से हटा दिए जाते हैं। मानचित्र के स्थान हमेशा रखे जाते हैं।',
+  'policy.allow': 'अनुमत डोमेन ({count})',
+  'policy.allowPlaceholder': 'सभी डोमेन की अनुमति के लिए खाली छोड़ें\nजैसे nature.com\nwho.int',
+  'policy.deny': 'अवरुद्ध डोमेन ({count})',
+  'policy.denyPlaceholder': 'जैसे example-content-farm.com',
+  'policy.clear': 'सूचियाँ साफ़ करें',
+  'policy.save': 'सूचियाँ सहेजें',
+
+  'variants.title': 'एक विकल्प चुनें',
+  'variants.discardAll': 'सभी विकल्प रद्द करें',
+  'variants.label': 'विकल्प {number}',
+  'variants.main': 'मुख्य',
+  'variants.keepTitle': 'इस विकल्प को भी इतिहास में रखें',
+  'variants.keep': 'रखें',
+  'variants.keeping': 'रखा जाएगा',
+  'variants.useSelected': 'चुना हुआ उपयोग करें',
+  'variants.useSelectedKeep': 'चुना हुआ उपयोग करें और {count} रखें',
+
+  'mask.brush': 'ब्रश',
+  'mask.rect': 'आयत',
+  'mask.eraser': 'इरेज़र',
+  'mask.brushSize': 'ब्रश का आकार',
+  'mask.clear': 'मास्क साफ़ करें',
+  'mask.describe': 'चिह्नित क्षेत्र के लिए बदलाव बताएँ...',
+  'mask.paintFirst': 'बदलने वाले क्षेत्र पर पेंट करें या आयत बनाएँ',
+  'mask.apply': 'क्षेत्र संपादित करें',
+
+  'overlay.text': 'टेक्स्ट',
+  'overlay.callout': 'कॉलआउट',
+  'overlay.arrow': 'तीर',
+  'overlay.defaultText': 'लेबल',
+  'overlay.defaultCallout': 'कॉलआउट',
+  'overlay.fromFactsTitle': 'हर शोधित तथ्य के लिए एक टेक्स्ट बॉक्स जोड़ें',
+  'overlay.fromFacts': 'तथ्यों से ({count})',
+  'overlay.save': 'ओवरले सहेजें',
+  'overlay.font': 'फ़ॉन्ट',
+  'overlay.weight': 'मोटाई',
+  'overlay.size': 'आकार',
+  'overlay.color': 'रंग',
+  'overlay.fill': 'भराव',
+  'overlay.align': 'संरेखण',
+  'overlay.alignLeft': 'बाएँ संरेखित करें',
+  'overlay.alignCenter': 'केंद्र में संरेखित करें',
+  'overlay.alignRight': 'दाएँ संरेखित करें',
+  'overlay.delete': 'तत्व हटाएँ',
+  'overlay.resize': 'आकार बदलने के लिए खींचें',
+
+  'styles.title': 'शैली प्रीसेट',
+  'styles.count': 'कस्टम शैलियाँ: {count}',
+  'styles.new': 'नई शैली',
+  'styles.imported': 'आयात की गई शैलियाँ: {count}।',
+  'styles.deleteConfirm': 'शैली "{name}" हटाएँ?',
+  'styles.namePlaceholder': 'शैली का नाम, जैसे हमारी हाउस शैली',
+  'styles.instructionPlaceholder': 'शैली का वर्णन करें: रंग, चित्रण तकनीक, टाइपोग्राफी, मनोभाव...',
+  'styles.referenceAlt': 'शैली संदर्भ',
+  'styles.removeReference': 'संदर्भ चित्र हटाएँ',
+  'styles.addReference': 'संदर्भ चित्र (वैकल्पिक)',
+  'styles.save': 'शैली सहेजें',
+  'styles.empty': 'अभी कोई कस्टम शैली नहीं',
+
+  'brand.title': 'ब्रांड किट',
+  'brand.subtitle': 'शोध, चित्र प्रॉम्प्ट और निर्यात पर लागू',
+  'brand.name': 'ब्रांड का नाम',
+  'brand.namePlaceholder': 'जैसे Northwind Learning',
+  'brand.palette': 'रंग पैलेट ({count}/{max})',
+  'brand.removeColor': 'रंग हटाएँ',
+  'brand.addColor': 'रंग जोड़ें',
+  'brand.typography': 'टाइपोग्राफी',
+  'brand.typographyPlaceholder': 'जैसे मोटे ज्यामितीय सैन्स-सेरिफ़ शीर्षक, हल्का मानवतावादी मुख्य पाठ',
+  'brand.tone': 'लहजा',
+  'brand.tonePlaceholder': 'जैसे गर्मजोशी भरा, सीधा और उत्साहवर्धक; कोई तकनीकी शब्दजाल नहीं',
+  'brand.logo': 'लोगो',
+  'brand.logoAlt': 'ब्रांड लोगो',
+  'brand.removeLogo': 'लोगो हटाएँ',
+  'brand.uploadLogo': 'लोगो अपलोड करें (पारदर्शी PNG सबसे अच्छा)',
+  'brand.cornerTitle': 'निर्यात पर लोगो किस कोने में रखा जाए',
+  'brand.cornerTopLeft': 'ऊपर बाएँ',
+  'brand.cornerTopRight': 'ऊपर दाएँ',
+  'brand.cornerBottomLeft': 'नीचे बाएँ',
+  'brand.cornerBottomRight': 'नीचे दाएँ',
+  'brand.removeConfirm': 'ब्रांड किट हटाएँ? मौजूदा इन्फोग्राफ़िक अपना लोगो रखेंगे।',
+  'brand.remove': 'किट हटाएँ',
+  'brand.save': 'ब्रांड किट सहेजें',
+
+  'audience.title': 'दर्शक प्रोफ़ाइल',
+  'audience.count': 'कस्टम दर्शक: {count}',
+  'audience.new': 'नया दर्शक वर्ग',
+  'audience.deleteConfirm': 'दर्शक वर्ग "{name}" हटाएँ?',
+  'audience.namePlaceholder': 'दर्शक वर्ग का नाम, जैसे अस्पताल के मरीज़',
+  'audience.readingLevel': 'पठन स्तर',
+  'audience.readingLevelPlaceholder': 'जैसे कक्षा 6, CEFR B1',
+  'audience.maxWords': 'प्रति लेबल अधिकतम शब्द',
+  'audience.wordsPerLabel': 'प्रति लेबल ≤ {count} शब्द',
+  'audience.vocabulary': 'शब्दावली',
+  'audience.vocabularyPlaceholder': 'जैसे रोज़मर्रा के शब्द; हर चिकित्सा शब्द को कोष्ठक में समझाएँ; संक्षिप्ताक्षर न लिखें',
+  'audience.visual': 'दृश्य परंपराएँ',
+  'audience.visualPlaceholder': 'जैसे क्रमांकित चरण, बड़े चित्र-चिह्न, लाल केवल चेतावनी के लिए',
+  'audience.save': 'दर्शक वर्ग सहेजें',
+  'audience.empty': 'अभी कोई कस्टम दर्शक वर्ग नहीं',
+
+  'batch.title': 'बैच निर्माण',
+  'batch.summary': '{done}/{total} पूर्ण · {model} · {size}',
+  'batch.hide': 'छिपाएँ (कतार चलती रहेगी)',
+  'batch.placeholder': 'हर पंक्ति में एक विषय, या CSV पंक्तियाँ: topic,level,style,language,aspectRatio\nअल्पविराम वाले विषयों को उद्धरण चिह्नों में रखें। JSON सरणियाँ भी स्वीकार हैं।',
+  'batch.add': 'कतार में जोड़ें',
+  'batch.import': 'CSV / JSON आयात करें',
+  'batch.parallel': 'समानांतर',
+  'batch.error.missingTopic': 'पंक्ति {row}: विषय नहीं है',
+  'batch.error.unknownValue': 'पंक्ति {row}: अज्ञात {field} "{value}" ({expected} में से एक अपेक्षित)',
+  'batch.error.invalidJson': 'अमान्य JSON: {value}',
+  'batch.error.notArray': 'JSON विषयों की सूची या "topics" सूची वाला ऑब्जेक्ट होना चाहिए',
+  'batch.status.queued': 'कतार में',
+  'batch.status.researching': 'शोध जारी',
+  'batch.status.rendering': 'बन रहा है',
+  'batch.status.done': 'पूर्ण',
+  'batch.status.failed': 'विफल',
+  'batch.retry': 'फिर से प्रयास करें',
+  'batch.remove': 'हटाएँ',
+  'batch.empty': 'कतार खाली है',
+  'batch.retryFailed': 'विफल दोबारा चलाएँ ({count})',
+  'batch.downloadAll': 'सभी डाउनलोड करें ({count})',
+  'batch.running': 'चल रहा है...',
+  'batch.start': 'शुरू करें ({count})',
+  'overlay.hint': 'स्टाइल करने के लिए चित्र पर कोई तत्व चुनें। खिसकाने के लिए खींचें; टेक्स्ट बॉक्स का आकार बदलने या तीर के सिरे हिलाने के लिए हैंडल का उपयोग करें।',
+
+  'history.title': 'सत्र संग्रह',
+  'history.selected': '{count} चयनित',
+  'history.pdfTitle': 'PDF हैंडआउट डाउनलोड करें',
+  'history.pptxTitle': 'PowerPoint डेक डाउनलोड करें',
+  'history.cancelSelection': 'चयन रद्द करें',
+  'history.select': 'चुनें',
+  'history.selectTitle': 'PDF हैंडआउट या स्लाइड डेक के रूप में एक्सपोर्ट करने के लिए इन्फ़ोग्राफ़िक चुनें',
+  'history.clear': 'सब साफ़ करें',
+  'history.clearTitle': 'सभी सहेजे गए इन्फ़ोग्राफ़िक हटाएँ',
+  'history.clearConfirm': 'सभी सहेजे गए इन्फ़ोग्राफ़िक हटाएँ? इसे वापस नहीं किया जा सकता।',
+  'history.openTranslation': '{language} संस्करण खोलें',
+
+  'export.sources': 'स्रोत',
+  'export.sourcesContinued': 'स्रोत (जारी)',
+  'export.topic': 'विषय: {topic}',
+
+  'usage.overBudgetConfirm': 'इससे सत्र का {limit} बजट पार हो जाएगा: अब तक {spent} खर्च और इस रन के लिए लगभग {estimate} और। फिर भी जारी रखें?',
+  'usage.title': 'उपयोग और लागत',
+  'usage.subtitle': 'हर मॉडल कॉल, नीचे दी गई तालिका के अनुसार मूल्यांकित',
+  'usage.session': 'यह सत्र',
+  'usage.today': 'आज',
+  'usage.allTime': 'अब तक',
+  'usage.budget': 'सत्र बजट',
+  'usage.noLimit': 'कोई सीमा नहीं (USD)',
+  'usage.modeWarn': 'सीमा पार होने से पहले चेतावनी दें',
+  'usage.modeBlock': 'सीमा पार करने वाले निर्माण रोकें',
+  'usage.spentOf': 'इस सत्र में {limit} में से {spent} खर्च',
+  'usage.byDay': 'दिन के अनुसार',
+  'usage.byModel': 'मॉडल के अनुसार',
+  'usage.byOperation': 'कार्य के अनुसार',
+  'usage.day': 'दिन',
+  'usage.model': 'मॉडल',
+  'usage.operation': 'कार्य',
+  'usage.empty': 'अभी तक कोई उपयोग दर्ज नहीं।',
+  'usage.calls': 'कॉल',
+  'usage.inputTokens': 'इनपुट टोकन',
+  'usage.outputTokens': 'आउटपुट टोकन',
+  'usage.images': 'चित्र',
+  'usage.cost': 'लागत',
+  'usage.prices': 'मूल्य (USD)',
+  'usage.resetPrices': 'डिफ़ॉल्ट पर लौटाएँ',
+  'usage.pricesHelp': 'नए मूल्य अब से होने वाली कॉल पर लागू होंगे; दर्ज लागत जैसी थी वैसी रहेगी।',
+  'usage.priceInput': 'इनपुट / 10 लाख',
+  'usage.priceOutput': 'आउटपुट / 10 लाख',
+  'usage.priceImage': 'प्रति चित्र',
+  'usage.clear': 'उपयोग साफ़ करें',
+  'usage.clearConfirm': 'सारा दर्ज उपयोग हटाएँ? पहले से हुई लागत पर इसका असर नहीं होगा।',
+  'usage.save': 'सेटिंग सहेजें',
+  'usage.op.research': 'शोध',
+  'usage.op.image': 'चित्र',
+  'usage.op.edit': 'संपादन',
+  'usage.op.translate': 'अनुवाद',
+  'usage.op.chat': 'चैट',
+  'usage.op.analysis': 'विश्लेषण',
+  'usage.op.transcription': 'लिप्यंतरण',
+  'usage.op.speech': 'वाणी',
+
+  'chat.title': 'InfoGenius चैट',
+  'chat.greeting': 'नमस्ते! मैं InfoGenius हूँ। आज मैं आपके शोध या विज़ुअल में कैसे मदद कर सकता हूँ?',
+  'chat.you': 'आप',
+  'chat.exported': '{date} को एक्सपोर्ट किया गया',
+  'chat.open': 'चैट खोलें',
+  'chat.minimize': 'चैट छोटा करें',
+  'chat.newConversation': 'नई बातचीत',
+  'chat.savedConversations': 'सहेजी गई बातचीत',
+  'chat.exportTranscript': 'बातचीत एक्सपोर्ट करें',
+  'chat.grounded': 'इन्फ़ोग्राफ़िक पर आधारित',
+  'chat.contextOff': 'संदर्भ बंद',
+  'chat.contextSummary': '{facts} तथ्य · {sources} स्रोत',
+  'chat.stopContext': 'इस इन्फ़ोग्राफ़िक को संदर्भ के रूप में इस्तेमाल न करें',
+  'chat.useContext': 'इस इन्फ़ोग्राफ़िक को संदर्भ के रूप में इस्तेमाल करें',
+  'chat.noConversations': 'कोई सहेजी गई बातचीत नहीं',
+  'chat.messageCount': '{count} संदेश',
+  'chat.deleteConversation': 'बातचीत हटाएँ',
+  'chat.noResponse': 'मैं जवाब नहीं बना सका।',
+  'chat.error': 'क्षमा करें, एक त्रुटि हुई। कृपया फिर से कोशिश करें।',
+  'chat.askInfographic': 'इस इन्फ़ोग्राफ़िक के बारे में पूछें...',
+  'chat.askAnything': 'मुझसे कुछ भी पूछें...',
+  'chat.send': 'भेजें'
+};
@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const ja: Messages = {
+  'common.on': 'オン',
+  'common.off': 'オフ',
+  'common.builtIn': '標準',
+  'common.custom': 'カスタム',
+  'common.cancel': 'キャンセル',
+  'common.close': '閉じる',
+  'common.edit': '編集',
+  'common.duplicate': '複製',
+  'common.delete': '削除',
+  'common.importJson': 'JSON を読み込む',
+  'common.exportJson': 'JSON を書き出す',
+
+  'intro.tagline': '知識を、見える形に。',
+  'intro.groundingBadge': 'Google 検索による裏付けに対応',
+  'intro.enter': 'システムを起動',
+  'intro.skip': 'イントロをスキップ',
+
+  'header.tagline': 'ビジュアル知識エンジン',
+  'header.mock': 'オフライン模擬',
+  'header.mockTitle': 'AI_PROVIDER=mock：応答は定型のプレースホルダーです',
+  'header.brandKit': 'ブランドキット',
+  'header.sources': '調査ソースのリスト',
+  'header.batch': '一括生成',
+  'header.usage': '使用量とコスト（このセッション {spent}）',
+  'header.theme': 'ライト／ダークモードを切り替え',
+  'header.uiLanguage': '表示言語',
+
+  'key.badge': '有料アプリ',
+  'key.title': '有料の API キーが必要です',
+  'key.body': '高度な生成機能には有料の Gemini API キーが必要です。',
+  'key.billing': '続行するには、課金が有効な Google Cloud プロジェクトを選択してください。',
+  'key.select': '有料 API キーを選択',
+
+  'hero.badge': '検索・マップ・Nano Banana Pro による統合合成',
+  'hero.titleTop': '世界を',
+  'hero.titleBottom': '読み解く。',
+
+  'form.topicPlaceholder': '何を可視化しますか？',
+  'form.questionPlaceholder': 'この画像についての具体的な質問...',
+  'form.contextPlaceholder': '補足情報（例：「セキュリティ上の欠陥を探す」「文字を読み取る」）',
+  'form.record': '話して文字起こし',
+  'form.stopRecording': '録音を停止',
+  'form.upload': '画像分析用にアップロード',
+  'form.removeImage': '画像を削除',
+  'form.preview': '分析する画像',
+  'form.engine': 'エンジン',
+  'form.size': 'サイズ',
+  'form.ratio': '比率',
+  'form.audience': '対象',
+  'form.manageAudiences': '対象プロファイルを管理',
+  'form.aesthetic': 'スタイル',
+  'form.manageStyles': 'スタイルプリセットを管理',
+  'form.language': '言語',
+  'form.languageTitle': '調査結果とインフォグラフィックのラベルに使う言語',
+  'form.variants': 'バリエーション',
+  'form.variantsSingle': '1 枚',
+  'form.variantsCount': '{count} 枚',
+  'form.review': 'レビュー',
+  'form.reviewTitle': '調査後に一時停止し、描画前に事実と画像プロンプトを編集します',
+  'form.cache': 'キャッシュ',
+  'form.cacheTitle': '最近の同一リクエストの調査結果と画像を再利用します。オフにすると常にモデルを呼び出します。新しい結果でキャッシュは更新されます',
+  'form.brand': 'ブランド',
+  'form.brandApply': 'この生成にブランドキットを適用',
+  'form.brandSetUp': 'ブランドキットを設定',
+  'form.brandSetUpShort': '設定',
+  'form.analyze': '分析',
+  'form.initiate': '開始',
+
+  'model.flash': 'Flash（高速）',
+  'model.pro': 'Pro（Nano Banana Pro）',
+  'model.imagen': 'Imagen 4（クリエイティブ）',
+  'size.1K': '1K（標準）',
+  'size.2K': '2K（高解像度）',
+  'size.4K': '4K（超高解像度）',
+  'ratio.16:9': '16:9 ワイド',
+  'ratio.1:1': '1:1 正方形',
+  'ratio.9:16': '9:16 モバイル',
+  'level.Elementary': '小学生',
+  'level.High School': '高校生',
+  'level.College': '大学生',
+  'level.Expert': '専門家',
+  'style.Default': '標準',
+  'style.Geometric Patterns': '幾何学模様',
+  'style.Minimalist': 'ミニマル',
+  'style.Realistic': 'リアル',
+  'style.Cartoon': 'グラフィックノベル',
+  'style.Vintage': 'ヴィンテージ石版画',
+  'style.Futuristic': 'サイバーパンク',
+  'style.3D Render': '3D アイソメトリック',
+  'style.Sketch': '設計図',
+
+  'status.transcribing': '音声を文字起こししています...',
+  'status.analyzing': '画像の内容を分析しています...',
+  'status.researching': '検索とマップでトピックを調査しています...',
+  'status.designing': 'インフォグラフィックをデザインしています（{size}）...',
+  'status.designingVariants': '{count} 枚のバリエーションをデザインしています（{size}）...',
+  'status.editingRegion': 'マークした領域を編集しています：「{instruction}」...',
+  'status.modifying': '変更を適用しています：「{instruction}」...',
+  'status.translating': '{language}に翻訳しています（{current}/{total}）...',
+
+  'error.emptyTopic': 'トピックを入力するか、分析する画像をアップロードしてください。',
+  'error.storageFull': 'ブラウザのストレージがいっぱいです。このインフォグラフィックは再読み込み後に保持されません。',
+  'error.transcription': '文字起こしに失敗しました。もう一度お試しください。',
+  'error.microphone': 'マイクへのアクセスが拒否されたか、利用できません。',
+  'error.accessDenied': 'アクセスが拒否されました。Pro 機能には有料の Gemini API キーが必要です。キーを選択し直してください。',
+  'error.invalidPlan': '調査結果が使用できない内容でした（{issue}）。もう一度お試しください。',
+  'error.unavailable': 'サービスは一時的に利用できません。もう一度お試しください。',
+  'error.quota': 'リクエスト数の上限または割り当てに達しました。1 分ほど待ってから再試行するか、API キーのプロジェクトの割り当てを確認してください。',
+  'error.safety': '安全フィルターによってリクエストがブロックされました。トピックや指示を言い換えてもう一度お試しください。',
+  'error.badRequest': 'リクエストが無効として拒否されました。別のモデルやサイズを試すか、プロンプトを短くしてください。',
+  'error.emptyOutput': 'モデルから結果が返されませんでした。もう一度試すか、リクエストを言い換えてください。',
+  'error.editFailed': '変更に失敗しました。別の指示をお試しください。',
+  'error.translateFailed': '翻訳に失敗しました。もう一度お試しください。',
+  'error.deckExport': '{format} のエクスポートを作成できませんでした。もう一度お試しください。',
+  'error.imageDownload': '画像をダウンロード用に準備できませんでした。もう一度お試しください。',
+  'error.packageExport': 'エクスポートパッケージを作成できませんでした。もう一度お試しください。',
+  'error.batchArchive': '完成したインフォグラフィックのアーカイブを作成できませんでした。もう一度お試しください。',
+  'error.saveStylePresets': 'スタイルプリセットを保存できませんでした。再読み込みすると失われます。',
+  'error.saveAudienceProfile': '対象プロファイルを保存できませんでした。再読み込みすると失われます。',
+  'error.saveBrandKit': 'ブランドキットを保存できませんでした。再読み込みすると失われます。',
+  'error.saveSourcePolicy': 'ソースのリストを保存できませんでした。再読み込みすると失われます。',
+  'error.saveUsageSettings': '使用量の設定を保存できませんでした。再読み込みすると失われます。',
+  'error.clearHistory': '保存された履歴を消去できませんでした。もう一度お試しください。',
+  'error.clearUsage': '記録された使用量を消去できませんでした。もう一度お試しください。',
+  'error.overBudget': 'ブロックされました：セッション予算 {limit} を超えます（使用済み {spent}、さらに約 {estimate}）。続けるには「使用量とコスト」で上限を引き上げてください。',
+
+  'loading.linkActive': 'ニューラルリンク稼働中',
+  'loading.complete': '{percent}% 完了',
+  'loading.synthesizing': '知見をまとめています...',
+  'loading.phaseResearch': '調査',
+  'loading.phaseSynthesis': '合成',
+  'loading.phaseRender': '描画',
+  'loading.sources': '{count} 件のソース',
+  'loading.cancel': 'キャンセル',
+
+  'progress.location': 'マップのグラウンディング用に位置情報を取得中...',
+  'progress.researchSent': 'リサーチリクエストを送信しました...',
+  'progress.groundingReceived': 'グラウンディングソースを {count} 件受信',
+  'progress.factsParsed': '事実を {count} 件解析',
+  'progress.imageSent': '画像リクエストを送信しました...',
+  'progress.imageDecoded': '画像をデコードしました',
+
+  'analysis.sourceImage': '元の画像',
+  'analysis.title': 'ビジョン分析',
+  'analysis.subtitle': 'ニューラル合成レポート',
+  'analysis.listen': '分析を聞く',
+  'analysis.generatedAt': '{time} に生成',
+  'analysis.visualise': 'これを可視化',
+  'analysis.visualisePrompt': '画像から分かったことを説明：{excerpt}...',
+  'speech.summary': 'トピック「{topic}」のインフォグラフィックを生成しました。分析の要約を確認できます。',
+
+  'infographic.readSummary': '要約を読み上げ',
+  'infographic.fullscreen': '全画面表示',
+  'infographic.logoOnExport': '書き出し時のロゴ：{state}',
+  'infographic.editOverlay': 'テキストオーバーレイを編集',
+  'infographic.download': '画像をダウンロード',
+  'infographic.exportPackage': 'パッケージを書き出し（画像、メタデータ、事実、出典）',
+  'infographic.editPlaceholder': 'ビジュアルを調整（例：「背景を星空にする」）...',
+  'infographic.enhanceEmpty': '改善の指示を入力してください',
+  'infographic.enhanceTitle': '画像を改善',
+  'infographic.enhance': '改善',
+  'infographic.promptCaption': 'プロンプト：{prompt}',
+  'infographic.editCaption': '編集：{instruction}',
+  'infographic.translationCaption': '翻訳：{language}',
+  'infographic.zoomOut': '縮小',
+  'infographic.resetZoom': 'ズームをリセット',
+  'infographic.zoomIn': '拡大',
+  'infographic.editRegion': '領域を編集',
+  'infographic.closeFullscreen': '全画面を閉じる',
+  'infographic.fromCacheBoth': 'キャッシュから提供：調査と画像',
+  'infographic.fromCacheResearch': 'キャッシュから提供：調査',
+  'infographic.fromCacheImage': 'キャッシュから提供：画像',
+  'infographic.translate': '翻訳',
+  'infographic.translateInto': '翻訳先',
+  'infographic.translateIntoCount': '{count} 言語に翻訳',
+
+  'plan.title': '調査プランを確認',
+  'plan.discardTitle': 'プランを破棄',
+  'plan.titleLabel': 'タイトル',
+  'plan.facts': '事実（{count}）',
+  'plan.addFact': '事実を追加',
+  'plan.factPlaceholder': '事実を入力...',
+  'plan.confidence': '調査モデルが報告した信頼度',
+  'plan.moveUp': '上へ移動',
+  'plan.moveDown': '下へ移動',
+  'plan.removeFact': '事実を削除',
+  'plan.imagePrompt': '画像プロンプト',
+  'plan.sources': '出典（{count}）',
+  'plan.removeSource': '出典を削除',
+  'plan.discard': '破棄',
+  'plan.approve': '承認して生成（{engine}）',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'バージョンツリー',
+  'versions.current': '現在のバージョン：編集はここから分岐します',
+  'versions.show': 'このバージョンを表示して編集',
+  'versions.original': 'オリジナル',
+  'versions.editing': '編集中',
+  'versions.compare': '親バージョンと比較',
+  'versions.editLabel': '編集：',
+  'versions.before': '変更前',
+  'versions.after': '変更後',
+  'versions.close': '比較を閉じる',
+
+  'sources.title': '調査の出典',
+  'sources.maps': 'Google マップ',
+  'sources.external': '外部の出典',
+  'sources.tier.academic': '学術',
+  'sources.tier.government': '政府',
+  'sources.tier.encyclopedic': '百科事典',
+  'sources.tier.news': 'ニュース',
+  'sources.tier.other': 'その他',
+  'sources.type.web': 'ウェブ',
+  'sources.type.maps': 'マップ',
+  'sources.all': 'すべて（{count}）',
+  'sources.filterCount': '{label}（{count}）',
+  'sources.sortLabel': '出典の並べ替え',
+  'sources.sortRelevance': '並び順：関連度',
+  'sources.sortCredibility': '並び順：信頼性',
+
+  'policy.title': '調査の出典',
+  'policy.subtitle': '調査で参照してよいドメインと避けるドメイン',
+  'policy.help': '1 行に 1 ドメイン。サブドメインも含まれます。リストは調査モデルに渡され、リスト外のウェブ出典は結果から除外されます。マップの場所は常に残ります。',
+  'policy.allow': '許可するドメイン（{count}）',
+  'policy.allowPlaceholder': '空欄ならすべてのドメインを許可\n例：nature.com\nwho.int',
+  'policy.deny': 'ブロックするドメイン（{count}）',
+  'policy.denyPlaceholder': '例：example-content-farm.com',
+  'policy.clear': 'リストを消去',
+  'policy.save': 'リストを保存',
+
+  'variants.title': 'バリエーションを選択',
+  'variants.discardAll': 'すべてのバリエーションを破棄',
+  'variants.label': 'バリエーション {number}',
+  'variants.main': 'メイン',
+  'variants.keepTitle': 'このバリエーションも履歴に残す',
+  'variants.keep': '残す',
+  'variants.keeping': '保存予定',
+  'variants.useSelected': '選択したものを使用',
+  'variants.useSelectedKeep': '選択を使用し {count} 件を残す',
+
+  'mask.brush': 'ブラシ',
+  'mask.rect': '矩形',
+  'mask.eraser': '消しゴム',
+  'mask.brushSize': 'ブラシサイズ',
+  'mask.clear': 'マスクを消去',
+  'mask.describe': 'マークした領域の変更内容を入力...',
+  'mask.paintFirst': '変更する領域を塗るか矩形で囲んでください',
+  'mask.apply': '領域を編集',
+
+  'overlay.text': 'テキスト',
+  'overlay.callout': '吹き出し',
+  'overlay.arrow': '矢印',
+  'overlay.defaultText': 'ラベル',
+  'overlay.defaultCallout': '吹き出し',
+  'overlay.fromFactsTitle': '調査した事実ごとにテキストボックスを追加',
+  'overlay.fromFacts': '事実から（{count}）',
+  'overlay.save': 'オーバーレイを保存',
+  'overlay.font': 'フォント',
+  'overlay.weight': '太さ',
+  'overlay.size': 'サイズ',
+  'overlay.color': '色',
+  'overlay.fill': '塗り',
+  'overlay.align': '配置',
+  'overlay.alignLeft': '左揃え',
+  'overlay.alignCenter': '中央揃え',
+  'overlay.alignRight': '右揃え',
+  'overlay.delete': '要素を削除',
+  'overlay.resize': 'ドラッグしてサイズ変更',
+
+  'styles.title': 'スタイルプリセット',
+  'styles.count': 'カスタムスタイル：{count}',
+  'styles.new': '新しいスタイル',
+  'styles.imported': '読み込んだスタイル：{count}。',
+  'styles.deleteConfirm': 'スタイル「{name}」を削除しますか？',
+  'styles.namePlaceholder': 'スタイル名（例：社内スタイル）',
+  'styles.instructionPlaceholder': 'スタイルを説明：配色、描画技法、タイポグラフィ、雰囲気...',
+  'styles.referenceAlt': 'スタイル参照',
+  'styles.removeReference': '参照画像を削除',
+  'styles.addReference': '参照画像（任意）',
+  'styles.save': 'スタイルを保存',
+  'styles.empty': 'カスタムスタイルはまだありません',
+
+  'brand.title': 'ブランドキット',
+  'brand.subtitle': '調査、画像プロンプト、書き出しに適用',
+  'brand.name': 'ブランド名',
+  'brand.namePlaceholder': '例：Northwind Learning',
+  'brand.palette': 'パレット（{count}/{max}）',
+  'brand.removeColor': '色を削除',
+  'brand.addColor': '色を追加',
+  'brand.typography': 'タイポグラフィ',
+  'brand.typographyPlaceholder': '例：太字の幾何学的サンセリフ見出し、細めの本文',
+  'brand.tone': 'トーン',
+  'brand.tonePlaceholder': '例：温かく、平易で前向き。専門用語は使わない',
+  'brand.logo': 'ロゴ',
+  'brand.logoAlt': 'ブランドロゴ',
+  'brand.removeLogo': 'ロゴを削除',
+  'brand.uploadLogo': 'ロゴをアップロード（透過 PNG が最適）',
+  'brand.cornerTitle': '書き出し時にロゴを置く角',
+  'brand.cornerTopLeft': '左上',
+  'brand.cornerTopRight': '右上',
+  'brand.cornerBottomLeft': '左下',
+  'brand.cornerBottomRight': '右下',
+  'brand.removeConfirm': 'ブランドキットを削除しますか？既存のインフォグラフィックのロゴはそのまま残ります。',
+  'brand.remove': 'キットを削除',
+  'brand.save': 'ブランドキットを保存',
+
+  'audience.title': '対象者プロファイル',
+  'audience.count': 'カスタム対象者：{count}',
+  'audience.new': '新しい対象者',
+  'audience.deleteConfirm': '対象者「{name}」を削除しますか？',
+  'audience.namePlaceholder': '対象者名（例：入院患者）',
+  'audience.readingLevel': '読解レベル',
+  'audience.readingLevelPlaceholder': '例：小学6年、CEFR B1',
+  'audience.maxWords': 'ラベルあたりの最大語数',
+  'audience.wordsPerLabel': 'ラベルあたり ≤ {count} 語',
+  'audience.vocabulary': '語彙',
+  'audience.vocabularyPlaceholder': '例：日常語を使う。医学用語は括弧内で説明し、略語は使わない',
+  'audience.visual': '視覚的な約束事',
+  'audience.visualPlaceholder': '例：番号付き手順、大きなピクトグラム、赤は警告のみ',
+  'audience.save': '対象者を保存',
+  'audience.empty': 'カスタム対象者はまだありません',
+
+  'batch.title': '一括生成',
+  'batch.summary': '{done}/{total} 件完了 · {model} · {size}',
+  'batch.hide': '隠す（キューは実行を続けます）',
+  'batch.placeholder': '1 行に 1 トピック、または CSV 行：topic,level,style,language,aspectRatio\nカンマを含むトピックは引用符で囲んでください。JSON 配列も使えます。',
+  'batch.add': 'キューに追加',
+  'batch.import': 'CSV / JSON を読み込む',
+  'batch.parallel': '並列数',
+  'batch.error.missingTopic': '{row} 行目：トピックがありません',
+  'batch.error.unknownValue': '{row} 行目：不明な {field}「{value}」（{expected} のいずれかを指定）',
+  'batch.error.invalidJson': '無効な JSON：{value}',
+  'batch.error.notArray': 'JSON はトピックの配列か、"topics" 配列を持つオブジェクトである必要があります',
+  'batch.status.queued': '待機中',
+  'batch.status.researching': '調査中',
+  'batch.status.rendering': '生成中',
+  'batch.status.done': '完了',
+  'batch.status.failed': '失敗',
+  'batch.retry': '再試行',
+  'batch.remove': '削除',
+  'batch.empty': 'キューは空です',
+  'batch.retryFailed': '失敗分を再試行（{count}）',
+  'batch.downloadAll': 'すべてダウンロード（{count}）',
+  'batch.running': '実行中...',
+  'batch.start': '開始（{count}）',
+  'overlay.hint': '画像上の要素を選択してスタイルを設定します。ドラッグで移動し、ハンドルでテキストボックスのサイズや矢印の端を調整します。',
+
+  'history.title': 'セッション履歴',
+  'history.selected': '{count} 件選択中',
+  'history.pdfTitle': 'PDF 配布資料をダウンロード',
+  'history.pptxTitle': 'PowerPoint スライドをダウンロード',
+  'history.cancelSelection': '選択をキャンセル',
+  'history.select': '選択',
+  'history.selectTitle': 'PDF 配布資料またはスライドとして書き出すインフォグラフィックを選択',
+  'history.clear': 'すべて消去',
+  'history.clearTitle': '保存したインフォグラフィックをすべて削除',
+  'history.clearConfirm': '保存したインフォグラフィックをすべて削除しますか？この操作は元に戻せません。',
+  'history.openTranslation': '{language}版を開く',
+
+  'export.sources': '出典',
+  'export.sourcesContinued': '出典（続き）',
+  'export.topic': 'トピック：{topic}',
+
+  'usage.overBudgetConfirm': 'セッション予算 {limit} を超えます：これまでに {spent}、今回の実行でさらに約 {estimate} かかります。続行しますか？',
+  'usage.title': '使用量とコスト',
+  'usage.subtitle': 'すべてのモデル呼び出しを下の表で計算',
+  'usage.session': 'このセッション',
+  'usage.today': '今日',
+  'usage.allTime': '累計',
+  'usage.budget': 'セッション予算',
+  'usage.noLimit': '上限なし（USD）',
+  'usage.modeWarn': '超える前に警告',
+  'usage.modeBlock': '超えそうな生成をブロック',
+  'usage.spentOf': 'このセッションで {limit} 中 {spent} を使用',
+  'usage.byDay': '日別',
+  'usage.byModel': 'モデル別',
+  'usage.byOperation': '操作別',
+  'usage.day': '日付',
+  'usage.model': 'モデル',
+  'usage.operation': '操作',
+  'usage.empty': '使用記録はまだありません。',
+  'usage.calls': '呼び出し',
+  'usage.inputTokens': '入力トークン',
+  'usage.outputTokens': '出力トークン',
+  'usage.images': '画像',
+  'usage.cost': 'コスト',
+  'usage.prices': '価格（USD）',
+  'usage.resetPrices': '既定値に戻す',
+  'usage.pricesHelp': '新しい価格は今後の呼び出しに適用され、記録済みのコストは変わりません。',
+  'usage.priceInput': '入力 / 100万',
+  'usage.priceOutput': '出力 / 100万',
+  'usage.priceImage': '画像あたり',
+  'usage.clear': '使用記録を消去',
+  'usage.clearConfirm': 'すべての使用記録を削除しますか？発生済みのコストには影響しません。',
+  'usage.save': '設定を保存',
+  'usage.op.research': '調査',
+  'usage.op.image': '画像',
+  'usage.op.edit': '編集',
+  'usage.op.translate': '翻訳',
+  'usage.op.chat': 'チャット',
+  'usage.op.analysis': '分析',
+  'usage.op.transcription': '文字起こし',
+  'usage.op.speech': '音声',
+
+  'chat.title': 'InfoGenius チャット',
+  'chat.greeting': 'こんにちは！InfoGenius です。今日は調査やビジュアルについて何をお手伝いしましょうか？',
+  'chat.you': 'あなた',
+  'chat.exported': '{date} にエクスポート',
+  'chat.open': 'チャットを開く',
+  'chat.minimize': 'チャットを最小化',
+  'chat.newConversation': '新しい会話',
+  'chat.savedConversations': '保存した会話',
+  'chat.exportTranscript': '会話をエクスポート',
+  'chat.grounded': 'インフォグラフィックに基づく回答',
+  'chat.contextOff': 'コンテキストなし',
+  'chat.contextSummary': '事実 {facts} 件 · 情報源 {sources} 件',
+  'chat.stopContext': 'このインフォグラフィックをコンテキストに使わない',
+  'chat.useContext': 'このインフォグラフィックをコンテキストに使う',
+  'chat.noConversations': '保存した会話はありません',
+  'chat.messageCount': 'メッセージ {count} 件',
+  'chat.deleteConversation': '会話を削除',
+  'chat.noResponse': '回答を生成できませんでした。',
+  'chat.error': '申し訳ありません、エラーが発生しました。もう一度お試しください。',
+  'chat.askInfographic': 'このインフォグラフィックについて質問...',
+  'chat.askAnything': '何でも質問してください...',
+  'chat.send': '送信'
+};
@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const pt: Messages = {
+  'common.on': 'Sim',
+  'common.off': 'Não',
+  'common.builtIn': 'Integrados',
+  'common.custom': 'Personalizados',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.edit': 'Editar',
+  'common.duplicate': 'Duplicar',
+  'common.delete': 'Excluir',
+  'common.importJson': 'Importar JSON',
+  'common.exportJson': 'Exportar JSON',
+
+  'intro.tagline': 'Conhecimento. Visualizado.',
+  'intro.groundingBadge': 'Agora com embasamento na Pesquisa Google',
+  'intro.enter': 'Iniciar sistema',
+  'intro.skip': 'Pular introdução',
+
+  'header.tagline': 'Motor de conhecimento visual',
+  'header.mock': 'Simulação offline',
+  'header.mockTitle': 'AI_PROVIDER=mock: as respostas são exemplos pré-definidos',
+  'header.brandKit': 'Kit de marca',
+  'header.sources': 'Listas de fontes de pesquisa',
+  'header.batch': 'Geração em lote',
+  'header.usage': 'Uso e custos ({spent} nesta sessão)',
+  'header.theme': 'Alternar entre modo claro e escuro',
+  'header.uiLanguage': 'Idioma da interface',
+
+  'key.badge': 'App pago',
+  'key.title': 'É necessária uma chave de API paga',
+  'key.body': 'Os recursos avançados de geração exigem uma chave de API do Gemini paga.',
+  'key.billing': 'Para continuar, selecione um projeto do Google Cloud com faturamento ativado.',
+  'key.select': 'Selecionar chave de API paga',
+
+  'hero.badge': 'Pesquisa, Maps e síntese com Nano Banana Pro integrados',
+  'hero.titleTop': 'Decifre',
+  'hero.titleBottom': 'a realidade.',
+
+  'form.topicPlaceholder': 'O que você quer visualizar?',
+  'form.questionPlaceholder': 'Pergunta específica sobre esta imagem...',
+  'form.contextPlaceholder': "Contexto adicional (ex.: 'Procure falhas de segurança', 'Identifique o texto')",
+  'form.record': 'Fale para transcrever',
+  'form.stopRecording': 'Parar gravação',
+  'form.upload': 'Enviar para análise visual',
+  'form.removeImage': 'Remover imagem',
+  'form.preview': 'Imagem para analisar',
+  'form.engine': 'Motor',
+  'form.size': 'Tamanho',
+  'form.ratio': 'Proporção',
+  'form.audience': 'Público',
+  'form.manageAudiences': 'Gerenciar perfis de público',
+  'form.aesthetic': 'Estética',
+  'form.manageStyles': 'Gerenciar estilos predefinidos',
+  'form.language': 'Idioma',
+  'form.languageTitle': 'Idioma dos fatos pesquisados e dos rótulos do infográfico',
+  'form.variants': 'Variações',
+  'form.variantsSingle': 'Única',
+  'form.variantsCount': '{count} variações',
+  'form.review': 'Revisão',
+  'form.reviewTitle': 'Pausar após a pesquisa para editar os fatos e o prompt da imagem antes de renderizar',
+  'form.cache': 'Cache',
+  'form.cacheTitle': 'Reutilizar pesquisas e imagens de pedidos idênticos recentes. Desative para sempre chamar o modelo; os novos resultados continuam a atualizar o cache',
+  'form.brand': 'Marca',
+  'form.brandApply': 'Aplicar o kit de marca a esta geração',
+  'form.brandSetUp': 'Configurar um kit de marca',
+  'form.brandSetUpShort': 'Configurar',
+  'form.analyze': 'Analisar',
+  'form.initiate': 'Iniciar',
+
+  'model.flash': 'Flash (rápido)',
+  'model.pro': 'Pro (Nano Banana Pro)',
+  'model.imagen': 'Imagen 4 (criativo)',
+  'size.1K': '1K (padrão)',
+  'size.2K': '2K (alta resolução)',
+  'size.4K': '4K (ultra resolução)',
+  'ratio.16:9': '16:9 Panorâmico',
+  'ratio.1:1': '1:1 Quadrado',
+  'ratio.9:16': '9:16 Celular',
+  'level.Elementary': 'Ensino fundamental',
+  'level.High School': 'Ensino médio',
+  'level.College': 'Universidade',
+  'level.Expert': 'Especialista',
+  'style.Default': 'Padrão',
+  'style.Geometric Patterns': 'Padrões geométricos',
+  'style.Minimalist': 'Minimalista',
+  'style.Realistic': 'Realista',
+  'style.Cartoon': 'Romance gráfico',
+  'style.Vintage': 'Litografia antiga',
+  'style.Futuristic': 'Cyberpunk',
+  'style.3D Render': 'Isométrico 3D',
+  'style.Sketch': 'Planta técnica',
+
+  'status.transcribing': 'Transcrevendo o áudio...',
+  'status.analyzing': 'Analisando o conteúdo da imagem...',
+  'status.researching': 'Pesquisando o tema com Pesquisa e Maps...',
+  'status.designing': 'Criando o infográfico ({size})...',
+  'status.designingVariants': 'Criando {count} variações ({size})...',
+  'status.editingRegion': 'Editando a área marcada: "{instruction}"...',
+  'status.modifying': 'Aplicando a modificação: "{instruction}"...',
+  'status.translating': 'Traduzindo para {language} ({current} de {total})...',
+
+  'error.emptyTopic': 'Digite um tema ou envie uma imagem para análise.',
+  'error.storageFull': 'O armazenamento do navegador está cheio. Este infográfico não será mantido após recarregar.',
+  'error.transcription': 'A transcrição falhou. Tente novamente.',
+  'error.microphone': 'Acesso ao microfone negado ou indisponível.',
+  'error.accessDenied': 'Acesso negado. Os recursos Pro exigem uma chave de API do Gemini paga. Selecione sua chave novamente.',
+  'error.invalidPlan': 'A pesquisa retornou um plano inutilizável ({issue}). Tente novamente.',
+  'error.unavailable': 'O serviço está temporariamente indisponível. Tente novamente.',
+  'error.quota': 'Limite de solicitações ou cota atingido. Aguarde um minuto e tente novamente, ou verifique a cota do projeto da sua chave de API.',
+  'error.safety': 'A solicitação foi bloqueada pelos filtros de segurança. Reformule o tema ou a instrução e tente novamente.',
+  'error.badRequest': 'A solicitação foi rejeitada por ser inválida. Tente outro modelo ou tamanho, ou encurte o prompt.',
+  'error.emptyOutput': 'O modelo não retornou nenhum resultado. Tente novamente ou reformule a solicitação.',
+  'error.editFailed': 'A modificação falhou. Tente outro comando.',
+  'error.translateFailed': 'A tradução falhou. Tente novamente.',
+  'error.deckExport': 'Não foi possível gerar a exportação em {format}. Tente novamente.',
+  'error.imageDownload': 'Não foi possível preparar a imagem para download. Tente novamente.',
+  'error.packageExport': 'Não foi possível criar o pacote de exportação. Tente novamente.',
+  'error.batchArchive': 'Não foi possível criar o arquivo com os infográficos concluídos. Tente novamente.',
+  'error.saveStylePresets': 'Não foi possível salvar os estilos. Eles serão perdidos ao recarregar.',
+  'error.saveAudienceProfile': 'Não foi possível salvar o perfil de público. Ele será perdido ao recarregar.',
+  'error.saveBrandKit': 'Não foi possível salvar o kit de marca. Ele será perdido ao recarregar.',
+  'error.saveSourcePolicy': 'Não foi possível guardar as listas de fontes. Serão perdidas ao recarregar.',
+  'error.saveUsageSettings': 'Não foi possível salvar as configurações de uso. Elas serão perdidas ao recarregar.',
+  'error.clearHistory': 'Não foi possível limpar o histórico salvo. Tente novamente.',
+  'error.clearUsage': 'Não foi possível limpar o uso registrado. Tente novamente.',
+  'error.overBudget': 'Bloqueado: isso ultrapassaria o orçamento de {limit} da sessão ({spent} gastos, cerca de {estimate} a mais). Aumente o limite em Uso e custos para continuar.',
+
+  'loading.linkActive': 'Conexão neural ativa',
+  'loading.complete': '{percent}% concluído',
+  'loading.synthesizing': 'Sintetizando ideias...',
+  'loading.phaseResearch': 'Pesquisa',
+  'loading.phaseSynthesis': 'Síntese',
+  'loading.phaseRender': 'Renderização',
+  'loading.sources': '{count} fontes',
+  'loading.cancel': 'Cancelar',
+
+  'progress.location': 'Obtendo sua localização para o Maps...',
+  'progress.researchSent': 'Solicitação de pesquisa enviada...',
+  'progress.groundingReceived': '{count} fontes de embasamento recebidas',
+  'progress.factsParsed': '{count} fatos analisados',
+  'progress.imageSent': 'Solicitação de imagem enviada...',
+  'progress.imageDecoded': 'Imagem decodificada',
+
+  'analysis.sourceImage': 'Imagem de origem',
+  'analysis.title': 'Inteligência visual',
+  'analysis.subtitle': 'Relatório de síntese neural',
+  'analysis.listen': 'Ouvir a análise',
+  'analysis.generatedAt': 'Gerado às {time}',
+  'analysis.visualise': 'Visualizar isto',
+  'analysis.visualisePrompt': 'Explique as descobertas visuais: {excerpt}...',
+  'speech.summary': 'Infográfico gerado sobre o tema: {topic}. Resumo da análise disponível.',
+
+  'infographic.readSummary': 'Ler resumo',
+  'infographic.fullscreen': 'Tela cheia',
+  'infographic.logoOnExport': 'Logotipo ao exportar: {state}',
+  'infographic.editOverlay': 'Editar sobreposição de texto',
+  'infographic.download': 'Baixar imagem',
+  'infographic.exportPackage': 'Exportar pacote (imagem, metadados, fatos, fontes)',
+  'infographic.editPlaceholder': "Refine o visual (ex.: 'Coloque estrelas no fundo')...",
+  'infographic.enhanceEmpty': 'Digite uma instrução para aprimorar',
+  'infographic.enhanceTitle': 'Aprimorar imagem',
+  'infographic.enhance': 'Aprimorar',
+  'infographic.promptCaption': 'PROMPT: {prompt}',
+  'infographic.editCaption': 'EDIÇÃO: {instruction}',
+  'infographic.translationCaption': 'TRADUÇÃO: {language}',
+  'infographic.zoomOut': 'Diminuir zoom',
+  'infographic.resetZoom': 'Redefinir zoom',
+  'infographic.zoomIn': 'Aumentar zoom',
+  'infographic.editRegion': 'Editar uma região',
+  'infographic.closeFullscreen': 'Fechar tela cheia',
+  'infographic.fromCacheBoth': 'Servido a partir do cache: pesquisa e imagem',
+  'infographic.fromCacheResearch': 'Servido a partir do cache: pesquisa',
+  'infographic.fromCacheImage': 'Servido a partir do cache: imagem',
+  'infographic.translate': 'Traduzir',
+  'infographic.translateInto': 'Traduzir para',
+  'infographic.translateIntoCount': 'Traduzir para {count} idiomas',
+
+  'plan.title': 'Revisar plano de pesquisa',
+  'plan.discardTitle': 'Descartar plano',
+  'plan.titleLabel': 'Título',
+  'plan.facts': 'Fatos ({count})',
+  'plan.addFact': 'Adicionar fato',
+  'plan.factPlaceholder': 'Digite um fato...',
+  'plan.confidence': 'Confiança informada pelo modelo de pesquisa',
+  'plan.moveUp': 'Mover para cima',
+  'plan.moveDown': 'Mover para baixo',
+  'plan.removeFact': 'Remover fato',
+  'plan.imagePrompt': 'Prompt da imagem',
+  'plan.sources': 'Fontes ({count})',
+  'plan.removeSource': 'Remover fonte',
+  'plan.discard': 'Descartar',
+  'plan.approve': 'Aprovar e gerar ({engine})',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'Árvore de versões',
+  'versions.current': 'Versão atual: as edições partem daqui',
+  'versions.show': 'Mostrar esta versão e editar a partir dela',
+  'versions.original': 'Original',
+  'versions.editing': 'Editando',
+  'versions.compare': 'Comparar com a versão anterior',
+  'versions.editLabel': 'EDIÇÃO:',
+  'versions.before': 'Antes',
+  'versions.after': 'Depois',
+  'versions.close': 'Fechar comparação',
+
+  'sources.title': 'Fontes da pesquisa',
+  'sources.maps': 'Google Maps',
+  'sources.external': 'Fonte externa',
+  'sources.tier.academic': 'Acadêmica',
+  'sources.tier.government': 'Governo',
+  'sources.tier.encyclopedic': 'Enciclopédia',
+  'sources.tier.news': 'Notícias',
+  'sources.tier.other': 'Outras',
+  'sources.type.web': 'Web',
+  'sources.type.maps': 'Mapas',
+  'sources.all': 'Todas ({count})',
+  'sources.filterCount': '{label} ({count})',
+  'sources.sortLabel': 'Ordenar fontes',
+  'sources.sortRelevance': 'Ordem: relevância',
+  'sources.sortCredibility': 'Ordem: credibilidade',
+
+  'policy.title': 'Fontes de pesquisa',
+  'policy.subtitle': 'Domínios em que a pesquisa pode ou não se apoiar',
+  'policy.help': 'Um domínio por linha; subdomínios estão incluídos. As listas são enviadas ao modelo de pesquisa e as fontes web fora delas são removidas dos resultados. Os lugares do Maps são sempre mantidos.',
+  'policy.allow': 'Domínios permitidos ({count})',
+  'policy.allowPlaceholder': 'Deixe vazio para permitir todos os domínios\nex.: nature.com\nwho.int',
+  'policy.deny': 'Domínios bloqueados ({count})',
+  'policy.denyPlaceholder': 'ex.: example-content-farm.com',
+  'policy.clear': 'Limpar listas',
+  'policy.save': 'Salvar listas',
+
+  'variants.title': 'Escolha uma variante',
+  'variants.discardAll': 'Descartar todas as variantes',
+  'variants.label': 'Variante {number}',
+  'variants.main': 'Principal',
+  'variants.keepTitle': 'Manter também esta variante no histórico',
+  'variants.keep': 'Manter',
+  'variants.keeping': 'Será mantida',
+  'variants.useSelected': 'Usar a selecionada',
+  'variants.useSelectedKeep': 'Usar a selecionada e manter {count}',
+
+  'mask.brush': 'Pincel',
+  'mask.rect': 'Retângulo',
+  'mask.eraser': 'Borracha',
+  'mask.brushSize': 'Tamanho do pincel',
+  'mask.clear': 'Limpar máscara',
+  'mask.describe': 'Descreva a alteração para a região marcada...',
+  'mask.paintFirst': 'Pinte ou desenhe um retângulo sobre a região a alterar',
+  'mask.apply': 'Editar região',
+
+  'overlay.text': 'Texto',
+  'overlay.callout': 'Balão',
+  'overlay.arrow': 'Seta',
+  'overlay.defaultText': 'Rótulo',
+  'overlay.defaultCallout': 'Destaque',
+  'overlay.fromFactsTitle': 'Adicionar uma caixa de texto para cada fato pesquisado',
+  'overlay.fromFacts': 'Dos fatos ({count})',
+  'overlay.save': 'Salvar sobreposição',
+  'overlay.font': 'Fonte',
+  'overlay.weight': 'Espessura',
+  'overlay.size': 'Tamanho',
+  'overlay.color': 'Cor',
+  'overlay.fill': 'Preenchimento',
+  'overlay.align': 'Alinhar',
+  'overlay.alignLeft': 'Alinhar à esquerda',
+  'overlay.alignCenter': 'Centralizar',
+  'overlay.alignRight': 'Alinhar à direita',
+  'overlay.delete': 'Excluir elemento',
+  'overlay.resize': 'Arraste para redimensionar',
+
+  'styles.title': 'Estilos predefinidos',
+  'styles.count': 'Estéticas personalizadas: {count}',
+  'styles.new': 'Novo estilo',
+  'styles.imported': 'Estilos importados: {count}.',
+  'styles.deleteConfirm': 'Excluir o estilo "{name}"?',
+  'styles.namePlaceholder': 'Nome do estilo, ex.: Nosso estilo da casa',
+  'styles.instructionPlaceholder': 'Descreva a estética: paleta, técnica, tipografia, clima...',
+  'styles.referenceAlt': 'Referência de estilo',
+  'styles.removeReference': 'Remover imagem de referência',
+  'styles.addReference': 'Imagem de referência (opcional)',
+  'styles.save': 'Salvar estilo',
+  'styles.empty': 'Nenhum estilo personalizado ainda',
+
+  'brand.title': 'Kit de marca',
+  'brand.subtitle': 'Aplicado à pesquisa, aos prompts de imagem e às exportações',
+  'brand.name': 'Nome da marca',
+  'brand.namePlaceholder': 'ex.: Northwind Learning',
+  'brand.palette': 'Paleta ({count}/{max})',
+  'brand.removeColor': 'Remover cor',
+  'brand.addColor': 'Adicionar cor',
+  'brand.typography': 'Tipografia',
+  'brand.typographyPlaceholder': 'ex.: Títulos sem serifa geométricos em negrito, texto humanista leve',
+  'brand.tone': 'Tom de voz',
+  'brand.tonePlaceholder': 'ex.: Acolhedor, direto e encorajador; sem jargões',
+  'brand.logo': 'Logotipo',
+  'brand.logoAlt': 'Logotipo da marca',
+  'brand.removeLogo': 'Remover logotipo',
+  'brand.uploadLogo': 'Enviar logotipo (PNG com transparência é o ideal)',
+  'brand.cornerTitle': 'Canto em que o logotipo é colocado ao exportar',
+  'brand.cornerTopLeft': 'Superior esquerdo',
+  'brand.cornerTopRight': 'Superior direito',
+  'brand.cornerBottomLeft': 'Inferior esquerdo',
+  'brand.cornerBottomRight': 'Inferior direito',
+  'brand.removeConfirm': 'Remover o kit de marca? Os infográficos existentes mantêm o logotipo.',
+  'brand.remove': 'Remover kit',
+  'brand.save': 'Salvar kit de marca',
+
+  'audience.title': 'Perfis de público',
+  'audience.count': 'Públicos personalizados: {count}',
+  'audience.new': 'Novo público',
+  'audience.deleteConfirm': 'Excluir o público "{name}"?',
+  'audience.namePlaceholder': 'Nome do público, ex.: Pacientes do hospital',
+  'audience.readingLevel': 'Nível de leitura',
+  'audience.readingLevelPlaceholder': 'ex.: 6º ano, QECR B1',
+  'audience.maxWords': 'Máx. de palavras por rótulo',
+  'audience.wordsPerLabel': '≤ {count} palavras por rótulo',
+  'audience.vocabulary': 'Vocabulário',
+  'audience.vocabularyPlaceholder': 'ex.: Palavras do dia a dia; explicar termos médicos entre parênteses; sem abreviações',
+  'audience.visual': 'Convenções visuais',
+  'audience.visualPlaceholder': 'ex.: Passos numerados, pictogramas grandes, vermelho só para avisos',
+  'audience.save': 'Salvar público',
+  'audience.empty': 'Nenhum público personalizado ainda',
+
+  'batch.title': 'Geração em lote',
+  'batch.summary': '{done}/{total} concluídas · {model} · {size}',
+  'batch.hide': 'Ocultar (a fila continua rodando)',
+  'batch.placeholder': 'Um tema por linha, ou linhas CSV: topic,level,style,language,aspectRatio\nColoque entre aspas os temas com vírgulas. Arrays JSON também são aceitos.',
+  'batch.add': 'Adicionar à fila',
+  'batch.import': 'Importar CSV / JSON',
+  'batch.parallel': 'Em paralelo',
+  'batch.error.missingTopic': 'Linha {row}: tema ausente',
+  'batch.error.unknownValue': 'Linha {row}: {field} desconhecido "{value}" (esperado um de {expected})',
+  'batch.error.invalidJson': 'JSON inválido: {value}',
+  'batch.error.notArray': 'O JSON deve ser uma lista de temas ou um objeto com uma lista "topics"',
+  'batch.status.queued': 'Na fila',
+  'batch.status.researching': 'Pesquisando',
+  'batch.status.rendering': 'Gerando',
+  'batch.status.done': 'Concluído',
+  'batch.status.failed': 'Falhou',
+  'batch.retry': 'Tentar novamente',
+  'batch.remove': 'Remover',
+  'batch.empty': 'A fila está vazia',
+  'batch.retryFailed': 'Repetir as que falharam ({count})',
+  'batch.downloadAll': 'Baixar tudo ({count})',
+  'batch.running': 'Executando...',
+  'batch.start': 'Iniciar ({count})',
+  'overlay.hint': 'Selecione um elemento na imagem para estilizá-lo. Arraste para mover; use as alças para redimensionar caixas de texto ou reposicionar as pontas das setas.',
+
+  'history.title': 'Arquivo da sessão',
+  'history.selected': '{count} selecionados',
+  'history.pdfTitle': 'Baixar um material em PDF',
+  'history.pptxTitle': 'Baixar uma apresentação do PowerPoint',
+  'history.cancelSelection': 'Cancelar seleção',
+  'history.select': 'Selecionar',
+  'history.selectTitle': 'Selecione infográficos para exportar como material em PDF ou apresentação',
+  'history.clear': 'Limpar tudo',
+  'history.clearTitle': 'Excluir todos os infográficos salvos',
+  'history.clearConfirm': 'Excluir todos os infográficos salvos? Esta ação não pode ser desfeita.',
+  'history.openTranslation': 'Abrir a versão em {language}',
+
+  'export.sources': 'Fontes',
+  'export.sourcesContinued': 'Fontes (continuação)',
+  'export.topic': 'Tema: {topic}',
+
+  'usage.overBudgetConfirm': 'Isso ultrapassará o orçamento de {limit} da sessão: {spent} gastos até agora e cerca de {estimate} a mais nesta execução. Continuar mesmo assim?',
+  'usage.title': 'Uso e custos',
+  'usage.subtitle': 'Cada chamada ao modelo, com o preço da tabela abaixo',
+  'usage.session': 'Esta sessão',
+  'usage.today': 'Hoje',
+  'usage.allTime': 'Total',
+  'usage.budget': 'Orçamento da sessão',
+  'usage.noLimit': 'Sem limite (USD)',
+  'usage.modeWarn': 'Avisar antes de ultrapassar',
+  'usage.modeBlock': 'Bloquear gerações que ultrapassem',
+  'usage.spentOf': '{spent} de {limit} gastos nesta sessão',
+  'usage.byDay': 'Por dia',
+  'usage.byModel': 'Por modelo',
+  'usage.byOperation': 'Por operação',
+  'usage.day': 'Dia',
+  'usage.model': 'Modelo',
+  'usage.operation': 'Operação',
+  'usage.empty': 'Nenhum uso registrado ainda.',
+  'usage.calls': 'Chamadas',
+  'usage.inputTokens': 'Tokens de entrada',
+  'usage.outputTokens': 'Tokens de saída',
+  'usage.images': 'Imagens',
+  'usage.cost': 'Custo',
+  'usage.prices': 'Preços (USD)',
+  'usage.resetPrices': 'Restaurar padrões',
+  'usage.pricesHelp': 'Os novos preços valem para as chamadas de agora em diante; os custos registrados não mudam.',
+  'usage.priceInput': 'Entrada / 1M',
+  'usage.priceOutput': 'Saída / 1M',
+  'usage.priceImage': 'Por imagem',
+  'usage.clear': 'Limpar uso',
+  'usage.clearConfirm': 'Excluir todo o uso registrado? Os custos já gerados não são afetados.',
+  'usage.save': 'Salvar configurações',
+  'usage.op.research': 'Pesquisa',
+  'usage.op.image': 'Imagem',
+  'usage.op.edit': 'Edição',
+  'usage.op.translate': 'Tradução',
+  'usage.op.chat': 'Chat',
+  'usage.op.analysis': 'Análise',
+  'usage.op.transcription': 'Transcrição',
+  'usage.op.speech': 'Fala',
+
+  'chat.title': 'Chat do InfoGenius',
+  'chat.greeting': 'Olá! Eu sou o InfoGenius. Como posso ajudar hoje com sua pesquisa ou seus visuais?',
+  'chat.you': 'Você',
+  'chat.exported': 'Exportado em {date}',
+  'chat.open': 'Abrir chat',
+  'chat.minimize': 'Minimizar chat',
+  'chat.newConversation': 'Nova conversa',
+  'chat.savedConversations': 'Conversas salvas',
+  'chat.exportTranscript': 'Exportar transcrição',
+  'chat.grounded': 'Baseado no infográfico',
+  'chat.contextOff': 'Contexto desativado',
+  'chat.contextSummary': '{facts} fatos · {sources} fontes',
+  'chat.stopContext': 'Parar de usar este infográfico como contexto',
+  'chat.useContext': 'Usar este infográfico como contexto',
+  'chat.noConversations': 'Nenhuma conversa salva',
+  'chat.messageCount': '{count} mensagens',
+  'chat.deleteConversation': 'Excluir conversa',
+  'chat.noResponse': 'Não consegui gerar uma resposta.',
+  'chat.error': 'Desculpe, ocorreu um erro. Tente novamente.',
+  'chat.askInfographic': 'Pergunte sobre este infográfico...',
+  'chat.askAnything': 'Pergunte o que quiser...',
+  'chat.send': 'Enviar'
+};
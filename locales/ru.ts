@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const ru: Messages = {
+  'common.on': 'Вкл.',
+  'common.off': 'Выкл.',
+  'common.builtIn': 'Встроенные',
+  'common.custom': 'Свои',
+  'common.cancel': 'Отмена',
+  'common.close': 'Закрыть',
+  'common.edit': 'Изменить',
+  'common.duplicate': 'Дублировать',
+  'common.delete': 'Удалить',
+  'common.importJson': 'Импорт JSON',
+  'common.exportJson': 'Экспорт JSON',
+
+  'intro.tagline': 'Знания. Наглядно.',
+  'intro.groundingBadge': 'Теперь с опорой на Google Поиск',
+  'intro.enter': 'Запустить систему',
+  'intro.skip': 'Пропустить вступление',
+
+  'header.tagline': 'Движок визуальных знаний',
+  'header.mock': 'Офлайн-имитация',
+  'header.mockTitle': 'AI_PROVIDER=mock: ответы — заранее заготовленные заглушки',
+  'header.brandKit': 'Фирменный стиль',
+  'header.sources': 'Списки источников для исследования',
+  'header.batch': 'Пакетная генерация',
+  'header.usage': 'Расход и стоимость ({spent} за сеанс)',
+  'header.theme': 'Переключить светлую и тёмную тему',
+  'header.uiLanguage': 'Язык интерфейса',
+
+  'key.badge': 'Платное',
+  'key.title': 'Нужен платный API-ключ',
+  'key.body': 'Для расширенных функций генерации нужен платный API-ключ Gemini.',
+  'key.billing': 'Чтобы продолжить, выберите проект Google Cloud с включённой оплатой.',
+  'key.select': 'Выбрать платный API-ключ',
+
+  'hero.badge': 'Поиск, Карты и синтез Nano Banana Pro в одном месте',
+  'hero.titleTop': 'Расшифруйте',
+  'hero.titleBottom': 'реальность.',
+
+  'form.topicPlaceholder': 'Что вы хотите визуализировать?',
+  'form.questionPlaceholder': 'Конкретный вопрос об этом изображении...',
+  'form.contextPlaceholder': "Дополнительный контекст (например, 'Найди уязвимости', 'Распознай текст')",
+  'form.record': 'Говорите для расшифровки',
+  'form.stopRecording': 'Остановить запись',
+  'form.upload': 'Загрузить для анализа изображения',
+  'form.removeImage': 'Убрать изображение',
+  'form.preview': 'Изображение для анализа',
+  'form.engine': 'Модель',
+  'form.size': 'Размер',
+  'form.ratio': 'Формат',
+  'form.audience': 'Аудитория',
+  'form.manageAudiences': 'Управление профилями аудитории',
+  'form.aesthetic': 'Стиль',
+  'form.manageStyles': 'Управление стилями',
+  'form.language': 'Язык',
+  'form.languageTitle': 'Язык найденных фактов и подписей на инфографике',
+  'form.variants': 'Варианты',
+  'form.variantsSingle': 'Один',
+  'form.variantsCount': 'Вариантов: {count}',
+  'form.review': 'Проверка',
+  'form.reviewTitle': 'Остановиться после исследования, чтобы отредактировать факты и промпт изображения перед рендерингом',
+  'form.cache': 'Кэш',
+  'form.cacheTitle': 'Повторно использовать исследования и изображения из недавних одинаковых запросов. Выключите, чтобы всегда обращаться к модели; новые результаты всё равно обновляют кэш',
+  'form.brand': 'Бренд',
+  'form.brandApply': 'Применить фирменный стиль к этой генерации',
+  'form.brandSetUp': 'Настроить фирменный стиль',
+  'form.brandSetUpShort': 'Настроить',
+  'form.analyze': 'Анализ',
+  'form.initiate': 'Начать',
+
+  'model.flash': 'Flash (быстрая)',
+  'model.pro': 'Pro (Nano Banana Pro)',
+  'model.imagen': 'Imagen 4 (творческая)',
+  'size.1K': '1K (стандарт)',
+  'size.2K': '2K (высокое разрешение)',
+  'size.4K': '4K (сверхвысокое разрешение)',
+  'ratio.16:9': '16:9 Широкий',
+  'ratio.1:1': '1:1 Квадрат',
+  'ratio.9:16': '9:16 Мобильный',
+  'level.Elementary': 'Начальная школа',
+  'level.High School': 'Старшая школа',
+  'level.College': 'Университет',
+  'level.Expert': 'Эксперты',
+  'style.Default': 'Стандартный',
+  'style.Geometric Patterns': 'Геометрические узоры',
+  'style.Minimalist': 'Минимализм',
+  'style.Realistic': 'Реализм',
+  'style.Cartoon': 'Графический роман',
+  'style.Vintage': 'Старинная литография',
+  'style.Futuristic': 'Киберпанк',
+  'style.3D Render': '3D-изометрия',
+  'style.Sketch': 'Чертёж',
+
+  'status.transcribing': 'Расшифровка аудио...',
+  'status.analyzing': 'Анализ содержимого изображения...',
+  'status.researching': 'Исследование темы с помощью Поиска и Карт...',
+  'status.designing': 'Создание инфографики ({size})...',
+  'status.designingVariants': 'Создание вариантов: {count} ({size})...',
+  'status.editingRegion': 'Редактирование выделенной области: «{instruction}»...',
+  'status.modifying': 'Применение изменения: «{instruction}»...',
+  'status.translating': 'Перевод: {language} ({current} из {total})...',
+
+  'error.emptyTopic': 'Введите тему или загрузите изображение для анализа.',
+  'error.storageFull': 'Хранилище браузера заполнено. Эта инфографика не сохранится после перезагрузки.',
+  'error.transcription': 'Не удалось расшифровать аудио. Попробуйте ещё раз.',
+  'error.microphone': 'Доступ к микрофону запрещён или микрофон недоступен.',
+  'error.accessDenied': 'Доступ запрещён. Для функций Pro нужен платный API-ключ Gemini. Выберите ключ повторно.',
+  'error.invalidPlan': 'Исследование вернуло непригодный план ({issue}). Попробуйте ещё раз.',
+  'error.unavailable': 'Сервис временно недоступен. Попробуйте ещё раз.',
+  'error.quota': 'Достигнут лимит запросов или квота. Подождите минуту и попробуйте снова или проверьте квоту проекта вашего API-ключа.',
+  'error.safety': 'Запрос заблокирован фильтрами безопасности. Переформулируйте тему или инструкцию и попробуйте ещё раз.',
+  'error.badRequest': 'Запрос отклонён как некорректный. Попробуйте другую модель или размер либо сократите промпт.',
+  'error.emptyOutput': 'Модель не вернула результат. Попробуйте ещё раз или переформулируйте запрос.',
+  'error.editFailed': 'Не удалось внести изменение. Попробуйте другую команду.',
+  'error.translateFailed': 'Не удалось выполнить перевод. Попробуйте ещё раз.',
+  'error.deckExport': 'Не удалось создать файл {format}. Попробуйте ещё раз.',
+  'error.imageDownload': 'Не удалось подготовить изображение к загрузке. Попробуйте ещё раз.',
+  'error.packageExport': 'Не удалось собрать пакет экспорта. Попробуйте ещё раз.',
+  'error.batchArchive': 'Не удалось собрать архив готовых инфографик. Попробуйте ещё раз.',
+  'error.saveStylePresets': 'Не удалось сохранить стили. После перезагрузки они пропадут.',
+  'error.saveAudienceProfile': 'Не удалось сохранить профиль аудитории. После перезагрузки он пропадёт.',
+  'error.saveBrandKit': 'Не удалось сохранить фирменный стиль. После перезагрузки он пропадёт.',
+  'error.saveSourcePolicy': 'Не удалось сохранить списки источников. После перезагрузки они пропадут.',
+  'error.saveUsageSettings': 'Не удалось сохранить настройки расхода. После перезагрузки они пропадут.',
+  'error.clearHistory': 'Не удалось очистить сохранённую историю. Попробуйте ещё раз.',
+  'error.clearUsage': 'Не удалось очистить записанный расход. Попробуйте ещё раз.',
+  'error.overBudget': 'Заблокировано: будет превышен бюджет сеанса {limit} (потрачено {spent}, нужно ещё около {estimate}). Чтобы продолжить, увеличьте лимит в разделе «Расход и стоимость».',
+
+  'loading.linkActive': 'Нейросвязь активна',
+  'loading.complete': 'Готово: {percent}%',
+  'loading.synthesizing': 'Обобщение выводов...',
+  'loading.phaseResearch': 'Исследование',
+  'loading.phaseSynthesis': 'Синтез',
+  'loading.phaseRender': 'Рендер',
+  'loading.sources': 'Источников: {count}',
+  'loading.cancel': 'Отмена',
+
+  'progress.location': 'Определение местоположения для Карт...',
+  'progress.researchSent': 'Запрос на исследование отправлен...',
+  'progress.groundingReceived': 'Получено источников: {count}',
+  'progress.factsParsed': 'Разобрано фактов: {count}',
+  'progress.imageSent': 'Запрос изображения отправлен...',
+  'progress.imageDecoded': 'Изображение декодировано',
+
+  'analysis.sourceImage': 'Исходное изображение',
+  'analysis.title': 'Визуальный анализ',
+  'analysis.subtitle': 'Отчёт нейросинтеза',
+  'analysis.listen': 'Прослушать анализ',
+  'analysis.generatedAt': 'Создано в {time}',
+  'analysis.visualise': 'Визуализировать',
+  'analysis.visualisePrompt': 'Объясни визуальные находки: {excerpt}...',
+  'speech.summary': 'Инфографика по теме «{topic}» создана. Доступна сводка анализа.',
+
+  'infographic.readSummary': 'Прочитать сводку',
+  'infographic.fullscreen': 'Полноэкранный режим',
+  'infographic.logoOnExport': 'Логотип при экспорте: {state}',
+  'infographic.editOverlay': 'Редактировать текстовый слой',
+  'infographic.download': 'Скачать изображение',
+  'infographic.exportPackage': 'Экспорт пакета (изображение, метаданные, факты, источники)',
+  'infographic.editPlaceholder': 'Уточните изображение (например, «Сделай фон звёздным»)...',
+  'infographic.enhanceEmpty': 'Введите указание для улучшения',
+  'infographic.enhanceTitle': 'Улучшить изображение',
+  'infographic.enhance': 'Улучшить',
+  'infographic.promptCaption': 'ЗАПРОС: {prompt}',
+  'infographic.editCaption': 'ПРАВКА: {instruction}',
+  'infographic.translationCaption': 'ПЕРЕВОД: {language}',
+  'infographic.zoomOut': 'Уменьшить',
+  'infographic.resetZoom': 'Сбросить масштаб',
+  'infographic.zoomIn': 'Увеличить',
+  'infographic.editRegion': 'Редактировать область',
+  'infographic.closeFullscreen': 'Закрыть полноэкранный режим',
+  'infographic.fromCacheBoth': 'Из кэша: исследование и изображение',
+  'infographic.fromCacheResearch': 'Из кэша: исследование',
+  'infographic.fromCacheImage': 'Из кэша: изображение',
+  'infographic.translate': 'Перевести',
+  'infographic.translateInto': 'Перевести на',
+  'infographic.translateIntoCount': 'Перевести на {count} языка(ов)',
+
+  'plan.title': 'Проверка плана исследования',
+  'plan.discardTitle': 'Отклонить план',
+  'plan.titleLabel': 'Заголовок',
+  'plan.facts': 'Факты ({count})',
+  'plan.addFact': 'Добавить факт',
+  'plan.factPlaceholder': 'Введите факт...',
+  'plan.confidence': 'Уверенность по оценке исследовательской модели',
+  'plan.moveUp': 'Переместить вверх',
+  'plan.moveDown': 'Переместить вниз',
+  'plan.removeFact': 'Удалить факт',
+  'plan.imagePrompt': 'Запрос для изображения',
+  'plan.sources': 'Источники ({count})',
+  'plan.removeSource': 'Удалить источник',
+  'plan.discard': 'Отклонить',
+  'plan.approve': 'Утвердить и создать ({engine})',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': 'Дерево версий',
+  'versions.current': 'Текущая версия: правки ответвляются отсюда',
+  'versions.show': 'Показать эту версию и редактировать её',
+  'versions.original': 'Оригинал',
+  'versions.editing': 'Редактируется',
+  'versions.compare': 'Сравнить с родительской',
+  'versions.editLabel': 'ПРАВКА:',
+  'versions.before': 'До',
+  'versions.after': 'После',
+  'versions.close': 'Закрыть сравнение',
+
+  'sources.title': 'Источники исследования',
+  'sources.maps': 'Google Карты',
+  'sources.external': 'Внешний источник',
+  'sources.tier.academic': 'Научный',
+  'sources.tier.government': 'Государственный',
+  'sources.tier.encyclopedic': 'Энциклопедия',
+  'sources.tier.news': 'Новости',
+  'sources.tier.other': 'Другое',
+  'sources.type.web': 'Веб',
+  'sources.type.maps': 'Карты',
+  'sources.all': 'Все ({count})',
+  'sources.filterCount': '{label} ({count})',
+  'sources.sortLabel': 'Сортировка источников',
+  'sources.sortRelevance': 'Сортировка: релевантность',
+  'sources.sortCredibility': 'Сортировка: достоверность',
+
+  'policy.title': 'Источники для исследования',
+  'policy.subtitle': 'Домены, на которые исследование может и не может опираться',
+  'policy.help': 'Один домен на строку; поддомены включаются. Списки передаются исследовательской модели, а веб-источники вне их удаляются из результатов. Места с карт сохраняются всегда.',
+  'policy.allow': 'Разрешённые домены ({count})',
+  'policy.allowPlaceholder': 'Оставьте пустым, чтобы разрешить все домены\nнапример, nature.com\nwho.int',
+  'policy.deny': 'Заблокированные домены ({count})',
+  'policy.denyPlaceholder': 'например, example-content-farm.com',
+  'policy.clear': 'Очистить списки',
+  'policy.save': 'Сохранить списки',
+
+  'variants.title': 'Выберите вариант',
+  'variants.discardAll': 'Отклонить все варианты',
+  'variants.label': 'Вариант {number}',
+  'variants.main': 'Основной',
+  'variants.keepTitle': 'Сохранить этот вариант и в истории',
+  'variants.keep': 'Оставить',
+  'variants.keeping': 'Сохраняется',
+  'variants.useSelected': 'Использовать выбранный',
+  'variants.useSelectedKeep': 'Использовать выбранный и оставить {count}',
+
+  'mask.brush': 'Кисть',
+  'mask.rect': 'Прямоугольник',
+  'mask.eraser': 'Ластик',
+  'mask.brushSize': 'Размер кисти',
+  'mask.clear': 'Очистить маску',
+  'mask.describe': 'Опишите изменение для отмеченной области...',
+  'mask.paintFirst': 'Закрасьте или выделите прямоугольником область для изменения',
+  'mask.apply': 'Изменить область',
+
+  'overlay.text': 'Текст',
+  'overlay.callout': 'Выноска',
+  'overlay.arrow': 'Стрелка',
+  'overlay.defaultText': 'Подпись',
+  'overlay.defaultCallout': 'Выноска',
+  'overlay.fromFactsTitle': 'Добавить текстовое поле для каждого найденного факта',
+  'overlay.fromFacts': 'Из фактов ({count})',
+  'overlay.save': 'Сохранить слой',
+  'overlay.font': 'Шрифт',
+  'overlay.weight': 'Толщина',
+  'overlay.size': 'Размер',
+  'overlay.color': 'Цвет',
+  'overlay.fill': 'Заливка',
+  'overlay.align': 'Выравнивание',
+  'overlay.alignLeft': 'По левому краю',
+  'overlay.alignCenter': 'По центру',
+  'overlay.alignRight': 'По правому краю',
+  'overlay.delete': 'Удалить элемент',
+  'overlay.resize': 'Перетащите, чтобы изменить размер',
+
+  'styles.title': 'Пресеты стилей',
+  'styles.count': 'Свои стили: {count}',
+  'styles.new': 'Новый стиль',
+  'styles.imported': 'Импортировано стилей: {count}.',
+  'styles.deleteConfirm': 'Удалить стиль «{name}»?',
+  'styles.namePlaceholder': 'Название стиля, например «Наш фирменный стиль»',
+  'styles.instructionPlaceholder': 'Опишите стиль: палитра, техника, типографика, настроение...',
+  'styles.referenceAlt': 'Образец стиля',
+  'styles.removeReference': 'Удалить образец',
+  'styles.addReference': 'Образец (необязательно)',
+  'styles.save': 'Сохранить стиль',
+  'styles.empty': 'Своих стилей пока нет',
+
+  'brand.title': 'Фирменный стиль',
+  'brand.subtitle': 'Применяется к исследованию, запросам и экспорту',
+  'brand.name': 'Название бренда',
+  'brand.namePlaceholder': 'например, Northwind Learning',
+  'brand.palette': 'Палитра ({count}/{max})',
+  'brand.removeColor': 'Удалить цвет',
+  'brand.addColor': 'Добавить цвет',
+  'brand.typography': 'Типографика',
+  'brand.typographyPlaceholder': 'например, жирные геометрические гротески в заголовках, лёгкий гуманистический текст',
+  'brand.tone': 'Тон',
+  'brand.tonePlaceholder': 'например, тёплый, простой и ободряющий; без жаргона',
+  'brand.logo': 'Логотип',
+  'brand.logoAlt': 'Логотип бренда',
+  'brand.removeLogo': 'Удалить логотип',
+  'brand.uploadLogo': 'Загрузить логотип (лучше PNG с прозрачностью)',
+  'brand.cornerTitle': 'Угол, в который ставится логотип при экспорте',
+  'brand.cornerTopLeft': 'Вверху слева',
+  'brand.cornerTopRight': 'Вверху справа',
+  'brand.cornerBottomLeft': 'Внизу слева',
+  'brand.cornerBottomRight': 'Внизу справа',
+  'brand.removeConfirm': 'Удалить фирменный стиль? У готовых инфографик логотип останется.',
+  'brand.remove': 'Удалить стиль',
+  'brand.save': 'Сохранить фирменный стиль',
+
+  'audience.title': 'Профили аудитории',
+  'audience.count': 'Свои аудитории: {count}',
+  'audience.new': 'Новая аудитория',
+  'audience.deleteConfirm': 'Удалить аудиторию «{name}»?',
+  'audience.namePlaceholder': 'Название аудитории, например «Пациенты больницы»',
+  'audience.readingLevel': 'Уровень чтения',
+  'audience.readingLevelPlaceholder': 'например, 6 класс, CEFR B1',
+  'audience.maxWords': 'Макс. слов в подписи',
+  'audience.wordsPerLabel': '≤ {count} слов в подписи',
+  'audience.vocabulary': 'Лексика',
+  'audience.vocabularyPlaceholder': 'например, бытовые слова; медицинские термины пояснять в скобках; без сокращений',
+  'audience.visual': 'Визуальные правила',
+  'audience.visualPlaceholder': 'например, пронумерованные шаги, крупные пиктограммы, красный только для предупреждений',
+  'audience.save': 'Сохранить аудиторию',
+  'audience.empty': 'Своих аудиторий пока нет',
+
+  'batch.title': 'Пакетная генерация',
+  'batch.summary': 'Готово {done}/{total} · {model} · {size}',
+  'batch.hide': 'Скрыть (очередь продолжит работу)',
+  'batch.placeholder': 'Одна тема на строку или строки CSV: topic,level,style,language,aspectRatio\nТемы с запятыми берите в кавычки. Массивы JSON тоже подходят.',
+  'batch.add': 'Добавить в очередь',
+  'batch.import': 'Импорт CSV / JSON',
+  'batch.parallel': 'Параллельно',
+  'batch.error.missingTopic': 'Строка {row}: не указана тема',
+  'batch.error.unknownValue': 'Строка {row}: неизвестное значение {field} «{value}» (ожидается одно из: {expected})',
+  'batch.error.invalidJson': 'Недопустимый JSON: {value}',
+  'batch.error.notArray': 'JSON должен быть массивом тем или объектом с массивом "topics"',
+  'batch.status.queued': 'В очереди',
+  'batch.status.researching': 'Исследование',
+  'batch.status.rendering': 'Отрисовка',
+  'batch.status.done': 'Готово',
+  'batch.status.failed': 'Ошибка',
+  'batch.retry': 'Повторить',
+  'batch.remove': 'Убрать',
+  'batch.empty': 'Очередь пуста',
+  'batch.retryFailed': 'Повторить неудачные ({count})',
+  'batch.downloadAll': 'Скачать все ({count})',
+  'batch.running': 'Выполняется...',
+  'batch.start': 'Запустить ({count})',
+  'overlay.hint': 'Выберите элемент на изображении, чтобы настроить его. Перетаскивайте для перемещения; маркерами меняйте размер текстовых полей или концы стрелок.',
+
+  'history.title': 'Архив сеанса',
+  'history.selected': 'Выбрано: {count}',
+  'history.pdfTitle': 'Скачать раздаточный материал в PDF',
+  'history.pptxTitle': 'Скачать презентацию PowerPoint',
+  'history.cancelSelection': 'Отменить выбор',
+  'history.select': 'Выбрать',
+  'history.selectTitle': 'Выберите инфографику для экспорта в PDF или в презентацию',
+  'history.clear': 'Очистить всё',
+  'history.clearTitle': 'Удалить всю сохранённую инфографику',
+  'history.clearConfirm': 'Удалить всю сохранённую инфографику? Это действие нельзя отменить.',
+  'history.openTranslation': 'Открыть версию: {language}',
+
+  'export.sources': 'Источники',
+  'export.sourcesContinued': 'Источники (продолжение)',
+  'export.topic': 'Тема: {topic}',
+
+  'usage.overBudgetConfirm': 'Будет превышен бюджет сеанса {limit}: уже потрачено {spent} и около {estimate} на этот запуск. Всё равно продолжить?',
+  'usage.title': 'Использование и расходы',
+  'usage.subtitle': 'Каждый вызов модели по ценам из таблицы ниже',
+  'usage.session': 'Эта сессия',
+  'usage.today': 'Сегодня',
+  'usage.allTime': 'За всё время',
+  'usage.budget': 'Бюджет сессии',
+  'usage.noLimit': 'Без лимита (USD)',
+  'usage.modeWarn': 'Предупреждать перед превышением',
+  'usage.modeBlock': 'Блокировать генерации сверх бюджета',
+  'usage.spentOf': 'Потрачено {spent} из {limit} за сессию',
+  'usage.byDay': 'По дням',
+  'usage.byModel': 'По моделям',
+  'usage.byOperation': 'По операциям',
+  'usage.day': 'День',
+  'usage.model': 'Модель',
+  'usage.operation': 'Операция',
+  'usage.empty': 'Использование пока не записано.',
+  'usage.calls': 'Вызовы',
+  'usage.inputTokens': 'Входные токены',
+  'usage.outputTokens': 'Выходные токены',
+  'usage.images': 'Изображения',
+  'usage.cost': 'Стоимость',
+  'usage.prices': 'Цены (USD)',
+  'usage.resetPrices': 'Сбросить по умолчанию',
+  'usage.pricesHelp': 'Новые цены применяются к будущим вызовам; записанные расходы не меняются.',
+  'usage.priceInput': 'Вход / 1 млн',
+  'usage.priceOutput': 'Выход / 1 млн',
+  'usage.priceImage': 'За изображение',
+  'usage.clear': 'Очистить историю',
+  'usage.clearConfirm': 'Удалить всю историю использования? Уже понесённые расходы это не затронет.',
+  'usage.save': 'Сохранить настройки',
+  'usage.op.research': 'Исследование',
+  'usage.op.image': 'Изображение',
+  'usage.op.edit': 'Правка',
+  'usage.op.translate': 'Перевод',
+  'usage.op.chat': 'Чат',
+  'usage.op.analysis': 'Анализ',
+  'usage.op.transcription': 'Транскрипция',
+  'usage.op.speech': 'Озвучивание',
+
+  'chat.title': 'Чат InfoGenius',
+  'chat.greeting': 'Привет! Я InfoGenius. Чем помочь вам сегодня с исследованием или визуализацией?',
+  'chat.you': 'Вы',
+  'chat.exported': 'Экспортировано {date}',
+  'chat.open': 'Открыть чат',
+  'chat.minimize': 'Свернуть чат',
+  'chat.newConversation': 'Новый разговор',
+  'chat.savedConversations': 'Сохранённые разговоры',
+  'chat.exportTranscript': 'Экспортировать переписку',
+  'chat.grounded': 'С опорой на инфографику',
+  'chat.contextOff': 'Контекст выключен',
+  'chat.contextSummary': 'Фактов: {facts} · Источников: {sources}',
+  'chat.stopContext': 'Не использовать эту инфографику как контекст',
+  'chat.useContext': 'Использовать эту инфографику как контекст',
+  'chat.noConversations': 'Нет сохранённых разговоров',
+  'chat.messageCount': 'Сообщений: {count}',
+  'chat.deleteConversation': 'Удалить разговор',
+  'chat.noResponse': 'Не удалось сформировать ответ.',
+  'chat.error': 'Извините, произошла ошибка. Попробуйте ещё раз.',
+  'chat.askInfographic': 'Спросите об этой инфографике...',
+  'chat.askAnything': 'Спросите что угодно...',
+  'chat.send': 'Отправить'
+};
@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Messages } from './en';
+
+export const zh: Messages = {
+  'common.on': '开',
+  'common.off': '关',
+  'common.builtIn': '内置',
+  'common.custom': '自定义',
+  'common.cancel': '取消',
+  'common.close': '关闭',
+  'common.edit': '编辑',
+  'common.duplicate': '复制',
+  'common.delete': '删除',
+  'common.importJson': '导入 JSON',
+  'common.exportJson': '导出 JSON',
+
+  'intro.tagline': '知识，一目了然。',
+  'intro.groundingBadge': '现已支持 Google 搜索事实依据',
+  'intro.enter': '启动系统',
+  'intro.skip': '跳过介绍',
+
+  'header.tagline': '可视化知识引擎',
+  'header.mock': '离线模拟',
+  'header.mockTitle': 'AI_PROVIDER=mock：响应为预设的占位内容',
+  'header.brandKit': '品牌套件',
+  'header.sources': '研究来源名单',
+  'header.batch': '批量生成',
+  'header.usage': '用量与费用（本次会话 {spent}）',
+  'header.theme': '切换浅色/深色模式',
+  'header.uiLanguage': '界面语言',
+
+  'key.badge': '付费应用',
+  'key.title': '需要付费 API 密钥',
+  'key.body': '高级生成功能需要付费的 Gemini API 密钥。',
+  'key.billing': '请选择一个已启用结算的 Google Cloud 项目以继续。',
+  'key.select': '选择付费 API 密钥',
+
+  'hero.badge': '集成搜索、地图与 Nano Banana Pro 合成',
+  'hero.titleTop': '解码',
+  'hero.titleBottom': '现实。',
+
+  'form.topicPlaceholder': '你想可视化什么？',
+  'form.questionPlaceholder': '针对这张图片的具体问题...',
+  'form.contextPlaceholder': '补充说明（例如“查找安全漏洞”“识别文字”）',
+  'form.record': '语音转文字',
+  'form.stopRecording': '停止录音',
+  'form.upload': '上传图片进行视觉分析',
+  'form.removeImage': '移除图片',
+  'form.preview': '待分析的图像',
+  'form.engine': '引擎',
+  'form.size': '尺寸',
+  'form.ratio': '比例',
+  'form.audience': '受众',
+  'form.manageAudiences': '管理受众配置',
+  'form.aesthetic': '风格',
+  'form.manageStyles': '管理风格预设',
+  'form.language': '语言',
+  'form.languageTitle': '研究事实和信息图标注所用的语言',
+  'form.variants': '变体',
+  'form.variantsSingle': '单张',
+  'form.variantsCount': '{count} 个变体',
+  'form.review': '审阅',
+  'form.reviewTitle': '研究完成后暂停，在渲染前编辑事实和图像提示词',
+  'form.cache': '缓存',
+  'form.cacheTitle': '复用近期相同请求的研究结果和图像。关闭后始终调用模型；新结果仍会刷新缓存',
+  'form.brand': '品牌',
+  'form.brandApply': '将品牌套件应用于本次生成',
+  'form.brandSetUp': '设置品牌套件',
+  'form.brandSetUpShort': '设置',
+  'form.analyze': '分析',
+  'form.initiate': '开始',
+
+  'model.flash': 'Flash（快速）',
+  'model.pro': 'Pro（Nano Banana Pro）',
+  'model.imagen': 'Imagen 4（创意）',
+  'size.1K': '1K（标准）',
+  'size.2K': '2K（高清）',
+  'size.4K': '4K（超高清）',
+  'ratio.16:9': '16:9 宽屏',
+  'ratio.1:1': '1:1 方形',
+  'ratio.9:16': '9:16 手机',
+  'level.Elementary': '小学',
+  'level.High School': '高中',
+  'level.College': '大学',
+  'level.Expert': '专家',
+  'style.Default': '标准',
+  'style.Geometric Patterns': '几何图案',
+  'style.Minimalist': '极简',
+  'style.Realistic': '写实',
+  'style.Cartoon': '图像小说',
+  'style.Vintage': '复古石版画',
+  'style.Futuristic': '赛博朋克',
+  'style.3D Render': '3D 等距',
+  'style.Sketch': '蓝图',
+
+  'status.transcribing': '正在转写音频...',
+  'status.analyzing': '正在分析图片内容...',
+  'status.researching': '正在通过搜索和地图研究主题...',
+  'status.designing': '正在设计信息图（{size}）...',
+  'status.designingVariants': '正在设计 {count} 个变体（{size}）...',
+  'status.editingRegion': '正在编辑标记区域：“{instruction}”...',
+  'status.modifying': '正在应用修改：“{instruction}”...',
+  'status.translating': '正在翻译为{language}（第 {current}/{total} 个）...',
+
+  'error.emptyTopic': '请输入主题或上传要分析的图片。',
+  'error.storageFull': '浏览器存储空间已满。刷新后将不会保留此信息图。',
+  'error.transcription': '转写失败，请重试。',
+  'error.microphone': '麦克风访问被拒绝或不可用。',
+  'error.accessDenied': '访问被拒绝。Pro 功能需要付费的 Gemini API 密钥，请重新选择密钥。',
+  'error.invalidPlan': '研究返回了无法使用的方案（{issue}），请重试。',
+  'error.unavailable': '服务暂时不可用，请重试。',
+  'error.quota': '已达到请求频率或配额上限。请稍等一分钟后重试，或检查 API 密钥所属项目的配额。',
+  'error.safety': '请求被安全过滤器拦截。请换一种方式描述主题或指令后重试。',
+  'error.badRequest': '请求因无效被拒绝。请尝试其他模型或尺寸，或缩短提示词。',
+  'error.emptyOutput': '模型没有返回结果。请重试或换一种方式描述请求。',
+  'error.editFailed': '修改失败，请尝试其他指令。',
+  'error.translateFailed': '翻译失败，请重试。',
+  'error.deckExport': '无法生成 {format} 导出文件，请重试。',
+  'error.imageDownload': '无法准备图像下载，请重试。',
+  'error.packageExport': '无法生成导出包，请重试。',
+  'error.batchArchive': '无法打包已完成的信息图，请重试。',
+  'error.saveStylePresets': '无法保存风格预设，刷新后将会丢失。',
+  'error.saveAudienceProfile': '无法保存受众配置，刷新后将会丢失。',
+  'error.saveBrandKit': '无法保存品牌套件，刷新后将会丢失。',
+  'error.saveSourcePolicy': '无法保存来源名单。重新加载后将丢失。',
+  'error.saveUsageSettings': '无法保存用量设置。重新加载后将丢失。',
+  'error.clearHistory': '无法清除已保存的历史记录，请重试。',
+  'error.clearUsage': '无法清除已记录的用量。请重试。',
+  'error.overBudget': '已阻止：这将超出本次会话 {limit} 的预算（已花费 {spent}，还需约 {estimate}）。请在“用量与费用”中提高上限后继续。',
+
+  'loading.linkActive': '神经链接已激活',
+  'loading.complete': '已完成 {percent}%',
+  'loading.synthesizing': '正在整合洞见...',
+  'loading.phaseResearch': '研究',
+  'loading.phaseSynthesis': '合成',
+  'loading.phaseRender': '渲染',
+  'loading.sources': '{count} 个来源',
+  'loading.cancel': '取消',
+
+  'progress.location': '正在获取位置以用于地图依据...',
+  'progress.researchSent': '已发送研究请求...',
+  'progress.groundingReceived': '已收到 {count} 个依据来源',
+  'progress.factsParsed': '已解析 {count} 条事实',
+  'progress.imageSent': '已发送图像请求...',
+  'progress.imageDecoded': '图像已解码',
+
+  'analysis.sourceImage': '原始图片',
+  'analysis.title': '视觉智能',
+  'analysis.subtitle': '神经合成报告',
+  'analysis.listen': '收听分析',
+  'analysis.generatedAt': '生成于 {time}',
+  'analysis.visualise': '将其可视化',
+  'analysis.visualisePrompt': '解释视觉发现：{excerpt}...',
+  'speech.summary': '已为主题“{topic}”生成信息图，分析摘要可供查看。',
+
+  'infographic.readSummary': '朗读摘要',
+  'infographic.fullscreen': '全屏查看',
+  'infographic.logoOnExport': '导出时添加标志：{state}',
+  'infographic.editOverlay': '编辑文字叠加层',
+  'infographic.download': '下载图像',
+  'infographic.exportPackage': '导出资料包（图像、元数据、事实、来源）',
+  'infographic.editPlaceholder': '优化画面（例如“把背景改成星空”）...',
+  'infographic.enhanceEmpty': '请输入优化指令',
+  'infographic.enhanceTitle': '优化图像',
+  'infographic.enhance': '优化',
+  'infographic.promptCaption': '提示词：{prompt}',
+  'infographic.editCaption': '编辑：{instruction}',
+  'infographic.translationCaption': '译文：{language}',
+  'infographic.zoomOut': '缩小',
+  'infographic.resetZoom': '重置缩放',
+  'infographic.zoomIn': '放大',
+  'infographic.editRegion': '编辑局部区域',
+  'infographic.closeFullscreen': '退出全屏',
+  'infographic.fromCacheBoth': '来自缓存：研究和图像',
+  'infographic.fromCacheResearch': '来自缓存：研究',
+  'infographic.fromCacheImage': '来自缓存：图像',
+  'infographic.translate': '翻译',
+  'infographic.translateInto': '翻译为',
+  'infographic.translateIntoCount': '翻译为 {count} 种语言',
+
+  'plan.title': '审阅研究方案',
+  'plan.discardTitle': '放弃方案',
+  'plan.titleLabel': '标题',
+  'plan.facts': '事实（{count}）',
+  'plan.addFact': '添加事实',
+  'plan.factPlaceholder': '输入一条事实...',
+  'plan.confidence': '研究模型给出的置信度',
+  'plan.moveUp': '上移',
+  'plan.moveDown': '下移',
+  'plan.removeFact': '删除事实',
+  'plan.imagePrompt': '图像提示词',
+  'plan.sources': '来源（{count}）',
+  'plan.removeSource': '删除来源',
+  'plan.discard': '放弃',
+  'plan.approve': '批准并渲染（{engine}）',
+  'plan.engineFlash': 'Flash',
+  'plan.enginePro': 'Pro {size}',
+  'plan.engineImagen': 'Imagen 4',
+
+  'versions.title': '版本树',
+  'versions.current': '当前版本：编辑将从这里分支',
+  'versions.show': '显示此版本并在其基础上编辑',
+  'versions.original': '原始版本',
+  'versions.editing': '编辑中',
+  'versions.compare': '与上一版本比较',
+  'versions.editLabel': '编辑：',
+  'versions.before': '之前',
+  'versions.after': '之后',
+  'versions.close': '关闭比较',
+
+  'sources.title': '研究来源',
+  'sources.maps': 'Google 地图',
+  'sources.external': '外部来源',
+  'sources.tier.academic': '学术',
+  'sources.tier.government': '政府',
+  'sources.tier.encyclopedic': '百科',
+  'sources.tier.news': '新闻',
+  'sources.tier.other': '其他',
+  'sources.type.web': '网页',
+  'sources.type.maps': '地图',
+  'sources.all': '全部（{count}）',
+  'sources.filterCount': '{label}（{count}）',
+  'sources.sortLabel': '来源排序',
+  'sources.sortRelevance': '排序：相关性',
+  'sources.sortCredibility': '排序：可信度',
+
+  'policy.title': '研究来源',
+  'policy.subtitle': '研究可以和不可以依赖的域名',
+  'policy.help': '每行一个域名，包含其子域名。列表会传给研究模型，列表之外的网页来源会从结果中移除。地图地点始终保留。',
+  'policy.allow': '允许的域名（{count}）',
+  'policy.allowPlaceholder': '留空则允许所有域名\n例如 nature.com\nwho.int',
+  'policy.deny': '屏蔽的域名（{count}）',
+  'policy.denyPlaceholder': '例如 example-content-farm.com',
+  'policy.clear': '清空列表',
+  'policy.save': '保存列表',
+
+  'variants.title': '选择一个变体',
+  'variants.discardAll': '放弃所有变体',
+  'variants.label': '变体 {number}',
+  'variants.main': '主图',
+  'variants.keepTitle': '同时在历史记录中保留此变体',
+  'variants.keep': '保留',
+  'variants.keeping': '将保留',
+  'variants.useSelected': '使用所选',
+  'variants.useSelectedKeep': '使用所选并保留 {count} 个',
+
+  'mask.brush': '画笔',
+  'mask.rect': '矩形',
+  'mask.eraser': '橡皮擦',
+  'mask.brushSize': '画笔大小',
+  'mask.clear': '清除蒙版',
+  'mask.describe': '描述标记区域要做的修改...',
+  'mask.paintFirst': '涂抹或框选要修改的区域',
+  'mask.apply': '编辑区域',
+
+  'overlay.text': '文本',
+  'overlay.callout': '标注',
+  'overlay.arrow': '箭头',
+  'overlay.defaultText': '标签',
+  'overlay.defaultCallout': '标注',
+  'overlay.fromFactsTitle': '为每条研究事实添加一个文本框',
+  'overlay.fromFacts': '来自事实（{count}）',
+  'overlay.save': '保存叠加层',
+  'overlay.font': '字体',
+  'overlay.weight': '粗细',
+  'overlay.size': '大小',
+  'overlay.color': '颜色',
+  'overlay.fill': '填充',
+  'overlay.align': '对齐',
+  'overlay.alignLeft': '左对齐',
+  'overlay.alignCenter': '居中',
+  'overlay.alignRight': '右对齐',
+  'overlay.delete': '删除元素',
+  'overlay.resize': '拖动以调整大小',
+
+  'styles.title': '风格预设',
+  'styles.count': '自定义风格：{count}',
+  'styles.new': '新建风格',
+  'styles.imported': '已导入风格：{count}。',
+  'styles.deleteConfirm': '删除风格“{name}”？',
+  'styles.namePlaceholder': '风格名称，例如：我们的品牌风格',
+  'styles.instructionPlaceholder': '描述风格：配色、绘制手法、字体、氛围...',
+  'styles.referenceAlt': '风格参考',
+  'styles.removeReference': '移除参考图',
+  'styles.addReference': '参考图（可选）',
+  'styles.save': '保存风格',
+  'styles.empty': '暂无自定义风格',
+
+  'brand.title': '品牌套件',
+  'brand.subtitle': '应用于研究、图像提示词和导出',
+  'brand.name': '品牌名称',
+  'brand.namePlaceholder': '例如：Northwind Learning',
+  'brand.palette': '配色（{count}/{max}）',
+  'brand.removeColor': '移除颜色',
+  'brand.addColor': '添加颜色',
+  'brand.typography': '字体',
+  'brand.typographyPlaceholder': '例如：粗体几何无衬线标题，轻盈的人文主义正文',
+  'brand.tone': '语气',
+  'brand.tonePlaceholder': '例如：温暖、直白、鼓舞人心；不用行话',
+  'brand.logo': '标志',
+  'brand.logoAlt': '品牌标志',
+  'brand.removeLogo': '移除标志',
+  'brand.uploadLogo': '上传标志（最好是透明背景的 PNG）',
+  'brand.cornerTitle': '导出时标志所在的角落',
+  'brand.cornerTopLeft': '左上',
+  'brand.cornerTopRight': '右上',
+  'brand.cornerBottomLeft': '左下',
+  'brand.cornerBottomRight': '右下',
+  'brand.removeConfirm': '移除品牌套件？现有信息图会保留其标志。',
+  'brand.remove': '移除套件',
+  'brand.save': '保存品牌套件',
+
+  'audience.title': '受众档案',
+  'audience.count': '自定义受众：{count}',
+  'audience.new': '新建受众',
+  'audience.deleteConfirm': '删除受众“{name}”？',
+  'audience.namePlaceholder': '受众名称，例如：住院患者',
+  'audience.readingLevel': '阅读水平',
+  'audience.readingLevelPlaceholder': '例如：六年级，CEFR B1',
+  'audience.maxWords': '每个标签最多词数',
+  'audience.wordsPerLabel': '每个标签 ≤ {count} 词',
+  'audience.vocabulary': '词汇',
+  'audience.vocabularyPlaceholder': '例如：日常用语；医学术语在括号中解释；不使用缩写',
+  'audience.visual': '视觉规范',
+  'audience.visualPlaceholder': '例如：编号步骤、大号图标、红色仅用于警告',
+  'audience.save': '保存受众',
+  'audience.empty': '暂无自定义受众',
+
+  'batch.title': '批量生成',
+  'batch.summary': '已完成 {done}/{total} · {model} · {size}',
+  'batch.hide': '隐藏（队列会继续运行）',
+  'batch.placeholder': '每行一个主题，或 CSV 行：topic,level,style,language,aspectRatio\n包含逗号的主题请加引号。也支持 JSON 数组。',
+  'batch.add': '加入队列',
+  'batch.import': '导入 CSV / JSON',
+  'batch.parallel': '并行',
+  'batch.error.missingTopic': '第 {row} 行：缺少主题',
+  'batch.error.unknownValue': '第 {row} 行：未知的 {field}“{value}”（应为 {expected} 之一）',
+  'batch.error.invalidJson': 'JSON 无效：{value}',
+  'batch.error.notArray': 'JSON 必须是主题数组，或包含 "topics" 数组的对象',
+  'batch.status.queued': '排队中',
+  'batch.status.researching': '研究中',
+  'batch.status.rendering': '渲染中',
+  'batch.status.done': '完成',
+  'batch.status.failed': '失败',
+  'batch.retry': '重试',
+  'batch.remove': '移除',
+  'batch.empty': '队列为空',
+  'batch.retryFailed': '重试失败项（{count}）',
+  'batch.downloadAll': '全部下载（{count}）',
+  'batch.running': '运行中...',
+  'batch.start': '开始（{count}）',
+  'overlay.hint': '选择图像上的元素以设置样式。拖动可移动；使用手柄调整文本框大小或移动箭头端点。',
+
+  'history.title': '会话存档',
+  'history.selected': '已选 {count} 项',
+  'history.pdfTitle': '下载 PDF 讲义',
+  'history.pptxTitle': '下载 PowerPoint 演示文稿',
+  'history.cancelSelection': '取消选择',
+  'history.select': '选择',
+  'history.selectTitle': '选择要导出为 PDF 讲义或幻灯片的信息图',
+  'history.clear': '全部清除',
+  'history.clearTitle': '删除所有已保存的信息图',
+  'history.clearConfirm': '删除所有已保存的信息图？此操作无法撤销。',
+  'history.openTranslation': '打开{language}版本',
+
+  'export.sources': '来源',
+  'export.sourcesContinued': '来源（续）',
+  'export.topic': '主题：{topic}',
+
+  'usage.overBudgetConfirm': '这将超出本次会话 {limit} 的预算：目前已花费 {spent}，本次运行还需约 {estimate}。仍要继续吗？',
+  'usage.title': '用量与费用',
+  'usage.subtitle': '每次模型调用，均按下表计价',
+  'usage.session': '本次会话',
+  'usage.today': '今天',
+  'usage.allTime': '全部',
+  'usage.budget': '会话预算',
+  'usage.noLimit': '无上限（美元）',
+  'usage.modeWarn': '超出前提醒',
+  'usage.modeBlock': '阻止会超出预算的生成',
+  'usage.spentOf': '本次会话已花费 {spent}，预算 {limit}',
+  'usage.byDay': '按天',
+  'usage.byModel': '按模型',
+  'usage.byOperation': '按操作',
+  'usage.day': '日期',
+  'usage.model': '模型',
+  'usage.operation': '操作',
+  'usage.empty': '尚无用量记录。',
+  'usage.calls': '调用次数',
+  'usage.inputTokens': '输入 Token',
+  'usage.outputTokens': '输出 Token',
+  'usage.images': '图像',
+  'usage.cost': '费用',
+  'usage.prices': '价格（美元）',
+  'usage.resetPrices': '恢复默认',
+  'usage.pricesHelp': '新价格仅适用于之后的调用；已记录的费用保持不变。',
+  'usage.priceInput': '输入 / 100万',
+  'usage.priceOutput': '输出 / 100万',
+  'usage.priceImage': '每张图像',
+  'usage.clear': '清除用量',
+  'usage.clearConfirm': '删除所有用量记录？已产生的费用不受影响。',
+  'usage.save': '保存设置',
+  'usage.op.research': '研究',
+  'usage.op.image': '图像',
+  'usage.op.edit': '编辑',
+  'usage.op.translate': '翻译',
+  'usage.op.chat': '聊天',
+  'usage.op.analysis': '分析',
+  'usage.op.transcription': '转写',
+  'usage.op.speech': '语音',
+
+  'chat.title': 'InfoGenius 聊天',
+  'chat.greeting': '你好！我是 InfoGenius。今天有什么研究或图像方面的问题需要帮忙吗？',
+  'chat.you': '你',
+  'chat.exported': '导出于 {date}',
+  'chat.open': '打开聊天',
+  'chat.minimize': '最小化聊天',
+  'chat.newConversation': '新对话',
+  'chat.savedConversations': '已保存的对话',
+  'chat.exportTranscript': '导出对话记录',
+  'chat.grounded': '基于当前信息图',
+  'chat.contextOff': '上下文已关闭',
+  'chat.contextSummary': '{facts} 条事实 · {sources} 个来源',
+  'chat.stopContext': '不再使用此信息图作为上下文',
+  'chat.useContext': '使用此信息图作为上下文',
+  'chat.noConversations': '没有已保存的对话',
+  'chat.messageCount': '{count} 条消息',
+  'chat.deleteConversation': '删除对话',
+  'chat.noResponse': '我无法生成回复。',
+  'chat.error': '抱歉，出现了错误，请重试。',
+  'chat.askInfographic': '询问有关此信息图的问题...',
+  'chat.askAnything': '问我任何问题...',
+  'chat.send': '发送'
+};
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AudienceProfile } from "../types";
+
+// Prefix that marks a profile in the Audience selector, whose other values are ComplexityLevel names
+export const AUDIENCE_PROFILE_PREFIX = 'audience:';
+
+export const MIN_WORDS_PER_LABEL = 2;
+export const MAX_WORDS_PER_LABEL = 40;
+
+export const createAudienceProfileId = (): string => `audience-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createAudienceProfile = (patch: Partial<AudienceProfile> = {}): AudienceProfile => {
+  const now = Date.now();
+  return {
+    id: createAudienceProfileId(),
+    name: '',
+    readingLevel: '',
+    maxWordsPerLabel: 8,
+    vocabulary: '',
+    visualConventions: '',
+    createdAt: now,
+    updatedAt: now,
+    ...patch
+  };
+};
+
+export const duplicateAudienceProfile = (profile: AudienceProfile, existing: AudienceProfile[]): AudienceProfile => {
+  const names = new Set(existing.map(p => p.name));
+  let name = `${profile.name} (copy)`;
+  for (let i = 2; names.has(name); i++) name = `${profile.name} (copy ${i})`;
+  const { id, createdAt, updatedAt, ...rest } = profile;
+  return createAudienceProfile({ ...rest, name });
+};
+
+export const clampWordsPerLabel = (value: number): number => {
+  if (!Number.isFinite(value)) return MIN_WORDS_PER_LABEL;
+  return Math.min(MAX_WORDS_PER_LABEL, Math.max(MIN_WORDS_PER_LABEL, Math.round(value)));
+};
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio, ComplexityLevel, Language, VisualStyle } from "../types";
+
+const LEVELS: ComplexityLevel[] = ['Elementary', 'High School', 'College', 'Expert'];
+const STYLES: VisualStyle[] = ['Default', 'Minimalist', 'Realistic', 'Cartoon', 'Vintage', 'Futuristic', '3D Render', 'Sketch', 'Geometric Patterns'];
+const LANGUAGES: Language[] = ['English', 'Spanish', 'French', 'German', 'Mandarin', 'Japanese', 'Hindi', 'Arabic', 'Portuguese', 'Russian'];
+const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1'];
+
+// Column order used when a CSV has no header row
+const CSV_COLUMNS = ['topic', 'level', 'style', 'language', 'aspectRatio'];
+
+// A topic with the per-row overrides it specified; anything missing falls back to the form settings
+export interface BatchRow {
+  topic: string;
+  level?: ComplexityLevel;
+  style?: VisualStyle;
+  language?: Language;
+  aspectRatio?: AspectRatio;
+}
+
+// Parse problems are returned as data so the panel can word them in the UI language
+export type BatchParseErrorCode = 'missingTopic' | 'unknownValue' | 'invalidJson' | 'notArray';
+
+export interface BatchParseError {
+  code: BatchParseErrorCode;
+  row?: number; // 1-based, counting data rows only
+  field?: keyof BatchRow;
+  value?: string;
+  expected?: string[];
+}
+
+export interface BatchParseResult {
+  rows: BatchRow[];
+  errors: BatchParseError[];
+}
+
+const matchOption = <T extends string>(options: T[], value: unknown): T | undefined => {
+  if (typeof value !== 'string') return undefined;
+  return options.find(o => o.toLowerCase() === value.trim().toLowerCase());
+};
+
+const toRow = (raw: Record<string, unknown>, row: number, errors: BatchParseError[]): BatchRow | null => {
+  const topic = typeof raw.topic === 'string' ? raw.topic.trim() : '';
+  if (!topic) {
+    errors.push({ code: 'missingTopic', row });
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const readOption = <T extends string>(field: keyof BatchRow, options: T[]): T | undefined => {
+    const value = raw[field];
+    if (value === undefined || value === null || value === '') return undefined;
+    const match = matchOption(options, value);
+    if (!match) errors.push({ code: 'unknownValue', row, field, value: String(value), expected: options });
+    return match;
+  };
+  const result: BatchRow = {
+    topic,
+    level: readOption('level', LEVELS),
+    style: readOption('style', STYLES),
+    language: readOption('language', LANGUAGES),
+    aspectRatio: readOption('aspectRatio', ASPECT_RATIOS)
+  };
+  // Rows with invalid settings are skipped rather than silently falling back to defaults
+  return errors.length === errorCount ? result : null;
+};
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, newlines and doubled quotes
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  record.push(field);
+  records.push(record);
+
+  return records.filter(r => r.some(f => f.trim()));
+};
+
+export const parseBatchCsv = (text: string): BatchParseResult => {
+  const errors: BatchParseError[] = [];
+  const records = parseCsvRecords(text);
+  if (records.length === 0) return { rows: [], errors };
+
+  const header = records[0].map(h => h.trim().toLowerCase());
+  const hasHeader = header.includes('topic');
+  const columns = hasHeader
+    ? header.map(h => CSV_COLUMNS.find(c => c.toLowerCase() === h.replace(/[\s_-]/g, '').toLowerCase()) || h)
+    : CSV_COLUMNS;
+
+  const rows: BatchRow[] = [];
+  records.slice(hasHeader ? 1 : 0).forEach((record, i) => {
+    const raw: Record<string, unknown> = {};
+    columns.forEach((column, c) => { raw[column] = record[c]?.trim(); });
+    const row = toRow(raw, i + 1, errors);
+    if (row) rows.push(row);
+  });
+  return { rows, errors };
+};
+
+// Accepts an array of topic strings or row objects, optionally wrapped as { "topics": [...] }
+export const parseBatchJson = (text: string): BatchParseResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { rows: [], errors: [{ code: 'invalidJson', value: e instanceof Error ? e.message : String(e) }] };
+  }
+
+  const list = Array.isArray(data) ? data : Array.isArray(data?.topics) ? data.topics : null;
+  if (!list) return { rows: [], errors: [{ code: 'notArray' }] };
+
+  const errors: BatchParseError[] = [];
+  const rows: BatchRow[] = [];
+  list.forEach((entry: unknown, i: number) => {
+    const raw = typeof entry === 'string' ? { topic: entry } : entry && typeof entry === 'object' ? entry as Record<string, unknown> : {};
+    const row = toRow(raw, i + 1, errors);
+    if (row) rows.push(row);
+  });
+  return { rows, errors };
+};
+
+// Textarea input: JSON if it looks like JSON, otherwise CSV (a plain list is a one-column CSV)
+export const parseBatchInput = (text: string): BatchParseResult => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return parseBatchJson(trimmed);
+  return parseBatchCsv(trimmed);
+};
+
+// Runs worker over items with at most `limit` in flight; workers handle their own errors.
+// Once the signal aborts no further items are started; those in flight are left to the worker.
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+};
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BrandKit } from "../types";
+
+export const BRAND_KIT_SETTING = 'brandKit';
+
+export const MAX_PALETTE_COLORS = 6;
+
+// Logos are copied onto every branded image, so keep them small; PNG keeps transparency
+const MAX_LOGO_DIMENSION = 512;
+
+export const createBrandKit = (): BrandKit => ({
+  name: '',
+  palette: [],
+  typography: '',
+  tone: '',
+  logoCorner: 'bottom-right'
+});
+
+// A kit with nothing in it would only add an empty heading to prompts
+export const isBrandKitConfigured = (kit: BrandKit | null | undefined): kit is BrandKit => {
+  return !!kit && (kit.palette.length > 0 || !!kit.typography.trim() || !!kit.tone.trim() || !!kit.logo);
+};
+
+export const normalizeHex = (value: string): string | null => {
+  const hex = value.trim().replace(/^#/, '').toLowerCase();
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.split('').map(c => c + c).join('')}`;
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex}`;
+  return null;
+};
+
+export const prepareLogo = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Could not read the logo file"));
+    reader.onload = () => {
+      const img = new Image();
+      img.onerror = () => reject(new Error("The logo file is not a supported image"));
+      img.onload = () => {
+        const scale = Math.min(1, MAX_LOGO_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/png'));
+      };
+      img.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+};
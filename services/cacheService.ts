@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CacheKind, RenderSettings, ResearchRequest } from "../types";
+import { getProviderName } from "./geminiService";
+import { deleteCachedValues, loadCacheIndex, loadCachedValue, saveCachedValue } from "./storageService";
+
+export const CACHE_BYPASS_SETTING = 'cacheBypass';
+
+// Grounded research goes stale as the news moves on; an image rendered from the same prompt does not
+const CACHE_TTL_MS: Record<CacheKind, number> = {
+  research: 24 * 60 * 60 * 1000,
+  image: 7 * 24 * 60 * 60 * 1000
+};
+
+// Measured in JSON characters, which is what IndexedDB ends up storing for base64 images
+const MAX_CACHE_SIZE = 200 * 1024 * 1024;
+
+// History shares the origin quota and cannot be rebuilt, so the cache stays a small part of it
+const MAX_CACHE_QUOTA_SHARE = 0.2;
+
+// Share of the size limit the cache is cut down to when history needs the room
+const CACHE_LOW_WATERMARK = 0.5;
+
+let bypassCache = false;
+let maxCacheSize: Promise<number> | undefined;
+
+export interface CacheHit<T> {
+  value: T;
+  createdAt: number;
+}
+
+export const setCacheBypass = (bypass: boolean): void => {
+  bypassCache = bypass;
+};
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// The provider is part of every key, so canned mock output is never served to a real session
+const getCacheKey = async (kind: CacheKind, inputs: unknown): Promise<string> => {
+  return `${kind}:${await sha256(JSON.stringify([getProviderName(), inputs]))}`;
+};
+
+// Topics differing only in case or spacing share an entry
+export const getResearchCacheKey = (request: ResearchRequest): Promise<string> => getCacheKey('research', {
+  topic: request.topic.trim().replace(/\s+/g, ' ').toLowerCase(),
+  level: request.level,
+  style: request.style,
+  language: request.language,
+  stylePreset: request.stylePreset,
+  brandKit: request.brandKit,
+  audienceProfile: request.audienceProfile,
+  sourcePolicy: request.sourcePolicy
+});
+
+export const getImageCacheKey = (prompt: string, settings: RenderSettings, referenceImage?: string, count: number = 1): Promise<string> => getCacheKey('image', {
+  prompt,
+  model: settings.model,
+  aspectRatio: settings.aspectRatio,
+  size: settings.size,
+  referenceImage,
+  count
+});
+
+// Never throws: a broken cache only costs a fresh call
+export const readCache = async <T>(key: string): Promise<CacheHit<T> | undefined> => {
+  if (bypassCache) return undefined;
+  try {
+    const info = (await loadCacheIndex()).find(entry => entry.key === key);
+    if (!info) return undefined;
+    if (Date.now() - info.createdAt > CACHE_TTL_MS[info.kind]) {
+      await deleteCachedValues([key]);
+      return undefined;
+    }
+    const value = await loadCachedValue<T>(key);
+    return value === undefined ? undefined : { value, createdAt: info.createdAt };
+  } catch (e) {
+    console.warn("Cache read failed:", e);
+    return undefined;
+  }
+};
+
+// The quota is read once; browsers without the storage API get the fixed limit
+const getMaxCacheSize = (): Promise<number> => {
+  maxCacheSize ??= (navigator.storage?.estimate ? navigator.storage.estimate() : Promise.resolve<StorageEstimate>({}))
+    .then(({ quota }) => quota ? Math.min(MAX_CACHE_SIZE, quota * MAX_CACHE_QUOTA_SHARE) : MAX_CACHE_SIZE)
+    .catch(() => MAX_CACHE_SIZE);
+  return maxCacheSize;
+};
+
+// Expired entries go first, then the oldest until the rest fits the limit; returns how many were deleted
+const evictCache = async (limit: (total: number) => number): Promise<number> => {
+  const now = Date.now();
+  const entries = (await loadCacheIndex()).sort((a, b) => b.createdAt - a.createdAt);
+  const max = limit(entries.reduce((sum, entry) => sum + entry.size, 0));
+  const evicted: string[] = [];
+  let total = 0;
+  entries.forEach(entry => {
+    if (now - entry.createdAt > CACHE_TTL_MS[entry.kind] || total + entry.size > max) {
+      evicted.push(entry.key);
+    } else {
+      total += entry.size;
+    }
+  });
+  if (evicted.length) await deleteCachedValues(evicted);
+  return evicted.length;
+};
+
+// Results are stored even while the cache is bypassed, so a bypassed run refreshes the entry
+export const writeCache = async <T>(key: string, kind: CacheKind, value: T): Promise<void> => {
+  try {
+    const max = await getMaxCacheSize();
+    const size = JSON.stringify(value).length;
+    if (size > max) return;
+    await saveCachedValue({ key, kind, size, createdAt: Date.now() }, value);
+    await evictCache(() => max);
+  } catch (e) {
+    console.warn("Cache write failed:", e);
+  }
+};
+
+// Frees room for history after a quota error: down to the low watermark first, then half of what is left
+// on every further call, so repeated calls empty the cache before any saved infographic is dropped.
+// Resolves false once there is nothing left to delete.
+export const trimCache = async (): Promise<boolean> => {
+  try {
+    const max = await getMaxCacheSize();
+    return (await evictCache(total => Math.min(max * CACHE_LOW_WATERMARK, total / 2))) > 0;
+  } catch (e) {
+    console.warn("Cache trim failed:", e);
+    return false;
+  }
+};
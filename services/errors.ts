@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MessageKey } from "../locales/en";
+import { I18n } from "./i18nService";
+import { ResearchValidationError } from "./researchSchema";
+
+export type ServiceErrorKind = 'auth' | 'quota' | 'safety' | 'badRequest' | 'network' | 'emptyOutput' | 'cancelled' | 'unknown';
+
+const DESCRIPTIONS: Record<ServiceErrorKind, string> = {
+  auth: 'The API key was rejected or lacks access to this model',
+  quota: 'Rate limit or quota exceeded',
+  safety: 'Blocked by safety filters',
+  badRequest: 'The request was rejected as invalid',
+  network: 'The service could not be reached',
+  emptyOutput: 'The model returned no output',
+  cancelled: 'The operation was cancelled',
+  unknown: 'The request failed'
+};
+
+// Failures without a category of their own fall back to the message of the action that failed
+const SERVICE_ERROR_MESSAGES: Record<Exclude<ServiceErrorKind, 'unknown' | 'cancelled'>, MessageKey> = {
+  auth: 'error.accessDenied',
+  quota: 'error.quota',
+  safety: 'error.safety',
+  badRequest: 'error.badRequest',
+  network: 'error.unavailable',
+  emptyOutput: 'error.emptyOutput'
+};
+
+const RETRYABLE_KINDS: ServiceErrorKind[] = ['quota', 'network'];
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 16000;
+
+export class ServiceError extends Error {
+  kind: ServiceErrorKind;
+  status?: number;
+  retryAfterMs?: number; // Delay the server asked for before retrying
+
+  constructor(kind: ServiceErrorKind, detail?: string, options: { status?: number, retryAfterMs?: number, cause?: unknown } = {}) {
+    super(detail ? `${DESCRIPTIONS[kind]}: ${detail}` : DESCRIPTIONS[kind]);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+// Gemini puts the gRPC status and, for rate limits, a RetryInfo delay in the JSON body of the message
+const classify = (status: number | undefined, message: string): ServiceErrorKind => {
+  // AI Studio answers 404 "Requested entity was not found" when the selected key has no project
+  if (status === 401 || status === 403 || status === 404 || /API key not valid|PERMISSION_DENIED|UNAUTHENTICATED|Requested entity was not found/i.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) return 'safety';
+  if (status === 400 || /INVALID_ARGUMENT|FAILED_PRECONDITION/.test(message)) return 'badRequest';
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL|Failed to fetch|NetworkError|network|timed? ?out/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const toServiceError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+  if ((error as any)?.name === 'AbortError') return new ServiceError('cancelled', undefined, { cause: error });
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+  const kind = classify(status, message);
+  return new ServiceError(kind, kind === 'unknown' ? message : undefined, { status, retryAfterMs: parseRetryDelay(message), cause: error });
+};
+
+// Exponential backoff with equal jitter, never shorter than what the server asked for
+const getRetryDelay = (attempt: number, retryAfterMs?: number): number => {
+  const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  const jittered = backoff / 2 + Math.random() * backoff / 2;
+  return Math.min(RETRY_MAX_DELAY_MS, Math.max(jittered, retryAfterMs || 0));
+};
+
+export const isCancelled = (error: unknown): boolean => toServiceError(error).kind === 'cancelled';
+
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw new ServiceError('cancelled');
+};
+
+// Resolves after ms, or rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(new ServiceError('cancelled'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new ServiceError('cancelled'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Retries rate limits and transient failures; everything else is rethrown untouched on the first attempt.
+// An aborted signal stops any further attempt, including one waiting out its backoff.
+export const withRetry = async <T>(operation: () => Promise<T>, signal?: AbortSignal, attempts: number = RETRY_ATTEMPTS): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await operation();
+    } catch (e) {
+      throwIfCancelled(signal);
+      const error = toServiceError(e);
+      if (!error.retryable || attempt >= attempts) throw e;
+      console.warn(`${error.message}; retrying (attempt ${attempt + 1} of ${attempts})`);
+      await sleep(getRetryDelay(attempt, error.retryAfterMs), signal);
+    }
+  }
+};
+
+// User-facing message for a failed call, in the UI language
+export const getErrorMessage = (error: unknown, fallback: MessageKey, t: I18n['t']): string => {
+  if (error instanceof ResearchValidationError) return t('error.invalidPlan', { issue: error.issues[0] });
+  const kind = error instanceof ServiceError ? error.kind : 'unknown';
+  return t(kind === 'unknown' || kind === 'cancelled' ? fallback : SERVICE_ERROR_MESSAGES[kind]);
+};
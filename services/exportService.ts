@@ -0,0 +1,380 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from "jszip";
+import { jsPDF } from "jspdf";
+import PptxGenJS from "pptxgenjs";
+import { GeneratedImage, SearchResultItem } from "../types";
+import { I18n } from "./i18nService";
+import { getFinalImagePrompt } from "./prompts";
+import { getSourceTier } from "./sourceService";
+import { flattenOverlays, stampLogo } from "./overlayService";
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+export const getImageMimeType = (dataUrl: string): string => {
+  return dataUrl.match(/^data:([^;]+);base64,/)?.[1] || 'image/png';
+};
+
+export const getImageExtension = (dataUrl: string): string => {
+  return MIME_EXTENSIONS[getImageMimeType(dataUrl)] || 'png';
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: getImageMimeType(dataUrl) });
+};
+
+export const slugify = (text: string, maxLength = 40): string => {
+  const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, maxLength);
+  return slug || 'infographic';
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// The image as it should leave the app: overlays and brand logo burned in, same format as the source
+export const getExportImageData = async (image: GeneratedImage): Promise<string> => {
+  const mimeType = getImageMimeType(image.data);
+  let data = image.data;
+  if (image.overlays?.length) data = await flattenOverlays(data, image.overlays, mimeType);
+  if (image.brandLogo?.enabled) data = await stampLogo(data, image.brandLogo.data, image.brandLogo.corner, mimeType);
+  return data;
+};
+
+// One image per topic, numbered in queue order
+export const buildBatchArchive = async (images: GeneratedImage[]): Promise<Blob> => {
+  const zip = new JSZip();
+  for (const [i, image] of images.entries()) {
+    const data = await getExportImageData(image);
+    zip.file(`${String(i + 1).padStart(2, '0')}-${slugify(image.prompt)}.${getImageExtension(data)}`, dataUrlToBlob(data));
+  }
+  zip.file('topics.json', JSON.stringify(images.map((image, i) => ({
+    index: i + 1,
+    topic: image.prompt,
+    title: image.research?.title,
+    level: image.level,
+    audienceProfile: image.audienceProfile?.name,
+    style: image.style,
+    stylePreset: image.stylePreset?.name,
+    language: image.language,
+    aspectRatio: image.aspectRatio,
+    model: image.model
+  })), null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const escapeBibtex = (text: string): string => text.replace(/([&%$#_{}])/g, '\\$1');
+
+const toBibtexKey = (url: string, index: number): string => {
+  let host = 'source';
+  try {
+    host = new URL(url).hostname.replace(/^www\./, '').split('.')[0] || host;
+  } catch {
+    // Grounding URLs are usually absolute; fall back to a generic key if not
+  }
+  return `${host.replace(/[^a-z0-9]/gi, '')}${index + 1}`;
+};
+
+const buildSourcesMarkdown = (image: GeneratedImage): string => {
+  const sources = image.research?.searchResults || [];
+  const lines = [`# Sources: ${image.research?.title || image.prompt}`, ''];
+  if (sources.length === 0) lines.push('_No sources were recorded for this infographic._');
+  sources.forEach((source, i) => lines.push(`${i + 1}. [${source.title}](${source.url}) (${getSourceTier(source)})`));
+  return lines.join('\n') + '\n';
+};
+
+const buildSourcesBibtex = (image: GeneratedImage): string => {
+  const accessed = new Date(image.timestamp).toISOString().slice(0, 10);
+  return (image.research?.searchResults || []).map((source, i) => [
+    `@misc{${toBibtexKey(source.url, i)},`,
+    `  title = {${escapeBibtex(source.title)}},`,
+    `  howpublished = {\\url{${source.url}}},`,
+    `  note = {Accessed ${accessed}}`,
+    '}'
+  ].join('\n')).join('\n\n') + '\n';
+};
+
+const buildFactsMarkdown = (image: GeneratedImage): string => {
+  const research = image.research;
+  const lines = [`# ${research?.title || image.prompt}`, ''];
+  if (!research || research.facts.length === 0) {
+    lines.push('_No facts were recorded for this infographic._');
+  } else {
+    lines.push('## Key Facts', '');
+    research.facts.forEach((fact, i) => {
+      const confidence = research.factConfidence?.[i];
+      lines.push(`- ${fact}${confidence !== undefined ? ` _(confidence ${Math.round(confidence * 100)}%)_` : ''}`);
+    });
+  }
+  if (research?.sections?.length) {
+    lines.push('', '## Layout Sections', '', ...research.sections.map((section, i) => `${i + 1}. ${section}`));
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Edited images were produced from their parent's prompt plus each edit instruction along the way
+const getEditChain = (image: GeneratedImage, history: GeneratedImage[]): GeneratedImage[] => {
+  const chain: GeneratedImage[] = [];
+  let node: GeneratedImage | undefined = image;
+  while (node) {
+    chain.unshift(node);
+    const parentId: string | undefined = node.parentId;
+    node = parentId ? history.find(h => h.id === parentId) : undefined;
+  }
+  return chain;
+};
+
+const buildPromptText = (image: GeneratedImage, chain: GeneratedImage[]): string => {
+  // Images saved before the prompt was kept are rebuilt without the brand kit, which was not stored with them
+  const base = image.renderPrompt || (image.research ? getFinalImagePrompt(image.research, undefined, image.audienceProfile) : image.prompt);
+  const edits = chain.filter(node => node.editInstruction).map((node, i) => `${i + 1}. ${node.editInstruction}`);
+  return edits.length > 0 ? `${base}\n\nEdit instructions applied in order:\n${edits.join('\n')}\n` : `${base}\n`;
+};
+
+// Everything needed to archive an infographic or hand it to an editor; history resolves edit lineage
+export const buildInfographicPackage = async (image: GeneratedImage, history: GeneratedImage[] = []): Promise<Blob> => {
+  const zip = new JSZip();
+  const chain = getEditChain(image, history);
+  const data = await getExportImageData(image);
+  const imageFile = `${slugify(image.research?.title || image.prompt)}.${getImageExtension(data)}`;
+
+  zip.file(imageFile, dataUrlToBlob(data));
+  zip.file('metadata.json', JSON.stringify({
+    id: image.id,
+    file: imageFile,
+    mimeType: getImageMimeType(data),
+    topic: image.prompt,
+    title: image.research?.title,
+    level: image.level,
+    audienceProfile: image.audienceProfile?.name,
+    style: image.style,
+    stylePreset: image.stylePreset?.name,
+    language: image.language,
+    model: image.model,
+    size: image.size,
+    aspectRatio: image.aspectRatio,
+    timestamp: new Date(image.timestamp).toISOString(),
+    lineage: {
+      parentId: image.parentId,
+      editInstruction: image.editInstruction,
+      variantGroupId: image.variantGroupId,
+      translationOf: image.translationOf,
+      ancestors: chain.slice(0, -1).map(node => ({ id: node.id, editInstruction: node.editInstruction, timestamp: new Date(node.timestamp).toISOString() }))
+    },
+    reviewed: !!image.research?.reviewed,
+    overlays: image.overlays,
+    timings: image.timings,
+    fromCache: image.fromCache
+  }, null, 2));
+  zip.file('facts.md', buildFactsMarkdown(image));
+  zip.file('sources.md', buildSourcesMarkdown(image));
+  zip.file('sources.bib', buildSourcesBibtex(image));
+  zip.file('prompt.txt', buildPromptText(image, chain));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const getImageSize = (dataUrl: string): Promise<{ width: number, height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Could not read image dimensions"));
+    img.src = dataUrl;
+  });
+};
+
+// Largest box with the image's proportions that fits inside the frame, centred in it
+const fitImage = (size: { width: number, height: number }, x: number, y: number, w: number, h: number) => {
+  const scale = Math.min(w / size.width, h / size.height);
+  const width = size.width * scale;
+  const height = size.height * scale;
+  return { x: x + (w - width) / 2, y: y + (h - height) / 2, w: width, h: height };
+};
+
+const getDeckTitle = (image: GeneratedImage): string => image.research?.title || image.prompt;
+
+const getFactLines = (image: GeneratedImage): string[] => (image.research?.facts || []).map(fact => `• ${fact}`);
+
+// Sources from every selected infographic, first occurrence wins
+const collectSources = (images: GeneratedImage[]): SearchResultItem[] => {
+  const byUrl = new Map<string, SearchResultItem>();
+  images.forEach(image => (image.research?.searchResults || []).forEach(source => {
+    if (!byUrl.has(source.url)) byUrl.set(source.url, source);
+  }));
+  return Array.from(byUrl.values());
+};
+
+interface PdfTextStyle {
+  fontSize: number;
+  lineHeight: number;
+  bold?: boolean;
+}
+
+const PDF_IMAGE_FORMATS: Record<string, string> = { png: 'PNG', jpg: 'JPEG', webp: 'WEBP' };
+const PDF_MARGIN = 36;
+const PDF_MAX_CAPTION_LINES = 8;
+const PDF_TITLE_STYLE: PdfTextStyle = { fontSize: 18, lineHeight: 22, bold: true };
+const PDF_CAPTION_STYLE: PdfTextStyle = { fontSize: 9, lineHeight: 11 };
+const PDF_SOURCE_STYLE: PdfTextStyle = { fontSize: 10, lineHeight: 12, bold: true };
+
+// The built-in PDF fonts only encode Latin-1 and a few typographic marks
+const PDF_STANDARD_TEXT = /^[\u0000-\u00ff\u2013\u2014\u2018\u2019\u201c\u201d\u2022\u2026\u20ac]*$/;
+const RTL_TEXT = /[\u0590-\u08ff]/;
+const PDF_CANVAS_FONT = 'Helvetica, Arial, sans-serif';
+// Canvas pixels per PDF point, so rasterised text stays sharp in print
+const PDF_CANVAS_SCALE = 4;
+
+const setPdfFont = (doc: jsPDF, style: PdfTextStyle) => {
+  doc.setFont('helvetica', style.bold ? 'bold' : 'normal');
+  doc.setFontSize(style.fontSize);
+};
+
+const createTextContext = (style: PdfTextStyle, width = 0, height = 0): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width * PDF_CANVAS_SCALE;
+  canvas.height = height * PDF_CANVAS_SCALE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.font = `${style.bold ? 'bold ' : ''}${style.fontSize * PDF_CANVAS_SCALE}px ${PDF_CANVAS_FONT}`;
+  return ctx;
+};
+
+// Greedy word wrap; a word wider than the line, such as a CJK run without spaces, breaks between characters
+const wrapCanvasText = (ctx: CanvasRenderingContext2D, text: string, width: number): string[] => {
+  const fits = (line: string) => ctx.measureText(line.trimEnd()).width <= width * PDF_CANVAS_SCALE;
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    (paragraph.match(/\S+\s*|\s+/g) || []).forEach(word => {
+      if (fits(line + word)) {
+        line += word;
+        return;
+      }
+      for (const char of Array.from(word)) {
+        if (line.trim() && !fits(line + char)) {
+          lines.push(line.trimEnd());
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+const wrapPdfText = (doc: jsPDF, text: string, width: number, style: PdfTextStyle): string[] => {
+  if (PDF_STANDARD_TEXT.test(text)) {
+    setPdfFont(doc, style);
+    return doc.splitTextToSize(text, width);
+  }
+  return wrapCanvasText(createTextContext(style), text, width);
+};
+
+// Latin text stays selectable. Anything else is drawn by the browser, which has fonts for every script and
+// shapes Arabic and Devanagari, and placed on the page as an image.
+const drawPdfText = (doc: jsPDF, lines: string[], x: number, top: number, width: number, style: PdfTextStyle) => {
+  const text = lines.join('\n');
+  if (PDF_STANDARD_TEXT.test(text)) {
+    setPdfFont(doc, style);
+    doc.text(lines, x, top, { baseline: 'top', lineHeightFactor: style.lineHeight / style.fontSize });
+    return;
+  }
+  const height = lines.length * style.lineHeight;
+  const ctx = createTextContext(style, width, height);
+  const rtl = RTL_TEXT.test(text);
+  ctx.direction = rtl ? 'rtl' : 'ltr';
+  ctx.textAlign = rtl ? 'right' : 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#000000';
+  lines.forEach((line, i) => ctx.fillText(line, rtl ? ctx.canvas.width : 0, i * style.lineHeight * PDF_CANVAS_SCALE));
+  doc.addImage(ctx.canvas.toDataURL('image/png'), 'PNG', x, top, width, height);
+};
+
+// A4 landscape handout: one page per infographic with its facts as a caption, then the sources
+export const buildPdfHandout = async (images: GeneratedImage[], t: I18n['t']): Promise<Blob> => {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PDF_MARGIN * 2;
+
+  for (const [i, image] of images.entries()) {
+    if (i > 0) doc.addPage();
+    drawPdfText(doc, wrapPdfText(doc, getDeckTitle(image), contentWidth, PDF_TITLE_STYLE).slice(0, 1), PDF_MARGIN, PDF_MARGIN, contentWidth, PDF_TITLE_STYLE);
+
+    const caption = wrapPdfText(doc, getFactLines(image).join('\n'), contentWidth, PDF_CAPTION_STYLE).slice(0, PDF_MAX_CAPTION_LINES);
+    const captionHeight = caption.length * PDF_CAPTION_STYLE.lineHeight;
+    const imageTop = PDF_MARGIN + 28;
+    const data = await getExportImageData(image);
+    const frame = fitImage(await getImageSize(data), PDF_MARGIN, imageTop, contentWidth, pageHeight - PDF_MARGIN - imageTop - captionHeight - 12);
+    doc.addImage(data, PDF_IMAGE_FORMATS[getImageExtension(data)] || 'PNG', frame.x, frame.y, frame.w, frame.h);
+    if (caption.length > 0) drawPdfText(doc, caption, PDF_MARGIN, pageHeight - PDF_MARGIN - captionHeight, contentWidth, PDF_CAPTION_STYLE);
+  }
+
+  const sources = collectSources(images);
+  if (sources.length > 0) {
+    doc.addPage();
+    drawPdfText(doc, wrapPdfText(doc, t('export.sources'), contentWidth, PDF_TITLE_STYLE).slice(0, 1), PDF_MARGIN, PDF_MARGIN, contentWidth, PDF_TITLE_STYLE);
+    let y = PDF_MARGIN + 32;
+    sources.forEach((source, i) => {
+      if (y > pageHeight - PDF_MARGIN - 24) {
+        doc.addPage();
+        y = PDF_MARGIN;
+      }
+      drawPdfText(doc, wrapPdfText(doc, `${i + 1}. ${source.title}`, contentWidth, PDF_SOURCE_STYLE).slice(0, 1), PDF_MARGIN, y, contentWidth, PDF_SOURCE_STYLE);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(8, 145, 178);
+      doc.textWithLink(doc.splitTextToSize(source.url, contentWidth - 14)[0], PDF_MARGIN + 14, y + 20, { url: source.url });
+      doc.setTextColor(0, 0, 0);
+      y += 30;
+    });
+  }
+
+  return doc.output('blob');
+};
+
+const PPTX_SOURCES_PER_SLIDE = 10;
+
+// 16:9 deck: one slide per infographic with its facts as speaker notes, then the sources
+export const buildPptxDeck = async (images: GeneratedImage[], t: I18n['t']): Promise<Blob> => {
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_16x9';
+
+  for (const image of images) {
+    const slide = pptx.addSlide();
+    slide.addText(getDeckTitle(image), { x: 0.4, y: 0.15, w: 9.2, h: 0.6, fontSize: 22, bold: true, fit: 'shrink' });
+    const data = await getExportImageData(image);
+    const frame = fitImage(await getImageSize(data), 0.4, 0.85, 9.2, 4.6);
+    slide.addImage({ data: data.replace(/^data:/, ''), ...frame, altText: getDeckTitle(image) });
+    const notes = [t('export.topic', { topic: image.prompt }), ...getFactLines(image)];
+    slide.addNotes(notes.join('\n'));
+  }
+
+  const sources = collectSources(images);
+  for (let start = 0; start < sources.length; start += PPTX_SOURCES_PER_SLIDE) {
+    const slide = pptx.addSlide();
+    slide.addText(t(start === 0 ? 'export.sources' : 'export.sourcesContinued'), { x: 0.4, y: 0.15, w: 9.2, h: 0.6, fontSize: 22, bold: true });
+    slide.addText(sources.slice(start, start + PPTX_SOURCES_PER_SLIDE).map(source => ({
+      text: source.title,
+      options: { hyperlink: { url: source.url }, bullet: { type: 'number' as const, numberStartAt: start + 1 }, breakLine: true }
+    })), { x: 0.4, y: 0.85, w: 9.2, h: 4.6, fontSize: 12, valign: 'top' });
+  }
+
+  return await pptx.write({ outputType: 'blob' }) as Blob;
+};
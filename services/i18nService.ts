@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Language } from "../types";
+import { en, MessageKey, Messages } from "../locales/en";
+import { es } from "../locales/es";
+import { fr } from "../locales/fr";
+import { de } from "../locales/de";
+import { zh } from "../locales/zh";
+import { ja } from "../locales/ja";
+import { hi } from "../locales/hi";
+import { ar } from "../locales/ar";
+import { pt } from "../locales/pt";
+import { ru } from "../locales/ru";
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export type MessageParams = Record<string, string | number>;
+
+export interface I18n {
+  language: Language;
+  locale: string;
+  dir: TextDirection;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number) => string;
+  formatCurrency: (usd: number) => string; // Prices are always in US dollars, only the notation is localized
+  formatDate: (timestamp: number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+export const UI_LANGUAGE_SETTING = 'uiLanguage';
+
+const CATALOGS: Record<Language, Messages> = {
+  English: en,
+  Spanish: es,
+  French: fr,
+  German: de,
+  Mandarin: zh,
+  Japanese: ja,
+  Hindi: hi,
+  Arabic: ar,
+  Portuguese: pt,
+  Russian: ru
+};
+
+// BCP 47 tags used for Intl formatting and the document lang attribute
+const LOCALES: Record<Language, string> = {
+  English: 'en',
+  Spanish: 'es',
+  French: 'fr',
+  German: 'de',
+  Mandarin: 'zh-CN',
+  Japanese: 'ja',
+  Hindi: 'hi',
+  Arabic: 'ar',
+  Portuguese: 'pt',
+  Russian: 'ru'
+};
+
+// Each language names itself, so the selector stays readable whatever the current UI language
+export const NATIVE_LANGUAGE_NAMES: Record<Language, string> = {
+  English: 'English',
+  Spanish: 'Español',
+  French: 'Français',
+  German: 'Deutsch',
+  Mandarin: '中文',
+  Japanese: '日本語',
+  Hindi: 'हिन्दी',
+  Arabic: 'العربية',
+  Portuguese: 'Português',
+  Russian: 'Русский'
+};
+
+export const LANGUAGES = Object.keys(CATALOGS) as Language[];
+
+const RTL_LANGUAGES: Language[] = ['Arabic'];
+
+export const getLocale = (language: Language): string => LOCALES[language];
+
+export const getTextDirection = (language: Language): TextDirection => RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr';
+
+export const isLanguage = (value: unknown): value is Language => typeof value === 'string' && value in CATALOGS;
+
+// First browser preference with a catalog, matched on the primary subtag
+export const detectUiLanguage = (): Language => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  for (const tag of preferred) {
+    const primary = tag.toLowerCase().split('-')[0];
+    const match = LANGUAGES.find(lang => LOCALES[lang].split('-')[0] === primary);
+    if (match) return match;
+  }
+  return 'English';
+};
+
+export const createI18n = (language: Language): I18n => {
+  const locale = getLocale(language);
+  const numberFormat = new Intl.NumberFormat(locale);
+  const formatNumber = (value: number) => numberFormat.format(value);
+  // Single calls cost fractions of a cent, so keep up to four decimals
+  const currencyFormat = new Intl.NumberFormat(locale, { style: 'currency', currency: 'USD', maximumFractionDigits: 4 });
+  return {
+    language,
+    locale,
+    dir: getTextDirection(language),
+    // Missing keys fall back to English; numeric params are formatted for the locale
+    t: (key, params) => (CATALOGS[language][key] ?? en[key]).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params?.[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    }),
+    formatNumber,
+    formatCurrency: usd => currencyFormat.format(usd),
+    formatDate: (timestamp, options = { dateStyle: 'medium', timeStyle: 'short' }) => new Intl.DateTimeFormat(locale, options).format(timestamp)
+  };
+};
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio, GeneratedImage, ImageGenerationModel, Language, ProgressReporter, RenderSettings, ResearchPreview, ResearchRequest, ResearchResult } from "../types";
+import { ProgressTracker } from "./progressService";
+import { getImageCacheKey, getResearchCacheKey, readCache, writeCache } from "./cacheService";
+import { applySourcePolicy } from "./sourceService";
+import { throwIfCancelled } from "./errors";
+import { editInfographicImage, generateInfographicImage, generateInfographicVariants, researchTopicForPrompt, translateResearch } from "./geminiService";
+import { getFinalImagePrompt, getTranslationEditInstruction } from "./prompts";
+
+// Timestamps alone collide when several renders finish in the same millisecond (batch mode)
+export const createImageId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toGeneratedImage = (
+  request: ResearchRequest,
+  plan: ResearchResult,
+  settings: RenderSettings,
+  data: string,
+  renderPrompt: string,
+  progress?: ProgressTracker,
+  imageFromCache: boolean = false
+): GeneratedImage => ({
+  id: createImageId(),
+  data,
+  prompt: request.topic,
+  timestamp: Date.now(),
+  level: request.level,
+  style: request.style,
+  language: request.language,
+  aspectRatio: settings.aspectRatio,
+  model: settings.model,
+  size: settings.size,
+  research: plan,
+  renderPrompt,
+  stylePreset: request.stylePreset ? { id: request.stylePreset.id, name: request.stylePreset.name } : undefined,
+  audienceProfile: request.audienceProfile,
+  brandLogo: request.brandKit?.logo ? { data: request.brandKit.logo, corner: request.brandKit.logoCorner, enabled: true } : undefined,
+  timings: progress?.events.slice(),
+  fromCache: plan.cachedAt || imageFromCache ? { research: !!plan.cachedAt, image: imageFromCache } : undefined
+});
+
+// Researches a request, serving a recent identical request from the cache when there is one.
+// Sources outside the request's domain lists are dropped even if the model cited them anyway.
+export const researchPlan = async (
+  request: ResearchRequest,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter,
+  onPreview?: (preview: ResearchPreview) => void
+): Promise<ResearchResult> => {
+  const key = await getResearchCacheKey(request);
+  const cached = await readCache<ResearchResult>(key);
+  // Cache reads and writes cannot be aborted, so check again before handing anything back
+  if (cached) {
+    throwIfCancelled(signal);
+    onPreview?.({ facts: cached.value.facts, searchResults: cached.value.searchResults });
+    onProgress?.('factsParsed', cached.value.facts.length);
+    return { ...cached.value, cachedAt: cached.createdAt };
+  }
+  const result = await researchTopicForPrompt(
+    request.topic, request.level, request.style, request.language, request.stylePreset, request.brandKit, request.audienceProfile, signal, onProgress,
+    onPreview && (preview => onPreview({ ...preview, searchResults: applySourcePolicy(preview.searchResults, request.sourcePolicy) })),
+    request.sourcePolicy
+  );
+  const plan = { ...result, searchResults: applySourcePolicy(result.searchResults, request.sourcePolicy) };
+  await writeCache(key, 'research', plan);
+  throwIfCancelled(signal);
+  return plan;
+};
+
+// Renders an approved research plan and packages it as a history entry
+export const renderPlan = async (
+  request: ResearchRequest,
+  plan: ResearchResult,
+  settings: RenderSettings,
+  signal?: AbortSignal,
+  progress?: ProgressTracker
+): Promise<GeneratedImage> => {
+  const prompt = getFinalImagePrompt(plan, request.brandKit, request.audienceProfile);
+  const key = await getImageCacheKey(prompt, settings, request.stylePreset?.referenceImage);
+  const cached = await readCache<string>(key);
+  if (cached) {
+    throwIfCancelled(signal);
+    progress?.report('imageDecoded');
+    return toGeneratedImage(request, plan, settings, cached.value, prompt, progress, true);
+  }
+  const base64Data = await generateInfographicImage(prompt, settings.model, settings.aspectRatio, settings.size, request.stylePreset?.referenceImage, signal, progress?.report);
+  await writeCache(key, 'image', base64Data);
+  throwIfCancelled(signal);
+  return toGeneratedImage(request, plan, settings, base64Data, prompt, progress);
+};
+
+// Renders several candidates of the same plan, linked by a shared variant group
+export const renderPlanVariants = async (
+  request: ResearchRequest,
+  plan: ResearchResult,
+  settings: RenderSettings,
+  count: number,
+  signal?: AbortSignal,
+  progress?: ProgressTracker
+): Promise<GeneratedImage[]> => {
+  const prompt = getFinalImagePrompt(plan, request.brandKit, request.audienceProfile);
+  const key = await getImageCacheKey(prompt, settings, request.stylePreset?.referenceImage, count);
+  const cached = await readCache<string[]>(key);
+  if (cached) progress?.report('imageDecoded', cached.value.length);
+  const candidates = cached ? cached.value : await generateInfographicVariants(prompt, settings.model, settings.aspectRatio, settings.size, count, request.stylePreset?.referenceImage, signal, progress?.report);
+  if (!cached) await writeCache(key, 'image', candidates);
+  throwIfCancelled(signal);
+  const variantGroupId = createImageId();
+  return candidates.map(data => ({ ...toGeneratedImage(request, plan, settings, data, prompt, progress, !!cached), variantGroupId }));
+};
+
+// Relabels an existing infographic in another language by editing it, so the composition is kept
+export const translateInfographic = async (
+  source: GeneratedImage,
+  language: Language,
+  model: ImageGenerationModel,
+  aspectRatio: AspectRatio,
+  signal?: AbortSignal,
+  progress?: ProgressTracker
+): Promise<GeneratedImage> => {
+  const research = source.research && await translateResearch(source.research, language, signal);
+  const data = await editInfographicImage(source.data, getTranslationEditInstruction(language, research), model, aspectRatio, undefined, signal, progress?.report);
+  return {
+    id: createImageId(),
+    data,
+    prompt: source.prompt,
+    timestamp: Date.now(),
+    level: source.level,
+    style: source.style,
+    stylePreset: source.stylePreset,
+    audienceProfile: source.audienceProfile,
+    brandLogo: source.brandLogo,
+    language,
+    aspectRatio: source.aspectRatio,
+    model,
+    size: source.size,
+    research,
+    renderPrompt: source.renderPrompt,
+    translationOf: source.id,
+    timings: progress?.events.slice()
+  };
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Masks are PNG data URLs at the image's resolution: painted (opaque) pixels mark the region to change
+
+// Softens the mask edge so composited edits blend into the untouched pixels
+const FEATHER_RATIO = 0.004;
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image for masking"));
+    img.src = dataUrl;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  return { canvas, ctx };
+};
+
+export const isMaskEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Image models expect an opaque black and white mask, white marking the editable region
+export const toModelMask = async (mask: string): Promise<string> => {
+  const source = await loadImage(mask);
+  const { canvas, ctx } = createCanvas(source.naturalWidth, source.naturalHeight);
+  ctx.drawImage(source, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Keeps the edit only inside the mask; everything else comes back from the original pixels
+export const compositeMaskedEdit = async (original: string, edited: string, mask: string): Promise<string> => {
+  const [base, result, maskImage] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+
+  const region = createCanvas(width, height);
+  region.ctx.filter = `blur(${Math.max(1, Math.round(Math.max(width, height) * FEATHER_RATIO))}px)`;
+  region.ctx.drawImage(maskImage, 0, 0, width, height);
+  region.ctx.filter = 'none';
+  region.ctx.globalCompositeOperation = 'source-in';
+  // Models may return a different resolution; stretch the edit back onto the original frame
+  region.ctx.drawImage(result, 0, 0, width, height);
+
+  const output = createCanvas(width, height);
+  output.ctx.drawImage(base, 0, 0);
+  output.ctx.drawImage(region.canvas, 0, 0);
+  return output.canvas.toDataURL(edited.match(/^data:([^;]+);/)?.[1] || 'image/png', 0.92);
+};
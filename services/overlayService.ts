@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LogoCorner, OverlayElement, OverlayFont, OverlayKind } from "../types";
+
+export const OVERLAY_FONT_FAMILIES: Record<OverlayFont, string> = {
+  sans: "'Inter', sans-serif",
+  display: "'Space Grotesk', sans-serif",
+  serif: "'Cinzel', serif",
+  mono: "ui-monospace, monospace"
+};
+
+export const OVERLAY_LINE_HEIGHT = 1.25;
+const OVERLAY_FONT_WEIGHT = 600;
+
+// Callout padding, as a multiple of the font size
+export const CALLOUT_PADDING = 0.4;
+
+// Brand logo width and inset from the edges, as fractions of the image width
+export const LOGO_WIDTH_RATIO = 0.12;
+export const LOGO_MARGIN_RATIO = 0.025;
+
+const createOverlayId = (): string => `ov-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Text boxes start empty; callers pass the starting text in the UI language
+export const createOverlay = (kind: OverlayKind, patch: Partial<OverlayElement> = {}): OverlayElement => ({
+  id: createOverlayId(),
+  kind,
+  x: kind === 'arrow' ? 0.4 : 0.35,
+  y: kind === 'arrow' ? 0.5 : 0.45,
+  width: 0.3,
+  x2: kind === 'arrow' ? 0.6 : undefined,
+  y2: kind === 'arrow' ? 0.5 : undefined,
+  text: kind === 'arrow' ? undefined : '',
+  font: 'sans',
+  fontSize: 0.035,
+  color: kind === 'callout' ? '#0f172a' : '#ffffff',
+  background: kind === 'callout' ? '#fde68a' : undefined,
+  align: 'left',
+  ...patch
+});
+
+// One text box per researched fact, stacked down the left edge for the user to position
+export const createFactOverlays = (facts: string[]): OverlayElement[] => {
+  const step = Math.min(0.18, 0.9 / Math.max(facts.length, 1));
+  return facts.map((fact, i) => createOverlay('callout', {
+    text: fact,
+    x: 0.03,
+    y: 0.05 + i * step,
+    width: 0.32,
+    fontSize: 0.025
+  }));
+};
+
+// Triangle for an arrow head pointing at (x2, y2), in whatever units the caller uses
+export const getArrowHead = (x1: number, y1: number, x2: number, y2: number, size: number): [number, number][] => {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const spread = Math.PI / 7;
+  return [
+    [x2, y2],
+    [x2 - size * Math.cos(angle - spread), y2 - size * Math.sin(angle - spread)],
+    [x2 - size * Math.cos(angle + spread), y2 - size * Math.sin(angle + spread)]
+  ];
+};
+
+// Stroke width of an arrow in pixels for a rendered image height
+export const getArrowStroke = (overlay: OverlayElement, imageHeight: number): number => Math.max(2, overlay.fontSize * imageHeight * 0.15);
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image for flattening"));
+    img.src = dataUrl;
+  });
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const drawTextBox = (ctx: CanvasRenderingContext2D, overlay: OverlayElement, width: number, height: number) => {
+  const fontPx = overlay.fontSize * height;
+  const padding = overlay.kind === 'callout' ? fontPx * CALLOUT_PADDING : 0;
+  const boxX = overlay.x * width;
+  const boxY = overlay.y * height;
+  const boxWidth = overlay.width * width;
+  const lineHeight = fontPx * OVERLAY_LINE_HEIGHT;
+
+  ctx.font = `${OVERLAY_FONT_WEIGHT} ${fontPx}px ${OVERLAY_FONT_FAMILIES[overlay.font]}`;
+  const lines = wrapText(ctx, overlay.text || '', boxWidth - padding * 2);
+
+  if (overlay.kind === 'callout' && overlay.background) {
+    ctx.fillStyle = overlay.background;
+    ctx.beginPath();
+    ctx.roundRect(boxX, boxY, boxWidth, lines.length * lineHeight + padding * 2, fontPx * 0.3);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = overlay.color;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = overlay.align;
+  const textX = overlay.align === 'left' ? boxX + padding : overlay.align === 'right' ? boxX + boxWidth - padding : boxX + boxWidth / 2;
+  lines.forEach((line, i) => ctx.fillText(line, textX, boxY + padding + lineHeight * (i + 0.5)));
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, overlay: OverlayElement, width: number, height: number) => {
+  const x1 = overlay.x * width;
+  const y1 = overlay.y * height;
+  const x2 = (overlay.x2 ?? overlay.x) * width;
+  const y2 = (overlay.y2 ?? overlay.y) * height;
+  const stroke = getArrowStroke(overlay, height);
+
+  ctx.strokeStyle = overlay.color;
+  ctx.fillStyle = overlay.color;
+  ctx.lineWidth = stroke;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.lineTo(x2, y2);
+  ctx.stroke();
+
+  const head = getArrowHead(x1, y1, x2, y2, stroke * 4);
+  ctx.beginPath();
+  ctx.moveTo(head[0][0], head[0][1]);
+  head.slice(1).forEach(([x, y]) => ctx.lineTo(x, y));
+  ctx.closePath();
+  ctx.fill();
+};
+
+// Burns the overlays into the raster at full resolution, keeping the source format
+export const flattenOverlays = async (dataUrl: string, overlays: OverlayElement[], mimeType: string): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+
+  ctx.drawImage(img, 0, 0);
+  for (const overlay of overlays) {
+    if (overlay.kind === 'arrow') {
+      drawArrow(ctx, overlay, canvas.width, canvas.height);
+    } else {
+      // Web fonts are loaded lazily; make sure the face exists before drawing with it
+      await document.fonts.load(`${OVERLAY_FONT_WEIGHT} 16px ${OVERLAY_FONT_FAMILIES[overlay.font]}`).catch(() => undefined);
+      drawTextBox(ctx, overlay, canvas.width, canvas.height);
+    }
+  }
+  return canvas.toDataURL(mimeType, 0.92);
+};
+
+// Places the brand logo in a corner at full resolution, keeping the source format
+export const stampLogo = async (dataUrl: string, logo: string, corner: LogoCorner, mimeType: string): Promise<string> => {
+  const [img, logoImg] = await Promise.all([loadImage(dataUrl), loadImage(logo)]);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+
+  const width = canvas.width * LOGO_WIDTH_RATIO;
+  const height = width * logoImg.naturalHeight / logoImg.naturalWidth;
+  const margin = canvas.width * LOGO_MARGIN_RATIO;
+  const x = corner.endsWith('left') ? margin : canvas.width - margin - width;
+  const y = corner.startsWith('top') ? margin : canvas.height - margin - height;
+
+  ctx.drawImage(img, 0, 0);
+  ctx.drawImage(logoImg, x, y, width, height);
+  return canvas.toDataURL(mimeType, 0.92);
+};
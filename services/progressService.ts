@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProgressEvent, ProgressReporter, ProgressStage } from "../types";
+
+// Share of a full research-and-render run that is done once a stage is reached
+export const STAGE_PROGRESS: Record<ProgressStage, number> = {
+  location: 10,
+  researchSent: 15,
+  groundingReceived: 45,
+  factsParsed: 55,
+  imageSent: 60,
+  imageDecoded: 100
+};
+
+// Collects the events of one user action, timed from when the tracker was created
+export interface ProgressTracker {
+  report: ProgressReporter;
+  events: ProgressEvent[];
+}
+
+export const createProgressTracker = (onChange?: (events: ProgressEvent[]) => void): ProgressTracker => {
+  const startedAt = performance.now();
+  const events: ProgressEvent[] = [];
+  return {
+    events,
+    report: (stage, count) => {
+      events.push({ stage, elapsedMs: Math.round(performance.now() - startedAt), count });
+      onChange?.([...events]);
+    }
+  };
+};
+
+export const getProgressPercent = (events: ProgressEvent[]): number => {
+  return events.reduce((max, event) => Math.max(max, STAGE_PROGRESS[event.stage]), 0);
+};
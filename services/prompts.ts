@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AudienceProfile, BrandKit, ComplexityLevel, GeneratedImage, Language, ResearchResult, SourcePolicy, StylePreset, VisualStyle } from "../types";
+
+export const getLevelInstruction = (level: ComplexityLevel, profile?: AudienceProfile): string => {
+  if (profile) return getAudienceInstruction(profile);
+  switch (level) {
+    case 'Elementary':
+      return "Target Audience: Elementary School (Ages 6-10). Style: Bright, simple, fun. Use large clear icons and very minimal text labels.";
+    case 'High School':
+      return "Target Audience: High School. Style: Standard Textbook. Clean lines, clear labels, accurate maps or diagrams. Avoid cartoony elements.";
+    case 'College':
+      return "Target Audience: University. Style: Academic Journal. High detail, data-rich, precise cross-sections or complex schematics.";
+    case 'Expert':
+      return "Target Audience: Industry Expert. Style: Technical Blueprint/Schematic. Extremely dense detail, monochrome or technical coloring, precise annotations.";
+    default:
+      return "Target Audience: General Public. Style: Clear and engaging.";
+  }
+};
+
+export const getAudienceInstruction = (profile: AudienceProfile): string => {
+  const lines = [`Target Audience: ${profile.name}.`];
+  if (profile.readingLevel.trim()) lines.push(`Reading level: ${profile.readingLevel.trim()}.`);
+  lines.push(`Text density: at most ${profile.maxWordsPerLabel} words per label or fact.`);
+  if (profile.vocabulary.trim()) lines.push(`Vocabulary: ${profile.vocabulary.trim()}`);
+  if (profile.visualConventions.trim()) lines.push(`Visual conventions: ${profile.visualConventions.trim()}`);
+  return lines.join(' ');
+};
+
+export const getStyleInstruction = (style: VisualStyle, preset?: StylePreset): string => {
+  if (preset) return `Aesthetic: ${preset.name}. ${preset.instruction}`;
+  switch (style) {
+    case 'Minimalist': return "Aesthetic: Bauhaus Minimalist. Flat vector art, limited color palette (2-3 colors), reliance on negative space and simple geometric shapes.";
+    case 'Realistic': return "Aesthetic: Photorealistic Composite. Cinematic lighting, 8k resolution, highly detailed textures. Looks like a photograph.";
+    case 'Cartoon': return "Aesthetic: Educational Comic. Vibrant colors, thick outlines, expressive cel-shaded style.";
+    case 'Vintage': return "Aesthetic: 19th Century Scientific Lithograph. Engraving style, sepia tones, textured paper background, fine hatch lines.";
+    case 'Futuristic': return "Aesthetic: Cyberpunk HUD. Glowing neon blue/cyan lines on dark background, holographic data visualization, 3D wireframes.";
+    case '3D Render': return "Aesthetic: 3D Isometric Render. Claymorphism or high-gloss plastic texture, studio lighting, soft shadows, looks like a physical model.";
+    case 'Sketch': return "Aesthetic: Da Vinci Notebook. Ink on parchment sketch, handwritten annotations style, rough but accurate lines.";
+    case 'Geometric Patterns': return "Aesthetic: Art Deco Geometric Patterns. Emphasizes intricate geometric shapes, symmetry, and repeating patterns. Color palette inspired by Art Deco including gold, black, emerald, and cream. Elegant and architectural.";
+    default: return "Aesthetic: High-quality digital scientific illustration. Clean, modern, highly detailed.";
+  }
+};
+
+export const getBrandInstruction = (kit?: BrandKit): string => {
+  if (!kit) return '';
+  const lines = [`Brand guidelines${kit.name ? ` (${kit.name})` : ''}:`];
+  if (kit.palette.length > 0) lines.push(`- Colour palette: ${kit.palette.join(', ')}. Use these as the dominant colours, in this order of prominence.`);
+  if (kit.typography.trim()) lines.push(`- Typography: ${kit.typography.trim()}`);
+  if (kit.tone.trim()) lines.push(`- Tone of voice for titles and labels: ${kit.tone.trim()}`);
+  return lines.length > 1 ? lines.join('\n    ') : '';
+};
+
+export const getSourcePolicyInstruction = (policy?: SourcePolicy): string => {
+  if (!policy) return '';
+  const lines = ['Source requirements:'];
+  if (policy.allowDomains.length > 0) lines.push(`- Only rely on and cite pages from these domains: ${policy.allowDomains.join(', ')}.`);
+  if (policy.denyDomains.length > 0) lines.push(`- Never rely on or cite pages from these domains: ${policy.denyDomains.join(', ')}.`);
+  return lines.length > 1 ? lines.join('\n    ') : '';
+};
+
+// Grounds the chat assistant in the infographic the user is currently looking at
+export const getChatContextInstruction = (image: GeneratedImage): string => {
+  const facts = image.research?.facts || [];
+  const sources = image.research?.searchResults || [];
+  return `
+    The user is currently viewing an infographic about: "${image.prompt}".
+    The image itself is attached at the start of this conversation.
+
+    Researched facts used to produce it:
+    ${facts.length > 0 ? facts.map(f => `- ${f}`).join('\n    ') : '- (none recorded)'}
+
+    Sources (cite them as [n] when an answer relies on them):
+    ${sources.length > 0 ? sources.map((s, i) => `[${i + 1}] ${s.title} - ${s.url}`).join('\n    ') : '(none recorded)'}
+
+    When the user asks about the infographic, explain what it shows using these facts and cite the matching sources.
+    If the image contradicts the facts, say so. Do not invent sources that are not listed.
+  `;
+};
+
+export const getStyleReferenceInstruction = (prompt: string): string => {
+  return `${prompt}
+
+    Match the visual style of the attached reference image (palette, rendering technique, typography, composition density). Do not copy its subject matter or text.`;
+};
+
+export const getMaskedEditInstruction = (editInstruction: string): string => {
+  return `The second image is a mask for the first. Apply this edit only inside the white area of the mask and keep everything in the black area exactly as it is: ${editInstruction}`;
+};
+
+export const getTranslationPrompt = (research: ResearchResult, language: Language): string => {
+  return `
+    Translate the text of this infographic into ${language}.
+    Keep the meaning, numbers, units and proper nouns exact, and keep every fact about as short as the original.
+    Return the facts and sections in the same order and the same number as given.
+
+    ${JSON.stringify({ title: research.title || '', facts: research.facts, sections: research.sections || [] }, null, 2)}
+  `;
+};
+
+// The original image is edited rather than regenerated so the composition stays the same
+export const getTranslationEditInstruction = (language: Language, research?: ResearchResult): string => {
+  let instruction = `Translate every piece of text in this infographic into ${language}. Keep the layout, illustrations, colours, icons and text positions exactly as they are; only replace the words.`;
+  if (research) {
+    const lines = [research.title && `Title: ${research.title}`, ...(research.sections || []).map(s => `Section: ${s}`), ...research.facts.map(f => `Fact: ${f}`)].filter(Boolean);
+    instruction += `\n\nUse these translations for the matching labels:\n${lines.join('\n')}`;
+  }
+  return instruction;
+};
+
+// Prompt actually sent to the image model. A reviewed plan may have corrected facts that the
+// model-written image prompt still gets wrong, so the approved facts are spelled out.
+export const getFinalImagePrompt = (plan: ResearchResult, brandKit?: BrandKit, audienceProfile?: AudienceProfile): string => {
+  let prompt = plan.imagePrompt;
+  if (plan.reviewed && plan.facts.length > 0) {
+    prompt += `
+
+    Key facts to depict accurately (use this exact wording for any labels):
+    ${plan.facts.map(f => `- ${f}`).join('\n    ')}`;
+  }
+  // Custom audiences carry hard limits the model-written prompt may have paraphrased away
+  if (audienceProfile) prompt += `\n\n    ${getAudienceInstruction(audienceProfile)}`;
+  const brand = getBrandInstruction(brandKit);
+  // The logo is stamped on at export, so keep the model from inventing one
+  return brand ? `${prompt}\n\n    ${brand}\n    Do not draw any logo or watermark.` : prompt;
+};
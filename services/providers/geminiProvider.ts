@@ -0,0 +1,499 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Content, FinishReason, GenerateContentResponse, GoogleGenAI, GroundingChunk, Modality, Part } from "@google/genai";
+import { AIProvider, AudienceProfile, BrandKit, ChatMessage, ChatSession, GeneratedImage, AspectRatio, ComplexityLevel, VisualStyle, ResearchResult, SearchResultItem, Language, ImageGenerationModel, ImageSize, ProgressReporter, ResearchPreview, SourcePolicy, StylePreset, UsageOperation } from "../../types";
+import { getLevelInstruction, getStyleInstruction, getChatContextInstruction, getMaskedEditInstruction, getStyleReferenceInstruction, getBrandInstruction, getSourcePolicyInstruction, getTranslationPrompt } from "../prompts";
+import { ServiceError } from "../errors";
+import { recordUsage } from "../usageService";
+import { extractStreamedFacts, parseResearchPayload, parseTranslationPayload, ResearchPayload, ResearchValidationError, RESEARCH_JSON_EXAMPLE, RESEARCH_RESPONSE_SCHEMA, TRANSLATION_RESPONSE_SCHEMA } from "../researchSchema";
+
+// Create a fresh client for every request to ensure the latest API key from process.env.API_KEY is used
+const getAi = () => {
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+// Model definitions based on latest guidelines
+const RESEARCH_MODEL = 'gemini-2.5-flash'; // Supports both Search and Maps grounding
+const CHAT_MODEL = 'gemini-3-pro-preview';
+const VISION_MODEL = 'gemini-3-pro-preview';
+const TRANSCRIPTION_MODEL = 'gemini-3-flash-preview';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+const MAX_RESEARCH_REPAIR_ATTEMPTS = 2;
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY, FinishReason.IMAGE_PROHIBITED_CONTENT
+];
+
+// Blocks and empty results arrive as successful responses, so they are turned into errors here
+const assertNotBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ServiceError('safety', response.promptFeedback?.blockReasonMessage || blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_FINISH_REASONS.includes(finishReason)) throw new ServiceError('safety', finishReason);
+};
+
+// Prompt and tool-use tokens are billed as input; response and thinking tokens as output
+const recordResponseUsage = (operation: UsageOperation, model: string, response: GenerateContentResponse, images: number = 0): void => {
+  const usage = response.usageMetadata;
+  recordUsage(operation, model, {
+    inputTokens: (usage?.promptTokenCount || 0) + (usage?.toolUsePromptTokenCount || 0),
+    outputTokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+    images
+  });
+};
+
+const countImages = (response: GenerateContentResponse): number => {
+  return response.candidates?.[0]?.content?.parts?.filter(part => part.inlineData?.data).length || 0;
+};
+
+const getInlineData = (response: GenerateContentResponse): string => {
+  assertNotBlocked(response);
+  const data = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+  if (!data) throw new ServiceError('emptyOutput', response.candidates?.[0]?.finishReason);
+  return data;
+};
+
+// Search and Maps grounding, deduplicated by URL
+const toSearchResults = (chunks: GroundingChunk[]): SearchResultItem[] => {
+  const searchResults: SearchResultItem[] = [];
+  chunks.forEach(chunk => {
+    if (chunk.web?.uri && chunk.web?.title) {
+      searchResults.push({ title: chunk.web.title, url: chunk.web.uri, type: 'web' });
+    } else if (chunk.maps?.uri && chunk.maps?.title) {
+      searchResults.push({ title: `Map: ${chunk.maps.title}`, url: chunk.maps.uri, type: 'maps' });
+    }
+  });
+  return Array.from(new Map(searchResults.map(item => [item.url, item])).values());
+};
+
+// Asks the model to rewrite malformed research output into valid JSON, without searching again
+const repairResearchPayload = async (error: ResearchValidationError, signal?: AbortSignal): Promise<ResearchPayload> => {
+  let lastError = error;
+  for (let attempt = 0; attempt < MAX_RESEARCH_REPAIR_ATTEMPTS; attempt++) {
+    const response = await getAi().models.generateContent({
+      model: RESEARCH_MODEL,
+      contents: `
+        The following infographic research output is malformed.
+        Problems: ${lastError.issues.join('; ')}
+
+        Rewrite it as JSON matching the schema. Keep all facts and wording; do not add new information.
+
+        ${lastError.rawText}
+      `,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: RESEARCH_RESPONSE_SCHEMA,
+        abortSignal: signal
+      }
+    });
+    recordResponseUsage('research', RESEARCH_MODEL, response);
+
+    try {
+      return parseResearchPayload(response.text || "");
+    } catch (e) {
+      if (!(e instanceof ResearchValidationError)) throw e;
+      lastError = e;
+    }
+  }
+  throw lastError;
+};
+
+const researchTopicForPrompt = async (
+  topic: string, 
+  level: ComplexityLevel, 
+  style: VisualStyle,
+  language: Language,
+  stylePreset?: StylePreset,
+  brandKit?: BrandKit,
+  audienceProfile?: AudienceProfile,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter,
+  onPreview?: (preview: ResearchPreview) => void,
+  sourcePolicy?: SourcePolicy
+): Promise<ResearchResult> => {
+  
+  const levelInstr = getLevelInstruction(level, audienceProfile);
+  const styleInstr = getStyleInstruction(style, stylePreset);
+  const brandInstr = getBrandInstruction(brandKit);
+  const sourceInstr = getSourcePolicyInstruction(sourcePolicy);
+  
+  // Try to get user location for better Maps grounding
+  let latLng = undefined;
+  try {
+    const pos = await new Promise<GeolocationPosition>((res, rej) => navigator.geolocation.getCurrentPosition(res, rej, { timeout: 5000 }));
+    latLng = { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
+  } catch (e) {
+    console.warn("Location access denied or timed out for Maps grounding.");
+  }
+  onProgress?.('location');
+
+  const systemPrompt = `
+    You are an expert visual researcher and data journalist.
+    Your goal is to research the topic: "${topic}" and create a factual plan for an infographic.
+    
+    **CRITICAL: Use both Google Search and Google Maps tools to find the most accurate, up-to-date information, local details, and factual data about this topic.**
+    
+    Context:
+    ${levelInstr}
+    ${styleInstr}
+    ${brandInstr}
+    ${sourceInstr}
+    Language: ${language}
+    
+    Respond with ONLY a JSON object, no prose before or after it, using this exact shape:
+
+    ${RESEARCH_JSON_EXAMPLE}
+
+    Include 3 to 5 facts. "confidence" is a number from 0 to 1 expressing how well the sources support the fact.
+    Write "title", the facts and "sections" in ${language}.
+  `;
+
+  onProgress?.('researchSent');
+  const stream = await getAi().models.generateContentStream({
+    model: RESEARCH_MODEL,
+    contents: systemPrompt,
+    config: {
+      tools: [{ googleSearch: {} }, { googleMaps: {} }],
+      toolConfig: latLng ? {
+        retrievalConfig: { latLng }
+      } : undefined,
+      abortSignal: signal
+    },
+  });
+
+  // The text and grounding of all chunks together are what a single generateContent call would have returned.
+  // Previews are only for display; the plan is parsed once the stream is complete.
+  let text = "";
+  const chunks: GroundingChunk[] = [];
+  let preview: ResearchPreview = { facts: [], searchResults: [] };
+  let last: GenerateContentResponse | undefined;
+  for await (const response of stream) {
+    last = response;
+    assertNotBlocked(response);
+    text += response.text || "";
+    chunks.push(...(response.candidates?.[0]?.groundingMetadata?.groundingChunks || []));
+    if (!onPreview) continue;
+    const next = { facts: extractStreamedFacts(text), searchResults: toSearchResults(chunks) };
+    if (next.facts.length !== preview.facts.length || next.searchResults.length !== preview.searchResults.length) {
+      preview = next;
+      onPreview(preview);
+    }
+  }
+  // Usage is cumulative, so the final chunk carries the totals for the whole call
+  if (last) recordResponseUsage('research', RESEARCH_MODEL, last);
+  onProgress?.('groundingReceived', chunks.length);
+
+  let payload: ResearchPayload;
+  try {
+    payload = parseResearchPayload(text);
+  } catch (e) {
+    if (!(e instanceof ResearchValidationError)) throw e;
+    console.warn("Research output failed validation, attempting repair:", e.issues);
+    payload = await repairResearchPayload(e, signal);
+  }
+  onProgress?.('factsParsed', payload.facts.length);
+
+  return {
+    imagePrompt: payload.imagePrompt,
+    facts: payload.facts.map(f => f.text),
+    searchResults: toSearchResults(chunks),
+    title: payload.title,
+    sections: payload.sections,
+    factConfidence: payload.facts.map(f => f.confidence)
+  };
+};
+
+const generateInfographicImage = async (
+  prompt: string, 
+  model: ImageGenerationModel, 
+  aspectRatio: AspectRatio,
+  size: ImageSize = '1K',
+  referenceImage?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter,
+  operation: UsageOperation = 'image' // Edits reuse this path for Imagen and are billed under their own label
+): Promise<string> => {
+  const ai = getAi();
+  onProgress?.('imageSent');
+
+  // Imagen is text-only, so a style reference image can only steer the Gemini image models
+  if (model === 'imagen-4.0-generate-001') {
+    const response = await ai.models.generateImages({
+      model: model,
+      prompt: prompt,
+      config: {
+        numberOfImages: 1,
+        outputMimeType: 'image/jpeg',
+        aspectRatio: aspectRatio,
+        abortSignal: signal
+      },
+    });
+    const generated = response.generatedImages?.[0];
+    recordUsage(operation, model, { images: generated?.image?.imageBytes ? 1 : 0 });
+    if (!generated?.image?.imageBytes) {
+      throw generated?.raiFilteredReason ? new ServiceError('safety', generated.raiFilteredReason) : new ServiceError('emptyOutput');
+    }
+    onProgress?.('imageDecoded');
+    return `data:image/jpeg;base64,${generated.image.imageBytes}`;
+  }
+
+  // Gemini models (nano banana series)
+  const config: any = {
+    imageConfig: {
+      aspectRatio: aspectRatio
+    },
+    abortSignal: signal
+  };
+
+  if (model === 'gemini-3-pro-image-preview') {
+    config.imageConfig.imageSize = size;
+  }
+
+  const [, referenceMimeType, referenceData] = referenceImage?.match(/^data:(image\/[a-z]+);base64,(.*)$/) || [];
+  const parts: Part[] = referenceData
+    ? [{ inlineData: { mimeType: referenceMimeType, data: referenceData } }, { text: getStyleReferenceInstruction(prompt) }]
+    : [{ text: prompt }];
+
+  const response = await ai.models.generateContent({
+    model: model,
+    contents: { parts },
+    config
+  });
+  recordResponseUsage(operation, model, response, countImages(response));
+
+  const data = getInlineData(response);
+  onProgress?.('imageDecoded');
+  return `data:image/png;base64,${data}`;
+};
+
+const generateInfographicVariants = async (
+  prompt: string,
+  model: ImageGenerationModel,
+  aspectRatio: AspectRatio,
+  size: ImageSize,
+  count: number,
+  referenceImage?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter
+): Promise<string[]> => {
+  onProgress?.('imageSent');
+  if (model === 'imagen-4.0-generate-001') {
+    const response = await getAi().models.generateImages({
+      model: model,
+      prompt: prompt,
+      config: {
+        numberOfImages: count,
+        outputMimeType: 'image/jpeg',
+        aspectRatio: aspectRatio,
+        abortSignal: signal
+      },
+    });
+    const generated = response.generatedImages || [];
+    const images = generated.filter(img => img.image?.imageBytes).map(img => `data:image/jpeg;base64,${img.image!.imageBytes}`);
+    recordUsage('image', model, { images: images.length });
+    if (images.length === 0) {
+      const filtered = generated.find(img => img.raiFilteredReason);
+      throw filtered ? new ServiceError('safety', filtered.raiFilteredReason) : new ServiceError('emptyOutput');
+    }
+    onProgress?.('imageDecoded', images.length);
+    return images;
+  }
+
+  // Gemini image models return one image per call; keep whichever candidates succeed
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, () => generateInfographicImage(prompt, model, aspectRatio, size, referenceImage, signal))
+  );
+  const images = results.filter((r): r is PromiseFulfilledResult<string> => r.status === 'fulfilled').map(r => r.value);
+  if (images.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+  onProgress?.('imageDecoded', images.length);
+  return images;
+};
+
+const editInfographicImage = async (
+  currentImageBase64: string, 
+  editInstruction: string, 
+  model: ImageGenerationModel, 
+  aspectRatio: AspectRatio,
+  mask?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter
+): Promise<string> => {
+  const cleanBase64 = currentImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+  const ai = getAi();
+
+  // Imagen cannot take the image or mask; the caller composites the regenerated scene into the masked region
+  if (model === 'imagen-4.0-generate-001') {
+    return generateInfographicImage(`Modified version of previous scene: ${editInstruction}`, model, aspectRatio, '1K', undefined, signal, onProgress, 'edit');
+  }
+
+  const parts: Part[] = [{ inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } }];
+  if (mask) {
+    parts.push({ inlineData: { mimeType: 'image/png', data: mask.replace(/^data:image\/png;base64,/, '') } });
+  }
+  parts.push({ text: mask ? getMaskedEditInstruction(editInstruction) : editInstruction });
+
+  onProgress?.('imageSent');
+  const response = await getAi().models.generateContent({
+    model: model,
+    contents: { parts },
+    config: {
+      imageConfig: {
+        aspectRatio: aspectRatio
+      },
+      abortSignal: signal
+    }
+  });
+  recordResponseUsage('edit', model, response, countImages(response));
+
+  const data = getInlineData(response);
+  onProgress?.('imageDecoded');
+  return `data:image/png;base64,${data}`;
+};
+
+// Search is not needed here: the facts were already verified in the source language
+const translateResearch = async (research: ResearchResult, language: Language, signal?: AbortSignal): Promise<ResearchResult> => {
+  const response = await getAi().models.generateContent({
+    model: RESEARCH_MODEL,
+    contents: getTranslationPrompt(research, language),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: TRANSLATION_RESPONSE_SCHEMA,
+      abortSignal: signal
+    }
+  });
+  recordResponseUsage('translate', RESEARCH_MODEL, response);
+  assertNotBlocked(response);
+
+  const translated = parseTranslationPayload(response.text || "", research.facts.length, research.sections?.length || 0);
+  return {
+    ...research,
+    title: translated.title || research.title,
+    facts: translated.facts,
+    sections: research.sections && translated.sections
+  };
+};
+
+const createChatSession = (history: ChatMessage[], context?: GeneratedImage): ChatSession => {
+  // Gemini history has to open with a user turn, so drop any leading greeting from the model
+  const firstUserTurn = history.findIndex(m => m.role === 'user');
+  const replay = firstUserTurn === -1 ? [] : history.slice(firstUserTurn);
+  const contents: Content[] = replay.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+  let systemInstruction = "You are InfoGenius, a helpful AI assistant specialized in research and visual information design. Keep responses concise and insightful.";
+  if (context) {
+    systemInstruction += getChatContextInstruction(context);
+    const [, mimeType, data] = context.data.match(/^data:(image\/[a-z]+);base64,(.*)$/) || [];
+    if (data) {
+      // Pixels go in as an opening exchange so every later turn can refer to them
+      contents.unshift(
+        { role: 'user', parts: [{ inlineData: { mimeType, data } }, { text: "This is the infographic I am currently viewing." }] },
+        { role: 'model', parts: [{ text: "Got it. I can see the infographic and will answer using its research." }] }
+      );
+    }
+  }
+
+  const ai = getAi();
+  const chat = ai.chats.create({
+    model: CHAT_MODEL,
+    config: {
+      systemInstruction
+    },
+    history: contents
+  });
+
+  return {
+    sendMessage: async (message: string) => {
+      const response = await chat.sendMessage({ message });
+      recordResponseUsage('chat', CHAT_MODEL, response);
+      assertNotBlocked(response);
+      return response.text || "";
+    }
+  };
+};
+
+const analyzeImageWithGemini = async (
+  imageBase64: string, 
+  question: string, 
+  context: string,
+  language: Language,
+  signal?: AbortSignal
+): Promise<string> => {
+  const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+  
+  const analysisPrompt = `
+    Analyze this image in ${language}. 
+    
+    Targeted Question/Context provided by user: "${question || 'Provide a general detailed analysis.'}"
+    Additional Context: "${context || 'Focus on visual clarity and factual representation.'}"
+    
+    Provide a professional, informative report identifying key elements and answering the user's specific query.
+  `;
+
+  const response = await getAi().models.generateContent({
+    model: VISION_MODEL,
+    contents: {
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
+        { text: analysisPrompt }
+      ]
+    },
+    config: { abortSignal: signal }
+  });
+  recordResponseUsage('analysis', VISION_MODEL, response);
+  assertNotBlocked(response);
+
+  return response.text || "No analysis available.";
+};
+
+const transcribeAudio = async (base64Audio: string, mimeType: string, signal?: AbortSignal): Promise<string> => {
+  const response = await getAi().models.generateContent({
+    model: TRANSCRIPTION_MODEL,
+    contents: [
+      {
+        parts: [
+          { inlineData: { data: base64Audio, mimeType } },
+          { text: "Transcribe this audio message. Provide only the text of the transcription." }
+        ]
+      }
+    ],
+    config: { abortSignal: signal }
+  });
+  recordResponseUsage('transcription', TRANSCRIPTION_MODEL, response);
+  assertNotBlocked(response);
+  return response.text || "";
+};
+
+const generateSpeech = async (text: string, signal?: AbortSignal): Promise<string> => {
+  const response = await getAi().models.generateContent({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text: `Speak this message clearly: ${text}` }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: 'Kore' },
+        },
+      },
+      abortSignal: signal
+    },
+  });
+  recordResponseUsage('speech', TTS_MODEL, response);
+  return getInlineData(response);
+};
+
+export const geminiProvider: AIProvider = {
+  researchTopicForPrompt,
+  generateInfographicImage,
+  generateInfographicVariants,
+  editInfographicImage,
+  translateResearch,
+  createChatSession,
+  analyzeImage: analyzeImageWithGemini,
+  transcribeAudio,
+  generateSpeech
+};
@@ -0,0 +1,350 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIProvider, AudienceProfile, BrandKit, ChatMessage, ChatSession, GeneratedImage, AspectRatio, ComplexityLevel, VisualStyle, ResearchResult, Language, ImageGenerationModel, ImageSize, ProgressReporter, ResearchPreview, SearchResultItem, SourcePolicy, StylePreset } from "../../types";
+import { getLevelInstruction, getStyleInstruction, getBrandInstruction } from "../prompts";
+import { sleep } from "../errors";
+import { estimateTokens, recordUsage } from "../usageService";
+
+// Offline provider: deterministic canned output so the app can be demoed and developed without network or key.
+// The same inputs always produce the same facts, images and audio.
+
+const SIMULATED_LATENCY_MS = 600;
+// Calls are recorded under a model with no price, so the usage dashboard fills up without counting as spend
+const MOCK_MODEL = 'mock';
+const TTS_SAMPLE_RATE = 24000;
+
+const PALETTES = [
+  ['#0f172a', '#0891b2', '#f59e0b'],
+  ['#1e1b4b', '#6366f1', '#22d3ee'],
+  ['#052e16', '#16a34a', '#facc15'],
+  ['#3b0764', '#a855f7', '#f472b6'],
+  ['#431407', '#ea580c', '#fde68a'],
+];
+
+// FNV-1a, used to seed every deterministic choice from the input text
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const getCanvasSize = (aspectRatio: AspectRatio, size: ImageSize): { width: number, height: number } => {
+  const longSide = size === '4K' ? 4096 : size === '2K' ? 2048 : 1024;
+  const shortSide = Math.round(longSide * 9 / 16);
+  switch (aspectRatio) {
+    case '9:16': return { width: shortSide, height: longSide };
+    case '1:1': return { width: longSide, height: longSide };
+    default: return { width: longSide, height: shortSide };
+  }
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Failed to load image"));
+  img.src = src;
+});
+
+const extractTopic = (prompt: string): string => {
+  const match = prompt.match(/infographic about (.+?)\./i);
+  return (match ? match[1] : prompt).slice(0, 80);
+};
+
+const researchTopicForPrompt = async (
+  topic: string,
+  level: ComplexityLevel,
+  style: VisualStyle,
+  language: Language,
+  stylePreset?: StylePreset,
+  brandKit?: BrandKit,
+  audienceProfile?: AudienceProfile,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter,
+  onPreview?: (preview: ResearchPreview) => void,
+  sourcePolicy?: SourcePolicy
+): Promise<ResearchResult> => {
+  onProgress?.('researchSent');
+  const random = createRandom(hashString(`${topic}|${audienceProfile?.id || level}|${stylePreset?.id || style}|${language}`));
+  const year = 1900 + Math.floor(random() * 120);
+  const percent = 10 + Math.floor(random() * 80);
+  const count = 3 + Math.floor(random() * 9);
+
+  const facts = [
+    `${topic} was first described in detail around ${year}.`,
+    `Roughly ${percent}% of introductory material on ${topic} focuses on its core mechanism.`,
+    `Experts usually break ${topic} down into ${count} key components.`,
+    `Visual diagrams improve recall of ${topic} compared to text alone.`,
+  ];
+
+  const encoded = encodeURIComponent(topic);
+  const searchResults: SearchResultItem[] = [
+    { title: `${topic} - Encyclopedia overview`, url: `https://en.wikipedia.org/wiki/Special:Search?search=${encoded}`, type: 'web' },
+    { title: `${topic} - Scholarly articles`, url: `https://scholar.google.com/scholar?q=${encoded}`, type: 'web' },
+    { title: `${topic} - Government statistics`, url: `https://www.usa.gov/statistics?q=${encoded}`, type: 'web' },
+    { title: `${topic} - News coverage`, url: `https://www.reuters.com/site-search/?query=${encoded}`, type: 'web' },
+    { title: `Map: ${topic}`, url: `https://www.google.com/maps/search/${encoded}`, type: 'maps' },
+  ];
+
+  // Streams like the real provider: facts one at a time, then the grounding at the end
+  for (let i = 1; i <= facts.length; i++) {
+    await sleep(SIMULATED_LATENCY_MS / facts.length, signal);
+    onPreview?.({ facts: facts.slice(0, i), searchResults: [] });
+  }
+  onPreview?.({ facts, searchResults });
+  onProgress?.('groundingReceived', searchResults.length);
+  onProgress?.('factsParsed', facts.length);
+  recordUsage('research', MOCK_MODEL, { inputTokens: estimateTokens(topic), outputTokens: estimateTokens(facts.join(' ')) });
+
+  return {
+    title: `Understanding ${topic}`,
+    sections: ['Overview', 'Key Components', 'Timeline'],
+    factConfidence: facts.map(() => Math.round((0.6 + random() * 0.4) * 100) / 100),
+    imagePrompt: `Create a detailed infographic about ${topic}. ${getLevelInstruction(level, audienceProfile)} ${getStyleInstruction(style, stylePreset)} ${getBrandInstruction(brandKit)} Language: ${language}.`,
+    facts,
+    searchResults
+  };
+};
+
+const renderPlaceholder = (
+  prompt: string,
+  model: ImageGenerationModel,
+  aspectRatio: AspectRatio,
+  size: ImageSize,
+  variant: number
+): string => {
+  const random = createRandom(hashString(`${prompt}|${model}|${aspectRatio}|${size}|${variant}`));
+  const [background, primary, accent] = PALETTES[Math.floor(random() * PALETTES.length)];
+  const { width, height } = getCanvasSize(aspectRatio, size);
+  const unit = Math.min(width, height) / 100;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, background);
+  gradient.addColorStop(1, primary);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  for (let i = 0; i < 12; i++) {
+    ctx.globalAlpha = 0.15 + random() * 0.25;
+    ctx.fillStyle = i % 2 ? accent : '#ffffff';
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, unit * (3 + random() * 15), 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(unit * 7)}px sans-serif`;
+  ctx.textBaseline = 'top';
+  const titleLines = wrapText(ctx, extractTopic(prompt), width - unit * 16);
+  titleLines.slice(0, 3).forEach((line, i) => ctx.fillText(line, unit * 8, unit * 8 + i * unit * 8.5));
+
+  ctx.font = `${Math.round(unit * 2.6)}px monospace`;
+  ctx.fillStyle = accent;
+  ctx.fillText(`OFFLINE MOCK · ${model} · ${aspectRatio} · ${size}${variant > 0 ? ` · variant ${variant + 1}` : ''}`, unit * 8, height - unit * 7);
+
+  const mimeType = model === 'imagen-4.0-generate-001' ? 'image/jpeg' : 'image/png';
+  return canvas.toDataURL(mimeType);
+};
+
+const generateInfographicImage = async (
+  prompt: string,
+  model: ImageGenerationModel,
+  aspectRatio: AspectRatio,
+  size: ImageSize = '1K',
+  referenceImage?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter
+): Promise<string> => {
+  onProgress?.('imageSent');
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  const image = renderPlaceholder(prompt, model, aspectRatio, size, 0);
+  recordUsage('image', MOCK_MODEL, { inputTokens: estimateTokens(prompt), images: 1 });
+  onProgress?.('imageDecoded');
+  return image;
+};
+
+const generateInfographicVariants = async (
+  prompt: string,
+  model: ImageGenerationModel,
+  aspectRatio: AspectRatio,
+  size: ImageSize,
+  count: number,
+  referenceImage?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter
+): Promise<string[]> => {
+  onProgress?.('imageSent');
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  const images = Array.from({ length: count }, (_, variant) => renderPlaceholder(prompt, model, aspectRatio, size, variant));
+  recordUsage('image', MOCK_MODEL, { inputTokens: estimateTokens(prompt), images: images.length });
+  onProgress?.('imageDecoded', images.length);
+  return images;
+};
+
+const editInfographicImage = async (
+  currentImageBase64: string,
+  editInstruction: string,
+  model: ImageGenerationModel,
+  aspectRatio: AspectRatio,
+  mask?: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressReporter
+): Promise<string> => {
+  onProgress?.('imageSent');
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  const source = await loadImage(currentImageBase64);
+  const canvas = document.createElement('canvas');
+  canvas.width = source.naturalWidth;
+  canvas.height = source.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  // Shift the colours of the whole frame so the masked region visibly changes once composited
+  if (mask) ctx.filter = 'hue-rotate(150deg) saturate(1.5)';
+  ctx.drawImage(source, 0, 0);
+  ctx.filter = 'none';
+
+  const unit = Math.min(canvas.width, canvas.height) / 100;
+  ctx.font = `bold ${Math.round(unit * 3.5)}px sans-serif`;
+  const lines = wrapText(ctx, `EDIT: ${editInstruction}`, canvas.width - unit * 16).slice(0, 3);
+  const bannerHeight = unit * 4 + lines.length * unit * 4.5;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, canvas.height - bannerHeight - unit * 12, canvas.width, bannerHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => ctx.fillText(line, unit * 8, canvas.height - bannerHeight - unit * 10 + i * unit * 4.5));
+
+  const edited = canvas.toDataURL(model === 'imagen-4.0-generate-001' ? 'image/jpeg' : 'image/png');
+  recordUsage('edit', MOCK_MODEL, { inputTokens: estimateTokens(editInstruction), images: 1 });
+  onProgress?.('imageDecoded');
+  return edited;
+};
+
+const translateResearch = async (research: ResearchResult, language: Language, signal?: AbortSignal): Promise<ResearchResult> => {
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  const tag = (text: string) => `[${language}] ${text}`;
+  const text = [research.title || '', ...research.facts, ...(research.sections || [])].join(' ');
+  recordUsage('translate', MOCK_MODEL, { inputTokens: estimateTokens(text), outputTokens: estimateTokens(text) });
+  return {
+    ...research,
+    title: research.title && tag(research.title),
+    facts: research.facts.map(tag),
+    sections: research.sections?.map(tag)
+  };
+};
+
+const createChatSession = (history: ChatMessage[], context?: GeneratedImage): ChatSession => {
+  const userTurns = history.filter(m => m.role === 'user').map(m => m.text);
+  const sources = context?.research?.searchResults || [];
+  return {
+    sendMessage: async (message: string) => {
+      await sleep(SIMULATED_LATENCY_MS);
+      const previous = userTurns[userTurns.length - 1];
+      userTurns.push(message);
+      const recall = previous ? ` Earlier you asked: "${previous}".` : '';
+      const citation = context
+        ? ` The infographic "${context.prompt}" is based on ${context.research?.facts.length || 0} facts${sources.length > 0 ? `, see [1] ${sources[0].title}` : ''}.`
+        : '';
+      const reply = `[Offline mock · turn ${userTurns.length}] You asked: "${message}".${recall}${citation} Connect a Gemini API key for real answers.`;
+      recordUsage('chat', MOCK_MODEL, { inputTokens: estimateTokens(userTurns.join(' ')), outputTokens: estimateTokens(reply) });
+      return reply;
+    }
+  };
+};
+
+const analyzeImage = async (
+  imageBase64: string,
+  question: string,
+  context: string,
+  language: Language,
+  signal?: AbortSignal
+): Promise<string> => {
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  const image = await loadImage(imageBase64);
+  recordUsage('analysis', MOCK_MODEL, { inputTokens: estimateTokens(`${question} ${context}`) });
+  return [
+    `Offline mock analysis (${language})`,
+    ``,
+    `Image dimensions: ${image.naturalWidth} x ${image.naturalHeight} pixels.`,
+    `Question: ${question || 'General analysis'}`,
+    `Context: ${context || 'None provided'}`,
+    ``,
+    `This is placeholder output from the offline provider. No model was called.`
+  ].join('\n');
+};
+
+const transcribeAudio = async (base64Audio: string, mimeType: string, signal?: AbortSignal): Promise<string> => {
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  const transcript = "How does photosynthesis work";
+  recordUsage('transcription', MOCK_MODEL, { outputTokens: estimateTokens(transcript) });
+  return transcript;
+};
+
+// Returns base64 16-bit little-endian mono PCM at 24kHz, the same format as the Gemini TTS model
+const generateSpeech = async (text: string, signal?: AbortSignal): Promise<string> => {
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  recordUsage('speech', MOCK_MODEL, { inputTokens: estimateTokens(text) });
+  const random = createRandom(hashString(text));
+  const toneCount = Math.min(12, Math.max(3, Math.ceil(text.length / 20)));
+  const toneSamples = Math.round(TTS_SAMPLE_RATE * 0.18);
+  const samples = new Int16Array(toneCount * toneSamples);
+
+  for (let tone = 0; tone < toneCount; tone++) {
+    const frequency = 220 + Math.floor(random() * 440);
+    for (let i = 0; i < toneSamples; i++) {
+      const envelope = Math.sin(Math.PI * i / toneSamples);
+      samples[tone * toneSamples + i] = Math.round(Math.sin(2 * Math.PI * frequency * i / TTS_SAMPLE_RATE) * envelope * 8000);
+    }
+  }
+
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const mockProvider: AIProvider = {
+  researchTopicForPrompt,
+  generateInfographicImage,
+  generateInfographicVariants,
+  editInfographicImage,
+  translateResearch,
+  createChatSession,
+  analyzeImage,
+  transcribeAudio,
+  generateSpeech
+};
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Type } from "@google/genai";
+
+const MAX_FACTS = 5;
+
+// Shape the research model is asked to return
+export interface ResearchPayload {
+  title: string;
+  facts: { text: string; confidence: number }[];
+  imagePrompt: string;
+  sections: string[];
+}
+
+export class ResearchValidationError extends Error {
+  issues: string[];
+  rawText: string;
+
+  constructor(issues: string[], rawText: string) {
+    super(`Research output did not match the expected format: ${issues.join('; ')}`);
+    this.name = 'ResearchValidationError';
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+// Example embedded in the research prompt; tools cannot be combined with JSON mode, so the shape is spelled out
+export const RESEARCH_JSON_EXAMPLE = `{
+  "title": "Short headline for the infographic",
+  "facts": [
+    { "text": "A verified, specific fact", "confidence": 0.9 }
+  ],
+  "imagePrompt": "A highly detailed image generation prompt describing the visual composition, colors, and layout. No citations.",
+  "sections": ["Name of a panel or section in the layout"]
+}`;
+
+// Used by the repair call, which runs without tools and can therefore use JSON mode
+export const RESEARCH_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    facts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          confidence: { type: Type.NUMBER }
+        },
+        required: ['text', 'confidence']
+      }
+    },
+    imagePrompt: { type: Type.STRING },
+    sections: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['title', 'facts', 'imagePrompt', 'sections']
+};
+
+// Used by translation, which only rewrites the text of an existing plan
+export const TRANSLATION_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    facts: { type: Type.ARRAY, items: { type: Type.STRING } },
+    sections: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['title', 'facts', 'sections']
+};
+
+const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body.trim();
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+export const parseResearchPayload = (text: string): ResearchPayload => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJson(text));
+  } catch (e: any) {
+    throw new ResearchValidationError([`response is not valid JSON (${e.message})`], text);
+  }
+
+  const issues: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ResearchValidationError(['response must be a JSON object'], text);
+  }
+
+  if (!isNonEmptyString(data.title)) issues.push('"title" must be a non-empty string');
+  if (!isNonEmptyString(data.imagePrompt)) issues.push('"imagePrompt" must be a non-empty string');
+
+  if (!Array.isArray(data.facts) || data.facts.length === 0) {
+    issues.push('"facts" must be a non-empty array');
+  } else {
+    data.facts.forEach((fact: any, i: number) => {
+      if (!fact || !isNonEmptyString(fact.text)) issues.push(`"facts[${i}].text" must be a non-empty string`);
+      if (!fact || typeof fact.confidence !== 'number' || fact.confidence < 0 || fact.confidence > 1) {
+        issues.push(`"facts[${i}].confidence" must be a number between 0 and 1`);
+      }
+    });
+  }
+
+  if (data.sections !== undefined && (!Array.isArray(data.sections) || !data.sections.every(isNonEmptyString))) {
+    issues.push('"sections" must be an array of strings');
+  }
+
+  if (issues.length > 0) throw new ResearchValidationError(issues, text);
+
+  return {
+    title: data.title.trim(),
+    facts: data.facts.slice(0, MAX_FACTS).map((f: any) => ({ text: f.text.trim(), confidence: f.confidence })),
+    imagePrompt: data.imagePrompt.trim(),
+    sections: (data.sections || []).map((s: string) => s.trim())
+  };
+};
+
+// Picks the fact texts that are already complete out of research output that is still streaming in.
+// Only facts carry a "text" key in the payload, so an unfinished object or trailing prose is simply skipped.
+export const extractStreamedFacts = (partialText: string): string[] => {
+  const facts: string[] = [];
+  for (const match of partialText.matchAll(/"text"\s*:\s*("(?:[^"\\]|\\.)*")/g)) {
+    try {
+      const fact = JSON.parse(match[1]);
+      if (isNonEmptyString(fact)) facts.push(fact.trim());
+    } catch {
+      // An escape sequence cut off mid-chunk; the fact shows up once the rest of it arrives
+    }
+  }
+  return facts.slice(0, MAX_FACTS);
+};
+
+// Facts and sections are matched by position, so a translation that drops or merges entries is rejected
+export const parseTranslationPayload = (text: string, factCount: number, sectionCount: number): { title: string, facts: string[], sections: string[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(extractJson(text));
+  } catch (e: any) {
+    throw new ResearchValidationError([`response is not valid JSON (${e.message})`], text);
+  }
+
+  const issues: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ResearchValidationError(['response must be a JSON object'], text);
+  }
+  if (typeof data.title !== 'string') issues.push('"title" must be a string');
+  if (!Array.isArray(data.facts) || data.facts.length !== factCount || !data.facts.every(isNonEmptyString)) {
+    issues.push(`"facts" must be an array of ${factCount} strings`);
+  }
+  if (!Array.isArray(data.sections) || data.sections.length !== sectionCount || !data.sections.every(isNonEmptyString)) {
+    issues.push(`"sections" must be an array of ${sectionCount} strings`);
+  }
+  if (issues.length > 0) throw new ResearchValidationError(issues, text);
+
+  return {
+    title: data.title.trim(),
+    facts: data.facts.map((f: string) => f.trim()),
+    sections: data.sections.map((s: string) => s.trim())
+  };
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SearchResultItem, SourcePolicy, SourceTier, SourceType } from "../types";
+
+export const SOURCE_POLICY_SETTING = 'sourcePolicy';
+
+export const DEFAULT_SOURCE_POLICY: SourcePolicy = { allowDomains: [], denyDomains: [] };
+
+// Most credible first; also the order sources are sorted in
+export const SOURCE_TIERS: SourceTier[] = ['academic', 'government', 'encyclopedic', 'news', 'other'];
+
+// Search grounding links through this redirect, titled with the domain of the page it leads to
+const GROUNDING_REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+
+const ACADEMIC_DOMAINS = [
+  'arxiv.org', 'biorxiv.org', 'medrxiv.org', 'doi.org', 'jstor.org', 'nature.com', 'science.org', 'sciencedirect.com',
+  'springer.com', 'wiley.com', 'tandfonline.com', 'plos.org', 'frontiersin.org', 'mdpi.com', 'acm.org', 'ieee.org',
+  'researchgate.net', 'semanticscholar.org', 'scholar.google.com', 'thelancet.com', 'nejm.org', 'bmj.com', 'cell.com', 'nih.gov'
+];
+const GOVERNMENT_DOMAINS = ['europa.eu', 'un.org', 'who.int', 'worldbank.org', 'oecd.org', 'imf.org'];
+const ENCYCLOPEDIC_DOMAINS = ['wikipedia.org', 'wikimedia.org', 'wikidata.org', 'britannica.com', 'encyclopedia.com', 'scholarpedia.org', 'plato.stanford.edu'];
+const NEWS_DOMAINS = [
+  'reuters.com', 'apnews.com', 'bbc.com', 'bbc.co.uk', 'nytimes.com', 'washingtonpost.com', 'theguardian.com', 'wsj.com',
+  'ft.com', 'economist.com', 'bloomberg.com', 'npr.org', 'cnn.com', 'aljazeera.com', 'lemonde.fr', 'spiegel.de', 'elpais.com', 'nhk.or.jp'
+];
+
+// Accepts pasted URLs as well as bare domains: "https://www.Example.com/page" becomes "example.com"
+export const normalizeDomain = (input: string): string => {
+  return input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^\*\./, '').replace(/^www\./, '').split(/[/?#:]/)[0];
+};
+
+// One domain per line, or separated by commas or spaces
+export const parseDomainList = (text: string): string[] => {
+  const domains = text.split(/[\s,]+/).map(normalizeDomain).filter(domain => domain.includes('.'));
+  return Array.from(new Set(domains));
+};
+
+export const isSourcePolicyActive = (policy?: SourcePolicy): policy is SourcePolicy => {
+  return !!policy && (policy.allowDomains.length > 0 || policy.denyDomains.length > 0);
+};
+
+// Sources saved before the type was recorded carry the "Map: " title prefix instead
+export const getSourceType = (source: SearchResultItem): SourceType => {
+  return source.type || (source.title.startsWith('Map: ') ? 'maps' : 'web');
+};
+
+export const getSourceDomain = (source: SearchResultItem): string => {
+  try {
+    const host = normalizeDomain(new URL(source.url).hostname);
+    return host === GROUNDING_REDIRECT_HOST ? normalizeDomain(source.title) : host;
+  } catch {
+    return '';
+  }
+};
+
+// A pattern matches the domain itself and all of its subdomains
+export const matchesDomain = (domain: string, pattern: string): boolean => {
+  return domain === pattern || domain.endsWith(`.${pattern}`);
+};
+
+const matchesAny = (domain: string, patterns: string[]): boolean => patterns.some(pattern => matchesDomain(domain, pattern));
+
+// Judged from the domain alone, so it says who published a page rather than how good the page is
+export const getSourceTier = (source: SearchResultItem): SourceTier => {
+  if (getSourceType(source) === 'maps') return 'other';
+  const domain = getSourceDomain(source);
+  if (!domain) return 'other';
+  if (matchesAny(domain, ENCYCLOPEDIC_DOMAINS)) return 'encyclopedic';
+  if (/\.(edu|ac\.[a-z]{2}|edu\.[a-z]{2})$/.test(domain) || matchesAny(domain, ACADEMIC_DOMAINS)) return 'academic';
+  if (/\.(gov|mil|int|gov\.[a-z]{2}|gouv\.fr|gc\.ca)$/.test(domain) || matchesAny(domain, GOVERNMENT_DOMAINS)) return 'government';
+  if (matchesAny(domain, NEWS_DOMAINS)) return 'news';
+  return 'other';
+};
+
+// Maps places have no publisher domain, so the lists only apply to web sources
+export const applySourcePolicy = (sources: SearchResultItem[], policy?: SourcePolicy): SearchResultItem[] => {
+  if (!isSourcePolicyActive(policy)) return sources;
+  return sources.filter(source => {
+    if (getSourceType(source) === 'maps') return true;
+    const domain = getSourceDomain(source);
+    if (matchesAny(domain, policy.denyDomains)) return false;
+    return policy.allowDomains.length === 0 || matchesAny(domain, policy.allowDomains);
+  });
+};
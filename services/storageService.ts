@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AudienceProfile, CacheEntryInfo, ChatConversation, GeneratedImage, StylePreset, UsageRecord } from "../types";
+
+const DB_NAME = 'infogenius';
+const DB_VERSION = 7;
+const IMAGE_STORE = 'images';
+const CONVERSATION_STORE = 'conversations';
+const STYLE_PRESET_STORE = 'stylePresets';
+const SETTINGS_STORE = 'settings';
+const AUDIENCE_PROFILE_STORE = 'audienceProfiles';
+const USAGE_STORE = 'usage';
+const CACHE_STORE = 'cache';
+const CACHE_INDEX_STORE = 'cacheIndex';
+
+// Oldest entries beyond this count are evicted after every save
+const MAX_STORED_IMAGES = 60;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          const store = db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(CONVERSATION_STORE)) {
+          db.createObjectStore(CONVERSATION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STYLE_PRESET_STORE)) {
+          db.createObjectStore(STYLE_PRESET_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(AUDIENCE_PROFILE_STORE)) {
+          db.createObjectStore(AUDIENCE_PROFILE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_INDEX_STORE)) {
+          db.createObjectStore(CACHE_INDEX_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const isQuotaError = (err: unknown): boolean =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Returns ids ordered from oldest to newest
+const getIdsByAge = async (): Promise<string[]> => {
+  const keys = await runTransaction<IDBValidKey[]>(IMAGE_STORE, 'readonly', store => store.index('timestamp').getAllKeys());
+  return (keys || []).map(String);
+};
+
+const evictOldest = async (count: number): Promise<number> => {
+  const ids = (await getIdsByAge()).slice(0, count);
+  if (ids.length === 0) return 0;
+  await runTransaction(IMAGE_STORE, 'readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+  return ids.length;
+};
+
+export const loadImageHistory = async (): Promise<GeneratedImage[]> => {
+  const images = await runTransaction<GeneratedImage[]>(IMAGE_STORE, 'readonly', store => store.getAll());
+  return (images || []).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// freeSpace is tried on a quota error before any history is dropped; it resolves true if it deleted anything
+export const saveImage = async (image: GeneratedImage, freeSpace?: () => Promise<boolean>): Promise<void> => {
+  // When the browser runs out of quota, drop the oldest entries until the new one fits
+  for (;;) {
+    try {
+      await runTransaction(IMAGE_STORE, 'readwrite', store => store.put(image));
+      break;
+    } catch (err) {
+      if (!isQuotaError(err)) throw err;
+      if (freeSpace && await freeSpace()) continue;
+      if ((await evictOldest(1)) === 0) throw err;
+    }
+  }
+
+  const ids = await getIdsByAge();
+  if (ids.length > MAX_STORED_IMAGES) {
+    await evictOldest(ids.length - MAX_STORED_IMAGES);
+  }
+};
+
+export const deleteImage = async (id: string): Promise<void> => {
+  await runTransaction(IMAGE_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearImageHistory = async (): Promise<void> => {
+  await runTransaction(IMAGE_STORE, 'readwrite', store => store.clear());
+};
+
+export const loadConversations = async (): Promise<ChatConversation[]> => {
+  const conversations = await runTransaction<ChatConversation[]>(CONVERSATION_STORE, 'readonly', store => store.getAll());
+  return (conversations || []).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveConversation = async (conversation: ChatConversation): Promise<void> => {
+  await runTransaction(CONVERSATION_STORE, 'readwrite', store => store.put(conversation));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await runTransaction(CONVERSATION_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const loadStylePresets = async (): Promise<StylePreset[]> => {
+  const presets = await runTransaction<StylePreset[]>(STYLE_PRESET_STORE, 'readonly', store => store.getAll());
+  return (presets || []).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveStylePreset = async (preset: StylePreset): Promise<void> => {
+  await runTransaction(STYLE_PRESET_STORE, 'readwrite', store => store.put(preset));
+};
+
+export const deleteStylePreset = async (id: string): Promise<void> => {
+  await runTransaction(STYLE_PRESET_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const loadAudienceProfiles = async (): Promise<AudienceProfile[]> => {
+  const profiles = await runTransaction<AudienceProfile[]>(AUDIENCE_PROFILE_STORE, 'readonly', store => store.getAll());
+  return (profiles || []).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveAudienceProfile = async (profile: AudienceProfile): Promise<void> => {
+  await runTransaction(AUDIENCE_PROFILE_STORE, 'readwrite', store => store.put(profile));
+};
+
+export const deleteAudienceProfile = async (id: string): Promise<void> => {
+  await runTransaction(AUDIENCE_PROFILE_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const loadUsageRecords = async (): Promise<UsageRecord[]> => {
+  const records = await runTransaction<UsageRecord[]>(USAGE_STORE, 'readonly', store => store.getAll());
+  return (records || []).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveUsageRecord = async (record: UsageRecord): Promise<void> => {
+  await runTransaction(USAGE_STORE, 'readwrite', store => store.put(record));
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+  await runTransaction(USAGE_STORE, 'readwrite', store => store.clear());
+};
+
+export const loadCacheIndex = async (): Promise<CacheEntryInfo[]> => {
+  return (await runTransaction<CacheEntryInfo[]>(CACHE_INDEX_STORE, 'readonly', store => store.getAll())) || [];
+};
+
+export const loadCachedValue = async <T>(key: string): Promise<T | undefined> => {
+  const entry = await runTransaction<{ key: string, value: T }>(CACHE_STORE, 'readonly', store => store.get(key));
+  return entry?.value;
+};
+
+// The value is written first, so an index entry never points at a value that is not there
+export const saveCachedValue = async <T>(info: CacheEntryInfo, value: T): Promise<void> => {
+  await runTransaction(CACHE_STORE, 'readwrite', store => store.put({ key: info.key, value }));
+  await runTransaction(CACHE_INDEX_STORE, 'readwrite', store => store.put(info));
+};
+
+export const deleteCachedValues = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  await runTransaction(CACHE_INDEX_STORE, 'readwrite', store => {
+    keys.forEach(key => store.delete(key));
+  });
+  await runTransaction(CACHE_STORE, 'readwrite', store => {
+    keys.forEach(key => store.delete(key));
+  });
+};
+
+// Single-value preferences such as the brand kit, keyed by name
+export const loadSetting = async <T>(key: string): Promise<T | undefined> => {
+  const entry = await runTransaction<{ key: string, value: T }>(SETTINGS_STORE, 'readonly', store => store.get(key));
+  return entry?.value;
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+  await runTransaction(SETTINGS_STORE, 'readwrite', store => store.put({ key, value }));
+};
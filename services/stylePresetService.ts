@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { StylePreset } from "../types";
+
+const EXPORT_VERSION = 1;
+
+// Prefix that marks a preset in the Aesthetic selector, whose other values are VisualStyle names
+export const STYLE_PRESET_PREFIX = 'preset:';
+
+export interface StylePresetParseResult {
+  presets: StylePreset[];
+  errors: string[];
+}
+
+export const createStylePresetId = (): string => `style-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createStylePreset = (name: string, instruction: string, referenceImage?: string): StylePreset => {
+  const now = Date.now();
+  return { id: createStylePresetId(), name: name.trim(), instruction: instruction.trim(), referenceImage, createdAt: now, updatedAt: now };
+};
+
+export const duplicateStylePreset = (preset: StylePreset, existing: StylePreset[]): StylePreset => {
+  const names = new Set(existing.map(p => p.name));
+  let name = `${preset.name} (copy)`;
+  for (let i = 2; names.has(name); i++) name = `${preset.name} (copy ${i})`;
+  return createStylePreset(name, preset.instruction, preset.referenceImage);
+};
+
+export const serializeStylePresets = (presets: StylePreset[]): string => {
+  return JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2);
+};
+
+// Accepts an exported file or a bare array; ids are kept so re-importing a file updates in place
+export const parseStylePresets = (text: string): StylePresetParseResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e: any) {
+    return { presets: [], errors: [`Invalid JSON: ${e.message}`] };
+  }
+
+  const list = Array.isArray(data) ? data : Array.isArray(data?.presets) ? data.presets : null;
+  if (!list) return { presets: [], errors: ['JSON must be an array of presets or an object with a "presets" array'] };
+
+  const errors: string[] = [];
+  const presets: StylePreset[] = [];
+  list.forEach((raw: any, i: number) => {
+    const label = `Preset ${i + 1}`;
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    const instruction = typeof raw?.instruction === 'string' ? raw.instruction.trim() : '';
+    if (!name || !instruction) {
+      errors.push(`${label}: "name" and "instruction" are required`);
+      return;
+    }
+    if (raw.referenceImage !== undefined && !(typeof raw.referenceImage === 'string' && raw.referenceImage.startsWith('data:image/'))) {
+      errors.push(`${label} (${name}): "referenceImage" must be an image data URL`);
+      return;
+    }
+    const preset = createStylePreset(name, instruction, raw.referenceImage);
+    if (typeof raw.id === 'string' && raw.id) preset.id = raw.id;
+    if (typeof raw.createdAt === 'number') preset.createdAt = raw.createdAt;
+    presets.push(preset);
+  });
+  return { presets, errors };
+};
+
+// Reference images are stored with every preset and sent with every render, so keep them small
+const MAX_REFERENCE_DIMENSION = 768;
+
+export const prepareReferenceImage = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Could not read the reference image"));
+    reader.onload = () => {
+      const img = new Image();
+      img.onerror = () => reject(new Error("The reference file is not a supported image"));
+      img.onload = () => {
+        const scale = Math.min(1, MAX_REFERENCE_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.85));
+      };
+      img.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+};
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ImageGenerationModel, ImageSize, PriceTable, UsageBudget, UsageOperation, UsageRecord } from "../types";
+
+export const USAGE_PRICES_SETTING = 'usagePrices';
+export const USAGE_BUDGET_SETTING = 'usageBudget';
+
+// Paid-tier list prices in USD at the time of writing; they can be overridden from the usage dashboard
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3, perImage: 0 },
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12, perImage: 0 },
+  'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10, perImage: 0 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120, perImage: 0 },
+  'imagen-4.0-generate-001': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 }
+};
+
+export const DEFAULT_BUDGET: UsageBudget = { limit: null, mode: 'warn' };
+
+// Typical research or translation call, for estimating a run before it is made
+const ESTIMATED_TEXT_CALL = { model: 'gemini-2.5-flash', inputTokens: 3000, outputTokens: 2000 };
+const ESTIMATED_IMAGE_PROMPT_TOKENS = 800;
+
+// The budget covers what was spent since the app was opened
+export const SESSION_STARTED_AT = Date.now();
+
+let priceTable: PriceTable = DEFAULT_PRICE_TABLE;
+const listeners = new Set<(record: UsageRecord) => void>();
+
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+export const setPriceTable = (prices: PriceTable): void => {
+  priceTable = prices;
+};
+
+// Saved prices only override the models they mention, so models added later still get a default
+export const mergePriceTable = (saved?: PriceTable): PriceTable => ({ ...DEFAULT_PRICE_TABLE, ...saved });
+
+export const getCallCost = (prices: PriceTable, model: string, inputTokens: number, outputTokens: number, images: number): number => {
+  const price = prices[model];
+  if (!price) return 0;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000 + images * price.perImage;
+};
+
+// Output tokens a Gemini image model bills for one image at the given size
+export const getImageOutputTokens = (model: string, size: ImageSize = '1K'): number => {
+  if (model === 'gemini-3-pro-image-preview') return size === '4K' ? 2000 : 1120;
+  if (model === 'gemini-2.5-flash-image') return 1290;
+  return 0;
+};
+
+// Rough token count for text the mock provider pretends to send or receive
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const estimateRunCost = (prices: PriceTable, model: ImageGenerationModel, size: ImageSize, images: number, textCalls: number = 0): number => {
+  const text = textCalls * getCallCost(prices, ESTIMATED_TEXT_CALL.model, ESTIMATED_TEXT_CALL.inputTokens, ESTIMATED_TEXT_CALL.outputTokens, 0);
+  const image = getCallCost(prices, model, ESTIMATED_IMAGE_PROMPT_TOKENS, getImageOutputTokens(model, size), 1);
+  return text + images * image;
+};
+
+export const subscribeToUsage = (listener: (record: UsageRecord) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Providers call this once per response; failed requests are not billed and are not recorded
+export const recordUsage = (operation: UsageOperation, model: string, usage: { inputTokens?: number, outputTokens?: number, images?: number }): void => {
+  const inputTokens = usage.inputTokens || 0;
+  const outputTokens = usage.outputTokens || 0;
+  const images = usage.images || 0;
+  const record: UsageRecord = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    operation,
+    model,
+    inputTokens,
+    outputTokens,
+    images,
+    cost: getCallCost(priceTable, model, inputTokens, outputTokens, images)
+  };
+  listeners.forEach(listener => listener(record));
+};
+
+export const getSessionCost = (records: UsageRecord[]): number => {
+  return records.filter(r => r.timestamp >= SESSION_STARTED_AT).reduce((sum, r) => sum + r.cost, 0);
+};
+
+export const wouldExceedBudget = (budget: UsageBudget, spent: number, estimate: number): boolean => {
+  return budget.limit !== null && spent + estimate > budget.limit;
+};
+
+// Local calendar day as YYYY-MM-DD, so days sort as strings
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const GROUP_KEYS: Record<'day' | 'model' | 'operation', (record: UsageRecord) => string> = {
+  day: record => getDayKey(record.timestamp),
+  model: record => record.model,
+  operation: record => record.operation
+};
+
+// Days come newest first; models and operations most expensive first
+export const summarizeUsage = (records: UsageRecord[], by: 'day' | 'model' | 'operation'): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  records.forEach(record => {
+    const key = GROUP_KEYS[by](record);
+    const summary = groups.get(key) || { key, calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 };
+    summary.calls++;
+    summary.inputTokens += record.inputTokens;
+    summary.outputTokens += record.outputTokens;
+    summary.images += record.images;
+    summary.cost += record.cost;
+    groups.set(key, summary);
+  });
+  const summaries = Array.from(groups.values());
+  return by === 'day' ? summaries.sort((a, b) => b.key.localeCompare(a.key)) : summaries.sort((a, b) => b.cost - a.cost);
+};
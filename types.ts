@@ -15,6 +15,80 @@ export type Language = 'English' | 'Spanish' | 'French' | 'German' | 'Mandarin'
 
 export type ImageGenerationModel = 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview' | 'imagen-4.0-generate-001';
 
+// A named aesthetic the user defined alongside the built-in VisualStyle options
+export interface StylePreset {
+  id: string;
+  name: string;
+  instruction: string; // Used in place of the built-in aesthetic text
+  referenceImage?: string; // Data URL whose look the renderer should match
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A user-defined audience used in place of the built-in ComplexityLevel options
+export interface AudienceProfile {
+  id: string;
+  name: string;
+  readingLevel: string; // e.g. "Grade 5" or "CEFR B1"
+  maxWordsPerLabel: number; // Text density limit for every label and fact
+  vocabulary: string; // Terms to use, avoid or define
+  visualConventions: string; // Icons, diagrams and colour coding this audience expects
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type LogoCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// House palette, typography and voice injected into prompts, plus a logo stamped onto exports
+export interface BrandKit {
+  name: string;
+  palette: string[]; // Hex colours, most prominent first
+  typography: string; // Free-text description of the preferred fonts
+  tone: string; // Tone of voice for titles, labels and facts
+  logo?: string; // PNG data URL
+  logoCorner: LogoCorner;
+}
+
+export type OverlayKind = 'text' | 'callout' | 'arrow';
+
+export type OverlayFont = 'sans' | 'display' | 'serif' | 'mono';
+
+export type OverlayAlign = 'left' | 'center' | 'right';
+
+// Vector annotation drawn over the raster image; coordinates are fractions of the image size
+export interface OverlayElement {
+  id: string;
+  kind: OverlayKind;
+  x: number; // Left edge of a text box, or the tail of an arrow
+  y: number;
+  width: number; // Text box width (unused by arrows)
+  x2?: number; // Arrow head
+  y2?: number;
+  text?: string;
+  font: OverlayFont;
+  fontSize: number; // Fraction of the image height
+  color: string;
+  background?: string; // Callout fill
+  align: OverlayAlign;
+}
+
+export type ProgressStage = 'location' | 'researchSent' | 'groundingReceived' | 'factsParsed' | 'imageSent' | 'imageDecoded';
+
+// A pipeline step as it happened; elapsedMs counts from the start of the user's action
+export interface ProgressEvent {
+  stage: ProgressStage;
+  elapsedMs: number;
+  count?: number; // Grounding chunks, facts or images, depending on the stage
+}
+
+export type ProgressReporter = (stage: ProgressStage, count?: number) => void;
+
+// What a research call has produced so far while its response is still streaming in
+export interface ResearchPreview {
+  facts: string[];
+  searchResults: SearchResultItem[];
+}
+
 export interface GeneratedImage {
   id: string;
   data: string; // Base64 data URL
@@ -26,22 +100,154 @@ export interface GeneratedImage {
   aspectRatio?: AspectRatio;
   model?: ImageGenerationModel;
   size?: ImageSize;
+  research?: ResearchResult; // Facts and sources the image was generated from
+  renderPrompt?: string; // Prompt the first image of this lineage was rendered from, brand and audience instructions included
+  variantGroupId?: string; // Shared by candidates rendered together from the same plan
+  parentId?: string; // Image this one was edited from
+  editInstruction?: string; // Instruction that produced this image from its parent
+  translationOf?: string; // Source image this one is a language version of
+  overlays?: OverlayElement[]; // Editable text, callouts and arrows, flattened into exports
+  stylePreset?: { id: string, name: string }; // Custom aesthetic used instead of style
+  audienceProfile?: AudienceProfile; // Custom audience used instead of level
+  brandLogo?: { data: string, corner: LogoCorner, enabled: boolean }; // Stamped onto exports while enabled
+  timings?: ProgressEvent[]; // Pipeline stages of the run that produced this image
+  fromCache?: { research: boolean, image: boolean }; // Parts of the run answered by the local cache instead of the model
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  isError?: boolean; // Local failure notice, never replayed to the model
+  sources?: SearchResultItem[]; // Grounding the reply's [n] citations refer to, kept so they still resolve in other contexts
 }
 
+export interface ChatConversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A live multi-turn conversation; the provider keeps the turn history between calls
+export interface ChatSession {
+  sendMessage: (message: string) => Promise<string>;
+}
+
+export type SourceType = 'web' | 'maps';
+
+export type SourceTier = 'academic' | 'government' | 'news' | 'encyclopedic' | 'other';
+
 export interface SearchResultItem {
   title: string;
   url: string;
+  type?: SourceType; // Missing on sources saved before Maps results were told apart
+}
+
+// Domains the research should stick to or stay away from; an empty allow list allows every domain
+export interface SourcePolicy {
+  allowDomains: string[];
+  denyDomains: string[];
 }
 
 export interface ResearchResult {
   imagePrompt: string;
   facts: string[];
   searchResults: SearchResultItem[];
+  title?: string;
+  sections?: string[]; // Suggested panels of the infographic layout
+  factConfidence?: number[]; // 0-1 per entry of facts, as reported by the research model
+  reviewed?: boolean; // Edited and approved by the user before rendering
+  cachedAt?: number; // Set when served from the local cache: when the research was originally fetched
+}
+
+export type CacheKind = 'research' | 'image';
+
+// Bookkeeping for one cached result, stored apart from the value so eviction never has to load it
+export interface CacheEntryInfo {
+  key: string;
+  kind: CacheKind;
+  size: number; // Approximate bytes of the stored value
+  createdAt: number;
+}
+
+export type UsageOperation = 'research' | 'image' | 'edit' | 'translate' | 'chat' | 'analysis' | 'transcription' | 'speech';
+
+// One billed call to the model API, priced when it was made
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  operation: UsageOperation;
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // Includes thinking tokens, which are billed as output
+  images: number;
+  cost: number; // USD
+}
+
+// USD list prices; Imagen is billed per image, the Gemini image models by output token
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface UsageBudget {
+  limit: number | null; // USD for the current session; null means no cap
+  mode: BudgetMode;
+}
+
+export type AIProviderName = 'gemini' | 'mock';
+
+// Contract implemented by every AI backend (see services/providers).
+// The trailing signal aborts the underlying request; the call then rejects.
+// onProgress is told about each pipeline stage as the provider reaches it.
+// onPreview receives facts and sources as research streams in; the resolved result is authoritative.
+export interface AIProvider {
+  researchTopicForPrompt: (topic: string, level: ComplexityLevel, style: VisualStyle, language: Language, stylePreset?: StylePreset, brandKit?: BrandKit, audienceProfile?: AudienceProfile, signal?: AbortSignal, onProgress?: ProgressReporter, onPreview?: (preview: ResearchPreview) => void, sourcePolicy?: SourcePolicy) => Promise<ResearchResult>;
+  // referenceImage is a data URL whose visual style the render should follow, where the model accepts images
+  generateInfographicImage: (prompt: string, model: ImageGenerationModel, aspectRatio: AspectRatio, size?: ImageSize, referenceImage?: string, signal?: AbortSignal, onProgress?: ProgressReporter) => Promise<string>;
+  generateInfographicVariants: (prompt: string, model: ImageGenerationModel, aspectRatio: AspectRatio, size: ImageSize, count: number, referenceImage?: string, signal?: AbortSignal, onProgress?: ProgressReporter) => Promise<string[]>;
+  // mask is a black and white PNG data URL; white marks the region the edit may change
+  editInfographicImage: (currentImageBase64: string, editInstruction: string, model: ImageGenerationModel, aspectRatio: AspectRatio, mask?: string, signal?: AbortSignal, onProgress?: ProgressReporter) => Promise<string>;
+  // Translates title, facts and sections; prompt, sources and confidence are kept as they are
+  translateResearch: (research: ResearchResult, language: Language, signal?: AbortSignal) => Promise<ResearchResult>;
+  createChatSession: (history: ChatMessage[], context?: GeneratedImage) => ChatSession;
+  analyzeImage: (imageBase64: string, question: string, context: string, language: Language, signal?: AbortSignal) => Promise<string>;
+  transcribeAudio: (base64Audio: string, mimeType: string, signal?: AbortSignal) => Promise<string>;
+  generateSpeech: (text: string, signal?: AbortSignal) => Promise<string>;
+}
+
+// Inputs the research step depends on; a plan is rendered with the request it was researched for
+export interface ResearchRequest {
+  topic: string;
+  level: ComplexityLevel;
+  style: VisualStyle;
+  language: Language;
+  stylePreset?: StylePreset; // Overrides style when set
+  brandKit?: BrandKit; // Applied to research, image prompt and exports when set
+  audienceProfile?: AudienceProfile; // Overrides level when set
+  sourcePolicy?: SourcePolicy; // Asked for in the research prompt and enforced on the sources it returns
+}
+
+export interface RenderSettings {
+  model: ImageGenerationModel;
+  aspectRatio: AspectRatio;
+  size: ImageSize;
+}
+
+export type BatchItemStatus = 'queued' | 'researching' | 'rendering' | 'done' | 'failed';
+
+export interface BatchItem extends ResearchRequest {
+  id: string;
+  aspectRatio: AspectRatio;
+  status: BatchItemStatus;
+  error?: string;
+  image?: GeneratedImage;
 }
 
 export interface AnalysisResult {
@@ -55,4 +261,8 @@ declare global {
     hasSelectedApiKey: () => Promise<boolean>;
     openSelectKey: () => Promise<void>;
   }
+
+  interface Window {
+    aistudio?: AIStudio;
+  }
 }